@@ -0,0 +1,564 @@
+import {
+  RETRYABLE_ERROR_CODES,
+  type NewsletterClientConfig,
+  type NewsletterDraft,
+  type NewsletterDraftRevision,
+  type NewsletterDraftRevisionSummary,
+  type NewsletterDraftSummary,
+  type NewsletterGenerationJob,
+  type NewsletterProgressEvent,
+  type NewsletterRevisionDiff,
+  type StructuredNewsletter,
+  type TranscriptFormat,
+  type ValidationErrorDetail,
+} from "../types/newsletter";
+import type {
+  NewsletterJobAcceptedResponse,
+  NewsletterSectionRegenerateResponse,
+  NewsletterUploadSuccessResponse,
+} from "../services/validation/newsletterSchemas";
+
+const DEFAULT_RETRY_ATTEMPTS = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export enum NewsletterClientErrorCode {
+  /** The server answered with an error response; `errors` carries its details. */
+  REQUEST_FAILED = "REQUEST_FAILED",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNEXPECTED_RESPONSE = "UNEXPECTED_RESPONSE",
+  ABORTED = "ABORTED",
+}
+
+export class NewsletterClientError extends Error {
+  public readonly code: NewsletterClientErrorCode;
+  /** HTTP status, when the server responded. */
+  public readonly status?: number;
+  /** Field-level details from the server's error envelope; empty when it sent none. */
+  public readonly errors: ValidationErrorDetail[];
+
+  constructor(
+    code: NewsletterClientErrorCode,
+    message: string,
+    options: { status?: number; errors?: ValidationErrorDetail[]; cause?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "NewsletterClientError";
+    this.code = code;
+    this.status = options.status;
+    this.errors = options.errors ?? [];
+
+    if (options.cause !== undefined) {
+      (this as unknown as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  /** True when resubmitting the same request may succeed. */
+  get retryable(): boolean {
+    if (this.code === NewsletterClientErrorCode.NETWORK_ERROR) {
+      return true;
+    }
+
+    if (this.code !== NewsletterClientErrorCode.REQUEST_FAILED) {
+      return false;
+    }
+
+    return (
+      (this.status !== undefined && RETRYABLE_STATUSES.has(this.status)) ||
+      (this.errors.length > 0 &&
+        this.errors.every((error) => error.code && RETRYABLE_ERROR_CODES.includes(error.code)))
+    );
+  }
+}
+
+/** Fields of a multipart generation request, named as the server's upload parser reads them. */
+export interface NewsletterGenerationInput {
+  meetingRecapText: string;
+  transcriptText: string;
+  /** Omitted for plain text; caption files are parsed by the server. */
+  transcriptFormat?: TranscriptFormat;
+  freeformTopic?: string;
+  freeformInstructions?: string;
+  audioDurationSeconds?: number;
+  audio?: Blob;
+}
+
+export interface NewsletterRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface NewsletterGenerationOptions extends NewsletterRequestOptions {
+  /**
+   * Sent as `Idempotency-Key`. Generation requests are only retried when a key is supplied,
+   * since the server can then replay the original response instead of generating twice.
+   */
+  idempotencyKey?: string;
+}
+
+export interface WaitForJobOptions extends NewsletterRequestOptions {
+  onProgress?: (event: NewsletterProgressEvent) => void;
+  /** Polling interval used when server-sent events are unavailable. */
+  pollIntervalMs?: number;
+}
+
+export interface NewsletterClientOptions {
+  /** Prefix for every request path. Defaults to the current origin. */
+  baseUrl?: string;
+  /** Defaults to the global `fetch`, looked up on each request. */
+  fetch?: typeof fetch;
+  /** Defaults to the global `EventSource` when present; jobs are polled otherwise. */
+  EventSource?: typeof EventSource;
+  retry?: {
+    /** Additional attempts after the first failure. */
+    attempts?: number;
+    /** Base delay, doubled after each failed attempt. */
+    delayMs?: number;
+  };
+}
+
+/**
+ * Typed access to the newsletter API. Reads, and generations sent with an idempotency key,
+ * are retried on network errors and retryable server failures; every method accepts an
+ * `AbortSignal`.
+ */
+export interface NewsletterClient {
+  getConfig: (options?: NewsletterRequestOptions) => Promise<NewsletterClientConfig>;
+  generateNewsletter: (
+    input: NewsletterGenerationInput,
+    options?: NewsletterGenerationOptions,
+  ) => Promise<NewsletterUploadSuccessResponse>;
+  startGenerationJob: (
+    input: NewsletterGenerationInput,
+    options?: NewsletterGenerationOptions,
+  ) => Promise<NewsletterJobAcceptedResponse>;
+  getJob: (jobId: string, options?: NewsletterRequestOptions) => Promise<NewsletterGenerationJob>;
+  /** Resolves with the job once it has succeeded or failed, reporting stage events on the way. */
+  waitForJob: (jobId: string, options?: WaitForJobOptions) => Promise<NewsletterGenerationJob>;
+  listDrafts: (options?: NewsletterRequestOptions) => Promise<NewsletterDraftSummary[]>;
+  getDraft: (id: string, options?: NewsletterRequestOptions) => Promise<NewsletterDraft>;
+  updateDraft: (
+    id: string,
+    sections: StructuredNewsletter,
+    options?: NewsletterRequestOptions & { author?: string },
+  ) => Promise<NewsletterDraft>;
+  /** Resolves false when the draft did not exist; a 404 on a retry counts as deleted. */
+  deleteDraft: (id: string, options?: NewsletterRequestOptions) => Promise<boolean>;
+  regenerateSection: (
+    draftId: string,
+    sectionId: string,
+    instructions?: string,
+    options?: NewsletterRequestOptions,
+  ) => Promise<NewsletterSectionRegenerateResponse>;
+  listRevisions: (
+    draftId: string,
+    options?: NewsletterRequestOptions,
+  ) => Promise<NewsletterDraftRevisionSummary[]>;
+  getRevision: (
+    draftId: string,
+    revisionId: string,
+    options?: NewsletterRequestOptions,
+  ) => Promise<NewsletterDraftRevision>;
+  diffRevisions: (
+    draftId: string,
+    fromRevisionId: string,
+    toRevisionId: string,
+    options?: NewsletterRequestOptions,
+  ) => Promise<NewsletterRevisionDiff>;
+  restoreRevision: (
+    draftId: string,
+    revisionId: string,
+    options?: NewsletterRequestOptions & { author?: string },
+  ) => Promise<NewsletterDraft>;
+}
+
+interface RequestDescriptor {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  path: string;
+  body?: FormData | unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Whether repeating the request is safe. */
+  retryable: boolean;
+  /** Statuses treated as success with a null body. */
+  allowStatuses?: number[];
+}
+
+export const createNewsletterClient = ({
+  baseUrl = "",
+  fetch: fetchImplementation,
+  EventSource: EventSourceImplementation,
+  retry = {},
+}: NewsletterClientOptions = {}): NewsletterClient => {
+  const maxAttempts = 1 + Math.max(0, retry.attempts ?? DEFAULT_RETRY_ATTEMPTS);
+  const retryDelayMs = Math.max(0, retry.delayMs ?? DEFAULT_RETRY_DELAY_MS);
+  const draftPath = (id: string) => `/newsletters/${encodeURIComponent(id)}`;
+
+  const send = async ({
+    method,
+    path,
+    body,
+    headers,
+    signal,
+  }: RequestDescriptor): Promise<{ status: number; ok: boolean; data: unknown }> => {
+    const isForm = typeof FormData !== "undefined" && body instanceof FormData;
+    const init: RequestInit = { method, signal };
+
+    if (body !== undefined) {
+      init.body = isForm ? (body as FormData) : JSON.stringify(body);
+    }
+    if (headers || (body !== undefined && !isForm)) {
+      init.headers = {
+        ...(body !== undefined && !isForm ? { "Content-Type": "application/json" } : {}),
+        ...headers,
+      };
+    }
+
+    let response: Response;
+    try {
+      response = await (fetchImplementation ?? globalThis.fetch)(`${baseUrl}${path}`, init);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw abortedError(error);
+      }
+      throw new NewsletterClientError(
+        NewsletterClientErrorCode.NETWORK_ERROR,
+        "Network error while contacting the newsletter service.",
+        { cause: error },
+      );
+    }
+
+    const data: unknown = await response.json().catch(() => null);
+    return { status: response.status, ok: response.ok, data };
+  };
+
+  const request = async <T>(
+    descriptor: RequestDescriptor,
+    readData: (data: unknown, status: number, attempt: number) => T | undefined,
+  ): Promise<T> => {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        const { status, ok, data } = await send(descriptor);
+
+        if (!ok && !descriptor.allowStatuses?.includes(status)) {
+          throw new NewsletterClientError(
+            NewsletterClientErrorCode.REQUEST_FAILED,
+            `Request to ${descriptor.path} failed with status ${status}.`,
+            { status, errors: readErrors(data) },
+          );
+        }
+
+        const result = readData(ok ? data : null, status, attempt);
+        if (result === undefined) {
+          throw new NewsletterClientError(
+            NewsletterClientErrorCode.UNEXPECTED_RESPONSE,
+            "Received an unexpected response from the server.",
+            { status },
+          );
+        }
+
+        return result;
+      } catch (error) {
+        const canRetry =
+          descriptor.retryable &&
+          attempt < maxAttempts &&
+          error instanceof NewsletterClientError &&
+          error.retryable;
+
+        if (!canRetry) {
+          throw error;
+        }
+
+        await delay(retryDelayMs * 2 ** (attempt - 1), descriptor.signal);
+      }
+    }
+  };
+
+  const buildGenerationRequest = (
+    path: string,
+    input: NewsletterGenerationInput,
+    { signal, idempotencyKey }: NewsletterGenerationOptions,
+  ): RequestDescriptor => ({
+    method: "POST",
+    path,
+    body: buildGenerationForm(input),
+    headers: idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : undefined,
+    signal,
+    retryable: Boolean(idempotencyKey),
+  });
+
+  const getJob: NewsletterClient["getJob"] = (jobId, { signal } = {}) =>
+    request(
+      {
+        method: "GET",
+        path: `/newsletters/jobs/${encodeURIComponent(jobId)}`,
+        signal,
+        retryable: true,
+      },
+      (data) => readProperty<NewsletterGenerationJob>(data, "job"),
+    );
+
+  /**
+   * Follows the job's event stream. If the connection fails, the job is polled instead,
+   * reporting only the stage events the stream had not delivered; an unreadable event rejects.
+   */
+  const followJobEvents = (
+    Source: typeof EventSource,
+    jobId: string,
+    options: WaitForJobOptions,
+  ): Promise<NewsletterGenerationJob> =>
+    new Promise((resolve, reject) => {
+      const { onProgress, signal } = options;
+      const source = new Source(`${baseUrl}/newsletters/jobs/${encodeURIComponent(jobId)}/events`);
+      let reported = 0;
+      let settled = false;
+
+      const finish = () => {
+        settled = true;
+        source.close();
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        reject(abortedError(signal?.reason));
+      };
+      const fallBackToPolling = () => {
+        finish();
+        pollJob(jobId, options, reported).then(resolve, reject);
+      };
+      const rejectUnreadable = () => {
+        finish();
+        reject(
+          new NewsletterClientError(
+            NewsletterClientErrorCode.UNEXPECTED_RESPONSE,
+            "Received an unreadable event from the newsletter progress stream.",
+          ),
+        );
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      source.addEventListener("stage", (message) => {
+        const event = readEventData<NewsletterProgressEvent>(message);
+        if (settled) {
+          return;
+        }
+        if (!event) {
+          rejectUnreadable();
+          return;
+        }
+
+        reported += 1;
+        onProgress?.(event);
+      });
+
+      source.addEventListener("done", (message) => {
+        const job = readProperty<NewsletterGenerationJob>(readEventData(message), "job");
+        if (settled) {
+          return;
+        }
+        if (!job) {
+          rejectUnreadable();
+          return;
+        }
+
+        finish();
+        resolve(job);
+      });
+
+      source.onerror = () => {
+        if (!settled) {
+          fallBackToPolling();
+        }
+      };
+    });
+
+  const pollJob = async (
+    jobId: string,
+    { onProgress, signal, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS }: WaitForJobOptions,
+    alreadyReported = 0,
+  ): Promise<NewsletterGenerationJob> => {
+    let reported = alreadyReported;
+
+    for (;;) {
+      const job = await getJob(jobId, { signal });
+      job.progress.slice(reported).forEach((event) => onProgress?.(event));
+      reported = Math.max(reported, job.progress.length);
+
+      if (job.status === "succeeded" || job.status === "failed") {
+        return job;
+      }
+
+      await delay(pollIntervalMs, signal);
+    }
+  };
+
+  return {
+    getConfig: ({ signal } = {}) =>
+      request({ method: "GET", path: "/newsletters/config", signal, retryable: true }, (data) =>
+        isRecord(data) && isRecord(data.limits)
+          ? (data as unknown as NewsletterClientConfig)
+          : undefined,
+      ),
+    generateNewsletter: (input, options = {}) =>
+      request(buildGenerationRequest("/newsletters", input, options), (data) =>
+        isRecord(data) && data.payload && data.newsletter
+          ? (data as unknown as NewsletterUploadSuccessResponse)
+          : undefined,
+      ),
+    startGenerationJob: (input, options = {}) =>
+      request(buildGenerationRequest("/newsletters?async=true", input, options), (data) =>
+        isRecord(data) && typeof data.jobId === "string"
+          ? (data as unknown as NewsletterJobAcceptedResponse)
+          : undefined,
+      ),
+    getJob,
+    waitForJob: (jobId, options = {}) => {
+      const Source =
+        EventSourceImplementation ?? (typeof EventSource !== "undefined" ? EventSource : undefined);
+      return Source ? followJobEvents(Source, jobId, options) : pollJob(jobId, options);
+    },
+    listDrafts: ({ signal } = {}) =>
+      request({ method: "GET", path: "/newsletters", signal, retryable: true }, (data) => {
+        const drafts = readProperty<NewsletterDraftSummary[]>(data, "drafts");
+        return Array.isArray(drafts) ? drafts : undefined;
+      }),
+    getDraft: (id, { signal } = {}) =>
+      request({ method: "GET", path: draftPath(id), signal, retryable: true }, (data) =>
+        readProperty<NewsletterDraft>(data, "draft"),
+      ),
+    updateDraft: (id, sections, { signal, author } = {}) =>
+      request(
+        {
+          method: "PUT",
+          path: draftPath(id),
+          body: author ? { sections, author } : { sections },
+          signal,
+          retryable: true,
+        },
+        (data) => readProperty<NewsletterDraft>(data, "draft"),
+      ),
+    deleteDraft: (id, { signal } = {}) =>
+      request(
+        { method: "DELETE", path: draftPath(id), signal, retryable: true, allowStatuses: [404] },
+        // A retry can find the draft gone because the attempt whose response was lost deleted it.
+        (_data, status, attempt) => status !== 404 || attempt > 1,
+      ),
+    regenerateSection: (draftId, sectionId, instructions, { signal } = {}) =>
+      request(
+        {
+          method: "POST",
+          path: `${draftPath(draftId)}/sections/${encodeURIComponent(sectionId)}/regenerate`,
+          body: instructions ? { instructions } : {},
+          signal,
+          retryable: false,
+        },
+        (data) =>
+          isRecord(data) && data.section
+            ? (data as unknown as NewsletterSectionRegenerateResponse)
+            : undefined,
+      ),
+    listRevisions: (draftId, { signal } = {}) =>
+      request(
+        { method: "GET", path: `${draftPath(draftId)}/revisions`, signal, retryable: true },
+        (data) => {
+          const revisions = readProperty<NewsletterDraftRevisionSummary[]>(data, "revisions");
+          return Array.isArray(revisions) ? revisions : undefined;
+        },
+      ),
+    getRevision: (draftId, revisionId, { signal } = {}) =>
+      request(
+        {
+          method: "GET",
+          path: `${draftPath(draftId)}/revisions/${encodeURIComponent(revisionId)}`,
+          signal,
+          retryable: true,
+        },
+        (data) => readProperty<NewsletterDraftRevision>(data, "revision"),
+      ),
+    diffRevisions: (draftId, fromRevisionId, toRevisionId, { signal } = {}) => {
+      const query = new URLSearchParams({ from: fromRevisionId, to: toRevisionId });
+      return request(
+        {
+          method: "GET",
+          path: `${draftPath(draftId)}/diff?${query.toString()}`,
+          signal,
+          retryable: true,
+        },
+        (data) => readProperty<NewsletterRevisionDiff>(data, "diff"),
+      );
+    },
+    restoreRevision: (draftId, revisionId, { signal, author } = {}) =>
+      request(
+        {
+          method: "POST",
+          path: `${draftPath(draftId)}/revisions/${encodeURIComponent(revisionId)}/restore`,
+          body: author ? { author } : {},
+          signal,
+          retryable: false,
+        },
+        (data) => readProperty<NewsletterDraft>(data, "draft"),
+      ),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readProperty = <T>(data: unknown, key: string): T | undefined =>
+  isRecord(data) && data[key] ? (data[key] as T) : undefined;
+
+const readErrors = (data: unknown): ValidationErrorDetail[] | undefined => {
+  const errors = isRecord(data) ? data.errors : undefined;
+  return Array.isArray(errors) ? (errors as ValidationErrorDetail[]) : undefined;
+};
+
+/** Parses a server-sent event's JSON data; undefined when it is not valid JSON. */
+const readEventData = <T>(message: Event): T | undefined => {
+  try {
+    return JSON.parse((message as MessageEvent<string>).data) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const buildGenerationForm = ({ audio, ...fields }: NewsletterGenerationInput): FormData => {
+  const form = new FormData();
+
+  Object.entries(fields).forEach(([name, value]) => {
+    if (value !== undefined) {
+      form.append(name, String(value));
+    }
+  });
+
+  if (audio) {
+    form.append("audio", audio);
+  }
+
+  return form;
+};
+
+const abortedError = (cause: unknown): NewsletterClientError =>
+  new NewsletterClientError(NewsletterClientErrorCode.ABORTED, "The request was cancelled.", {
+    cause,
+  });
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
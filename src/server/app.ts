@@ -0,0 +1,160 @@
+import fs from "fs";
+import type { Server } from "http";
+import path from "path";
+
+import type { Express, NextFunction, Request, Response } from "express";
+import express from "express";
+
+import { createJsonLogger, type Logger } from "../services/logging/logger";
+import { serializeNewsletterUploadErrorResponse } from "../services/validation/newsletterSchemas";
+import type { ValidationErrorDetail } from "../types/newsletter";
+import { createNewslettersRouter, type NewslettersRouterOptions } from "./routes/newsletters";
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10_000;
+const PAGE_ENTRY_FILE = "index.html";
+const API_PATH_PATTERN = /^\/(newsletters|metrics|healthz|readyz)(\/|$)/;
+
+const INTERNAL_ERROR: ValidationErrorDetail = {
+  field: "form",
+  message: "Something went wrong on our side. Please try again.",
+  code: "INTERNAL_ERROR",
+};
+
+const INVALID_REQUEST_ERROR: ValidationErrorDetail = {
+  field: "body",
+  message: "The request could not be processed. Check the request and try again.",
+  code: "INVALID_FORMAT",
+};
+
+export interface AppConfig {
+  /** Adapters, storage and limits for the mounted newsletter API. */
+  newsletters?: NewslettersRouterOptions;
+  /**
+   * Directory holding the built `NewsletterGeneratorPage` bundle. Page routes fall back to its
+   * `index.html`; static hosting is skipped when omitted.
+   */
+  staticDirectory?: string;
+  /** Shared with the router unless `newsletters.logger` is set. */
+  logger?: Logger;
+  /** How long in-flight requests may run after shutdown starts before sockets are dropped. */
+  shutdownTimeoutMs?: number;
+}
+
+export interface NewsletterApp {
+  app: Express;
+  /** Resolves once the server is accepting connections. */
+  listen: (port: number, host?: string) => Promise<Server>;
+  /** Stops accepting connections and lets in-flight requests finish, up to the shutdown timeout. */
+  close: () => Promise<void>;
+}
+
+/**
+ * Composes the newsletter API, static page hosting and a JSON error handler into an Express
+ * application, with graceful shutdown for the server it starts.
+ */
+export const createApp = (config: AppConfig = {}): NewsletterApp => {
+  const logger = config.logger ?? createJsonLogger();
+  const shutdownTimeoutMs = config.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+  const app = express();
+  let server: Server | undefined;
+  let shuttingDown = false;
+
+  app.disable("x-powered-by");
+
+  app.use((_req: Request, res: Response, next: NextFunction) => {
+    if (shuttingDown) {
+      // Ask keep-alive clients to reconnect elsewhere instead of reusing a closing socket.
+      res.set("Connection", "close");
+    }
+    next();
+  });
+
+  app.use(createNewslettersRouter({ logger, ...config.newsletters }));
+
+  if (config.staticDirectory) {
+    const staticDirectory = path.resolve(config.staticDirectory);
+    const pageEntry = path.join(staticDirectory, PAGE_ENTRY_FILE);
+
+    app.use(express.static(staticDirectory));
+    app.get("*", (req: Request, res: Response, next: NextFunction) => {
+      if (API_PATH_PATTERN.test(req.path) || !req.accepts("html") || !fs.existsSync(pageEntry)) {
+        next();
+        return;
+      }
+      res.sendFile(pageEntry);
+    });
+  }
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json(
+      serializeNewsletterUploadErrorResponse([
+        {
+          field: "path",
+          message: `No route matches ${req.method} ${req.path}.`,
+          code: "NOT_FOUND",
+        },
+      ]),
+    );
+  });
+
+  app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+
+    const status = getClientErrorStatus(error);
+    const requestLogger = (res.locals.logger as Logger | undefined) ?? logger;
+
+    if (status) {
+      requestLogger.warn("Rejected malformed request", { status, path: req.path, error });
+      res.status(status).json(serializeNewsletterUploadErrorResponse([INVALID_REQUEST_ERROR]));
+      return;
+    }
+
+    requestLogger.error("Unhandled request error", { path: req.path, error });
+    res.status(500).json(serializeNewsletterUploadErrorResponse([INTERNAL_ERROR]));
+  });
+
+  return {
+    app,
+    listen: (port, host) =>
+      new Promise<Server>((resolve, reject) => {
+        const listening = app.listen(port, host ?? "0.0.0.0", () => {
+          listening.off("error", reject);
+          resolve(listening);
+        });
+        listening.once("error", reject);
+        server = listening;
+      }),
+    close: async () => {
+      const closing = server;
+      if (!closing || shuttingDown) {
+        return;
+      }
+
+      shuttingDown = true;
+      await new Promise<void>((resolve) => {
+        const forceClose = setTimeout(() => {
+          logger.warn("Shutdown timeout reached; closing open connections", { shutdownTimeoutMs });
+          closing.closeAllConnections();
+        }, shutdownTimeoutMs);
+        forceClose.unref();
+
+        closing.close(() => {
+          clearTimeout(forceClose);
+          resolve();
+        });
+        closing.closeIdleConnections();
+      });
+    },
+  };
+};
+
+/** Errors raised by body parsers and similar middleware carry a 4xx `status`. */
+const getClientErrorStatus = (error: unknown): number | undefined => {
+  const candidate = error as { status?: unknown; statusCode?: unknown } | null | undefined;
+  const status = candidate?.status ?? candidate?.statusCode;
+
+  return typeof status === "number" && status >= 400 && status < 500 ? status : undefined;
+};
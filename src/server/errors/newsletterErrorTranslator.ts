@@ -0,0 +1,133 @@
+import { AudioSummarizerError, AudioSummarizerErrorCode } from "../../services/audioSummarizer";
+import {
+  TranscriptSynthesizerError,
+  TranscriptSynthesizerErrorCode,
+} from "../../services/transcriptSynthesizer";
+import type { NewsletterServiceErrorCode, ValidationErrorDetail } from "../../types/newsletter";
+
+export interface TranslatedNewsletterError {
+  status: number;
+  error: ValidationErrorDetail;
+}
+
+interface ErrorTranslation {
+  status: number;
+  code: NewsletterServiceErrorCode;
+  field: string;
+  message: string;
+}
+
+const TRANSCRIPT_ERROR_TRANSLATIONS: Record<TranscriptSynthesizerErrorCode, ErrorTranslation> = {
+  [TranscriptSynthesizerErrorCode.NO_CONTENT_PROVIDED]: {
+    status: 422,
+    code: "NO_CONTENT_PROVIDED",
+    field: "meetingRecap",
+    message: "Add a meeting recap or transcript so there is something to summarize.",
+  },
+  [TranscriptSynthesizerErrorCode.SUMMARY_FAILED]: {
+    status: 502,
+    code: "SUMMARY_FAILED",
+    field: "form",
+    message: "We couldn’t summarize the recap and transcript right now. Please try again.",
+  },
+  [TranscriptSynthesizerErrorCode.DECISION_EXTRACTION_FAILED]: {
+    status: 502,
+    code: "DECISION_EXTRACTION_FAILED",
+    field: "form",
+    message: "We couldn’t extract key decisions right now. Please try again.",
+  },
+  [TranscriptSynthesizerErrorCode.ACTION_ITEM_EXTRACTION_FAILED]: {
+    status: 502,
+    code: "ACTION_ITEM_EXTRACTION_FAILED",
+    field: "form",
+    message: "We couldn’t extract action items right now. Please try again.",
+  },
+  [TranscriptSynthesizerErrorCode.INSIGHT_EXTRACTION_FAILED]: {
+    status: 502,
+    code: "INSIGHT_EXTRACTION_FAILED",
+    field: "form",
+    message: "We couldn’t extract highlights and insights right now. Please try again.",
+  },
+};
+
+const AUDIO_ERROR_TRANSLATIONS: Record<AudioSummarizerErrorCode, ErrorTranslation> = {
+  [AudioSummarizerErrorCode.AUDIO_NOT_PROVIDED]: {
+    status: 422,
+    code: "AUDIO_NOT_PROVIDED",
+    field: "audio",
+    message: "Attach the meeting audio to generate audio highlights.",
+  },
+  [AudioSummarizerErrorCode.AUDIO_LIMIT_EXCEEDED]: {
+    status: 413,
+    code: "AUDIO_LIMIT_EXCEEDED",
+    field: "audio",
+    message: "The audio is longer or larger than we can process. Upload a shorter clip.",
+  },
+  [AudioSummarizerErrorCode.INVALID_AUDIO_METADATA]: {
+    status: 422,
+    code: "INVALID_AUDIO_METADATA",
+    field: "audio.durationSeconds",
+    message: "Check the audio duration and try again.",
+  },
+  [AudioSummarizerErrorCode.AUDIO_SOURCE_NOT_ALLOWED]: {
+    status: 422,
+    code: "AUDIO_SOURCE_NOT_ALLOWED",
+    field: "audio.url",
+    message: "Audio can’t be fetched from that location. Use an approved storage link or upload the file.",
+  },
+  [AudioSummarizerErrorCode.AUDIO_FETCH_FAILED]: {
+    status: 502,
+    code: "AUDIO_FETCH_FAILED",
+    field: "audio.url",
+    message: "We couldn’t download the audio right now. Please try again.",
+  },
+  [AudioSummarizerErrorCode.TRANSCRIPTION_FAILED]: {
+    status: 502,
+    code: "TRANSCRIPTION_FAILED",
+    field: "audio",
+    message: "We couldn’t transcribe the audio right now. Please try again.",
+  },
+  [AudioSummarizerErrorCode.EMPTY_TRANSCRIPT]: {
+    status: 422,
+    code: "EMPTY_TRANSCRIPT",
+    field: "audio",
+    message: "No speech was detected in the audio. Check the recording and upload it again.",
+  },
+  [AudioSummarizerErrorCode.HIGHLIGHT_GENERATION_FAILED]: {
+    status: 502,
+    code: "HIGHLIGHT_GENERATION_FAILED",
+    field: "audio",
+    message: "We couldn’t generate audio highlights right now. Please try again.",
+  },
+};
+
+/**
+ * Turns a failure raised while generating or regenerating newsletter content into an HTTP
+ * status and a user-facing error detail with a stable `code`. Errors without a known code
+ * fall back to the caller's generic detail and a 500.
+ */
+export const translateNewsletterError = (
+  error: unknown,
+  fallback: ValidationErrorDetail,
+): TranslatedNewsletterError => {
+  const translation = findTranslation(error);
+
+  if (!translation) {
+    return { status: 500, error: fallback };
+  }
+
+  const { status, code, field, message } = translation;
+  return { status, error: { field, message, code } };
+};
+
+const findTranslation = (error: unknown): ErrorTranslation | undefined => {
+  if (error instanceof TranscriptSynthesizerError) {
+    return TRANSCRIPT_ERROR_TRANSLATIONS[error.code];
+  }
+
+  if (error instanceof AudioSummarizerError) {
+    return AUDIO_ERROR_TRANSLATIONS[error.code];
+  }
+
+  return undefined;
+};
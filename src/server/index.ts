@@ -0,0 +1,90 @@
+import path from "path";
+
+import { loadNewsletterConfig } from "../services/config/newsletterConfig";
+import { createInMemoryIdempotencyStore } from "../services/idempotency/idempotencyStore";
+import { createFileNewsletterDraftStorage } from "../services/drafts/newsletterDraftRepository";
+import { createJsonLogger, parseLogLevel } from "../services/logging/logger";
+import { createApp } from "./app";
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_DRAFTS_DIRECTORY = path.join(process.cwd(), "data", "drafts");
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
+
+/**
+ * Runs the newsletter server. Settings come from the environment:
+ * `PORT`, `HOST`, `NEWSLETTER_STATIC_DIR`, `NEWSLETTER_DRAFTS_DIR`, `NEWSLETTER_UPLOAD_DIR`,
+ * `NEWSLETTER_LOG_LEVEL`, `NEWSLETTER_IDEMPOTENCY_TTL_MS`, `NEWSLETTER_READINESS_TIMEOUT_MS`,
+ * `NEWSLETTER_AUDIO_URL_HOSTS` (comma separated), `NEWSLETTER_AUDIO_FETCH_TIMEOUT_MS` and
+ * `NEWSLETTER_SHUTDOWN_TIMEOUT_MS`. Limits are loaded by
+ * `loadNewsletterConfig` from `NEWSLETTER_CONFIG_FILE` and `NEWSLETTER_LIMIT_ENVIRONMENT_VARIABLES`.
+ * The page is only served when `NEWSLETTER_STATIC_DIR` points at a built bundle.
+ */
+const start = async (env: NodeJS.ProcessEnv = process.env): Promise<void> => {
+  const logger = createJsonLogger({ level: parseLogLevel(env.NEWSLETTER_LOG_LEVEL) });
+  const port = readPositiveInteger(env, "PORT") ?? DEFAULT_PORT;
+  const host = env.HOST?.trim() || undefined;
+  const config = loadNewsletterConfig({ env });
+
+  const { listen, close } = createApp({
+    logger,
+    staticDirectory: env.NEWSLETTER_STATIC_DIR?.trim() || undefined,
+    shutdownTimeoutMs: readPositiveInteger(env, "NEWSLETTER_SHUTDOWN_TIMEOUT_MS"),
+    newsletters: {
+      limits: config.limits,
+      storage: createFileNewsletterDraftStorage({
+        directory: env.NEWSLETTER_DRAFTS_DIR?.trim() || DEFAULT_DRAFTS_DIRECTORY,
+      }),
+      idempotencyStore: createInMemoryIdempotencyStore({
+        ttlMs: readPositiveInteger(env, "NEWSLETTER_IDEMPOTENCY_TTL_MS"),
+      }),
+      readiness: {
+        timeoutMs: readPositiveInteger(env, "NEWSLETTER_READINESS_TIMEOUT_MS"),
+      },
+      uploadDirectory: env.NEWSLETTER_UPLOAD_DIR?.trim() || undefined,
+      audioSources: {
+        allowedHosts: readList(env, "NEWSLETTER_AUDIO_URL_HOSTS"),
+        timeoutMs: readPositiveInteger(env, "NEWSLETTER_AUDIO_FETCH_TIMEOUT_MS"),
+      },
+    },
+  });
+
+  const server = await listen(port, host);
+  logger.info("Newsletter server listening", { address: server.address() });
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    logger.info("Shutting down newsletter server", { signal });
+    close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        logger.error("Failed to shut down cleanly", { error });
+        process.exit(1);
+      });
+  };
+
+  SHUTDOWN_SIGNALS.forEach((signal) => process.once(signal, shutdown));
+};
+
+const readPositiveInteger = (env: NodeJS.ProcessEnv, name: string): number | undefined => {
+  const raw = env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, received "${raw}".`);
+  }
+
+  return value;
+};
+
+const readList = (env: NodeJS.ProcessEnv, name: string): string[] =>
+  (env[name] ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+start().catch((error) => {
+  console.error("Failed to start newsletter server", error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import type { Request, Response } from "express";
+import { Router } from "express";
+
+import {
+  runReadinessProbes,
+  type ReadinessProbe,
+} from "../../services/health/readinessProbes";
+import type { Logger } from "../../services/logging/logger";
+
+export interface HealthRouterOptions {
+  probes: ReadinessProbe[];
+  /** Per-probe budget for `GET /readyz`. */
+  timeoutMs?: number;
+  logger: Logger;
+}
+
+/**
+ * Serves `GET /healthz`, which only confirms the process is responsive, and `GET /readyz`,
+ * which probes each adapter and answers 503 when any of them cannot serve requests.
+ */
+export const createHealthRouter = ({ probes, timeoutMs, logger }: HealthRouterOptions): Router => {
+  const router = Router();
+
+  router.get("/healthz", (_req: Request, res: Response): void => {
+    res.set("Cache-Control", "no-store");
+    res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  router.get("/readyz", async (_req: Request, res: Response): Promise<void> => {
+    const report = await runReadinessProbes(probes, { timeoutMs });
+    const unhealthy = report.checks.filter(
+      (check) => check.status === "failed" || check.status === "timeout",
+    );
+
+    if (unhealthy.length > 0) {
+      logger.warn("Readiness probes failed", { checks: unhealthy });
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.status(report.status === "ready" ? 200 : 503).json(report);
+  });
+
+  return router;
+};
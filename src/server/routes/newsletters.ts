@@ -1,5 +1,7 @@
+import { randomUUID } from "crypto";
+
 import type { NextFunction, Request, Response } from "express";
-import { Router } from "express";
+import express, { Router } from "express";
 import multer from "multer";
 
 import {
@@ -7,134 +9,1124 @@ import {
   type UploadedFileDescriptor,
 } from "../../services/validation/newsletterUploadValidator";
 import {
+  parseNewsletterDraftUpdateRequest,
+  parseNewsletterJsonRequest,
+  parseNewsletterRevisionRestoreRequest,
+  parseNewsletterSectionRegenerateRequest,
   parseNewsletterUploadRequest,
+  serializeNewsletterDraftListResponse,
+  serializeNewsletterDraftResponse,
+  serializeNewsletterDraftRevisionListResponse,
+  serializeNewsletterDraftRevisionResponse,
+  serializeNewsletterRevisionDiffResponse,
+  serializeNewsletterSectionRegenerateResponse,
+  serializeNewsletterJobAcceptedResponse,
+  serializeNewsletterJobStatusResponse,
   serializeNewsletterUploadErrorResponse,
   serializeNewsletterUploadSuccessResponse,
+  serializeNewsletterConfigResponse,
+  NEWSLETTER_AUDIO_FILE_FIELD,
 } from "../../services/validation/newsletterSchemas";
-import { assembleNewsletter } from "../../services/newsletterAssembler";
+import {
+  buildNewsletterOpenApiDocument,
+  NEWSLETTER_OPENAPI_PATH,
+} from "../../services/validation/newsletterOpenApi";
+import { NewsletterConfigError, parseNewsletterConfig } from "../../services/config/newsletterConfig";
+import {
+  assembleNewsletter,
+  regenerateNewsletterSection,
+  type RegeneratedNewsletterSection,
+} from "../../services/newsletterAssembler";
 import {
   summarizeMeetingAudio,
   createDefaultAudioSummarizerDependencies,
+  type AudioSummarizerDependencies,
+  type SummarizeMeetingAudioOptions,
 } from "../../services/audioSummarizer";
 import {
+  runSynthesisStage,
   synthesizeMeetingContent,
   createDefaultTranscriptSynthesizerDependencies,
+  type SynthesizeMeetingContentOptions,
+  type TranscriptSynthesizerDependencies,
 } from "../../services/transcriptSynthesizer";
-import { createDefaultFreeformTopicGenerator } from "../../services/freeformTopicGenerator";
-import type { ValidationErrorDetail } from "../../types/newsletter";
-
-const MAX_UPLOAD_SIZE_BYTES = 200 * 1024 * 1024; // Keep in sync with validator guard rail
+import {
+  createDefaultFreeformTopicGenerator,
+  type GenerateFreeformTopic,
+} from "../../services/freeformTopicGenerator";
+import {
+  createInMemoryNewsletterJobStore,
+  type NewsletterJobStore,
+} from "../../services/jobs/newsletterJobStore";
+import {
+  createInMemoryNewsletterDraftStorage,
+  createNewsletterDraftRepository,
+  type NewsletterDraftRepository,
+  type NewsletterDraftStorage,
+} from "../../services/drafts/newsletterDraftRepository";
+import {
+  createInMemoryIdempotencyStore,
+  createRequestFingerprint,
+  type IdempotencyReservation,
+  type IdempotencyStore,
+} from "../../services/idempotency/idempotencyStore";
+import { createJsonLogger, type Logger } from "../../services/logging/logger";
+import {
+  createMetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+  type MetricsRegistry,
+} from "../../services/metrics/metricsRegistry";
+import {
+  createNewsletterMetrics,
+  type NewsletterMetrics,
+} from "../../services/metrics/newsletterMetrics";
+import {
+  READINESS_ADAPTERS,
+  type ReadinessAdapter,
+  type ReadinessProbe,
+} from "../../services/health/readinessProbes";
+import {
+  combineProgressReporters,
+  logProgressReporterFailures,
+  type ProgressReporter,
+} from "../../services/pipelineProgress";
+import type { AudioDataSource } from "../../services/uploads/audioDataSource";
+import { createHttpAudioFetcher } from "../../services/uploads/audioFetcher";
+import { translateNewsletterError } from "../errors/newsletterErrorTranslator";
+import { createHealthRouter } from "./health";
+import {
+  createTemporaryAudioStorage,
+  toAudioDataSource,
+  type SpooledAudioFile,
+} from "../uploads/temporaryAudioStorage";
+import type {
+  NewsletterDraft,
+  NewsletterGenerationJob,
+  NewsletterGenerationResponse,
+  NewsletterLimits,
+  NewsletterProgressEvent,
+  NewsletterUploadPayload,
+  ValidationErrorDetail,
+} from "../../types/newsletter";
 
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: MAX_UPLOAD_SIZE_BYTES,
-    files: 1,
-  },
-});
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]+$/;
+const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+const CORRELATION_ID_HEADER = "X-Correlation-Id";
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+const BUILTIN_ADAPTER_VERSION = "builtin";
+const READINESS_PROBE_DRAFT_ID = "readiness-probe";
+const READINESS_PROBE_TEXT = "Readiness probe.";
 
 type MulterRequest = Request & {
   file?: Express.Multer.File;
 };
 
-const toUploadedFileDescriptor = (
-  file: Express.Multer.File,
-): UploadedFileDescriptor => ({
+const toUploadedFileDescriptor = (file: Express.Multer.File): UploadedFileDescriptor => ({
   mimetype: file.mimetype,
   originalname: file.originalname,
   size: file.size,
-  buffer: file.buffer ? new Uint8Array(file.buffer) : undefined,
+  // Uploads are always stored by `createTemporaryAudioStorage`, which records the hash.
+  data: toAudioDataSource(file as SpooledAudioFile),
 });
 
-const newslettersRouter = Router();
+const GENERATION_FAILED_ERROR: ValidationErrorDetail = {
+  field: "form",
+  message: "Unable to assemble newsletter content. Please try again.",
+  code: "GENERATION_FAILED",
+};
 
-newslettersRouter.post(
-  "/newsletters",
-  upload.single("audio"),
-  async (req: MulterRequest, res: Response): Promise<void> => {
-    const parseResult = parseNewsletterUploadRequest(
-      req.body,
-      req.file ? toUploadedFileDescriptor(req.file) : undefined,
-    );
+const JOB_NOT_FOUND_ERROR: ValidationErrorDetail = {
+  field: "jobId",
+  message: "No newsletter generation job exists with that id.",
+  code: "NOT_FOUND",
+};
 
-    if (!parseResult.success) {
-      res.status(400).json(serializeNewsletterUploadErrorResponse(parseResult.errors));
-      return;
-    }
+const DRAFT_NOT_FOUND_ERROR: ValidationErrorDetail = {
+  field: "id",
+  message: "No newsletter draft exists with that id.",
+  code: "NOT_FOUND",
+};
 
-    const validation = validateNewsletterUpload(parseResult.data);
+const REVISION_NOT_FOUND_ERROR: ValidationErrorDetail = {
+  field: "revisionId",
+  message: "No revision exists with that id for this draft.",
+  code: "NOT_FOUND",
+};
 
-    if (!validation.isValid || !validation.payload) {
-      res.status(400).json(serializeNewsletterUploadErrorResponse(validation.errors));
-      return;
-    }
+const SECTION_NOT_FOUND_ERROR: ValidationErrorDetail = {
+  field: "sectionId",
+  message: "This draft has no section with that id that can be regenerated.",
+  code: "NOT_FOUND",
+};
+
+const REGENERATION_FAILED_ERROR: ValidationErrorDetail = {
+  field: "form",
+  message: "Unable to regenerate this section. Please try again.",
+  code: "GENERATION_FAILED",
+};
 
-    const audioData = req.file?.buffer ? Uint8Array.from(req.file.buffer) : undefined;
+const INVALID_IDEMPOTENCY_KEY_ERROR: ValidationErrorDetail = {
+  field: "Idempotency-Key",
+  message: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} visible ASCII characters.`,
+  code: "INVALID_FORMAT",
+};
+
+const IDEMPOTENCY_KEY_CONFLICT_ERROR: ValidationErrorDetail = {
+  field: "Idempotency-Key",
+  message:
+    "This Idempotency-Key was already used with a different request. Use a new key for a new request.",
+  code: "IDEMPOTENCY_CONFLICT",
+};
+
+const IDEMPOTENCY_KEY_IN_PROGRESS_ERROR: ValidationErrorDetail = {
+  field: "Idempotency-Key",
+  message: "A request with this Idempotency-Key is still being processed. Retry shortly.",
+  code: "IDEMPOTENCY_CONFLICT",
+};
+
+export interface NewslettersRouterOptions {
+  /**
+   * Transcription and highlight adapters. Defaults to the built-in heuristics. Without a
+   * `fetchAudio`, audio referenced by URL is downloaded as configured by `audioSources`.
+   */
+  audioSummarizer?: AudioSummarizerDependencies;
+  /** Where audio referenced by `audio.url` may be downloaded from. */
+  audioSources?: NewsletterAudioSourceOptions;
+  /** Summary, decision, action item and insight adapters. Defaults to the built-in heuristics. */
+  transcriptSynthesizer?: TranscriptSynthesizerDependencies;
+  /** Freeform topic drafter. Defaults to the template-based generator. */
+  generateFreeformTopic?: GenerateFreeformTopic;
+  /** Overrides for the default limits; validated when the router is created. */
+  limits?: Partial<NewsletterLimits>;
+  /** Root logger; each request logs through a child bound to its correlation id. */
+  logger?: Logger;
+  /** Where drafts and their revisions are kept. Defaults to in-memory storage. */
+  storage?: NewsletterDraftStorage;
+  jobStore?: NewsletterJobStore;
+  idempotencyStore?: IdempotencyStore;
+  /** Registry served at `GET /metrics`. */
+  metricsRegistry?: MetricsRegistry;
+  /** Probes behind `GET /readyz`. */
+  readiness?: NewsletterReadinessOptions;
+  /**
+   * Directory uploads are streamed into while a request is processed. Defaults to a folder in
+   * the OS temp directory; files are deleted once generation finishes or fails.
+   */
+  uploadDirectory?: string;
+}
 
+export interface NewsletterAudioSourceOptions {
+  /**
+   * Hostnames audio URLs may point at, e.g. internal recording storage; `*.example.com` also
+   * matches subdomains. Requests referencing any other host are rejected.
+   */
+  allowedHosts?: string[];
+  /** Budget for a whole download. */
+  timeoutMs?: number;
+}
+
+export interface NewsletterReadinessOptions {
+  /** Per-probe budget before an adapter is reported as timed out. */
+  timeoutMs?: number;
+  /**
+   * Replaces the default check or version for an adapter. By default each model adapter is
+   * called with a tiny input, which suits the built-in heuristics; hosted adapters should
+   * supply a cheaper check such as a model listing call. An injected `generateFreeformTopic`
+   * swallows `draftCopy` failures, so it is skipped unless a check is given here.
+   */
+  probes?: Partial<Record<ReadinessAdapter, Omit<ReadinessProbe, "name">>>;
+}
+
+interface GenerationContext {
+  logger: Logger;
+  correlationId?: string;
+  reportProgress?: ProgressReporter;
+  /** Validation warnings reported alongside the generated newsletter's own. */
+  warnings?: string[];
+}
+
+/**
+ * Reads the optional `Idempotency-Key` header. Returns null when the header is present but
+ * malformed so the caller can reject it instead of silently generating twice.
+ */
+const readIdempotencyKey = (req: Request): string | undefined | null => {
+  const value = req.get("Idempotency-Key");
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const key = value.trim();
+  return key.length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH && IDEMPOTENCY_KEY_PATTERN.test(key)
+    ? key
+    : null;
+};
+
+/**
+ * Clients opt into asynchronous generation with `?async=true`; the response then carries
+ * a job id that can be polled at `GET /newsletters/jobs/:jobId`.
+ */
+const isAsyncRequested = (req: Request): boolean => {
+  const value = req.query.async;
+  const normalized = Array.isArray(value) ? value[0] : value;
+  return normalized === "true" || normalized === "1";
+};
+
+/** Deletes uploaded audio once nothing reads it; a failure only leaves a temp file behind. */
+const releaseAudioData = async (
+  audioData: AudioDataSource | undefined,
+  logger: Logger,
+): Promise<void> => {
+  try {
+    await audioData?.dispose();
+  } catch (error) {
+    logger.warn("Failed to delete uploaded audio", { path: audioData?.path, error });
+  }
+};
+
+const isJobFinished = (job: NewsletterGenerationJob): boolean =>
+  job.status === "succeeded" || job.status === "failed";
+
+const writeServerSentEvent = (
+  res: Response,
+  event: string,
+  data: unknown,
+  id?: number,
+): void => {
+  if (id !== undefined) {
+    res.write(`id: ${id}\n`);
+  }
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+const parseLastEventId = (req: Request): number => {
+  const parsed = Number.parseInt(req.header("Last-Event-ID") ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed + 1 : 0;
+};
+
+/**
+ * Builds the newsletter API. Every dependency is injectable so hosts can plug in their own
+ * model adapters and storage, and tests can exercise the routes with fakes.
+ */
+export const createNewslettersRouter = (options: NewslettersRouterOptions = {}): Router => {
+  const rootLogger = options.logger ?? createJsonLogger();
+  const transcriptSynthesizer =
+    options.transcriptSynthesizer ?? createDefaultTranscriptSynthesizerDependencies();
+  const limits = resolveLimits(options.limits);
+  const audioSummarizer: AudioSummarizerDependencies = {
+    fetchAudio: createHttpAudioFetcher({
+      allowedHosts: options.audioSources?.allowedHosts ?? [],
+      maxSizeBytes: limits.maxUploadSizeBytes,
+      maxDurationSeconds: limits.maxAudioDurationSeconds,
+      timeoutMs: options.audioSources?.timeoutMs,
+      directory: options.uploadDirectory,
+    }),
+    ...(options.audioSummarizer ?? createDefaultAudioSummarizerDependencies()),
+  };
+  const audioOptions: SummarizeMeetingAudioOptions = {
+    maxHighlights: limits.defaultHighlightCount,
+    highlightLimit: limits.maxHighlightCount,
+    maxDurationSeconds: limits.maxAudioDurationSeconds,
+    maxFileSizeBytes: limits.maxUploadSizeBytes,
+  };
+  const synthesisOptions: SynthesizeMeetingContentOptions = {
+    summaryMaxLength: limits.summaryMaxLength,
+    maxCombinedTextLength: limits.maxCombinedTextLength,
+  };
+  const metricsRegistry = options.metricsRegistry ?? createMetricsRegistry();
+  const metrics: NewsletterMetrics = createNewsletterMetrics(metricsRegistry);
+  const jobStore = options.jobStore ?? createInMemoryNewsletterJobStore({ logger: rootLogger });
+  const idempotencyStore = options.idempotencyStore ?? createInMemoryIdempotencyStore();
+  const storage = options.storage ?? createInMemoryNewsletterDraftStorage();
+  const draftRepository: NewsletterDraftRepository = createNewsletterDraftRepository({ storage });
+
+  const upload = multer({
+    storage: createTemporaryAudioStorage({ directory: options.uploadDirectory }),
+    limits: {
+      fileSize: limits.maxUploadSizeBytes,
+      files: 1,
+    },
+  });
+
+  /**
+   * Reuses a well-formed correlation id forwarded by an upstream proxy, otherwise generates
+   * one. The id is echoed in a response header and bound to the request's logger.
+   */
+  const assignCorrelationId = (req: Request, res: Response, next: NextFunction): void => {
+    const forwarded = req.get(CORRELATION_ID_HEADER)?.trim();
+    const correlationId =
+      forwarded && CORRELATION_ID_PATTERN.test(forwarded) ? forwarded : randomUUID();
+
+    res.setHeader(CORRELATION_ID_HEADER, correlationId);
+    res.locals.correlationId = correlationId;
+    res.locals.logger = rootLogger.child({ correlationId });
+    next();
+  };
+
+  /** Counts each response by its matched route pattern so ids do not inflate cardinality. */
+  const recordRequestMetrics = (req: Request, res: Response, next: NextFunction): void => {
+    res.on("finish", () => {
+      const routePath = (req.route as { path?: unknown } | undefined)?.path;
+      metrics.recordRequest({
+        method: req.method,
+        route: typeof routePath === "string" ? routePath : "unmatched",
+        status: res.statusCode,
+      });
+    });
+    next();
+  };
+
+  /** Pairs each adapter with its configured override or a minimal call against it. */
+  const buildReadinessProbes = (): ReadinessProbe[] => {
+    const overrides = options.readiness?.probes ?? {};
+    const defaults: Record<ReadinessAdapter, Omit<ReadinessProbe, "name">> = {
+      transcribeAudio: {
+        version: options.audioSummarizer ? undefined : BUILTIN_ADAPTER_VERSION,
+        check: async () => {
+          await audioSummarizer.transcribeAudio({
+            audio: {
+              filename: "readiness-probe.wav",
+              mimeType: "audio/wav",
+              durationSeconds: 1,
+              sizeBytes: 0,
+            },
+          });
+        },
+      },
+      summarize: {
+        version: options.transcriptSynthesizer ? undefined : BUILTIN_ADAPTER_VERSION,
+        check: async () => {
+          await transcriptSynthesizer.summarize({
+            combinedText: READINESS_PROBE_TEXT,
+            recapText: READINESS_PROBE_TEXT,
+            transcriptText: READINESS_PROBE_TEXT,
+            maxLength: READINESS_PROBE_TEXT.length,
+          });
+        },
+      },
+      draftCopy: options.generateFreeformTopic
+        ? {}
+        : {
+            version: BUILTIN_ADAPTER_VERSION,
+            check: async () => {
+              await createDefaultFreeformTopicGenerator({ logger: rootLogger })({
+                prompt: { topic: READINESS_PROBE_TEXT },
+              });
+            },
+          },
+      storage: {
+        version: options.storage ? undefined : BUILTIN_ADAPTER_VERSION,
+        check: async () => {
+          await storage.get(READINESS_PROBE_DRAFT_ID);
+        },
+      },
+    };
+
+    return READINESS_ADAPTERS.map((name) => ({ name, ...defaults[name], ...overrides[name] }));
+  };
+
+  const getGenerationContext = (res: Response): GenerationContext => ({
+    logger: (res.locals.logger as Logger | undefined) ?? rootLogger,
+    correlationId: res.locals.correlationId as string | undefined,
+  });
+
+  /**
+   * Persists a generated newsletter as a draft. Failing to save should not discard the
+   * generated content, so errors are logged and the draft id is simply omitted.
+   */
+  const saveGeneratedDraft = async (
+    payload: NewsletterUploadPayload,
+    newsletter: NewsletterGenerationResponse,
+    logger: Logger,
+  ): Promise<string | undefined> => {
     try {
-      const audioDependencies = createDefaultAudioSummarizerDependencies();
-      const transcriptDependencies = createDefaultTranscriptSynthesizerDependencies();
-      const generateFreeformTopic = createDefaultFreeformTopicGenerator();
-
-      const newsletter = await assembleNewsletter({
-        request: validation.payload,
-        audioData,
-        dependencies: {
-          summarizeAudio: validation.payload.audio
-            ? (params) =>
-                summarizeMeetingAudio({
-                  ...params,
-                  dependencies: audioDependencies,
-                })
-            : undefined,
-          synthesizeContent: (params) =>
+      const draft = await draftRepository.create({ payload, newsletter });
+      return draft.id;
+    } catch (error) {
+      logger.error("Failed to save newsletter draft", { error });
+      return undefined;
+    }
+  };
+
+  const generateNewsletter = async (
+    payload: NewsletterUploadPayload,
+    audioData: AudioDataSource | undefined,
+    { logger, correlationId, reportProgress, warnings = [] }: GenerationContext,
+  ): Promise<NewsletterGenerationResponse> => {
+    const audioDependencies = { ...audioSummarizer, logger };
+    const transcriptDependencies = { ...transcriptSynthesizer, logger };
+
+    const newsletter = await assembleNewsletter({
+      request: payload,
+      audioData,
+      correlationId,
+      dependencies: {
+        summarizeAudio: payload.audio
+          ? (params) =>
+              metrics.track(
+                "audio",
+                () =>
+                  summarizeMeetingAudio({
+                    ...params,
+                    dependencies: audioDependencies,
+                    options: audioOptions,
+                  }),
+                (summary) => Boolean(summary.truncatedHighlights),
+              )
+          : undefined,
+        synthesizeContent: (params) =>
+          metrics.track("transcript", () =>
             synthesizeMeetingContent({
               ...params,
               dependencies: transcriptDependencies,
+              options: synthesisOptions,
             }),
-          generateFreeformTopic,
-        },
-      });
+          ),
+        generateFreeformTopic:
+          options.generateFreeformTopic ?? createDefaultFreeformTopicGenerator({ logger }),
+        reportProgress: combineProgressReporters(
+          logProgressReporterFailures(reportProgress, logger),
+          logProgressReporterFailures(metrics.reportProgress, logger),
+        ),
+        logger,
+      },
+    });
+
+    return warnings.length > 0
+      ? { ...newsletter, warnings: [...warnings, ...(newsletter.warnings ?? [])] }
+      : newsletter;
+  };
 
-      res
-        .status(200)
-        .json(serializeNewsletterUploadSuccessResponse(validation.payload, newsletter));
+  const regenerateDraftSection = (
+    draft: NewsletterDraft,
+    sectionId: string,
+    instructions: string | undefined,
+    logger: Logger,
+  ): Promise<RegeneratedNewsletterSection | undefined> => {
+    const transcriptDependencies = { ...transcriptSynthesizer, logger };
+
+    return regenerateNewsletterSection({
+      request: draft.payload,
+      newsletter: draft.sections,
+      sectionId,
+      instructions,
+      dependencies: {
+        synthesizeStage: (params) =>
+          metrics.track("transcript", () =>
+            runSynthesisStage({
+              ...params,
+              dependencies: transcriptDependencies,
+              options: synthesisOptions,
+            }),
+          ),
+        generateFreeformTopic:
+          options.generateFreeformTopic ?? createDefaultFreeformTopicGenerator({ logger }),
+      },
+    });
+  };
+
+  const runGenerationJob = async (
+    jobId: string,
+    payload: NewsletterUploadPayload,
+    audioData: AudioDataSource | undefined,
+    context: GenerationContext,
+  ): Promise<void> => {
+    const logger = context.logger.child({ jobId });
+    const reportProgress: ProgressReporter = (event) => {
+      jobStore
+        .appendProgress(jobId, event)
+        .catch((error) => logger.warn("Failed to record job progress", { error }));
+    };
+
+    try {
+      await jobStore.update(jobId, { status: "running" });
+      const newsletter = await generateNewsletter(payload, audioData, {
+        ...context,
+        logger,
+        reportProgress,
+      });
+      const draftId = await saveGeneratedDraft(payload, newsletter, logger);
+      await jobStore.update(jobId, { status: "succeeded", result: newsletter, draftId });
     } catch (error) {
-      console.error("Failed to assemble newsletter", error);
-      res.status(500).json(
-        serializeNewsletterUploadErrorResponse([
-          {
-            field: "form",
-            message: "Unable to assemble newsletter content. Please try again.",
-          },
-        ]),
-      );
-    }
-  },
-);
-
-newslettersRouter.use(
-  (error: unknown, _req: Request, res: Response, next: NextFunction): void => {
-    if (!(error instanceof multer.MulterError)) {
-      next(error);
-      return;
+      logger.error("Failed to assemble newsletter for job", { error });
+      await jobStore
+        .update(jobId, {
+          status: "failed",
+          errors: [translateNewsletterError(error, GENERATION_FAILED_ERROR).error],
+        })
+        .catch((updateError) => logger.error("Failed to record job failure", { error: updateError }));
+    } finally {
+      await releaseAudioData(audioData, logger);
     }
+  };
+
+  const recordValidationProgress = async (jobId: string, startedAt: number): Promise<void> => {
+    await jobStore.appendProgress(jobId, {
+      stage: "validation",
+      status: "completed",
+      timestamp: new Date().toISOString(),
+      durationMs: Date.now() - startedAt,
+    });
+  };
+
+  const router = Router();
+
+  // Mounted ahead of request logging and metrics so load balancer polling stays out of both.
+  router.use(
+    createHealthRouter({
+      probes: buildReadinessProbes(),
+      timeoutMs: options.readiness?.timeoutMs,
+      logger: rootLogger,
+    }),
+  );
+
+  router.use(assignCorrelationId);
+  router.use(recordRequestMetrics);
+
+  router.get("/metrics", (_req: Request, res: Response): void => {
+    res.type(PROMETHEUS_CONTENT_TYPE).send(metricsRegistry.render());
+  });
+
+  router.post(
+    "/newsletters",
+    upload.single(NEWSLETTER_AUDIO_FILE_FIELD),
+    express.json({ limit: limits.maxJsonBodyBytes }),
+    async (req: MulterRequest, res: Response): Promise<void> => {
+      const validationStartedAt = Date.now();
+      const context = getGenerationContext(res);
+      const uploadedFile = req.file ? toUploadedFileDescriptor(req.file) : undefined;
+      // Inline JSON audio needs no cleanup; spooled uploads are deleted here unless a queued job
+      // takes them over.
+      let ownsAudioData = true;
+      const idempotencyKey = readIdempotencyKey(req);
+      // Set once this request holds the key, so failures release only their own reservation.
+      let reservedKey: string | undefined;
+
+      try {
+        if (idempotencyKey === null) {
+          res.status(400).json(serializeNewsletterUploadErrorResponse([INVALID_IDEMPOTENCY_KEY_ERROR]));
+          return;
+        }
+
+        const parseResult = req.is("application/json")
+          ? parseNewsletterJsonRequest(req.body)
+          : parseNewsletterUploadRequest(req.body, uploadedFile);
+
+        if (!parseResult.success) {
+          res.status(400).json(serializeNewsletterUploadErrorResponse(parseResult.errors));
+          return;
+        }
+
+        const audioData = parseResult.data.audioFile?.data;
+        const isAsync = isAsyncRequested(req);
+
+        // Repeats are answered before validation sniffs and probes the audio.
+        if (idempotencyKey) {
+          const fingerprint = createRequestFingerprint({
+            payload: parseResult.data.body,
+            audioSha256: audioData?.sha256,
+            async: isAsync,
+          });
+          let reservation: IdempotencyReservation;
+          try {
+            reservation = await idempotencyStore.reserve(idempotencyKey, fingerprint);
+          } catch (error) {
+            context.logger.error("Failed to reserve idempotency key", { error });
+            res.status(500).json(serializeNewsletterUploadErrorResponse([GENERATION_FAILED_ERROR]));
+            return;
+          }
+
+          if (reservation.status === "replay") {
+            const { statusCode, body, location } = reservation.response;
+            res.status(statusCode).set(IDEMPOTENT_REPLAY_HEADER, "true");
+            if (location) {
+              res.location(location);
+            }
+            res.json(body);
+            return;
+          }
+
+          if (reservation.status === "conflict" || reservation.status === "in_progress") {
+            const errorDetail =
+              reservation.status === "conflict"
+                ? IDEMPOTENCY_KEY_CONFLICT_ERROR
+                : IDEMPOTENCY_KEY_IN_PROGRESS_ERROR;
+            res.status(409).json(serializeNewsletterUploadErrorResponse([errorDetail]));
+            return;
+          }
 
-    const errorDetail = mapMulterErrorToValidationError(error);
-    const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+          reservedKey = idempotencyKey;
+        }
 
-    res.status(status).json(serializeNewsletterUploadErrorResponse([errorDetail]));
-  },
-);
+        const validation = await validateNewsletterUpload(parseResult.data, limits);
 
-export default newslettersRouter;
+        if (!validation.isValid || !validation.payload) {
+          if (reservedKey) {
+            void idempotencyStore.release(reservedKey);
+          }
+          res.status(400).json(serializeNewsletterUploadErrorResponse(validation.errors));
+          return;
+        }
 
-const mapMulterErrorToValidationError = (error: multer.MulterError): ValidationErrorDetail => {
+        if (validation.warnings.length > 0) {
+          context.logger.warn("Newsletter upload accepted with warnings", {
+            warnings: validation.warnings,
+          });
+        }
+        const generationContext = { ...context, warnings: validation.warnings };
+
+        if (validation.payload.audio) {
+          metrics.recordUploadSize(validation.payload.audio.sizeBytes);
+        }
+
+        const respond = (statusCode: number, body: unknown, location?: string) => {
+          if (reservedKey) {
+            void idempotencyStore.complete(reservedKey, { statusCode, body, location });
+          }
+
+          res.status(statusCode);
+          if (location) {
+            res.location(location);
+          }
+          res.json(body);
+        };
+
+        const fail = (message: string, error: unknown) => {
+          if (reservedKey) {
+            void idempotencyStore.release(reservedKey);
+          }
+          const { status, error: errorDetail } = translateNewsletterError(error, GENERATION_FAILED_ERROR);
+          context.logger.error(message, { status, errorCode: errorDetail.code, error });
+          res.status(status).json(serializeNewsletterUploadErrorResponse([errorDetail]));
+        };
+
+        if (isAsync) {
+          try {
+            const job = await jobStore.create(validation.payload);
+            await recordValidationProgress(job.id, validationStartedAt);
+            void runGenerationJob(job.id, validation.payload, audioData, generationContext);
+            ownsAudioData = false;
+
+            respond(
+              202,
+              serializeNewsletterJobAcceptedResponse(job),
+              `/newsletters/jobs/${encodeURIComponent(job.id)}`,
+            );
+          } catch (error) {
+            fail("Failed to queue newsletter generation job", error);
+          }
+          return;
+        }
+
+        try {
+          const newsletter = await generateNewsletter(
+            validation.payload,
+            audioData,
+            generationContext,
+          );
+          const draftId = await saveGeneratedDraft(validation.payload, newsletter, context.logger);
+
+          respond(200, serializeNewsletterUploadSuccessResponse(validation.payload, newsletter, draftId));
+        } catch (error) {
+          fail("Failed to assemble newsletter", error);
+        }
+      } catch (error) {
+        // Parsing, validation and audio probing failures must still answer the request.
+        if (reservedKey) {
+          void idempotencyStore.release(reservedKey);
+        }
+        const { status, error: errorDetail } = translateNewsletterError(error, GENERATION_FAILED_ERROR);
+        context.logger.error("Failed to process newsletter request", {
+          status,
+          errorCode: errorDetail.code,
+          error,
+        });
+        if (!res.headersSent) {
+          res.status(status).json(serializeNewsletterUploadErrorResponse([errorDetail]));
+        }
+      } finally {
+        if (ownsAudioData) {
+          await releaseAudioData(uploadedFile?.data, context.logger);
+        }
+      }
+    },
+  );
+
+  router.get("/newsletters/config", (_req: Request, res: Response): void => {
+    res.status(200).json(serializeNewsletterConfigResponse(limits));
+  });
+
+  const openApiDocument = buildNewsletterOpenApiDocument(limits);
+
+  router.get(NEWSLETTER_OPENAPI_PATH, (_req: Request, res: Response): void => {
+    res.status(200).json(openApiDocument);
+  });
+
+  router.get(
+    "/newsletters/jobs/:jobId",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      let job: NewsletterGenerationJob | undefined;
+      try {
+        job = await jobStore.get(req.params.jobId);
+      } catch (error) {
+        next(error);
+        return;
+      }
+
+      if (!job) {
+        res.status(404).json(serializeNewsletterUploadErrorResponse([JOB_NOT_FOUND_ERROR]));
+        return;
+      }
+
+      res.status(200).json(serializeNewsletterJobStatusResponse(job));
+    },
+  );
+
+  router.get(
+    "/newsletters/jobs/:jobId/events",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const { jobId } = req.params;
+      let sentEventCount = parseLastEventId(req);
+      let closed = false;
+
+      const sendUpdates = (job: NewsletterGenerationJob) => {
+        if (closed) {
+          return;
+        }
+
+        job.progress.slice(sentEventCount).forEach((event: NewsletterProgressEvent, offset) => {
+          writeServerSentEvent(res, "stage", event, sentEventCount + offset);
+        });
+        sentEventCount = Math.max(sentEventCount, job.progress.length);
+
+        if (isJobFinished(job)) {
+          writeServerSentEvent(res, "done", serializeNewsletterJobStatusResponse(job));
+          close();
+          res.end();
+        }
+      };
+
+      let job: NewsletterGenerationJob | undefined;
+      try {
+        job = await jobStore.get(jobId);
+      } catch (error) {
+        next(error);
+        return;
+      }
+
+      if (!job) {
+        res.status(404).json(serializeNewsletterUploadErrorResponse([JOB_NOT_FOUND_ERROR]));
+        return;
+      }
+
+      // Headers go out before subscribing so no update can be written ahead of them.
+      res.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+
+      const unsubscribe = jobStore.subscribe(jobId, sendUpdates);
+      const close = () => {
+        closed = true;
+        unsubscribe();
+      };
+      req.on("close", close);
+
+      // Re-read the job so updates made before the subscription started are replayed too.
+      try {
+        job = (await jobStore.get(jobId)) ?? job;
+      } catch (error) {
+        getGenerationContext(res).logger.error("Failed to read job for progress stream", {
+          jobId,
+          error,
+        });
+      }
+
+      sendUpdates(job);
+    },
+  );
+
+  router.get(
+    "/newsletters",
+    async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const drafts = await draftRepository.list();
+        res.status(200).json(serializeNewsletterDraftListResponse(drafts));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    "/newsletters/:id",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const draft = await draftRepository.get(req.params.id);
+
+        if (!draft) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([DRAFT_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(200).json(serializeNewsletterDraftResponse(draft));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.put(
+    "/newsletters/:id",
+    express.json({ limit: limits.maxDraftBodyBytes }),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const parseResult = parseNewsletterDraftUpdateRequest(req.body);
+
+      if (!parseResult.success) {
+        res.status(400).json(serializeNewsletterUploadErrorResponse(parseResult.errors));
+        return;
+      }
+
+      try {
+        const draft = await draftRepository.updateSections(req.params.id, parseResult.data.sections, {
+          author: parseResult.data.author,
+        });
+
+        if (!draft) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([DRAFT_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(200).json(serializeNewsletterDraftResponse(draft));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.delete(
+    "/newsletters/:id",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const deleted = await draftRepository.delete(req.params.id);
+
+        if (!deleted) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([DRAFT_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(204).end();
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    "/newsletters/:id/revisions",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const revisions = await draftRepository.listRevisions(req.params.id);
+
+        if (!revisions) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([DRAFT_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(200).json(serializeNewsletterDraftRevisionListResponse(revisions));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    "/newsletters/:id/revisions/:revisionId",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const revision = await draftRepository.getRevision(req.params.id, req.params.revisionId);
+
+        if (!revision) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([REVISION_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(200).json(serializeNewsletterDraftRevisionResponse(revision));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    "/newsletters/:id/diff",
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const from = typeof req.query.from === "string" ? req.query.from : "";
+      const to = typeof req.query.to === "string" ? req.query.to : "";
+
+      if (!from || !to) {
+        res.status(400).json(
+          serializeNewsletterUploadErrorResponse([
+            {
+              field: from ? "to" : "from",
+              message: "Both `from` and `to` revision ids are required.",
+              code: "REQUIRED",
+            },
+          ]),
+        );
+        return;
+      }
+
+      try {
+        const diff = await draftRepository.diffRevisions(req.params.id, from, to);
+
+        if (!diff) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([REVISION_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(200).json(serializeNewsletterRevisionDiffResponse(diff));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    "/newsletters/:id/revisions/:revisionId/restore",
+    express.json({ limit: limits.maxDraftBodyBytes }),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const parseResult = parseNewsletterRevisionRestoreRequest(req.body);
+
+      if (!parseResult.success) {
+        res.status(400).json(serializeNewsletterUploadErrorResponse(parseResult.errors));
+        return;
+      }
+
+      try {
+        const draft = await draftRepository.restoreRevision(
+          req.params.id,
+          req.params.revisionId,
+          parseResult.data,
+        );
+
+        if (!draft) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([REVISION_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res.status(200).json(serializeNewsletterDraftResponse(draft));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    "/newsletters/:id/sections/:sectionId/regenerate",
+    express.json({ limit: limits.maxDraftBodyBytes }),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const parseResult = parseNewsletterSectionRegenerateRequest(
+        req.body,
+        limits.maxRegenerationInstructionsLength,
+      );
+
+      if (!parseResult.success) {
+        res.status(400).json(serializeNewsletterUploadErrorResponse(parseResult.errors));
+        return;
+      }
+
+      let draft: NewsletterDraft | undefined;
+      try {
+        draft = await draftRepository.get(req.params.id);
+      } catch (error) {
+        next(error);
+        return;
+      }
+
+      if (!draft) {
+        res.status(404).json(serializeNewsletterUploadErrorResponse([DRAFT_NOT_FOUND_ERROR]));
+        return;
+      }
+
+      const { logger } = getGenerationContext(res);
+
+      try {
+        const regenerated = await regenerateDraftSection(
+          draft,
+          req.params.sectionId,
+          parseResult.data.instructions,
+          logger,
+        );
+
+        if (!regenerated) {
+          res.status(404).json(serializeNewsletterUploadErrorResponse([SECTION_NOT_FOUND_ERROR]));
+          return;
+        }
+
+        res
+          .status(200)
+          .json(
+            serializeNewsletterSectionRegenerateResponse(regenerated.section, regenerated.freeformTopic),
+          );
+      } catch (error) {
+        const { status, error: errorDetail } = translateNewsletterError(error, REGENERATION_FAILED_ERROR);
+        logger.error("Failed to regenerate newsletter section", {
+          sectionId: req.params.sectionId,
+          status,
+          errorCode: errorDetail.code,
+          error,
+        });
+        res.status(status).json(serializeNewsletterUploadErrorResponse([errorDetail]));
+      }
+    },
+  );
+
+  router.use(
+    (error: unknown, _req: Request, res: Response, next: NextFunction): void => {
+      if (isBodyParserError(error)) {
+        const status = error.type === "entity.too.large" ? 413 : 400;
+        res.status(status).json(serializeNewsletterUploadErrorResponse([mapBodyParserError(error)]));
+        return;
+      }
+
+      if (!(error instanceof multer.MulterError)) {
+        next(error);
+        return;
+      }
+
+      const errorDetail = mapMulterErrorToValidationError(error, limits.maxUploadSizeBytes);
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+
+      res.status(status).json(serializeNewsletterUploadErrorResponse([errorDetail]));
+    },
+  );
+
+  return router;
+};
+
+// Declared before the default router below, which resolves its limits at module load.
+const resolveLimits = (overrides: Partial<NewsletterLimits> | undefined): NewsletterLimits => {
+  const result = parseNewsletterConfig({ limits: overrides ?? {} });
+  if (!result.success) {
+    throw new NewsletterConfigError(result.errors);
+  }
+
+  return result.data.limits;
+};
+
+const mapMulterErrorToValidationError = (
+  error: multer.MulterError,
+  maxUploadSizeBytes: number,
+): ValidationErrorDetail => {
   switch (error.code) {
     case "LIMIT_FILE_SIZE":
       return {
         field: "audio",
-        message: "Audio file exceeds the 200MB size limit.",
+        message: `Audio file exceeds the ${formatMegabytes(maxUploadSizeBytes)}MB size limit.`,
         code: "LIMIT_EXCEEDED",
       };
     case "LIMIT_FILE_COUNT":
@@ -165,3 +1157,38 @@ const mapMulterErrorToValidationError = (error: multer.MulterError): ValidationE
       };
   }
 };
+
+const formatMegabytes = (bytes: number): string =>
+  String(Math.round((bytes / (1024 * 1024)) * 10) / 10);
+
+interface BodyParserError extends Error {
+  type: string;
+}
+
+const isBodyParserError = (error: unknown): error is BodyParserError =>
+  error instanceof Error &&
+  typeof (error as Partial<BodyParserError>).type === "string" &&
+  (error as BodyParserError).type.startsWith("entity.");
+
+const mapBodyParserError = (error: BodyParserError): ValidationErrorDetail => {
+  switch (error.type) {
+    case "entity.too.large":
+      return {
+        field: "body",
+        message: "Request body exceeds the allowed size. Send large audio files by url instead.",
+        code: "LIMIT_EXCEEDED",
+      };
+    case "entity.parse.failed":
+      return {
+        field: "body",
+        message: "Request body is not valid JSON.",
+        code: "INVALID_FORMAT",
+      };
+    default:
+      return {
+        field: "body",
+        message: "Unable to read the request body. Please try again.",
+        code: "INVALID_FORMAT",
+      };
+  }
+};
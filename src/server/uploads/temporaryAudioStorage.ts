@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { StorageEngine } from "multer";
+
+import {
+  createFileAudioDataSource,
+  spoolAudioStream,
+  type AudioDataSource,
+} from "../../services/uploads/audioDataSource";
+
+/** Multer file as stored by `createTemporaryAudioStorage`. */
+export type SpooledAudioFile = Express.Multer.File & { sha256: string };
+
+export interface TemporaryAudioStorageOptions {
+  /** Created on first use. Defaults to a `newsletter-uploads` folder in the OS temp directory. */
+  directory?: string;
+}
+
+/**
+ * Multer storage engine that streams each upload into a temporary file, hashing it on the way,
+ * so request handling never buffers the audio in memory. Multer removes the file when the
+ * upload is rejected; after that the handler owns it and must dispose of it.
+ */
+export const createTemporaryAudioStorage = ({
+  directory,
+}: TemporaryAudioStorageOptions = {}): StorageEngine => ({
+  _handleFile: (_req, file, callback) => {
+    spoolAudioStream(file.stream, { directory }).then(
+      (spooled) => {
+        const info: Partial<SpooledAudioFile> = {
+          destination: path.dirname(spooled.path as string),
+          filename: path.basename(spooled.path as string),
+          path: spooled.path,
+          size: spooled.sizeBytes,
+          sha256: spooled.sha256,
+        };
+        callback(null, info);
+      },
+      (error: unknown) => callback(error),
+    );
+  },
+  _removeFile: (_req, file, callback) => {
+    if (!file.path) {
+      callback(null);
+      return;
+    }
+
+    fs.rm(file.path, { force: true }).then(
+      () => callback(null),
+      (error: Error) => callback(error),
+    );
+  },
+});
+
+/** Exposes a stored upload to the pipeline without reading it into memory. */
+export const toAudioDataSource = (file: SpooledAudioFile): AudioDataSource =>
+  createFileAudioDataSource({ path: file.path, sizeBytes: file.size, sha256: file.sha256 });
@@ -1,18 +1,21 @@
 import {
   AudioHighlight,
   AudioHighlightsSummary,
-  MAX_AUDIO_DURATION_SECONDS,
+  DEFAULT_NEWSLETTER_LIMITS,
   MeetingAudioUpload,
+  NewsletterPipelineStage,
 } from "../types/newsletter";
-
-const MAX_AUDIO_FILE_SIZE_BYTES = 200 * 1024 * 1024; // Mirror upload guard rail
-const DEFAULT_MAX_HIGHLIGHTS = 5;
-const MAX_HIGHLIGHTS_LIMIT = 10;
+import { type Logger } from "./logging/logger";
+import { type AudioDataSource } from "./uploads/audioDataSource";
+import { AudioFetchError, AudioFetchErrorCode, type FetchAudio } from "./uploads/audioFetcher";
+import { type ProgressReporter, trackPipelineStage } from "./pipelineProgress";
 
 export enum AudioSummarizerErrorCode {
   AUDIO_NOT_PROVIDED = "AUDIO_NOT_PROVIDED",
   AUDIO_LIMIT_EXCEEDED = "AUDIO_LIMIT_EXCEEDED",
   INVALID_AUDIO_METADATA = "INVALID_AUDIO_METADATA",
+  AUDIO_SOURCE_NOT_ALLOWED = "AUDIO_SOURCE_NOT_ALLOWED",
+  AUDIO_FETCH_FAILED = "AUDIO_FETCH_FAILED",
   TRANSCRIPTION_FAILED = "TRANSCRIPTION_FAILED",
   EMPTY_TRANSCRIPT = "EMPTY_TRANSCRIPT",
   HIGHLIGHT_GENERATION_FAILED = "HIGHLIGHT_GENERATION_FAILED",
@@ -36,7 +39,8 @@ export class AudioSummarizerError extends Error {
 
 export interface SummarizerTranscriptionInput {
   audio: MeetingAudioUpload;
-  audioData?: Uint8Array;
+  /** The uploaded bytes; stream them with `openStream` rather than reading them whole. */
+  audioData?: AudioDataSource;
 }
 
 export interface SummarizerHighlightInput {
@@ -48,18 +52,31 @@ export interface SummarizerHighlightInput {
 export interface AudioSummarizerDependencies {
   transcribeAudio: (input: SummarizerTranscriptionInput) => Promise<string>;
   generateHighlights: (input: SummarizerHighlightInput) => Promise<AudioHighlight[]>;
+  /**
+   * Downloads audio supplied by `url` before transcription. Without it, `transcribeAudio`
+   * receives the URL alone.
+   */
+  fetchAudio?: FetchAudio;
+  /** Receives stage failures (with their error codes) and non-fatal warnings. */
+  logger?: Logger;
 }
 
 export interface SummarizeMeetingAudioOptions {
   /** Desired maximum number of highlights in the response. */
   maxHighlights?: number;
+  /** Upper bound applied to `maxHighlights`. */
+  highlightLimit?: number;
+  maxDurationSeconds?: number;
+  maxFileSizeBytes?: number;
 }
 
 export interface SummarizeMeetingAudioParams {
   audio?: MeetingAudioUpload;
-  audioData?: Uint8Array;
+  audioData?: AudioDataSource;
   dependencies: AudioSummarizerDependencies;
   options?: SummarizeMeetingAudioOptions;
+  /** Receives transcription and highlight stage events as they happen. */
+  reportProgress?: ProgressReporter;
 }
 
 export const summarizeMeetingAudio = async ({
@@ -67,6 +84,7 @@ export const summarizeMeetingAudio = async ({
   audioData,
   dependencies,
   options,
+  reportProgress,
 }: SummarizeMeetingAudioParams): Promise<AudioHighlightsSummary> => {
   if (!audio) {
     throw new AudioSummarizerError(
@@ -83,70 +101,132 @@ export const summarizeMeetingAudio = async ({
     );
   }
 
-  if (audio.durationSeconds > MAX_AUDIO_DURATION_SECONDS) {
+  const maxDurationSeconds = normalizeLimit(
+    options?.maxDurationSeconds,
+    DEFAULT_NEWSLETTER_LIMITS.maxAudioDurationSeconds,
+  );
+  if (audio.durationSeconds > maxDurationSeconds) {
     throw new AudioSummarizerError(
       AudioSummarizerErrorCode.AUDIO_LIMIT_EXCEEDED,
-      "Audio duration exceeds the supported 60 minute limit.",
-      { durationSeconds: audio.durationSeconds },
+      `Audio duration exceeds the supported ${Math.floor(maxDurationSeconds / 60)} minute limit.`,
+      { durationSeconds: audio.durationSeconds, maxDurationSeconds },
     );
   }
 
-  if (audio.sizeBytes > MAX_AUDIO_FILE_SIZE_BYTES) {
+  const maxFileSizeBytes = normalizeLimit(
+    options?.maxFileSizeBytes,
+    DEFAULT_NEWSLETTER_LIMITS.maxUploadSizeBytes,
+  );
+  if (audio.sizeBytes > maxFileSizeBytes) {
     throw new AudioSummarizerError(
       AudioSummarizerErrorCode.AUDIO_LIMIT_EXCEEDED,
-      "Audio file size exceeds the supported 200MB limit.",
-      { sizeBytes: audio.sizeBytes },
+      `Audio file size exceeds the supported ${Math.round(maxFileSizeBytes / (1024 * 1024))}MB limit.`,
+      { sizeBytes: audio.sizeBytes, maxFileSizeBytes },
     );
   }
 
-  const maxHighlights = normalizeMaxHighlights(options?.maxHighlights);
+  const maxHighlights = Math.min(
+    normalizeLimit(options?.maxHighlights, DEFAULT_NEWSLETTER_LIMITS.defaultHighlightCount),
+    normalizeLimit(options?.highlightLimit, DEFAULT_NEWSLETTER_LIMITS.maxHighlightCount),
+  );
 
   let transcript: string;
+  let fetchedAudio: AudioDataSource | undefined;
   try {
-    transcript = await dependencies.transcribeAudio({ audio, audioData });
+    transcript = await trackPipelineStage(
+      reportProgress,
+      "audio_transcription",
+      async () => {
+        if (!audioData && audio.url && dependencies.fetchAudio) {
+          fetchedAudio = await fetchRemoteAudio(
+            dependencies.fetchAudio,
+            audio.url,
+            audio.filename,
+            dependencies.logger,
+          );
+        }
+        return dependencies.transcribeAudio({ audio, audioData: audioData ?? fetchedAudio });
+      },
+      (result) => ({ transcriptCharacterCount: result?.trim().length ?? 0 }),
+    );
   } catch (error) {
-    throw new AudioSummarizerError(
-      AudioSummarizerErrorCode.TRANSCRIPTION_FAILED,
-      "Failed to transcribe meeting audio.",
-      { filename: audio.filename },
-      error,
+    if (error instanceof AudioSummarizerError) {
+      throw error;
+    }
+
+    throw logStageFailure(
+      dependencies.logger,
+      "audio_transcription",
+      new AudioSummarizerError(
+        AudioSummarizerErrorCode.TRANSCRIPTION_FAILED,
+        "Failed to transcribe meeting audio.",
+        { filename: audio.filename },
+        error,
+      ),
     );
+  } finally {
+    await fetchedAudio
+      ?.dispose()
+      .catch((error: unknown) =>
+        dependencies.logger?.warn("Failed to delete downloaded audio", { path: fetchedAudio?.path, error }),
+      );
   }
 
   const normalizedTranscript = transcript?.trim();
   if (!normalizedTranscript) {
-    throw new AudioSummarizerError(
-      AudioSummarizerErrorCode.EMPTY_TRANSCRIPT,
-      "Transcription result was empty.",
-      { filename: audio.filename },
+    throw logStageFailure(
+      dependencies.logger,
+      "audio_transcription",
+      new AudioSummarizerError(
+        AudioSummarizerErrorCode.EMPTY_TRANSCRIPT,
+        "Transcription result was empty.",
+        { filename: audio.filename },
+      ),
     );
   }
 
   let highlights: AudioHighlight[];
   try {
-    highlights = await dependencies.generateHighlights({
-      transcript: normalizedTranscript,
-      durationSeconds: audio.durationSeconds,
-      maxHighlights,
-    });
+    highlights = await trackPipelineStage(
+      reportProgress,
+      "highlight_generation",
+      () =>
+        dependencies.generateHighlights({
+          transcript: normalizedTranscript,
+          durationSeconds: audio.durationSeconds,
+          maxHighlights,
+        }),
+      (result) => ({ highlights: Array.isArray(result) ? result.slice(0, maxHighlights) : [] }),
+    );
   } catch (error) {
-    throw new AudioSummarizerError(
-      AudioSummarizerErrorCode.HIGHLIGHT_GENERATION_FAILED,
-      "Failed to generate highlights from the audio transcript.",
-      { filename: audio.filename },
-      error,
+    throw logStageFailure(
+      dependencies.logger,
+      "highlight_generation",
+      new AudioSummarizerError(
+        AudioSummarizerErrorCode.HIGHLIGHT_GENERATION_FAILED,
+        "Failed to generate highlights from the audio transcript.",
+        { filename: audio.filename },
+        error,
+      ),
     );
   }
 
   const normalizedHighlights = Array.isArray(highlights) ? highlights : [];
   const warnings: string[] = [];
 
+  const truncatedHighlights = normalizedHighlights.length > maxHighlights;
+
   let limitedHighlights = normalizedHighlights;
-  if (normalizedHighlights.length > maxHighlights) {
+  if (truncatedHighlights) {
     limitedHighlights = normalizedHighlights.slice(0, maxHighlights);
     warnings.push(
       `Returned highlight count (${normalizedHighlights.length}) exceeded the configured maximum (${maxHighlights}). Results were truncated.`,
     );
+    dependencies.logger?.warn("Audio highlights truncated", {
+      stage: "highlight_generation",
+      highlightCount: normalizedHighlights.length,
+      maxHighlights,
+    });
   }
 
   return {
@@ -159,20 +239,67 @@ export const summarizeMeetingAudio = async ({
       sizeBytes: audio.sizeBytes,
     },
     warnings: warnings.length > 0 ? warnings : undefined,
+    truncatedHighlights: truncatedHighlights || undefined,
   };
 };
 
-const normalizeMaxHighlights = (value: number | undefined): number => {
-  if (!value || value <= 0 || !Number.isFinite(value)) {
-    return DEFAULT_MAX_HIGHLIGHTS;
+const logStageFailure = (
+  logger: Logger | undefined,
+  stage: NewsletterPipelineStage,
+  error: AudioSummarizerError,
+): AudioSummarizerError => {
+  logger?.error(error.message, {
+    stage,
+    errorCode: error.code,
+    ...error.metadata,
+    error: (error as { cause?: unknown }).cause,
+  });
+  return error;
+};
+
+const FETCH_ERROR_CODES: Record<AudioFetchErrorCode, AudioSummarizerErrorCode> = {
+  [AudioFetchErrorCode.INVALID_URL]: AudioSummarizerErrorCode.AUDIO_SOURCE_NOT_ALLOWED,
+  [AudioFetchErrorCode.HOST_NOT_ALLOWED]: AudioSummarizerErrorCode.AUDIO_SOURCE_NOT_ALLOWED,
+  [AudioFetchErrorCode.REQUEST_FAILED]: AudioSummarizerErrorCode.AUDIO_FETCH_FAILED,
+  [AudioFetchErrorCode.TIMEOUT]: AudioSummarizerErrorCode.AUDIO_FETCH_FAILED,
+  [AudioFetchErrorCode.SIZE_LIMIT_EXCEEDED]: AudioSummarizerErrorCode.AUDIO_LIMIT_EXCEEDED,
+  [AudioFetchErrorCode.DURATION_LIMIT_EXCEEDED]: AudioSummarizerErrorCode.AUDIO_LIMIT_EXCEEDED,
+};
+
+const fetchRemoteAudio = async (
+  fetchAudio: FetchAudio,
+  url: string,
+  filename: string,
+  logger: Logger | undefined,
+): Promise<AudioDataSource> => {
+  try {
+    return await fetchAudio({ url });
+  } catch (error) {
+    const code =
+      error instanceof AudioFetchError
+        ? FETCH_ERROR_CODES[error.code]
+        : AudioSummarizerErrorCode.AUDIO_FETCH_FAILED;
+
+    throw logStageFailure(
+      logger,
+      "audio_transcription",
+      new AudioSummarizerError(
+        code,
+        error instanceof AudioFetchError ? error.message : "Failed to download meeting audio.",
+        { filename, ...(error instanceof AudioFetchError ? error.metadata : {}) },
+        error,
+      ),
+    );
   }
+};
 
-  const rounded = Math.round(value);
-  if (rounded <= 0) {
-    return DEFAULT_MAX_HIGHLIGHTS;
+const normalizeLimit = (value: number | undefined, fallback: number): number => {
+  if (!value || value <= 0 || !Number.isFinite(value)) {
+    return fallback;
   }
 
-  return Math.min(rounded, MAX_HIGHLIGHTS_LIMIT);
+  const rounded = Math.round(value);
+  return rounded > 0 ? rounded : fallback;
 };
 
 const splitSentences = (text: string): string[] =>
@@ -0,0 +1,210 @@
+import fs from "fs";
+
+import {
+  DEFAULT_NEWSLETTER_LIMITS,
+  NewsletterLimits,
+  ValidationErrorDetail,
+} from "../../types/newsletter";
+import { type SchemaResult } from "../validation/newsletterSchemas";
+
+export interface NewsletterConfig {
+  limits: NewsletterLimits;
+}
+
+export const DEFAULT_NEWSLETTER_CONFIG: Readonly<NewsletterConfig> = {
+  limits: DEFAULT_NEWSLETTER_LIMITS,
+};
+
+/** Environment variable overriding each limit; values must be positive integers. */
+export const NEWSLETTER_LIMIT_ENVIRONMENT_VARIABLES: Readonly<Record<keyof NewsletterLimits, string>> = {
+  maxRecapLength: "NEWSLETTER_MAX_RECAP_LENGTH",
+  maxTranscriptLength: "NEWSLETTER_MAX_TRANSCRIPT_LENGTH",
+  maxCombinedTextLength: "NEWSLETTER_MAX_COMBINED_TEXT_LENGTH",
+  maxFreeformTopicLength: "NEWSLETTER_MAX_FREEFORM_TOPIC_LENGTH",
+  maxFreeformInstructionsLength: "NEWSLETTER_MAX_FREEFORM_INSTRUCTIONS_LENGTH",
+  maxAttributionLength: "NEWSLETTER_MAX_ATTRIBUTION_LENGTH",
+  maxRegenerationInstructionsLength: "NEWSLETTER_MAX_REGENERATION_INSTRUCTIONS_LENGTH",
+  defaultHighlightCount: "NEWSLETTER_DEFAULT_HIGHLIGHT_COUNT",
+  maxHighlightCount: "NEWSLETTER_MAX_HIGHLIGHT_COUNT",
+  summaryMaxLength: "NEWSLETTER_SUMMARY_MAX_LENGTH",
+  maxAudioDurationSeconds: "NEWSLETTER_MAX_AUDIO_DURATION_SECONDS",
+  maxUploadSizeBytes: "NEWSLETTER_MAX_UPLOAD_BYTES",
+  maxJsonBodyBytes: "NEWSLETTER_MAX_JSON_BODY_BYTES",
+  maxDraftBodyBytes: "NEWSLETTER_MAX_DRAFT_BODY_BYTES",
+};
+
+/** Points at a JSON file shaped like `{ "limits": { ... } }`; environment variables win over it. */
+export const NEWSLETTER_CONFIG_FILE_VARIABLE = "NEWSLETTER_CONFIG_FILE";
+
+export class NewsletterConfigError extends Error {
+  public readonly errors: ValidationErrorDetail[];
+
+  constructor(errors: ValidationErrorDetail[]) {
+    super(
+      `Invalid newsletter configuration: ${errors
+        .map((error) => `${error.field}: ${error.message}`)
+        .join("; ")}`,
+    );
+    this.name = "NewsletterConfigError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Validates a configuration document, filling unspecified limits from `base`. Unknown keys are
+ * rejected so that typos do not silently fall back to defaults.
+ */
+export const parseNewsletterConfig = (
+  raw: unknown,
+  base: NewsletterConfig = DEFAULT_NEWSLETTER_CONFIG,
+): SchemaResult<NewsletterConfig> => {
+  const errors: ValidationErrorDetail[] = [];
+
+  if (!isRecord(raw)) {
+    return {
+      success: false,
+      errors: [buildError("config", "Configuration must be a JSON object.", "INVALID_FORMAT")],
+    };
+  }
+
+  Object.keys(raw)
+    .filter((key) => key !== "limits")
+    .forEach((key) => errors.push(buildError(key, "Unknown configuration key.", "INVALID_FORMAT")));
+
+  const rawLimits = raw.limits ?? {};
+  const limits: NewsletterLimits = { ...base.limits };
+
+  if (!isRecord(rawLimits)) {
+    errors.push(buildError("limits", "Limits must be an object.", "INVALID_FORMAT"));
+  } else {
+    Object.entries(rawLimits).forEach(([key, value]) => {
+      const field = `limits.${key}`;
+
+      if (value === undefined) {
+        return;
+      }
+
+      if (!isLimitKey(key)) {
+        errors.push(buildError(field, "Unknown limit.", "INVALID_FORMAT"));
+        return;
+      }
+
+      if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+        errors.push(buildError(field, "Limits must be positive integers.", "INVALID_FORMAT"));
+        return;
+      }
+
+      limits[key] = value;
+    });
+  }
+
+  if (limits.defaultHighlightCount > limits.maxHighlightCount) {
+    errors.push(
+      buildError(
+        "limits.defaultHighlightCount",
+        `Default highlight count must not exceed the maximum (${limits.maxHighlightCount}).`,
+        "LIMIT_EXCEEDED",
+      ),
+    );
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, data: { limits } };
+};
+
+export interface LoadNewsletterConfigOptions {
+  env?: NodeJS.ProcessEnv;
+  readFile?: (path: string) => string;
+}
+
+/**
+ * Resolves the runtime configuration from defaults, the optional config file and environment
+ * overrides, in that order. Throws a `NewsletterConfigError` listing every invalid setting.
+ */
+export const loadNewsletterConfig = ({
+  env = process.env,
+  readFile = (path) => fs.readFileSync(path, "utf8"),
+}: LoadNewsletterConfigOptions = {}): NewsletterConfig => {
+  let config: NewsletterConfig = DEFAULT_NEWSLETTER_CONFIG;
+  const configFile = env[NEWSLETTER_CONFIG_FILE_VARIABLE]?.trim();
+
+  if (configFile) {
+    const fileResult = parseNewsletterConfig(readConfigFile(configFile, readFile), config);
+    if (!fileResult.success) {
+      throw new NewsletterConfigError(
+        fileResult.errors.map((error) => ({ ...error, field: `${configFile}: ${error.field}` })),
+      );
+    }
+    config = fileResult.data;
+  }
+
+  const errors: ValidationErrorDetail[] = [];
+  const overrides: Partial<NewsletterLimits> = {};
+
+  (Object.keys(NEWSLETTER_LIMIT_ENVIRONMENT_VARIABLES) as (keyof NewsletterLimits)[]).forEach((key) => {
+    const variable = NEWSLETTER_LIMIT_ENVIRONMENT_VARIABLES[key];
+    const raw = env[variable]?.trim();
+    if (!raw) {
+      return;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+      errors.push(buildError(variable, `Expected a positive integer, received "${raw}".`, "INVALID_FORMAT"));
+      return;
+    }
+    overrides[key] = value;
+  });
+
+  if (errors.length > 0) {
+    throw new NewsletterConfigError(errors);
+  }
+
+  const result = parseNewsletterConfig({ limits: overrides }, config);
+  if (!result.success) {
+    throw new NewsletterConfigError(result.errors);
+  }
+
+  return result.data;
+};
+
+const buildError = (
+  field: string,
+  message: string,
+  code?: ValidationErrorDetail["code"],
+): ValidationErrorDetail => ({
+  field,
+  message,
+  code,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isLimitKey = (key: string): key is keyof NewsletterLimits =>
+  Object.prototype.hasOwnProperty.call(DEFAULT_NEWSLETTER_LIMITS, key);
+
+const readConfigFile = (path: string, readFile: (path: string) => string): unknown => {
+  let contents: string;
+  try {
+    contents = readFile(path);
+  } catch (error) {
+    throw new NewsletterConfigError([
+      buildError(NEWSLETTER_CONFIG_FILE_VARIABLE, `Unable to read ${path}: ${describeError(error)}`),
+    ]);
+  }
+
+  try {
+    return JSON.parse(contents) as unknown;
+  } catch (error) {
+    throw new NewsletterConfigError([
+      buildError(path, `Config file is not valid JSON: ${describeError(error)}`, "INVALID_FORMAT"),
+    ]);
+  }
+};
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
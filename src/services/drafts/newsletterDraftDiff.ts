@@ -0,0 +1,170 @@
+import {
+  ActionItem,
+  ActionItemsSection,
+  FREEFORM_TOPIC_SECTION_ID,
+  NewsletterFieldChange,
+  NewsletterRevisionDiff,
+  NewsletterSection,
+  NewsletterSectionDiff,
+  StructuredNewsletter,
+} from "../../types/newsletter";
+
+const ACTION_ITEM_FIELDS = ["summary", "owner", "dueDate", "status"] as const;
+
+type DiffableSection = NewsletterSection | ActionItemsSection;
+
+interface DiffRevisionsArgs {
+  fromRevisionId: string;
+  toRevisionId: string;
+  from: StructuredNewsletter;
+  to: StructuredNewsletter;
+}
+
+/**
+ * Computes a section-by-section diff between two versions of a newsletter. Sections are
+ * matched by id, so renamed sections show up as modified while sections that only exist
+ * on one side are reported as added or removed.
+ */
+export const diffNewsletterRevisions = ({
+  fromRevisionId,
+  toRevisionId,
+  from,
+  to,
+}: DiffRevisionsArgs): NewsletterRevisionDiff => {
+  const fromSections = flattenSections(from);
+  const toSections = flattenSections(to);
+  const toIds = new Set(toSections.map((section) => section.id));
+  const fromById = new Map(fromSections.map((section) => [section.id, section]));
+
+  const diffs: NewsletterSectionDiff[] = [];
+
+  toSections.forEach((section) => {
+    const previous = fromById.get(section.id);
+
+    if (!previous) {
+      diffs.push({
+        sectionId: section.id,
+        title: section.title,
+        change: "added",
+        fields: diffSectionFields(undefined, section),
+      });
+      return;
+    }
+
+    const fields = diffSectionFields(previous, section);
+    if (fields.length > 0) {
+      diffs.push({
+        sectionId: section.id,
+        title: section.title || previous.title,
+        change: "modified",
+        fields,
+      });
+    }
+  });
+
+  fromSections
+    .filter((section) => !toIds.has(section.id))
+    .forEach((section) => {
+      diffs.push({
+        sectionId: section.id,
+        title: section.title,
+        change: "removed",
+        fields: diffSectionFields(section, undefined),
+      });
+    });
+
+  return { fromRevisionId, toRevisionId, sections: diffs };
+};
+
+const flattenSections = (newsletter: StructuredNewsletter): DiffableSection[] => [
+  newsletter.introduction,
+  ...newsletter.mainUpdates,
+  newsletter.actionItems,
+  newsletter.closing,
+  {
+    id: FREEFORM_TOPIC_SECTION_ID,
+    title: newsletter.freeformTopic.title,
+    body: newsletter.freeformTopic.body,
+  },
+];
+
+const isActionItemsSection = (section: DiffableSection | undefined): section is ActionItemsSection =>
+  Array.isArray((section as ActionItemsSection | undefined)?.items);
+
+const diffSectionFields = (
+  before: DiffableSection | undefined,
+  after: DiffableSection | undefined,
+): NewsletterFieldChange[] => {
+  const changes: NewsletterFieldChange[] = [];
+
+  pushTextChange(changes, "title", before?.title, after?.title);
+  pushTextChange(changes, "body", before?.body, after?.body);
+
+  const beforeHighlights = before?.highlights ?? [];
+  const afterHighlights = after?.highlights ?? [];
+  if (!areListsEqual(beforeHighlights, afterHighlights)) {
+    changes.push({
+      field: "highlights",
+      ...(beforeHighlights.length ? { before: beforeHighlights } : {}),
+      ...(afterHighlights.length ? { after: afterHighlights } : {}),
+    });
+  }
+
+  if (isActionItemsSection(before) || isActionItemsSection(after)) {
+    changes.push(
+      ...diffActionItems(
+        isActionItemsSection(before) ? before.items : [],
+        isActionItemsSection(after) ? after.items : [],
+      ),
+    );
+  }
+
+  return changes;
+};
+
+const diffActionItems = (before: ActionItem[], after: ActionItem[]): NewsletterFieldChange[] => {
+  const changes: NewsletterFieldChange[] = [];
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+
+  after.forEach((item) => {
+    const previous = beforeById.get(item.id);
+
+    if (!previous) {
+      changes.push({ field: `items.${item.id}`, after: item.summary });
+      return;
+    }
+
+    ACTION_ITEM_FIELDS.forEach((field) => {
+      pushTextChange(changes, `items.${item.id}.${field}`, previous[field], item[field]);
+    });
+  });
+
+  before
+    .filter((item) => !afterIds.has(item.id))
+    .forEach((item) => {
+      changes.push({ field: `items.${item.id}`, before: item.summary });
+    });
+
+  return changes;
+};
+
+const pushTextChange = (
+  changes: NewsletterFieldChange[],
+  field: string,
+  before: string | undefined,
+  after: string | undefined,
+): void => {
+  if ((before ?? "") === (after ?? "")) {
+    return;
+  }
+
+  changes.push({
+    field,
+    ...(before !== undefined ? { before } : {}),
+    ...(after !== undefined ? { after } : {}),
+  });
+};
+
+const areListsEqual = (left: string[], right: string[]): boolean =>
+  left.length === right.length && left.every((value, index) => value === right[index]);
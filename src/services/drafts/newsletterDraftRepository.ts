@@ -0,0 +1,400 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  NewsletterDraft,
+  NewsletterDraftRevision,
+  NewsletterDraftRevisionReason,
+  NewsletterDraftRevisionSummary,
+  NewsletterDraftSummary,
+  NewsletterGenerationResponse,
+  NewsletterRevisionDiff,
+  NewsletterUploadPayload,
+  StructuredNewsletter,
+} from "../../types/newsletter";
+import { diffNewsletterRevisions } from "./newsletterDraftDiff";
+
+const DRAFT_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const DRAFT_FILE_EXTENSION = ".json";
+const REVISIONS_FILE_EXTENSION = ".revisions.json";
+const SUMMARY_TITLE_MAX_LENGTH = 80;
+
+type IdFactory = () => string;
+type NowFactory = () => Date;
+
+/**
+ * Persistence contract for saved drafts. Implementations only store and load whole
+ * draft documents; the repository layers id generation and timestamps on top.
+ */
+export interface NewsletterDraftStorage {
+  list: () => Promise<NewsletterDraft[]>;
+  get: (id: string) => Promise<NewsletterDraft | undefined>;
+  save: (draft: NewsletterDraft) => Promise<void>;
+  /** Removes the draft together with its revision history. */
+  delete: (id: string) => Promise<boolean>;
+  /** Returns the draft's revisions, oldest first. */
+  listRevisions: (draftId: string) => Promise<NewsletterDraftRevision[]>;
+  appendRevision: (draftId: string, revision: NewsletterDraftRevision) => Promise<void>;
+}
+
+export interface FileNewsletterDraftStorageOptions {
+  /** Directory holding one JSON document per draft. Created on first write. */
+  directory: string;
+}
+
+export const isValidDraftId = (id: string): boolean => DRAFT_ID_PATTERN.test(id);
+
+export const createFileNewsletterDraftStorage = ({
+  directory,
+}: FileNewsletterDraftStorageOptions): NewsletterDraftStorage => {
+  const resolvePath = (id: string, extension = DRAFT_FILE_EXTENSION): string | undefined =>
+    isValidDraftId(id) ? path.join(directory, `${id}${extension}`) : undefined;
+
+  const readJson = async <T>(filePath: string): Promise<T | undefined> => {
+    try {
+      const contents = await fs.readFile(filePath, "utf8");
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  // Write to a sibling file first so readers never observe a partially written document.
+  const writeJson = async (filePath: string, value: unknown): Promise<void> => {
+    await fs.mkdir(directory, { recursive: true });
+
+    const temporaryPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(value, null, 2), "utf8");
+    await fs.rename(temporaryPath, filePath);
+  };
+
+  const removeFile = async (filePath: string): Promise<boolean> => {
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  // Revision appends are read-modify-write, so they are serialized per draft.
+  const revisionWrites = new Map<string, Promise<void>>();
+
+  return {
+    list: async () => {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(directory);
+      } catch (error) {
+        if (isMissingFileError(error)) {
+          return [];
+        }
+        throw error;
+      }
+
+      const drafts = await Promise.all(
+        entries
+          .filter(
+            (entry) =>
+              entry.endsWith(DRAFT_FILE_EXTENSION) && !entry.endsWith(REVISIONS_FILE_EXTENSION),
+          )
+          .map((entry) => readJson<NewsletterDraft>(path.join(directory, entry))),
+      );
+
+      return drafts.filter((draft): draft is NewsletterDraft => Boolean(draft));
+    },
+    get: async (id) => {
+      const filePath = resolvePath(id);
+      return filePath ? readJson<NewsletterDraft>(filePath) : undefined;
+    },
+    save: async (draft) => {
+      const filePath = resolvePath(draft.id);
+      if (!filePath) {
+        throw new Error(`Invalid draft id: ${draft.id}`);
+      }
+
+      await writeJson(filePath, draft);
+    },
+    delete: async (id) => {
+      const filePath = resolvePath(id);
+      const revisionsPath = resolvePath(id, REVISIONS_FILE_EXTENSION);
+      if (!filePath || !revisionsPath) {
+        return false;
+      }
+
+      await removeFile(revisionsPath);
+      return removeFile(filePath);
+    },
+    listRevisions: async (draftId) => {
+      const revisionsPath = resolvePath(draftId, REVISIONS_FILE_EXTENSION);
+      if (!revisionsPath) {
+        return [];
+      }
+
+      return (await readJson<NewsletterDraftRevision[]>(revisionsPath)) ?? [];
+    },
+    appendRevision: async (draftId, revision) => {
+      const revisionsPath = resolvePath(draftId, REVISIONS_FILE_EXTENSION);
+      if (!revisionsPath) {
+        throw new Error(`Invalid draft id: ${draftId}`);
+      }
+
+      const previousWrite = revisionWrites.get(draftId) ?? Promise.resolve();
+      const nextWrite = previousWrite
+        .catch(() => undefined)
+        .then(async () => {
+          const existing = (await readJson<NewsletterDraftRevision[]>(revisionsPath)) ?? [];
+          await writeJson(revisionsPath, [...existing, revision]);
+        });
+
+      revisionWrites.set(draftId, nextWrite);
+      try {
+        await nextWrite;
+      } finally {
+        if (revisionWrites.get(draftId) === nextWrite) {
+          revisionWrites.delete(draftId);
+        }
+      }
+    },
+  };
+};
+
+export const createInMemoryNewsletterDraftStorage = (): NewsletterDraftStorage => {
+  const drafts = new Map<string, NewsletterDraft>();
+  const revisions = new Map<string, NewsletterDraftRevision[]>();
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    list: async () => [...drafts.values()].map(clone),
+    get: async (id) => {
+      const draft = drafts.get(id);
+      return draft ? clone(draft) : undefined;
+    },
+    save: async (draft) => {
+      drafts.set(draft.id, clone(draft));
+    },
+    delete: async (id) => {
+      revisions.delete(id);
+      return drafts.delete(id);
+    },
+    listRevisions: async (draftId) => clone(revisions.get(draftId) ?? []),
+    appendRevision: async (draftId, revision) => {
+      revisions.set(draftId, [...(revisions.get(draftId) ?? []), clone(revision)]);
+    },
+  };
+};
+
+export interface CreateNewsletterDraftInput {
+  payload: NewsletterUploadPayload;
+  newsletter: NewsletterGenerationResponse;
+  author?: string;
+}
+
+export interface NewsletterDraftChangeOptions {
+  author?: string;
+}
+
+export interface NewsletterDraftRepository {
+  create: (input: CreateNewsletterDraftInput) => Promise<NewsletterDraft>;
+  get: (id: string) => Promise<NewsletterDraft | undefined>;
+  /** Lists saved drafts, most recently updated first. */
+  list: () => Promise<NewsletterDraftSummary[]>;
+  /** Replaces the draft's sections and records the change as a new revision. */
+  updateSections: (
+    id: string,
+    sections: StructuredNewsletter,
+    options?: NewsletterDraftChangeOptions,
+  ) => Promise<NewsletterDraft | undefined>;
+  delete: (id: string) => Promise<boolean>;
+  /** Lists revision metadata oldest first, or undefined when the draft does not exist. */
+  listRevisions: (id: string) => Promise<NewsletterDraftRevisionSummary[] | undefined>;
+  getRevision: (id: string, revisionId: string) => Promise<NewsletterDraftRevision | undefined>;
+  diffRevisions: (
+    id: string,
+    fromRevisionId: string,
+    toRevisionId: string,
+  ) => Promise<NewsletterRevisionDiff | undefined>;
+  /** Copies an earlier revision's sections onto the draft as a new "restored" revision. */
+  restoreRevision: (
+    id: string,
+    revisionId: string,
+    options?: NewsletterDraftChangeOptions,
+  ) => Promise<NewsletterDraft | undefined>;
+}
+
+export interface CreateNewsletterDraftRepositoryArgs {
+  storage: NewsletterDraftStorage;
+  generateId?: IdFactory;
+  now?: NowFactory;
+}
+
+export const createNewsletterDraftRepository = ({
+  storage,
+  generateId = randomUUID,
+  now = () => new Date(),
+}: CreateNewsletterDraftRepositoryArgs): NewsletterDraftRepository => {
+  // Saves number their revision from the ones already stored, so changes to one draft run in turn.
+  const draftChanges = new Map<string, Promise<unknown>>();
+
+  const queueDraftChange = async <T>(id: string, change: () => Promise<T>): Promise<T> => {
+    const previousChange = draftChanges.get(id) ?? Promise.resolve();
+    const nextChange = previousChange.catch(() => undefined).then(change);
+
+    draftChanges.set(id, nextChange);
+    try {
+      return await nextChange;
+    } finally {
+      if (draftChanges.get(id) === nextChange) {
+        draftChanges.delete(id);
+      }
+    }
+  };
+
+  const findRevision = async (
+    id: string,
+    revisionId: string,
+  ): Promise<NewsletterDraftRevision | undefined> => {
+    const revisions = await storage.listRevisions(id);
+    return revisions.find((revision) => revision.id === revisionId);
+  };
+
+  const recordRevision = async (
+    draft: NewsletterDraft,
+    sections: StructuredNewsletter,
+    reason: NewsletterDraftRevisionReason,
+    timestamp: string,
+    extras: Pick<NewsletterDraftRevision, "author" | "restoredFromRevisionId"> = {},
+  ): Promise<NewsletterDraft> => {
+    const existing = await storage.listRevisions(draft.id);
+    const revision: NewsletterDraftRevision = {
+      id: generateId(),
+      number: existing.length + 1,
+      createdAt: timestamp,
+      reason,
+      ...(extras.author?.trim() ? { author: extras.author.trim() } : {}),
+      ...(extras.restoredFromRevisionId
+        ? { restoredFromRevisionId: extras.restoredFromRevisionId }
+        : {}),
+      sections,
+    };
+
+    await storage.appendRevision(draft.id, revision);
+
+    const updated: NewsletterDraft = {
+      ...draft,
+      sections,
+      currentRevisionId: revision.id,
+      updatedAt: timestamp,
+    };
+
+    await storage.save(updated);
+    return updated;
+  };
+
+  return {
+    create: async ({ payload, newsletter, author }) => {
+      const timestamp = now().toISOString();
+      const draft: NewsletterDraft = {
+        id: generateId(),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        payload,
+        newsletter,
+        sections: newsletter.sections,
+        currentRevisionId: "",
+      };
+
+      return recordRevision(draft, newsletter.sections, "generated", timestamp, { author });
+    },
+    get: (id) => storage.get(id),
+    list: async () => {
+      const drafts = await storage.list();
+
+      return drafts
+        .map(summarizeDraft)
+        .sort((left, right) => Date.parse(right.updatedAt) - Date.parse(left.updatedAt));
+    },
+    updateSections: (id, sections, options) =>
+      queueDraftChange(id, async () => {
+        const existing = await storage.get(id);
+        if (!existing) {
+          return undefined;
+        }
+
+        return recordRevision(existing, sections, "edited", now().toISOString(), {
+          author: options?.author,
+        });
+      }),
+    delete: (id) => queueDraftChange(id, () => storage.delete(id)),
+    listRevisions: async (id) => {
+      const draft = await storage.get(id);
+      if (!draft) {
+        return undefined;
+      }
+
+      const revisions = await storage.listRevisions(id);
+      return revisions.map(({ sections: _sections, ...summary }) => summary);
+    },
+    getRevision: async (id, revisionId) => findRevision(id, revisionId),
+    diffRevisions: async (id, fromRevisionId, toRevisionId) => {
+      const revisions = await storage.listRevisions(id);
+      const from = revisions.find((revision) => revision.id === fromRevisionId);
+      const to = revisions.find((revision) => revision.id === toRevisionId);
+
+      if (!from || !to) {
+        return undefined;
+      }
+
+      return diffNewsletterRevisions({
+        fromRevisionId,
+        toRevisionId,
+        from: from.sections,
+        to: to.sections,
+      });
+    },
+    restoreRevision: (id, revisionId, options) =>
+      queueDraftChange(id, async () => {
+        const [draft, revision] = await Promise.all([
+          storage.get(id),
+          findRevision(id, revisionId),
+        ]);
+        if (!draft || !revision) {
+          return undefined;
+        }
+
+        return recordRevision(draft, revision.sections, "restored", now().toISOString(), {
+          author: options?.author,
+          restoredFromRevisionId: revision.id,
+        });
+      }),
+  };
+};
+
+const summarizeDraft = (draft: NewsletterDraft): NewsletterDraftSummary => ({
+  id: draft.id,
+  title: buildDraftTitle(draft),
+  createdAt: draft.createdAt,
+  updatedAt: draft.updatedAt,
+});
+
+const buildDraftTitle = (draft: NewsletterDraft): string => {
+  const recap = draft.payload.meetingRecap?.text?.replace(/\s+/g, " ").trim() ?? "";
+
+  if (!recap) {
+    return "Untitled newsletter draft";
+  }
+
+  return recap.length <= SUMMARY_TITLE_MAX_LENGTH
+    ? recap
+    : `${recap.slice(0, SUMMARY_TITLE_MAX_LENGTH - 1)}…`;
+};
+
+const isMissingFileError = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && (error as NodeJS.ErrnoException).code === "ENOENT";
@@ -6,6 +6,7 @@ import {
   SynthesizedDecision,
   SynthesizedInsight,
 } from "../types/newsletter";
+import { createConsoleLogger, type Logger } from "./logging/logger";
 
 const DEFAULT_TITLE = "Additional Topic";
 const DEFAULT_BODY =
@@ -45,6 +46,8 @@ export interface DraftFreeformTopicResult {
 
 export interface FreeformTopicGeneratorDependencies {
   draftCopy: (input: DraftFreeformTopicInput) => Promise<DraftFreeformTopicResult>;
+  /** Defaults to console output when omitted. */
+  logger?: Logger;
 }
 
 export interface GenerateFreeformTopicOptions {
@@ -94,7 +97,10 @@ export const createFreeformTopicGenerator = ({
       maxBodyLength,
     });
   } catch (error) {
-    console.warn("Failed to generate freeform topic copy", error);
+    (dependencies.logger ?? createConsoleLogger()).warn("Failed to generate freeform topic copy", {
+      stage: "freeform",
+      error,
+    });
     return buildFallbackSuggestion({
       prompt: normalizedPrompt,
       toneFallback: fallbackTone,
@@ -266,9 +272,12 @@ const formatBulletList = (
   return `${label}:\n${serialized}`;
 };
 
-export const createDefaultFreeformTopicGenerator = () =>
+export const createDefaultFreeformTopicGenerator = ({
+  logger,
+}: Pick<FreeformTopicGeneratorDependencies, "logger"> = {}) =>
   createFreeformTopicGenerator({
     dependencies: {
+      logger,
       draftCopy: async ({ prompt, context }) => {
         const bodySections: string[] = [];
 
@@ -0,0 +1,99 @@
+import { getErrorCode } from "../logging/logger";
+
+const DEFAULT_PROBE_TIMEOUT_MS = 2_000;
+
+/** Adapters the generation pipeline cannot run without. */
+export const READINESS_ADAPTERS = ["transcribeAudio", "summarize", "draftCopy", "storage"] as const;
+
+export type ReadinessAdapter = (typeof READINESS_ADAPTERS)[number];
+
+export type ReadinessCheckStatus = "ok" | "failed" | "timeout" | "skipped";
+
+export interface ReadinessProbe {
+  name: ReadinessAdapter;
+  /** Reported as-is, e.g. a model name or client library version. */
+  version?: string;
+  /**
+   * Cheap call confirming the adapter can serve requests; rejects when it cannot. Probes
+   * without a check are reported as skipped and do not affect readiness.
+   */
+  check?: () => Promise<void>;
+}
+
+export interface ReadinessCheckResult {
+  name: ReadinessAdapter;
+  status: ReadinessCheckStatus;
+  version?: string;
+  durationMs?: number;
+  error?: string;
+  code?: string;
+}
+
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  checkedAt: string;
+  checks: ReadinessCheckResult[];
+}
+
+export interface RunReadinessProbesOptions {
+  /** Per-probe budget; slower probes are reported as timed out. */
+  timeoutMs?: number;
+}
+
+export class ReadinessProbeTimeoutError extends Error {
+  constructor(name: ReadinessAdapter, timeoutMs: number) {
+    super(`Readiness probe for ${name} did not finish within ${timeoutMs}ms.`);
+    this.name = "ReadinessProbeTimeoutError";
+  }
+}
+
+/**
+ * Runs every probe concurrently and reports the service ready only when none failed or
+ * timed out. Probe errors are captured in the report rather than thrown.
+ */
+export const runReadinessProbes = async (
+  probes: ReadinessProbe[],
+  { timeoutMs = DEFAULT_PROBE_TIMEOUT_MS }: RunReadinessProbesOptions = {},
+): Promise<ReadinessReport> => {
+  const checks = await Promise.all(probes.map((probe) => runProbe(probe, timeoutMs)));
+  const ready = checks.every((check) => check.status === "ok" || check.status === "skipped");
+
+  return {
+    status: ready ? "ready" : "not_ready",
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+};
+
+const runProbe = async (
+  { name, version, check }: ReadinessProbe,
+  timeoutMs: number,
+): Promise<ReadinessCheckResult> => {
+  if (!check) {
+    return { name, status: "skipped", version };
+  }
+
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      check(),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new ReadinessProbeTimeoutError(name, timeoutMs)), timeoutMs);
+      }),
+    ]);
+    return { name, status: "ok", version, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      name,
+      status: error instanceof ReadinessProbeTimeoutError ? "timeout" : "failed",
+      version,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+      code: getErrorCode(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
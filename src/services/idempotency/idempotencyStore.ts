@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+
+import { ParsedUploadBody } from "../validation/newsletterUploadValidator";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+type NowFactory = () => Date;
+
+export interface StoredIdempotentResponse {
+  statusCode: number;
+  body: unknown;
+  /** Location header sent with the original response, e.g. for accepted async jobs. */
+  location?: string;
+}
+
+export type IdempotencyReservation =
+  | { status: "reserved" }
+  | { status: "replay"; response: StoredIdempotentResponse }
+  | { status: "conflict" }
+  | { status: "in_progress" };
+
+/**
+ * Tracks `Idempotency-Key` usage for generation requests. A key is reserved with the
+ * fingerprint of the request it first arrived with; repeats either replay the stored
+ * response or are rejected when the fingerprint differs.
+ */
+export interface IdempotencyStore {
+  reserve: (key: string, fingerprint: string) => Promise<IdempotencyReservation>;
+  complete: (key: string, response: StoredIdempotentResponse) => Promise<void>;
+  /** Drops a pending reservation so the client can retry after a failure. */
+  release: (key: string) => Promise<void>;
+}
+
+export interface InMemoryIdempotencyStoreOptions {
+  /** How long a key and its stored response are remembered. */
+  ttlMs?: number;
+  /** Upper bound on remembered responses; the oldest are evicted first, pending keys never. */
+  maxEntries?: number;
+  now?: NowFactory;
+}
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  createdAt: number;
+  response?: StoredIdempotentResponse;
+}
+
+export const createInMemoryIdempotencyStore = (
+  options: InMemoryIdempotencyStoreOptions = {},
+): IdempotencyStore => {
+  const entries = new Map<string, IdempotencyEntry>();
+  const ttlMs = normalizePositive(options.ttlMs, DEFAULT_TTL_MS);
+  const maxEntries = normalizePositive(options.maxEntries, DEFAULT_MAX_ENTRIES);
+  const now = options.now ?? (() => new Date());
+
+  const prune = (timestamp: number) => {
+    for (const [key, entry] of entries) {
+      if (timestamp - entry.createdAt >= ttlMs) {
+        entries.delete(key);
+      }
+    }
+
+    // Map iteration follows insertion order, so the first keys are the oldest. Pending
+    // reservations are kept so a retry of a request that is still running is not run again.
+    for (const [key, entry] of entries) {
+      if (entries.size < maxEntries) {
+        break;
+      }
+      if (entry.response) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    reserve: async (key, fingerprint) => {
+      const timestamp = now().getTime();
+      prune(timestamp);
+
+      const existing = entries.get(key);
+      if (!existing) {
+        entries.set(key, { fingerprint, createdAt: timestamp });
+        return { status: "reserved" };
+      }
+
+      if (existing.fingerprint !== fingerprint) {
+        return { status: "conflict" };
+      }
+
+      return existing.response
+        ? { status: "replay", response: existing.response }
+        : { status: "in_progress" };
+    },
+    complete: async (key, response) => {
+      const existing = entries.get(key);
+      if (existing) {
+        entries.set(key, { ...existing, response });
+      }
+    },
+    release: async (key) => {
+      const existing = entries.get(key);
+      if (existing && !existing.response) {
+        entries.delete(key);
+      }
+    },
+  };
+};
+
+export interface RequestFingerprintInput {
+  /** The parsed request fields, before validation probes the audio. */
+  payload: ParsedUploadBody;
+  /** SHA-256 of the uploaded audio, computed while it was received. */
+  audioSha256?: string;
+  async?: boolean;
+}
+
+/**
+ * Hashes the parsed request so that equivalent submissions share a fingerprint
+ * regardless of transport (multipart or JSON) or field ordering.
+ */
+export const createRequestFingerprint = ({
+  payload,
+  audioSha256,
+  async = false,
+}: RequestFingerprintInput): string => {
+  const hash = createHash("sha256");
+  hash.update(stableStringify({ payload, async }));
+
+  if (audioSha256) {
+    hash.update(audioSha256);
+  }
+
+  return hash.digest("hex");
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0))
+      .map(([entryKey, entryValue]) => `${JSON.stringify(entryKey)}:${stableStringify(entryValue)}`);
+
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+};
+
+const normalizePositive = (value: number | undefined, fallback: number): number => {
+  if (!value || value <= 0 || !Number.isFinite(value)) {
+    return fallback;
+  }
+
+  return Math.round(value);
+};
@@ -0,0 +1,177 @@
+import { randomUUID } from "crypto";
+
+import {
+  NewsletterGenerationJob,
+  NewsletterProgressEvent,
+  NewsletterUploadPayload,
+} from "../../types/newsletter";
+import { createConsoleLogger, type Logger } from "../logging/logger";
+
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_MAX_JOBS = 500;
+
+type IdFactory = () => string;
+type NowFactory = () => Date;
+
+export type NewsletterJobListener = (job: NewsletterGenerationJob) => void;
+
+export type NewsletterJobUpdate = Partial<
+  Pick<NewsletterGenerationJob, "status" | "result" | "errors" | "draftId">
+>;
+
+/**
+ * Storage contract for asynchronous generation jobs. The default implementation keeps
+ * jobs in process memory; a persistent backend can implement the same interface.
+ */
+export interface NewsletterJobStore {
+  create: (payload: NewsletterUploadPayload) => Promise<NewsletterGenerationJob>;
+  get: (jobId: string) => Promise<NewsletterGenerationJob | undefined>;
+  update: (
+    jobId: string,
+    update: NewsletterJobUpdate,
+  ) => Promise<NewsletterGenerationJob | undefined>;
+  appendProgress: (
+    jobId: string,
+    event: NewsletterProgressEvent,
+  ) => Promise<NewsletterGenerationJob | undefined>;
+  /** Notifies the listener after every change to the job; returns an unsubscribe callback. */
+  subscribe: (jobId: string, listener: NewsletterJobListener) => () => void;
+}
+
+export interface InMemoryNewsletterJobStoreOptions {
+  /** How long finished jobs remain queryable. */
+  retentionMs?: number;
+  /** Upper bound on stored jobs; the oldest finished jobs are evicted first. */
+  maxJobs?: number;
+  generateId?: IdFactory;
+  now?: NowFactory;
+  /** Receives failures thrown by job listeners. */
+  logger?: Logger;
+}
+
+export const createInMemoryNewsletterJobStore = (
+  options: InMemoryNewsletterJobStoreOptions = {},
+): NewsletterJobStore => {
+  const jobs = new Map<string, NewsletterGenerationJob>();
+  const listeners = new Map<string, Set<NewsletterJobListener>>();
+  const retentionMs = normalizePositive(options.retentionMs, DEFAULT_RETENTION_MS);
+  const maxJobs = normalizePositive(options.maxJobs, DEFAULT_MAX_JOBS);
+  const generateId = options.generateId ?? randomUUID;
+  const now = options.now ?? (() => new Date());
+  const logger = options.logger ?? createConsoleLogger();
+
+  const prune = () => {
+    const cutoff = now().getTime() - retentionMs;
+
+    for (const [jobId, job] of jobs) {
+      if (isFinished(job) && Date.parse(job.updatedAt) < cutoff) {
+        jobs.delete(jobId);
+        listeners.delete(jobId);
+      }
+    }
+
+    if (jobs.size < maxJobs) {
+      return;
+    }
+
+    const evictable = [...jobs.values()]
+      .filter(isFinished)
+      .sort((left, right) => Date.parse(left.updatedAt) - Date.parse(right.updatedAt));
+
+    while (jobs.size >= maxJobs && evictable.length > 0) {
+      const oldest = evictable.shift();
+      if (oldest) {
+        jobs.delete(oldest.id);
+        listeners.delete(oldest.id);
+      }
+    }
+  };
+
+  const save = (job: NewsletterGenerationJob): NewsletterGenerationJob => {
+    jobs.set(job.id, job);
+
+    listeners.get(job.id)?.forEach((listener) => {
+      try {
+        listener(cloneJob(job));
+      } catch (error) {
+        logger.warn("Newsletter job listener failed", { jobId: job.id, error });
+      }
+    });
+
+    return cloneJob(job);
+  };
+
+  return {
+    create: async (payload) => {
+      prune();
+
+      const timestamp = now().toISOString();
+      const job: NewsletterGenerationJob = {
+        id: generateId(),
+        status: "queued",
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        payload,
+        progress: [],
+      };
+
+      return save(job);
+    },
+    get: async (jobId) => {
+      const job = jobs.get(jobId);
+      return job ? cloneJob(job) : undefined;
+    },
+    update: async (jobId, update) => {
+      const existing = jobs.get(jobId);
+      if (!existing) {
+        return undefined;
+      }
+
+      return save({
+        ...existing,
+        ...update,
+        updatedAt: now().toISOString(),
+      });
+    },
+    appendProgress: async (jobId, event) => {
+      const existing = jobs.get(jobId);
+      if (!existing) {
+        return undefined;
+      }
+
+      return save({
+        ...existing,
+        progress: [...existing.progress, event],
+        updatedAt: now().toISOString(),
+      });
+    },
+    subscribe: (jobId, listener) => {
+      const jobListeners = listeners.get(jobId) ?? new Set<NewsletterJobListener>();
+      jobListeners.add(listener);
+      listeners.set(jobId, jobListeners);
+
+      return () => {
+        jobListeners.delete(listener);
+        if (jobListeners.size === 0) {
+          listeners.delete(jobId);
+        }
+      };
+    },
+  };
+};
+
+const cloneJob = (job: NewsletterGenerationJob): NewsletterGenerationJob => ({
+  ...job,
+  progress: [...job.progress],
+});
+
+const isFinished = (job: NewsletterGenerationJob): boolean =>
+  job.status === "succeeded" || job.status === "failed";
+
+const normalizePositive = (value: number | undefined, fallback: number): number => {
+  if (!value || value <= 0 || !Number.isFinite(value)) {
+    return fallback;
+  }
+
+  return Math.round(value);
+};
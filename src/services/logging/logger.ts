@@ -0,0 +1,153 @@
+import { NewsletterProgressEvent } from "../../types/newsletter";
+import { type ProgressReporter } from "../pipelineProgress";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export const parseLogLevel = (value: string | undefined): LogLevel | undefined => {
+  const normalized = value?.trim().toLowerCase();
+  return LOG_LEVELS.find((level) => level === normalized);
+};
+
+/**
+ * Minimal structured logger shared by the router and the generation services. Fields are
+ * merged into each entry; `child` binds fields such as the request correlation id.
+ */
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  child: (fields: LogFields) => Logger;
+}
+
+export interface JsonLoggerOptions {
+  /** Entries below this level are dropped. Defaults to "info". */
+  level?: LogLevel;
+  /** Receives one serialized JSON line per entry. Defaults to stdout. */
+  write?: (line: string) => void;
+  now?: () => Date;
+  bindings?: LogFields;
+}
+
+/** Emits each entry as a single JSON line, suitable for log shipping in production. */
+export const createJsonLogger = (options: JsonLoggerOptions = {}): Logger => {
+  const minimumRank = LOG_LEVELS.indexOf(options.level ?? "info");
+  const write = options.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+  const now = options.now ?? (() => new Date());
+
+  const build = (bindings: LogFields): Logger => {
+    const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+      if (LOG_LEVELS.indexOf(level) < minimumRank) {
+        return;
+      }
+
+      try {
+        write(
+          JSON.stringify({
+            timestamp: now().toISOString(),
+            level,
+            message,
+            ...bindings,
+            ...serializeFields(fields),
+          }),
+        );
+      } catch (error) {
+        console.warn("Failed to write log entry", error);
+      }
+    };
+
+    return {
+      debug: log("debug"),
+      info: log("info"),
+      warn: log("warn"),
+      error: log("error"),
+      child: (fields) => build({ ...bindings, ...fields }),
+    };
+  };
+
+  return build(options.bindings ?? {});
+};
+
+/**
+ * Fallback used when no logger is injected; keeps the previous console output so library
+ * consumers and tests see the same warnings as before.
+ */
+export const createConsoleLogger = (bindings: LogFields = {}): Logger => {
+  const log =
+    (method: "debug" | "info" | "warn" | "error") => (message: string, fields?: LogFields) => {
+      const merged = { ...bindings, ...fields };
+      if (Object.keys(merged).length > 0) {
+        console[method](message, merged);
+      } else {
+        console[method](message);
+      }
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) => createConsoleLogger({ ...bindings, ...fields }),
+  };
+};
+
+export const createNoopLogger = (): Logger => {
+  const noop = () => undefined;
+  const logger: Logger = {
+    debug: noop,
+    info: noop,
+    warn: noop,
+    error: noop,
+    child: () => logger,
+  };
+  return logger;
+};
+
+/** Logs pipeline progress events as stage lines with their timings. */
+export const createStageLogReporter =
+  (logger: Logger): ProgressReporter =>
+  (event: NewsletterProgressEvent) => {
+    const fields: LogFields = {
+      stage: event.stage,
+      status: event.status,
+      ...(event.durationMs !== undefined ? { durationMs: event.durationMs } : {}),
+      ...(event.errorCode ? { errorCode: event.errorCode } : {}),
+      ...(event.message ? { detail: event.message } : {}),
+    };
+
+    if (event.status === "failed") {
+      logger.warn("Pipeline stage failed", fields);
+    } else if (event.status === "completed") {
+      logger.info("Pipeline stage completed", fields);
+    } else {
+      logger.debug(`Pipeline stage ${event.status}`, fields);
+    }
+  };
+
+/** Extracts a machine-readable code from domain errors that carry one. */
+export const getErrorCode = (error: unknown): string | undefined => {
+  const code = (error as { code?: unknown } | null | undefined)?.code;
+  return typeof code === "string" ? code : undefined;
+};
+
+const serializeFields = (fields: LogFields | undefined): LogFields => {
+  if (!fields) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value]),
+  );
+};
+
+const serializeError = (error: Error): LogFields => ({
+  name: error.name,
+  message: error.message,
+  ...(getErrorCode(error) ? { code: getErrorCode(error) } : {}),
+  ...(error.stack ? { stack: error.stack } : {}),
+});
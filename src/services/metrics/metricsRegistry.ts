@@ -0,0 +1,169 @@
+export type MetricLabels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface Counter {
+  inc: (labels?: MetricLabels, value?: number) => void;
+}
+
+export interface Histogram {
+  observe: (value: number, labels?: MetricLabels) => void;
+}
+
+export interface CounterOptions {
+  name: string;
+  help: string;
+}
+
+export interface HistogramOptions {
+  name: string;
+  help: string;
+  /** Upper bounds of the cumulative buckets; `+Inf` is always appended. */
+  buckets: readonly number[];
+}
+
+/**
+ * In-process metric store rendered in the Prometheus text exposition format. Metrics are
+ * registered once by name; registering the same name again returns the existing metric.
+ */
+export interface MetricsRegistry {
+  counter: (options: CounterOptions) => Counter;
+  histogram: (options: HistogramOptions) => Histogram;
+  render: () => string;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+interface RegisteredMetric {
+  type: "counter" | "histogram";
+  help: string;
+  instance: Counter | Histogram;
+  render: () => string[];
+}
+
+export const createMetricsRegistry = (): MetricsRegistry => {
+  const metrics = new Map<string, RegisteredMetric>();
+
+  const register = <T extends Counter | Histogram>(
+    name: string,
+    type: RegisteredMetric["type"],
+    create: () => Omit<RegisteredMetric, "type">,
+  ): T => {
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name "${name}".`);
+    }
+
+    const existing = metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric "${name}" is already registered as a ${existing.type}.`);
+      }
+      return existing.instance as T;
+    }
+
+    const metric = { type, ...create() };
+    metrics.set(name, metric);
+    return metric.instance as T;
+  };
+
+  return {
+    counter: ({ name, help }) =>
+      register<Counter>(name, "counter", () => {
+        const series = new Map<string, { labels: MetricLabels; value: number }>();
+
+        return {
+          help,
+          instance: {
+            inc: (labels = {}, value = 1) => {
+              if (!Number.isFinite(value) || value < 0) {
+                return;
+              }
+              const key = serializeLabels(labels);
+              const current = series.get(key) ?? { labels, value: 0 };
+              series.set(key, { ...current, value: current.value + value });
+            },
+          },
+          render: () =>
+            Array.from(series.values()).map(
+              ({ labels, value }) => `${name}${serializeLabels(labels)} ${formatValue(value)}`,
+            ),
+        };
+      }),
+    histogram: ({ name, help, buckets }) =>
+      register<Histogram>(name, "histogram", () => {
+        const bounds = [...buckets].filter(Number.isFinite).sort((left, right) => left - right);
+        const series = new Map<string, HistogramSeries>();
+
+        return {
+          help,
+          instance: {
+            observe: (value, labels = {}) => {
+              if (!Number.isFinite(value)) {
+                return;
+              }
+              const key = serializeLabels(labels);
+              const current = series.get(key) ?? {
+                labels,
+                bucketCounts: bounds.map(() => 0),
+                sum: 0,
+                count: 0,
+              };
+              bounds.forEach((bound, index) => {
+                if (value <= bound) {
+                  current.bucketCounts[index] += 1;
+                }
+              });
+              current.sum += value;
+              current.count += 1;
+              series.set(key, current);
+            },
+          },
+          render: () =>
+            Array.from(series.values()).flatMap(({ labels, bucketCounts, sum, count }) => [
+              ...bounds.map(
+                (bound, index) =>
+                  `${name}_bucket${serializeLabels({ ...labels, le: formatValue(bound) })} ${bucketCounts[index]}`,
+              ),
+              `${name}_bucket${serializeLabels({ ...labels, le: "+Inf" })} ${count}`,
+              `${name}_sum${serializeLabels(labels)} ${formatValue(sum)}`,
+              `${name}_count${serializeLabels(labels)} ${count}`,
+            ]),
+        };
+      }),
+    render: () => {
+      const lines = Array.from(metrics.entries()).flatMap(([name, metric]) => [
+        `# HELP ${name} ${escapeHelp(metric.help)}`,
+        `# TYPE ${name} ${metric.type}`,
+        ...metric.render(),
+      ]);
+      return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+    },
+  };
+};
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+const serializeLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels).sort(([left], [right]) =>
+    left < right ? -1 : left > right ? 1 : 0,
+  );
+
+  if (entries.length === 0) {
+    return "";
+  }
+
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+};
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const escapeHelp = (value: string): string => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+const formatValue = (value: number): string =>
+  Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
@@ -0,0 +1,106 @@
+import { getErrorCode } from "../logging/logger";
+import { type ProgressReporter } from "../pipelineProgress";
+import { type MetricsRegistry } from "./metricsRegistry";
+
+const STAGE_DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const UPLOAD_SIZE_BUCKETS_BYTES = [
+  64 * 1024,
+  256 * 1024,
+  1024 * 1024,
+  5 * 1024 * 1024,
+  25 * 1024 * 1024,
+  50 * 1024 * 1024,
+  100 * 1024 * 1024,
+  200 * 1024 * 1024,
+];
+const UNKNOWN_ERROR_CODE = "UNKNOWN";
+
+/** Service whose failures and truncations are counted separately. */
+export type NewsletterMetricsSource = "audio" | "transcript";
+
+export interface NewsletterRequestObservation {
+  method: string;
+  route: string;
+  status: number;
+}
+
+/**
+ * Records generation pipeline metrics: request counts, per-stage latency, service error
+ * codes, truncation events and audio upload sizes.
+ */
+export interface NewsletterMetrics {
+  recordRequest: (observation: NewsletterRequestObservation) => void;
+  recordError: (source: NewsletterMetricsSource, code: string) => void;
+  recordTruncation: (source: NewsletterMetricsSource) => void;
+  recordUploadSize: (sizeBytes: number) => void;
+  /** Observes completed and failed stage durations from pipeline progress events. */
+  reportProgress: ProgressReporter;
+  /**
+   * Runs a service call, counting any error by its code and reporting truncation when
+   * `isTruncated` flags the result. Errors are rethrown unchanged.
+   */
+  track: <T>(
+    source: NewsletterMetricsSource,
+    operation: () => Promise<T>,
+    isTruncated?: (result: T) => boolean,
+  ) => Promise<T>;
+}
+
+export const createNewsletterMetrics = (registry: MetricsRegistry): NewsletterMetrics => {
+  const requests = registry.counter({
+    name: "newsletter_http_requests_total",
+    help: "Newsletter API requests by method, route and response status.",
+  });
+  const stageDuration = registry.histogram({
+    name: "newsletter_stage_duration_seconds",
+    help: "Duration of generation pipeline stages by stage and outcome.",
+    buckets: STAGE_DURATION_BUCKETS_SECONDS,
+  });
+  const errors = registry.counter({
+    name: "newsletter_service_errors_total",
+    help: "Audio summarizer and transcript synthesizer failures by error code.",
+  });
+  const truncations = registry.counter({
+    name: "newsletter_truncation_events_total",
+    help: "Results or inputs truncated to configured limits, by source.",
+  });
+  const uploadSize = registry.histogram({
+    name: "newsletter_upload_size_bytes",
+    help: "Size of uploaded meeting audio in bytes.",
+    buckets: UPLOAD_SIZE_BUCKETS_BYTES,
+  });
+
+  const recordError = (source: NewsletterMetricsSource, code: string) =>
+    errors.inc({ source, code });
+  const recordTruncation = (source: NewsletterMetricsSource) => truncations.inc({ source });
+
+  return {
+    recordRequest: ({ method, route, status }) =>
+      requests.inc({ method: method.toUpperCase(), route, status: String(status) }),
+    recordError,
+    recordTruncation,
+    recordUploadSize: (sizeBytes) => {
+      if (sizeBytes >= 0) {
+        uploadSize.observe(sizeBytes);
+      }
+    },
+    reportProgress: (event) => {
+      if (event.durationMs === undefined) {
+        return;
+      }
+      stageDuration.observe(event.durationMs / 1000, { stage: event.stage, status: event.status });
+    },
+    track: async (source, operation, isTruncated) => {
+      try {
+        const result = await operation();
+        if (isTruncated?.(result)) {
+          recordTruncation(source);
+        }
+        return result;
+      } catch (error) {
+        recordError(source, getErrorCode(error) ?? UNKNOWN_ERROR_CODE);
+        throw error;
+      }
+    },
+  };
+};
@@ -1,7 +1,9 @@
 import {
   ActionItem,
   ActionItemsSection,
+  AudioHighlight,
   AudioHighlightsSummary,
+  FREEFORM_TOPIC_SECTION_ID,
   FreeformTopicPrompt,
   FreeformTopicSuggestion,
   MeetingAudioUpload,
@@ -13,17 +15,32 @@ import {
   StructuredNewsletter,
   TranscriptSynthesisResult,
 } from "../types/newsletter";
+import { AudioSummarizerError } from "./audioSummarizer";
 import { type GenerateFreeformTopic } from "./freeformTopicGenerator";
+import { createConsoleLogger, createStageLogReporter, type Logger } from "./logging/logger";
+import {
+  combineProgressReporters,
+  logProgressReporterFailures,
+  type ProgressReporter,
+  reportSkippedStage,
+  trackPipelineStage,
+} from "./pipelineProgress";
+import { type SynthesisStage, type SynthesisStageResult } from "./transcriptSynthesizer";
+import { type AudioDataSource } from "./uploads/audioDataSource";
 
 const DEFAULT_FREEFORM_TONE_GUIDANCE =
   "Friendly internal tone: highlight wins, appreciate contributors, and reinforce next steps.";
 
+const DECISIONS_SECTION_TITLE = "Key Decisions";
+const INSIGHTS_SECTION_TITLE = "Highlights & Insights";
+
 type IdFactory = () => string;
 type NowFactory = () => Date;
 
 export interface SummarizeAudioParams {
   audio?: MeetingAudioUpload;
-  audioData?: Uint8Array;
+  audioData?: AudioDataSource;
+  reportProgress?: ProgressReporter;
 }
 
 export interface SummarizeAudio {
@@ -33,6 +50,7 @@ export interface SummarizeAudio {
 export interface SynthesizeContentParams {
   meetingRecap?: MeetingRecapInput;
   transcript?: MeetingTranscriptInput;
+  reportProgress?: ProgressReporter;
 }
 
 export interface SynthesizeContent {
@@ -45,30 +63,57 @@ export interface AssembleNewsletterDependencies {
   generateFreeformTopic?: GenerateFreeformTopic;
   generateId?: IdFactory;
   now?: NowFactory;
+  /** Receives per-stage progress events while the newsletter is assembled. */
+  reportProgress?: ProgressReporter;
+  /** When supplied, stage timings and recoverable failures are logged through it. */
+  logger?: Logger;
+}
+
+export interface SynthesizeStageParams {
+  stage: SynthesisStage;
+  meetingRecap?: MeetingRecapInput;
+  transcript?: MeetingTranscriptInput;
+  instructions?: string;
+}
+
+export interface SynthesizeStage {
+  (params: SynthesizeStageParams): Promise<SynthesisStageResult>;
 }
 
 export interface AssembleNewsletterParams {
   request: NewsletterGenerationRequest;
-  audioData?: Uint8Array;
+  /** Uploaded audio bytes; the caller keeps ownership and disposes of them afterwards. */
+  audioData?: AudioDataSource;
   dependencies: AssembleNewsletterDependencies;
+  /** Request id echoed in the response metadata so clients can quote it. */
+  correlationId?: string;
 }
 
 export const assembleNewsletter = async ({
   request,
   audioData,
   dependencies,
+  correlationId,
 }: AssembleNewsletterParams): Promise<NewsletterGenerationResponse> => {
   const startedAt = Date.now();
-  const { summarizeAudio, synthesizeContent, generateId, now } = dependencies;
+  const { summarizeAudio, synthesizeContent, generateId, now, logger } = dependencies;
+  const reportProgress = combineProgressReporters(
+    logger
+      ? logProgressReporterFailures(dependencies.reportProgress, logger)
+      : dependencies.reportProgress,
+    logger ? createStageLogReporter(logger) : undefined,
+  );
 
   const [audioSummary, transcriptSynthesis] = await Promise.all([
-    maybeSummarizeAudio(summarizeAudio, {
+    maybeSummarizeAudio(summarizeAudio, logger, {
       audio: request.audio,
       audioData,
+      reportProgress,
     }),
     synthesizeContent({
       meetingRecap: request.meetingRecap,
       transcript: request.transcript,
+      reportProgress,
     }),
   ]);
 
@@ -76,31 +121,263 @@ export const assembleNewsletter = async ({
     prompt: request.freeformTopicPrompt,
     audioSummary,
     transcriptSynthesis,
+    reportProgress,
+    logger,
   });
 
-  const structured = buildStructuredNewsletter({
-    request,
-    audioSummary,
-    transcriptSynthesis,
-    generateId,
-    freeformSuggestion,
-  });
+  const structured = await trackPipelineStage(reportProgress, "assembly", async () =>
+    buildStructuredNewsletter({
+      request,
+      audioSummary,
+      transcriptSynthesis,
+      generateId,
+      freeformSuggestion,
+    }),
+  );
 
   const createdAt = (now ?? defaultNowFactory)().toISOString();
   const processingTimeMs = Date.now() - startedAt;
   const warnings = collectWarnings({ audioSummary, transcriptSynthesis });
 
+  logger?.info("Newsletter assembled", {
+    durationMs: processingTimeMs,
+    audioSummaryIncluded: Boolean(audioSummary),
+    warningCount: warnings.length,
+  });
+
   return {
     sections: structured,
     metadata: {
       createdAt,
       processingTimeMs,
       audioSummaryIncluded: Boolean(audioSummary),
+      ...(correlationId ? { correlationId } : {}),
     },
     warnings: warnings.length > 0 ? warnings : undefined,
   };
 };
 
+export type RegenerableSectionKind =
+  | "introduction"
+  | "decisions"
+  | "insights"
+  | "action_items"
+  | "closing"
+  | "freeform";
+
+export interface RegenerateSectionDependencies {
+  synthesizeStage: SynthesizeStage;
+  generateFreeformTopic?: GenerateFreeformTopic;
+}
+
+export interface RegenerateNewsletterSectionParams {
+  request: NewsletterGenerationRequest;
+  /** Current (possibly edited) newsletter the section belongs to. */
+  newsletter: StructuredNewsletter;
+  sectionId: string;
+  instructions?: string;
+  dependencies: RegenerateSectionDependencies;
+}
+
+export interface RegeneratedNewsletterSection {
+  kind: RegenerableSectionKind;
+  section: NewsletterSection | ActionItemsSection;
+  /** Full suggestion when the freeform topic was regenerated. */
+  freeformTopic?: FreeformTopicSuggestion;
+}
+
+/**
+ * Maps a section of an assembled newsletter to the pipeline stage that produced it. Returns
+ * undefined for unknown ids and for placeholder sections that no stage owns.
+ */
+export const resolveRegenerableSectionKind = (
+  newsletter: StructuredNewsletter,
+  sectionId: string,
+): RegenerableSectionKind | undefined => {
+  if (sectionId === newsletter.introduction.id) {
+    return "introduction";
+  }
+
+  if (sectionId === newsletter.actionItems.id) {
+    return "action_items";
+  }
+
+  if (sectionId === newsletter.closing.id) {
+    return "closing";
+  }
+
+  if (sectionId === FREEFORM_TOPIC_SECTION_ID) {
+    return "freeform";
+  }
+
+  const mainUpdate = newsletter.mainUpdates.find((section) => section.id === sectionId);
+  if (mainUpdate?.id === "main-updates-decisions" || mainUpdate?.title === DECISIONS_SECTION_TITLE) {
+    return "decisions";
+  }
+
+  if (mainUpdate?.id === "main-updates-highlights" || mainUpdate?.title === INSIGHTS_SECTION_TITLE) {
+    return "insights";
+  }
+
+  return undefined;
+};
+
+/**
+ * Rebuilds one section of a stored newsletter by rerunning only the stage behind it. The
+ * replacement keeps the requested section id and is returned without touching the rest of
+ * the newsletter; callers decide whether to persist it.
+ */
+export const regenerateNewsletterSection = async ({
+  request,
+  newsletter,
+  sectionId,
+  instructions,
+  dependencies,
+}: RegenerateNewsletterSectionParams): Promise<RegeneratedNewsletterSection | undefined> => {
+  const kind = resolveRegenerableSectionKind(newsletter, sectionId);
+  if (!kind) {
+    return undefined;
+  }
+
+  const { synthesizeStage, generateFreeformTopic } = dependencies;
+  const trimmedInstructions = instructions?.trim() || undefined;
+  const runStage = (stage: SynthesisStage) =>
+    synthesizeStage({
+      stage,
+      meetingRecap: request.meetingRecap,
+      transcript: request.transcript,
+      instructions: trimmedInstructions,
+    });
+  const audioSummary = recoverAudioSummary(newsletter);
+  const withSectionId = <T extends NewsletterSection>(section: T): T => ({ ...section, id: sectionId });
+
+  switch (kind) {
+    case "introduction": {
+      const { summary = "" } = await runStage("summary");
+      return {
+        kind,
+        section: withSectionId(
+          buildIntroductionSection({ transcriptSynthesis: { summary }, audioSummary }),
+        ),
+      };
+    }
+    case "decisions": {
+      const { decisions = [] } = await runStage("decisions");
+      return {
+        kind,
+        section: {
+          id: sectionId,
+          title: DECISIONS_SECTION_TITLE,
+          body: formatDecisions(decisions) ?? "No key decisions were captured for this update.",
+        },
+      };
+    }
+    case "insights": {
+      const { insights = [] } = await runStage("insights");
+      return {
+        kind,
+        section: {
+          id: sectionId,
+          title: INSIGHTS_SECTION_TITLE,
+          body:
+            formatInsightsAndHighlights({ insights, audioSummary }) ??
+            "No highlights or insights were captured for this update.",
+          highlights: audioSummary?.highlights.map((highlight) => highlight.summary),
+        },
+      };
+    }
+    case "action_items": {
+      const { actionItems = [] } = await runStage("action_items");
+      return { kind, section: withSectionId(buildActionItemsSection({ actionItems })) };
+    }
+    case "closing":
+      return {
+        kind,
+        section: withSectionId(
+          buildClosingSection({
+            transcriptSynthesis: { summary: newsletter.introduction.body },
+            actionItemCount: newsletter.actionItems.items.length,
+          }),
+        ),
+      };
+    case "freeform": {
+      const freeformTopic = await regenerateFreeformTopic(generateFreeformTopic, {
+        request,
+        newsletter,
+        instructions: trimmedInstructions,
+        audioSummary,
+      });
+      return {
+        kind,
+        section: { id: sectionId, title: freeformTopic.title, body: freeformTopic.body },
+        freeformTopic,
+      };
+    }
+  }
+};
+
+interface RegenerateFreeformTopicArgs {
+  request: NewsletterGenerationRequest;
+  newsletter: StructuredNewsletter;
+  instructions?: string;
+  audioSummary?: Pick<AudioHighlightsSummary, "highlights">;
+}
+
+const regenerateFreeformTopic = async (
+  generateFreeformTopic: GenerateFreeformTopic | undefined,
+  { request, newsletter, instructions, audioSummary }: RegenerateFreeformTopicArgs,
+): Promise<FreeformTopicSuggestion> => {
+  const basePrompt = request.freeformTopicPrompt;
+  const combinedInstructions = [basePrompt?.instructions?.trim(), instructions]
+    .filter(Boolean)
+    .join("\n\n");
+  const prompt: FreeformTopicPrompt | undefined =
+    basePrompt || instructions
+      ? {
+          topic: basePrompt?.topic ?? newsletter.freeformTopic.title,
+          ...(combinedInstructions ? { instructions: combinedInstructions } : {}),
+        }
+      : undefined;
+
+  if (!generateFreeformTopic) {
+    return buildFreeformSuggestion({ prompt });
+  }
+
+  const suggestion = await generateFreeformTopic({
+    prompt,
+    context: {
+      summary: newsletter.introduction.body,
+      actionItems: newsletter.actionItems.items,
+      audioHighlights: audioSummary?.highlights,
+    },
+  });
+
+  return {
+    ...suggestion,
+    toneGuidance: suggestion.toneGuidance?.trim() || DEFAULT_FREEFORM_TONE_GUIDANCE,
+  };
+};
+
+/**
+ * Audio is not kept after generation, so regenerated sections reuse the highlight summaries
+ * that were stored on the highlights section.
+ */
+const recoverAudioSummary = (
+  newsletter: StructuredNewsletter,
+): Pick<AudioHighlightsSummary, "highlights"> | undefined => {
+  const storedHighlights = newsletter.mainUpdates.flatMap((section) => section.highlights ?? []);
+  if (storedHighlights.length === 0) {
+    return undefined;
+  }
+
+  const highlights: AudioHighlight[] = storedHighlights.map((summary, index) => ({
+    id: `highlight-${index + 1}`,
+    summary,
+  }));
+
+  return { highlights };
+};
+
 interface CollectWarningsArgs {
   audioSummary?: AudioHighlightsSummary;
   transcriptSynthesis: TranscriptSynthesisResult;
@@ -171,8 +448,8 @@ const buildStructuredNewsletter = ({
 };
 
 interface BuildIntroductionArgs {
-  transcriptSynthesis: TranscriptSynthesisResult;
-  audioSummary?: AudioHighlightsSummary;
+  transcriptSynthesis: Pick<TranscriptSynthesisResult, "summary">;
+  audioSummary?: Pick<AudioHighlightsSummary, "highlights">;
   generateId?: IdFactory;
 }
 
@@ -225,7 +502,7 @@ const buildMainUpdatesSections = ({
   if (decisionsBody) {
     sections.push({
       id: generateId ? generateId() : "main-updates-decisions",
-      title: "Key Decisions",
+      title: DECISIONS_SECTION_TITLE,
       body: decisionsBody,
     });
   }
@@ -238,7 +515,7 @@ const buildMainUpdatesSections = ({
   if (insightsBody) {
     sections.push({
       id: generateId ? generateId() : "main-updates-highlights",
-      title: "Highlights & Insights",
+      title: INSIGHTS_SECTION_TITLE,
       body: insightsBody,
       highlights: audioSummary?.highlights?.map((highlight) => highlight.summary),
     });
@@ -267,6 +544,10 @@ const formatDecisions = (decisions: TranscriptSynthesisResult["decisions"]): str
       segments.push(`Why it matters: ${decision.rationale}`);
     }
 
+    if (decision.speaker) {
+      segments.push(`Decided by ${decision.speaker}`);
+    }
+
     return `• ${segments.join(" \u2014 ")}`;
   });
 
@@ -275,7 +556,7 @@ const formatDecisions = (decisions: TranscriptSynthesisResult["decisions"]): str
 
 interface FormatInsightsArgs {
   insights: TranscriptSynthesisResult["insights"];
-  audioSummary?: AudioHighlightsSummary;
+  audioSummary?: Pick<AudioHighlightsSummary, "highlights">;
 }
 
 const formatInsightsAndHighlights = ({
@@ -289,7 +570,13 @@ const formatInsightsAndHighlights = ({
       ...insights.map((insight) => {
         const segments = [insight.summary];
         if (insight.quote) {
-          segments.push(`Quote: "${insight.quote}"`);
+          segments.push(
+            insight.speaker
+              ? `Quote: "${insight.quote}" (${insight.speaker})`
+              : `Quote: "${insight.quote}"`,
+          );
+        } else if (insight.speaker) {
+          segments.push(`Shared by ${insight.speaker}`);
         }
         return `• ${segments.join(" \u2014 ")}`;
       }),
@@ -328,7 +615,7 @@ const formatTimestamp = (seconds: number): string => {
 };
 
 interface BuildClosingArgs {
-  transcriptSynthesis: TranscriptSynthesisResult;
+  transcriptSynthesis: Pick<TranscriptSynthesisResult, "summary">;
   actionItemCount: number;
   audioSummary?: AudioHighlightsSummary;
   generateId?: IdFactory;
@@ -481,50 +768,76 @@ interface MaybeGenerateFreeformTopicArgs {
   prompt?: FreeformTopicPrompt;
   audioSummary?: AudioHighlightsSummary;
   transcriptSynthesis: TranscriptSynthesisResult;
+  reportProgress?: ProgressReporter;
+  logger?: Logger;
 }
 
 const maybeGenerateFreeformTopic = async (
   generateFreeformTopic: GenerateFreeformTopic | undefined,
-  { prompt, audioSummary, transcriptSynthesis }: MaybeGenerateFreeformTopicArgs,
+  {
+    prompt,
+    audioSummary,
+    transcriptSynthesis,
+    reportProgress,
+    logger = createConsoleLogger(),
+  }: MaybeGenerateFreeformTopicArgs,
 ): Promise<FreeformTopicSuggestion | undefined> => {
   if (!generateFreeformTopic) {
+    reportSkippedStage(reportProgress, "freeform", "Using the default freeform topic copy.");
     return undefined;
   }
 
   try {
-    const suggestion = await generateFreeformTopic({
-      prompt,
-      context: {
-        summary: transcriptSynthesis.summary,
-        decisions: transcriptSynthesis.decisions,
-        insights: transcriptSynthesis.insights,
-        actionItems: transcriptSynthesis.actionItems,
-        audioHighlights: audioSummary?.highlights,
-      },
-    });
+    const suggestion = await trackPipelineStage(
+      reportProgress,
+      "freeform",
+      () =>
+        generateFreeformTopic({
+          prompt,
+          context: {
+            summary: transcriptSynthesis.summary,
+            decisions: transcriptSynthesis.decisions,
+            insights: transcriptSynthesis.insights,
+            actionItems: transcriptSynthesis.actionItems,
+            audioHighlights: audioSummary?.highlights,
+          },
+        }),
+      (result) => ({ freeformTopic: result }),
+    );
 
     return {
       ...suggestion,
       toneGuidance: suggestion.toneGuidance?.trim() || DEFAULT_FREEFORM_TONE_GUIDANCE,
     };
   } catch (error) {
-    console.warn("Failed to generate freeform topic suggestion", error);
+    logger.warn("Failed to generate freeform topic suggestion", { stage: "freeform", error });
     return undefined;
   }
 };
 
 const maybeSummarizeAudio = async (
   summarizeAudio: SummarizeAudio | undefined,
+  logger: Logger | undefined,
   params: SummarizeAudioParams,
 ): Promise<AudioHighlightsSummary | undefined> => {
   if (!summarizeAudio || !params.audio) {
+    reportSkippedStage(params.reportProgress, "audio_transcription", "No meeting audio was provided.");
+    reportSkippedStage(params.reportProgress, "highlight_generation", "No meeting audio was provided.");
     return undefined;
   }
 
   try {
     return await summarizeAudio(params);
   } catch (error) {
-    console.warn("Failed to summarize meeting audio", error);
+    // Coded failures (a rejected source, an empty transcript) are translated for the caller.
+    if (error instanceof AudioSummarizerError) {
+      throw error;
+    }
+
+    (logger ?? createConsoleLogger()).warn("Failed to summarize meeting audio", {
+      stage: "audio_transcription",
+      error,
+    });
     return undefined;
   }
 };
@@ -0,0 +1,109 @@
+import {
+  NewsletterPipelineStage,
+  NewsletterProgressEvent,
+  NewsletterStagePartialResult,
+} from "../types/newsletter";
+import { createConsoleLogger, getErrorCode, type Logger } from "./logging/logger";
+
+export type ProgressReporter = (event: NewsletterProgressEvent) => void;
+
+/**
+ * Runs a single pipeline stage and reports started/completed/failed events with timings.
+ * When no reporter is supplied the task runs untouched, so callers can wrap stages
+ * unconditionally.
+ */
+export const trackPipelineStage = async <T>(
+  reportProgress: ProgressReporter | undefined,
+  stage: NewsletterPipelineStage,
+  task: () => Promise<T>,
+  describeResult?: (result: T) => NewsletterStagePartialResult | undefined,
+): Promise<T> => {
+  if (!reportProgress) {
+    return task();
+  }
+
+  const startedAt = Date.now();
+  safelyReport(reportProgress, {
+    stage,
+    status: "started",
+    timestamp: new Date(startedAt).toISOString(),
+  });
+
+  try {
+    const result = await task();
+    safelyReport(reportProgress, {
+      stage,
+      status: "completed",
+      timestamp: new Date().toISOString(),
+      durationMs: Date.now() - startedAt,
+      partialResult: describeResult?.(result),
+    });
+    return result;
+  } catch (error) {
+    safelyReport(reportProgress, {
+      stage,
+      status: "failed",
+      timestamp: new Date().toISOString(),
+      durationMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : undefined,
+      errorCode: getErrorCode(error),
+    });
+    throw error;
+  }
+};
+
+/** Fans events out to several reporters; returns undefined when none are supplied. */
+export const combineProgressReporters = (
+  ...reporters: (ProgressReporter | undefined)[]
+): ProgressReporter | undefined => {
+  const active = reporters.filter((reporter): reporter is ProgressReporter => Boolean(reporter));
+
+  if (active.length <= 1) {
+    return active[0];
+  }
+
+  return (event) => active.forEach((reporter) => safelyReport(reporter, event));
+};
+
+/**
+ * Logs failures thrown by the reporter through `logger` instead of the console, so they come
+ * out with the request's bindings. Returns undefined when no reporter is supplied.
+ */
+export const logProgressReporterFailures = (
+  reportProgress: ProgressReporter | undefined,
+  logger: Logger,
+): ProgressReporter | undefined =>
+  reportProgress && ((event) => safelyReport(reportProgress, event, logger));
+
+export const reportSkippedStage = (
+  reportProgress: ProgressReporter | undefined,
+  stage: NewsletterPipelineStage,
+  message?: string,
+): void => {
+  if (!reportProgress) {
+    return;
+  }
+
+  safelyReport(reportProgress, {
+    stage,
+    status: "skipped",
+    timestamp: new Date().toISOString(),
+    message,
+  });
+};
+
+const safelyReport = (
+  reportProgress: ProgressReporter,
+  event: NewsletterProgressEvent,
+  logger: Logger = createConsoleLogger(),
+): void => {
+  try {
+    reportProgress(event);
+  } catch (error) {
+    logger.warn("Failed to report pipeline progress", {
+      stage: event.stage,
+      status: event.status,
+      error,
+    });
+  }
+};
@@ -1,15 +1,21 @@
 import {
   ActionItem,
+  DEFAULT_NEWSLETTER_LIMITS,
   MeetingRecapInput,
   MeetingTranscriptInput,
+  SpeakerParticipation,
   SynthesizedContentSource,
   SynthesizedDecision,
   SynthesizedInsight,
+  TranscriptFormat,
+  TranscriptSegment,
   TranscriptSynthesisResult,
 } from "../types/newsletter";
-
-const MAX_COMBINED_TEXT_LENGTH = 20_000;
-const DEFAULT_SUMMARY_MAX_LENGTH = 1_000;
+import { type Logger } from "./logging/logger";
+import { type ProgressReporter, reportSkippedStage, trackPipelineStage } from "./pipelineProgress";
+import { chunkSynthesisText } from "./transcripts/transcriptChunker";
+import { normalizeTranscript } from "./transcripts/transcriptParser";
+import { groupSpeakerTurns, type SpeakerTurn } from "./transcripts/transcriptSegments";
 
 export enum TranscriptSynthesizerErrorCode {
   NO_CONTENT_PROVIDED = "NO_CONTENT_PROVIDED",
@@ -44,6 +50,10 @@ export interface BaseSynthesisInput {
   combinedText: string;
   recapText: string;
   transcriptText: string;
+  /** Speaker-attributed transcript segments, when its format carries them. */
+  transcriptSegments?: TranscriptSegment[];
+  /** Extra user guidance, supplied when a single section is regenerated. */
+  instructions?: string;
 }
 
 export interface SummarizeCombinedContentInput extends BaseSynthesisInput {
@@ -55,10 +65,18 @@ export interface TranscriptSynthesizerDependencies {
   extractDecisions: (input: BaseSynthesisInput) => Promise<SynthesizedDecision[]>;
   extractActionItems: (input: BaseSynthesisInput) => Promise<ActionItem[]>;
   extractInsights?: (input: BaseSynthesisInput) => Promise<SynthesizedInsight[]>;
+  /** Receives stage failures (with their error codes) and chunking notices. */
+  logger?: Logger;
 }
 
 export interface SynthesizeMeetingContentOptions {
   summaryMaxLength?: number;
+  /** Longest recap and transcript text sent to one call; longer input is synthesized in chunks. */
+  maxCombinedTextLength?: number;
+  /** Characters repeated from the end of one chunk at the start of the next. Defaults to 1,000. */
+  chunkOverlapLength?: number;
+  /** Chunks summarized or extracted at the same time. Defaults to 3. */
+  maxConcurrentChunks?: number;
 }
 
 export interface SynthesizeMeetingContentParams {
@@ -66,6 +84,8 @@ export interface SynthesizeMeetingContentParams {
   transcript?: MeetingTranscriptInput;
   dependencies: TranscriptSynthesizerDependencies;
   options?: SynthesizeMeetingContentOptions;
+  /** Receives summary and extraction stage events as they happen. */
+  reportProgress?: ProgressReporter;
 }
 
 export const synthesizeMeetingContent = async ({
@@ -73,100 +93,113 @@ export const synthesizeMeetingContent = async ({
   transcript,
   dependencies,
   options,
+  reportProgress,
 }: SynthesizeMeetingContentParams): Promise<TranscriptSynthesisResult> => {
-  const recapText = meetingRecap?.text?.trim() ?? "";
-  const transcriptText = transcript?.text?.trim() ?? "";
-
-  if (!recapText && !transcriptText) {
-    throw new TranscriptSynthesizerError(
-      TranscriptSynthesizerErrorCode.NO_CONTENT_PROVIDED,
-      "Either a meeting recap or transcript is required to synthesize content.",
-    );
-  }
-
-  const combined = [recapText, transcriptText].filter(Boolean).join("\n\n");
-  const { truncatedText, wasTruncated } = truncateCombinedText(combined);
-
-  const synthesisInput: BaseSynthesisInput = {
-    combinedText: truncatedText,
-    recapText,
-    transcriptText,
-  };
-
-  const summaryMaxLength = normalizeSummaryMaxLength(options?.summaryMaxLength);
-  const warnings: string[] = [];
-
-  if (wasTruncated) {
-    warnings.push(
-      `Combined recap and transcript content exceeded ${MAX_COMBINED_TEXT_LENGTH} characters and was truncated for processing.`,
-    );
-  }
+  const { synthesisInput, transcriptFormat } = prepareSynthesisInput(meetingRecap, transcript);
+  const { combinedText, recapText, transcriptText } = synthesisInput;
+  const chunks = splitSynthesisInput(synthesisInput, options, dependencies.logger);
+  const maxConcurrentChunks = normalizeLimit(
+    options?.maxConcurrentChunks,
+    DEFAULT_MAX_CONCURRENT_CHUNKS,
+  );
+
+  const summaryMaxLength = normalizeLimit(
+    options?.summaryMaxLength,
+    DEFAULT_NEWSLETTER_LIMITS.summaryMaxLength,
+  );
 
   let summary = "";
   try {
-    summary = await dependencies.summarize({
-      ...synthesisInput,
-      maxLength: summaryMaxLength,
-    });
-  } catch (error) {
-    throw new TranscriptSynthesizerError(
-      TranscriptSynthesizerErrorCode.SUMMARY_FAILED,
-      "Failed to generate combined summary from recap and transcript.",
-      undefined,
-      error,
+    summary = await trackPipelineStage(
+      reportProgress,
+      "summary",
+      () =>
+        summarizeChunks(chunks, maxConcurrentChunks, dependencies.summarize, summaryMaxLength),
+      (result) => ({ summary: result?.trim() ?? "" }),
     );
+  } catch (error) {
+    throw createStageError("summary", error, dependencies.logger);
   }
 
   const normalizedSummary = summary?.trim() ?? "";
 
   let decisions: SynthesizedDecision[] = [];
   try {
-    decisions = await dependencies.extractDecisions(synthesisInput);
-  } catch (error) {
-    throw new TranscriptSynthesizerError(
-      TranscriptSynthesizerErrorCode.DECISION_EXTRACTION_FAILED,
-      "Failed to extract key decisions.",
-      undefined,
-      error,
+    decisions = await trackPipelineStage(
+      reportProgress,
+      "decisions",
+      () =>
+        extractFromChunks(
+          chunks,
+          maxConcurrentChunks,
+          dependencies.extractDecisions,
+          sanitizeDecisions,
+          "decision",
+        ),
+      (result) => ({ decisions: sanitizeDecisions(result) }),
     );
+  } catch (error) {
+    throw createStageError("decisions", error, dependencies.logger);
   }
 
   let actionItems: ActionItem[] = [];
   try {
-    actionItems = await dependencies.extractActionItems(synthesisInput);
-  } catch (error) {
-    throw new TranscriptSynthesizerError(
-      TranscriptSynthesizerErrorCode.ACTION_ITEM_EXTRACTION_FAILED,
-      "Failed to extract action items.",
-      undefined,
-      error,
+    actionItems = await trackPipelineStage(
+      reportProgress,
+      "action_items",
+      () =>
+        extractFromChunks(
+          chunks,
+          maxConcurrentChunks,
+          dependencies.extractActionItems,
+          sanitizeActionItems,
+          "action",
+        ),
+      (result) => ({ actionItems: sanitizeActionItems(result) }),
     );
+  } catch (error) {
+    throw createStageError("action_items", error, dependencies.logger);
   }
 
   let insights: SynthesizedInsight[] = [];
-  if (dependencies.extractInsights) {
+  const { extractInsights } = dependencies;
+  if (extractInsights) {
     try {
-      insights = await dependencies.extractInsights(synthesisInput);
-    } catch (error) {
-      throw new TranscriptSynthesizerError(
-        TranscriptSynthesizerErrorCode.INSIGHT_EXTRACTION_FAILED,
-        "Failed to extract supporting insights.",
-        undefined,
-        error,
+      insights = await trackPipelineStage(
+        reportProgress,
+        "insights",
+        () =>
+          extractFromChunks(
+            chunks,
+            maxConcurrentChunks,
+            extractInsights,
+            sanitizeInsights,
+            "insight",
+          ),
+        (result) => ({ insights: sanitizeInsights(result) }),
       );
+    } catch (error) {
+      throw createStageError("insights", error, dependencies.logger);
     }
+  } else {
+    reportSkippedStage(reportProgress, "insights", "No insight extractor is configured.");
   }
 
-  const normalizedDecisions = sanitizeDecisions(decisions);
-  const normalizedActionItems = sanitizeActionItems(actionItems);
-  const normalizedInsights = sanitizeInsights(insights);
+  const speakerContext = createSpeakerContext(synthesisInput);
+  const normalizedDecisions = attributeDecisions(sanitizeDecisions(decisions), speakerContext);
+  const normalizedActionItems = assignActionItemOwners(
+    sanitizeActionItems(actionItems),
+    speakerContext,
+  );
+  const normalizedInsights = attributeInsights(sanitizeInsights(insights), speakerContext);
 
   const metadata: TranscriptSynthesisResult["metadata"] = {
     usedRecap: Boolean(recapText),
     usedTranscript: Boolean(transcriptText),
-    combinedCharacterCount: truncatedText.length,
-    truncatedInput: wasTruncated || undefined,
-    warnings: warnings.length > 0 ? warnings : undefined,
+    combinedCharacterCount: combinedText.length,
+    transcriptFormat,
+    speakers: buildSpeakerParticipation(speakerContext.turns),
+    chunkCount: chunks.length > 1 ? chunks.length : undefined,
   };
 
   return {
@@ -178,24 +211,330 @@ export const synthesizeMeetingContent = async ({
   };
 };
 
-const truncateCombinedText = (value: string): { truncatedText: string; wasTruncated: boolean } => {
-  if (!value) {
-    return { truncatedText: "", wasTruncated: false };
+export type SynthesisStage = "summary" | "decisions" | "action_items" | "insights";
+
+export type SynthesisStageResult = Partial<
+  Pick<TranscriptSynthesisResult, "summary" | "decisions" | "actionItems" | "insights">
+>;
+
+export interface RunSynthesisStageParams {
+  stage: SynthesisStage;
+  meetingRecap?: MeetingRecapInput;
+  transcript?: MeetingTranscriptInput;
+  dependencies: TranscriptSynthesizerDependencies;
+  options?: SynthesizeMeetingContentOptions;
+  instructions?: string;
+}
+
+/**
+ * Reruns a single synthesis stage against stored inputs, e.g. when one newsletter section is
+ * regenerated. Failures carry the same error codes as a full synthesis run.
+ */
+export const runSynthesisStage = async ({
+  stage,
+  meetingRecap,
+  transcript,
+  dependencies,
+  options,
+  instructions,
+}: RunSynthesisStageParams): Promise<SynthesisStageResult> => {
+  const { synthesisInput } = prepareSynthesisInput(meetingRecap, transcript);
+  const trimmedInstructions = instructions?.trim();
+  const chunks = splitSynthesisInput(synthesisInput, options, dependencies.logger).map((chunk) =>
+    trimmedInstructions ? { ...chunk, instructions: trimmedInstructions } : chunk,
+  );
+  const maxConcurrentChunks = normalizeLimit(
+    options?.maxConcurrentChunks,
+    DEFAULT_MAX_CONCURRENT_CHUNKS,
+  );
+  const speakerContext = createSpeakerContext(synthesisInput);
+
+  try {
+    switch (stage) {
+      case "summary": {
+        const summary = await summarizeChunks(
+          chunks,
+          maxConcurrentChunks,
+          dependencies.summarize,
+          normalizeLimit(options?.summaryMaxLength, DEFAULT_NEWSLETTER_LIMITS.summaryMaxLength),
+        );
+        return { summary: summary?.trim() ?? "" };
+      }
+      case "decisions":
+        return {
+          decisions: attributeDecisions(
+            sanitizeDecisions(
+              await extractFromChunks(
+                chunks,
+                maxConcurrentChunks,
+                dependencies.extractDecisions,
+                sanitizeDecisions,
+                "decision",
+              ),
+            ),
+            speakerContext,
+          ),
+        };
+      case "action_items":
+        return {
+          actionItems: assignActionItemOwners(
+            sanitizeActionItems(
+              await extractFromChunks(
+                chunks,
+                maxConcurrentChunks,
+                dependencies.extractActionItems,
+                sanitizeActionItems,
+                "action",
+              ),
+            ),
+            speakerContext,
+          ),
+        };
+      case "insights": {
+        const { extractInsights } = dependencies;
+        if (!extractInsights) {
+          throw new Error("No insight extractor is configured.");
+        }
+
+        return {
+          insights: attributeInsights(
+            sanitizeInsights(
+              await extractFromChunks(
+                chunks,
+                maxConcurrentChunks,
+                extractInsights,
+                sanitizeInsights,
+                "insight",
+              ),
+            ),
+            speakerContext,
+          ),
+        };
+      }
+    }
+  } catch (error) {
+    throw createStageError(stage, error, dependencies.logger);
   }
+};
+
+const SYNTHESIS_STAGE_FAILURES: Record<
+  SynthesisStage,
+  { code: TranscriptSynthesizerErrorCode; message: string }
+> = {
+  summary: {
+    code: TranscriptSynthesizerErrorCode.SUMMARY_FAILED,
+    message: "Failed to generate combined summary from recap and transcript.",
+  },
+  decisions: {
+    code: TranscriptSynthesizerErrorCode.DECISION_EXTRACTION_FAILED,
+    message: "Failed to extract key decisions.",
+  },
+  action_items: {
+    code: TranscriptSynthesizerErrorCode.ACTION_ITEM_EXTRACTION_FAILED,
+    message: "Failed to extract action items.",
+  },
+  insights: {
+    code: TranscriptSynthesizerErrorCode.INSIGHT_EXTRACTION_FAILED,
+    message: "Failed to extract supporting insights.",
+  },
+};
 
-  if (value.length <= MAX_COMBINED_TEXT_LENGTH) {
-    return { truncatedText: value, wasTruncated: false };
+const createStageError = (
+  stage: SynthesisStage,
+  cause: unknown,
+  logger: Logger | undefined,
+): TranscriptSynthesizerError => {
+  const { code, message } = SYNTHESIS_STAGE_FAILURES[stage];
+  logger?.error(message, { stage, errorCode: code, error: cause });
+  return new TranscriptSynthesizerError(code, message, undefined, cause);
+};
+
+const prepareSynthesisInput = (
+  meetingRecap: MeetingRecapInput | undefined,
+  transcript: MeetingTranscriptInput | undefined,
+): {
+  synthesisInput: BaseSynthesisInput;
+  transcriptFormat?: TranscriptFormat;
+} => {
+  const recapText = meetingRecap?.text?.trim() ?? "";
+  const rawTranscriptText = transcript?.text?.trim() ?? "";
+  // Validated uploads arrive normalized with their format; other callers' text is detected here.
+  const normalizedTranscript =
+    rawTranscriptText && !transcript?.format ? normalizeTranscript(rawTranscriptText) : undefined;
+  const transcriptText = normalizedTranscript?.text ?? rawTranscriptText;
+  const transcriptFormat = rawTranscriptText
+    ? (transcript?.format ?? normalizedTranscript?.format)
+    : undefined;
+  const transcriptSegments = rawTranscriptText
+    ? (transcript?.segments ?? normalizedTranscript?.segments)
+    : undefined;
+
+  if (!recapText && !transcriptText) {
+    throw new TranscriptSynthesizerError(
+      TranscriptSynthesizerErrorCode.NO_CONTENT_PROVIDED,
+      "Either a meeting recap or transcript is required to synthesize content.",
+    );
   }
 
-  return { truncatedText: value.slice(0, MAX_COMBINED_TEXT_LENGTH), wasTruncated: true };
+  return {
+    synthesisInput: buildSynthesisInput({
+      recapText,
+      transcriptText,
+      ...(transcriptSegments?.length ? { transcriptSegments } : {}),
+    }),
+    transcriptFormat,
+  };
 };
 
-const normalizeSummaryMaxLength = (value: number | undefined): number => {
+const buildSynthesisInput = (
+  input: Omit<BaseSynthesisInput, "combinedText">,
+): BaseSynthesisInput => ({
+  ...input,
+  combinedText: [input.recapText, input.transcriptText].filter(Boolean).join("\n\n"),
+});
+
+const DEFAULT_CHUNK_OVERLAP_LENGTH = 1_000;
+const DEFAULT_MAX_CONCURRENT_CHUNKS = 3;
+
+/**
+ * Returns the input as the only chunk when it fits in one call, else splits it into overlapping
+ * chunks of at most `maxCombinedTextLength` characters.
+ */
+const splitSynthesisInput = (
+  synthesisInput: BaseSynthesisInput,
+  options: SynthesizeMeetingContentOptions | undefined,
+  logger: Logger | undefined,
+): BaseSynthesisInput[] => {
+  const maxLength = normalizeLimit(
+    options?.maxCombinedTextLength,
+    DEFAULT_NEWSLETTER_LIMITS.maxCombinedTextLength,
+  );
+  if (synthesisInput.combinedText.length <= maxLength) {
+    return [synthesisInput];
+  }
+
+  const chunks = chunkSynthesisText({
+    ...synthesisInput,
+    maxLength,
+    overlapLength: normalizeLimit(options?.chunkOverlapLength, DEFAULT_CHUNK_OVERLAP_LENGTH),
+  }).map(buildSynthesisInput);
+  logger?.info("Synthesizing long input in chunks", {
+    chunkCount: chunks.length,
+    characterLimit: maxLength,
+    combinedLength: synthesisInput.combinedText.length,
+  });
+  return chunks;
+};
+
+/** Runs `operation` over every item with at most `concurrency` in flight, keeping their order. */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  operation: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await operation(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
+
+/**
+ * Summarizes each chunk, then summarizes the chunk summaries, which stand in for the recap and
+ * transcript in that final call.
+ */
+const summarizeChunks = async (
+  chunks: BaseSynthesisInput[],
+  concurrency: number,
+  summarize: TranscriptSynthesizerDependencies["summarize"],
+  maxLength: number,
+): Promise<string> => {
+  if (chunks.length === 1) {
+    return summarize({ ...chunks[0], maxLength });
+  }
+
+  const partials = await mapWithConcurrency(chunks, concurrency, async (chunk) =>
+    ((await summarize({ ...chunk, maxLength })) ?? "").trim(),
+  );
+  const joined = partials.filter(Boolean).join("\n\n");
+  return summarize({
+    ...buildSynthesisInput({ recapText: "", transcriptText: joined }),
+    ...(chunks[0].instructions ? { instructions: chunks[0].instructions } : {}),
+    maxLength,
+  });
+};
+
+interface ChunkExtractedItem {
+  id: string;
+  summary: string;
+  source?: SynthesizedContentSource;
+}
+
+/**
+ * Runs an extractor over every chunk and merges the results. Items whose summaries match once
+ * case, punctuation and spacing are ignored, e.g. a sentence seen in two overlapping chunks,
+ * are kept once with the details each copy supplied, and merged items are renumbered.
+ */
+const extractFromChunks = async <T extends ChunkExtractedItem>(
+  chunks: BaseSynthesisInput[],
+  concurrency: number,
+  extract: (input: BaseSynthesisInput) => Promise<T[]>,
+  sanitize: (items: T[] | undefined) => T[],
+  idPrefix: string,
+): Promise<T[]> => {
+  if (chunks.length === 1) {
+    return extract(chunks[0]);
+  }
+
+  const extracted = await mapWithConcurrency(chunks, concurrency, async (chunk) =>
+    sanitize(await extract(chunk)),
+  );
+  const merged = new Map<string, T>();
+
+  extracted.flat().forEach((item) => {
+    const key = item.summary
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? {
+            ...omitUndefined(item),
+            ...omitUndefined(existing),
+            source: mergeSources(existing.source, item.source),
+          }
+        : item,
+    );
+  });
+
+  return [...merged.values()].map((item, index) => ({ ...item, id: `${idPrefix}-${index + 1}` }));
+};
+
+const omitUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+
+const mergeSources = (
+  first: SynthesizedContentSource | undefined,
+  second: SynthesizedContentSource | undefined,
+): SynthesizedContentSource | undefined =>
+  !first || !second || first === second ? (first ?? second) : "both";
+
+const normalizeLimit = (value: number | undefined, fallback: number): number => {
   if (!value || value <= 0 || !Number.isFinite(value)) {
-    return DEFAULT_SUMMARY_MAX_LENGTH;
+    return fallback;
   }
 
-  return Math.min(Math.round(value), DEFAULT_SUMMARY_MAX_LENGTH);
+  return Math.round(value);
 };
 
 const splitSentences = (text: string): string[] =>
@@ -247,59 +586,275 @@ const buildSummary = ({ combinedText, maxLength }: { combinedText: string; maxLe
   return clampText(sentences.slice(0, 4).join(" "), maxLength);
 };
 
-const buildDecisionSummaries = ({
-  recapText,
-  transcriptText,
-}: BaseSynthesisInput): SynthesizedDecision[] => {
-  const recapSentences = splitSentences(recapText);
-  const transcriptSentences = splitSentences(transcriptText);
-  const combined = [...recapSentences, ...transcriptSentences];
+const buildDecisionSummaries = (input: BaseSynthesisInput): SynthesizedDecision[] => {
+  const { recapText, transcriptText } = input;
+  const combined = [...splitRecapSentences(recapText), ...createSpeakerContext(input).sentences];
 
-  const candidates = combined.filter((sentence) => matchesKeywords(sentence, DECISION_KEYWORDS));
+  const candidates = combined.filter(({ text }) => matchesKeywords(text, DECISION_KEYWORDS));
 
-  return candidates.slice(0, 5).map((sentence, index) => ({
+  return candidates.slice(0, 5).map(({ text, speaker }, index) => ({
     id: `decision-${index + 1}`,
-    summary: sentence.replace(/\s+/g, " ").trim(),
-    source: determineSource(sentence, recapText, transcriptText),
+    summary: text.replace(/\s+/g, " ").trim(),
+    source: determineSource(text, recapText, transcriptText),
     rationale: undefined,
+    ...(speaker ? { speaker } : {}),
   }));
 };
 
-const buildActionItems = ({ recapText, transcriptText }: BaseSynthesisInput): ActionItem[] => {
-  const bulletCandidates = [recapText, transcriptText]
+const buildActionItems = (input: BaseSynthesisInput): ActionItem[] => {
+  const { recapText, transcriptText } = input;
+  const speakerContext = createSpeakerContext(input);
+  // Speaker-labelled transcripts are split by turn instead, so labels never become summaries.
+  const bulletSources = input.transcriptSegments?.length
+    ? [recapText]
+    : [recapText, transcriptText];
+  const bulletCandidates = bulletSources
     .flatMap((text) =>
       text
         .split(/\r?\n|•|-|\*/)
         .map((entry) => entry.trim())
         .filter((entry) => entry.length > 0),
     )
-    .filter((entry, index, all) => all.indexOf(entry) === index);
+    .filter((entry, index, all) => all.indexOf(entry) === index)
+    .map((text): AttributedSentence => ({ text }));
 
-  const sentenceCandidates = [...splitSentences(recapText), ...splitSentences(transcriptText)];
-  const allCandidates = [...bulletCandidates, ...sentenceCandidates];
+  const sentenceCandidates = [...splitRecapSentences(recapText), ...speakerContext.sentences];
+  const allCandidates = [...bulletCandidates, ...sentenceCandidates].map((candidate) => ({
+    ...candidate,
+    owner: inferActionOwner(candidate, speakerContext.turns),
+  }));
 
-  const filtered = allCandidates.filter((candidate) => matchesKeywords(candidate, ACTION_KEYWORDS));
+  const filtered = allCandidates.filter(
+    (candidate) => candidate.owner || matchesKeywords(candidate.text, ACTION_KEYWORDS),
+  );
 
   return filtered.slice(0, 8).map((candidate, index) => ({
     id: `action-${index + 1}`,
-    summary: candidate.replace(/\s+/g, " ").trim(),
-    owner: undefined,
+    summary: candidate.text.replace(/\s+/g, " ").trim(),
+    owner: candidate.owner,
     dueDate: undefined,
-    source: determineSource(candidate, recapText, transcriptText),
+    source: determineSource(candidate.text, recapText, transcriptText),
   }));
 };
 
-const buildInsights = ({ recapText, transcriptText }: BaseSynthesisInput): SynthesizedInsight[] => {
-  const sentences = [...splitSentences(recapText), ...splitSentences(transcriptText)];
-  const candidates = sentences.filter((sentence) => matchesKeywords(sentence, INSIGHT_KEYWORDS));
+const buildInsights = (input: BaseSynthesisInput): SynthesizedInsight[] => {
+  const { recapText, transcriptText } = input;
+  const sentences = [...splitRecapSentences(recapText), ...createSpeakerContext(input).sentences];
+  const candidates = sentences.filter(({ text }) => matchesKeywords(text, INSIGHT_KEYWORDS));
 
-  return candidates.slice(0, 5).map((sentence, index) => ({
+  return candidates.slice(0, 5).map(({ text, speaker }, index) => ({
     id: `insight-${index + 1}`,
-    summary: sentence.replace(/\s+/g, " ").trim(),
-    source: determineSource(sentence, recapText, transcriptText),
+    summary: text.replace(/\s+/g, " ").trim(),
+    source: determineSource(text, recapText, transcriptText),
+    ...(speaker ? { speaker } : {}),
   }));
 };
 
+/** A sentence of the meeting text, tied to the transcript turn it was spoken in when known. */
+interface AttributedSentence {
+  text: string;
+  speaker?: string;
+  turnIndex?: number;
+}
+
+/** The transcript's speaker turns and its sentences, each tied to the turn that holds it. */
+interface SpeakerContext {
+  turns: SpeakerTurn[];
+  sentences: AttributedSentence[];
+}
+
+const createSpeakerContext = ({
+  transcriptText,
+  transcriptSegments = [],
+}: BaseSynthesisInput): SpeakerContext => {
+  const turns = groupSpeakerTurns(transcriptSegments);
+  const sentences =
+    turns.length > 0
+      ? turns.flatMap(({ speaker, text }, turnIndex) =>
+          splitSentences(text).map((sentence) => ({ text: sentence, speaker, turnIndex })),
+        )
+      : splitSentences(transcriptText).map((text) => ({ text }));
+
+  return { turns, sentences };
+};
+
+const splitRecapSentences = (recapText: string): AttributedSentence[] =>
+  splitSentences(recapText).map((text) => ({ text }));
+
+/** "I'll…" style commitments, owned by whoever says them. */
+const COMMITMENT_PATTERN =
+  /\b(?:I['’]ll|I will|I['’]m going to|I am going to|I can take|let me(?! know))\b/i;
+/** "Can you…" style requests, owned by whoever is asked. */
+const REQUEST_PATTERN = /\b(?:can|could|would|will) you\b/i;
+
+/**
+ * Infers who owns a task stated in a speaker's turn: the speaker for a commitment, and for a
+ * request the other speaker it names (by full or first name), else whoever answers it.
+ */
+const inferActionOwner = (
+  { text, speaker, turnIndex }: AttributedSentence,
+  turns: SpeakerTurn[],
+): string | undefined => {
+  if (!speaker || turnIndex === undefined) {
+    return undefined;
+  }
+
+  if (COMMITMENT_PATTERN.test(text)) {
+    return speaker;
+  }
+
+  if (!REQUEST_PATTERN.test(text)) {
+    return undefined;
+  }
+
+  const words = new Set(text.toLowerCase().match(/[\p{L}\p{M}'’-]+/gu) ?? []);
+  const addressed = turns.find(
+    (turn) =>
+      turn.speaker &&
+      turn.speaker !== speaker &&
+      words.has(turn.speaker.split(/\s+/)[0].toLowerCase()),
+  );
+  if (addressed) {
+    return addressed.speaker;
+  }
+
+  const reply = turns.slice(turnIndex + 1).find((turn) => turn.speaker)?.speaker;
+  return reply !== speaker ? reply : undefined;
+};
+
+const normalizeForMatch = (value: string | undefined): string =>
+  value?.toLowerCase().replace(/\s+/g, " ").trim() ?? "";
+
+/** The one speaker whose turns contain `text`; undefined when nobody or several people said it. */
+const findSpeakerOf = (text: string | undefined, turns: SpeakerTurn[]): string | undefined => {
+  const needle = normalizeForMatch(text);
+  if (!needle) {
+    return undefined;
+  }
+
+  const speakers = new Set(
+    turns
+      .filter((turn) => turn.speaker && normalizeForMatch(turn.text).includes(needle))
+      .map((turn) => turn.speaker),
+  );
+  return speakers.size === 1 ? [...speakers][0] : undefined;
+};
+
+const attributeDecisions = (
+  decisions: SynthesizedDecision[],
+  { turns }: SpeakerContext,
+): SynthesizedDecision[] =>
+  decisions.map((decision) => {
+    const speaker =
+      decision.speaker ??
+      findSpeakerOf(decision.supportingEvidence, turns) ??
+      findSpeakerOf(decision.summary, turns);
+    return speaker ? { ...decision, speaker } : decision;
+  });
+
+const attributeInsights = (
+  insights: SynthesizedInsight[],
+  { turns }: SpeakerContext,
+): SynthesizedInsight[] =>
+  insights.map((insight) => {
+    const speaker =
+      insight.speaker ??
+      findSpeakerOf(insight.quote, turns) ??
+      findSpeakerOf(insight.summary, turns);
+    return speaker ? { ...insight, speaker } : insight;
+  });
+
+/** Fills in owners the extractor left blank from the turn where the task was stated. */
+const assignActionItemOwners = (
+  items: ActionItem[],
+  { turns, sentences }: SpeakerContext,
+): ActionItem[] =>
+  items.map((item) => {
+    if (item.owner) {
+      return item;
+    }
+
+    const summary = normalizeForMatch(item.summary);
+    const sentence = sentences.find(
+      (candidate) => candidate.speaker && normalizeForMatch(candidate.text).includes(summary),
+    );
+    const owner = sentence && inferActionOwner(sentence, turns);
+    return owner ? { ...item, owner } : item;
+  });
+
+/** Words, turns and timed speech per named speaker, most words first. */
+const buildSpeakerParticipation = (turns: SpeakerTurn[]): SpeakerParticipation[] | undefined => {
+  const totals = new Map<string, { turnCount: number; wordCount: number; seconds?: number }>();
+  const speakingTime = measureSpeakingTime(turns);
+
+  turns.forEach(({ speaker, text }) => {
+    if (!speaker) {
+      return;
+    }
+
+    const entry = totals.get(speaker) ?? { turnCount: 0, wordCount: 0 };
+    entry.turnCount += 1;
+    entry.wordCount += text.split(/\s+/).filter(Boolean).length;
+    totals.set(speaker, entry);
+  });
+
+  if (totals.size === 0) {
+    return undefined;
+  }
+
+  const totalWords = [...totals.values()].reduce((sum, { wordCount }) => sum + wordCount, 0);
+  return [...totals]
+    .map(([speaker, { turnCount, wordCount }]) => {
+      const seconds = speakingTime.get(speaker);
+      return {
+        speaker,
+        turnCount,
+        wordCount,
+        shareOfWords: totalWords > 0 ? Math.round((wordCount / totalWords) * 100) / 100 : 0,
+        ...(seconds !== undefined ? { speakingTimeSeconds: Math.round(seconds * 10) / 10 } : {}),
+      };
+    })
+    .sort((left, right) => right.wordCount - left.wordCount);
+};
+
+/**
+ * Sums each speaker's timed segments. Segments that share one time window, as in a caption cue
+ * holding two voices or turns under one Meet timestamp, split it by their word counts.
+ */
+const measureSpeakingTime = (turns: SpeakerTurn[]): Map<string, number> => {
+  const windows = new Map<
+    string,
+    { duration: number; parts: { speaker: string; words: number }[] }
+  >();
+
+  turns.forEach(({ speaker, segments }) => {
+    segments.forEach(({ startTimeSeconds, endTimeSeconds, text }) => {
+      if (
+        !speaker ||
+        startTimeSeconds === undefined ||
+        endTimeSeconds === undefined ||
+        endTimeSeconds <= startTimeSeconds
+      ) {
+        return;
+      }
+
+      const key = `${startTimeSeconds}-${endTimeSeconds}`;
+      const window = windows.get(key) ?? { duration: endTimeSeconds - startTimeSeconds, parts: [] };
+      window.parts.push({ speaker, words: Math.max(1, text.split(/\s+/).filter(Boolean).length) });
+      windows.set(key, window);
+    });
+  });
+
+  const seconds = new Map<string, number>();
+  windows.forEach(({ duration, parts }) => {
+    const words = parts.reduce((sum, part) => sum + part.words, 0);
+    parts.forEach(({ speaker, words: partWords }) => {
+      seconds.set(speaker, (seconds.get(speaker) ?? 0) + (duration * partWords) / words);
+    });
+  });
+  return seconds;
+};
+
 export const createDefaultTranscriptSynthesizerDependencies = (): TranscriptSynthesizerDependencies => ({
   summarize: async ({ combinedText, maxLength }) => buildSummary({ combinedText, maxLength }),
   extractDecisions: async (input) => buildDecisionSummaries(input),
@@ -315,11 +870,12 @@ const sanitizeDecisions = (decisions: SynthesizedDecision[] | undefined): Synthe
   return decisions
     .map((decision, index) => ({
       ...decision,
-      id: decision?.id ?? `decision-${index + 1}`,
+      id: decision?.id?.trim() || `decision-${index + 1}`,
       summary: decision?.summary?.trim() ?? "",
       source: normalizeSource(decision?.source),
       rationale: decision?.rationale?.trim() || undefined,
       supportingEvidence: decision?.supportingEvidence?.trim() || undefined,
+      speaker: decision?.speaker?.trim() || undefined,
     }))
     .filter((decision) => Boolean(decision.summary));
 };
@@ -332,7 +888,7 @@ const sanitizeActionItems = (items: ActionItem[] | undefined): ActionItem[] => {
   return items
     .map((item, index) => ({
       ...item,
-      id: item?.id ?? `action-${index + 1}`,
+      id: item?.id?.trim() || `action-${index + 1}`,
       summary: item?.summary?.trim() ?? "",
       owner: item?.owner?.trim() || undefined,
       dueDate: item?.dueDate || undefined,
@@ -350,11 +906,12 @@ const sanitizeInsights = (insights: SynthesizedInsight[] | undefined): Synthesiz
   return insights
     .map((insight, index) => ({
       ...insight,
-      id: insight?.id ?? `insight-${index + 1}`,
+      id: insight?.id?.trim() || `insight-${index + 1}`,
       summary: insight?.summary?.trim() ?? "",
       source: normalizeSource(insight?.source),
       quote: insight?.quote?.trim() || undefined,
       category: insight?.category?.trim() || undefined,
+      speaker: insight?.speaker?.trim() || undefined,
     }))
     .filter((insight) => Boolean(insight.summary));
 };
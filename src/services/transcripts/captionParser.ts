@@ -0,0 +1,130 @@
+import type { TranscriptSegment } from "../../types/newsletter";
+import {
+  buildTranscriptFromSegments,
+  parseClockTime,
+  splitSpeakerPrefix,
+  type ParsedTranscript,
+} from "./transcriptSegments";
+
+/** `00:01:02.500 --> 00:01:04.000`, with optional hours and either decimal separator. */
+const CUE_TIMING_PATTERN =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const WEBVTT_SIGNATURE_PATTERN = /^\uFEFF?WEBVTT(?:[ \t\r\n]|$)/;
+const VOICE_TAG_PATTERN = /<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+const MARKUP_PATTERN = /<[^>]*>|\{\\[^}]*\}/g;
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&#39;": "'",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+const ENTITY_PATTERN = new RegExp(Object.keys(HTML_ENTITIES).join("|"), "g");
+
+/**
+ * Parses a WebVTT file. Speakers come from `<v>` voice tags or a leading "Name:" label; NOTE,
+ * STYLE and REGION blocks and cue settings are ignored. Returns undefined when the file lacks
+ * the WEBVTT signature or has no cues with text.
+ */
+export const parseWebVtt = (content: string): ParsedTranscript | undefined => {
+  if (!WEBVTT_SIGNATURE_PATTERN.test(content)) {
+    return undefined;
+  }
+
+  const [, ...blocks] = splitBlocks(content);
+  return buildTranscript(blocks, (line) => ({
+    speaker: VOICE_TAG_PATTERN.exec(line)?.[1]?.trim(),
+    text: cleanMarkup(line),
+  }));
+};
+
+/**
+ * Parses a SubRip (SRT) file, tolerating missing cue numbers and `.` as the millisecond
+ * separator. Returns undefined when no cue with text is found.
+ */
+export const parseSrt = (content: string): ParsedTranscript | undefined =>
+  buildTranscript(splitBlocks(content), (line) => ({ text: cleanMarkup(line) }));
+
+/**
+ * Reads one payload line into its text and any speaker its markup names. Lines without one
+ * fall back to a "Name:" label, then to the previous line's speaker.
+ */
+type PayloadLineReader = (line: string) => { speaker?: string; text: string };
+
+const buildTranscript = (
+  blocks: string[][],
+  readLine: PayloadLineReader,
+): ParsedTranscript | undefined => {
+  const segments = blocks.flatMap((lines) => parseCue(lines, readLine));
+  return segments.length > 0 ? buildTranscriptFromSegments(segments) : undefined;
+};
+
+const parseCue = (lines: string[], readLine: PayloadLineReader): TranscriptSegment[] => {
+  // The timing line is first, or second after a cue identifier or number.
+  const timingIndex = lines.slice(0, 2).findIndex((line) => CUE_TIMING_PATTERN.test(line));
+  if (timingIndex < 0) {
+    return [];
+  }
+
+  const [, start, end] = CUE_TIMING_PATTERN.exec(lines[timingIndex]) as RegExpExecArray;
+  const startTimeSeconds = parseClockTime(start);
+  const endTimeSeconds = parseClockTime(end);
+  const segments: TranscriptSegment[] = [];
+  let voice: string | undefined;
+
+  lines.slice(timingIndex + 1).forEach((line) => {
+    const read = readLine(line);
+    const { speaker, text } = read.speaker ? read : splitSpeakerPrefix(read.text);
+    voice = speaker ?? voice;
+    if (!text) {
+      return;
+    }
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.speaker === voice) {
+      previous.text = `${previous.text} ${text}`;
+      return;
+    }
+
+    segments.push({ startTimeSeconds, endTimeSeconds, ...(voice ? { speaker: voice } : {}), text });
+  });
+
+  return segments;
+};
+
+/** Groups lines into blocks separated by blank lines. */
+const splitBlocks = (content: string): string[][] => {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+
+  content
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n|\r|\n/)
+    .forEach((line) => {
+      if (line.trim()) {
+        current.push(line);
+        return;
+      }
+      if (current.length > 0) {
+        blocks.push(current);
+        current = [];
+      }
+    });
+
+  if (current.length > 0) {
+    blocks.push(current);
+  }
+
+  return blocks;
+};
+
+const cleanMarkup = (line: string): string =>
+  line
+    .replace(MARKUP_PATTERN, "")
+    .replace(ENTITY_PATTERN, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, " ")
+    .trim();
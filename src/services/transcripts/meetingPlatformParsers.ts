@@ -0,0 +1,177 @@
+import type { TranscriptSegment } from "../../types/newsletter";
+import {
+  buildTranscriptFromSegments,
+  parseClockTime,
+  splitSpeakerPrefix,
+  type ParsedTranscript,
+} from "./transcriptSegments";
+
+/** Zoom prints zero-padded `hh:mm:ss`, either after a bracketed name or two spaces after it. */
+const ZOOM_BRACKETED_HEADER_PATTERN = /^\[([^\]]+)\]\s+(\d{2}:\d{2}:\d{2})(?:\s+(\S.*))?$/;
+const ZOOM_SPACED_HEADER_PATTERN = /^(\S.*?)\s{2,}(\d{2}:\d{2}:\d{2})$/;
+/** Teams prints unpadded offsets such as `0:03` or `1:02:03`, after the name or below it. */
+const TEAMS_INLINE_HEADER_PATTERN = /^(\S.*?)(?:\s{2,}|\t)(\d{1,2}:\d{2}|\d:\d{2}:\d{2})$/;
+const TEAMS_TIMESTAMP_LINE_PATTERN = /^(?:\d{1,2}:\d{2}|\d:\d{2}:\d{2})$/;
+const SPEAKER_NAME_LINE_PATTERN = /^\p{L}[\p{L}\p{M}\d'’.() -]{0,59}$/u;
+/** Meet inserts a bare `hh:mm:ss` line every few minutes between "Name: text" lines. */
+const MEET_TIMESTAMP_LINE_PATTERN = /^\d{2}:\d{2}:\d{2}$/;
+/** Lines such as a title or attendee list tolerated before the first speaker turn. */
+const MAX_PREAMBLE_LINES = 5;
+
+/**
+ * Parses a Zoom transcript export: turns headed by `Name  00:12:03` or `[Name] 00:12:03`, with
+ * the spoken text on the following lines or after a bracketed header.
+ */
+export const parseZoomTranscript = (content: string): ParsedTranscript | undefined =>
+  parseTurns(content, (lines, index) => {
+    const line = lines[index];
+    const bracketed = ZOOM_BRACKETED_HEADER_PATTERN.exec(line);
+    if (bracketed) {
+      return turn(bracketed[1], bracketed[2], bracketed[3]);
+    }
+
+    const spaced = ZOOM_SPACED_HEADER_PATTERN.exec(line);
+    return spaced ? turn(spaced[1], spaced[2]) : undefined;
+  });
+
+/**
+ * Parses text saved from a Teams transcript, as copied from the transcript pane or exported to
+ * `.docx`: the speaker's name with the offset beside it (`Name   0:03`) or on the next line.
+ */
+export const parseTeamsTranscript = (content: string): ParsedTranscript | undefined =>
+  parseTurns(content, (lines, index) => {
+    const line = lines[index];
+    const inline = TEAMS_INLINE_HEADER_PATTERN.exec(line);
+    if (inline) {
+      return turn(inline[1], inline[2]);
+    }
+
+    const next = lines[index + 1];
+    if (
+      next &&
+      SPEAKER_NAME_LINE_PATTERN.test(line) &&
+      !line.endsWith(".") &&
+      TEAMS_TIMESTAMP_LINE_PATTERN.test(next)
+    ) {
+      return { ...turn(line, next), consumed: 2 };
+    }
+
+    return undefined;
+  });
+
+/**
+ * Parses a Google Meet transcript: one "Name: text" line per turn, with bare `hh:mm:ss` lines
+ * marking the time of the turns after them. Turns must make up most of the lines, so prose
+ * that happens to contain a "Label:" line is not mistaken for a transcript.
+ */
+export const parseMeetTranscript = (content: string): ParsedTranscript | undefined =>
+  parseTurns(
+    content,
+    (lines, index) => {
+      const line = lines[index];
+      if (MEET_TIMESTAMP_LINE_PATTERN.test(line)) {
+        return { kind: "time", startTimeSeconds: parseClockTime(line) };
+      }
+
+      const { speaker, text } = splitSpeakerPrefix(line);
+      return speaker ? { kind: "turn", speaker, text, consumed: 1 } : undefined;
+    },
+    { minimumTurnShare: 0.5 },
+  );
+
+type LineReading =
+  | { kind: "turn"; speaker: string; startTimeSeconds?: number; text?: string; consumed: number }
+  | { kind: "time"; startTimeSeconds: number };
+
+/** Classifies the line at `index`; undefined lines continue the current turn's text. */
+type LineReader = (lines: string[], index: number) => LineReading | undefined;
+
+const turn = (speaker: string, time: string, text?: string): LineReading => ({
+  kind: "turn",
+  speaker: speaker.trim(),
+  startTimeSeconds: parseClockTime(time),
+  text,
+  consumed: 1,
+});
+
+const parseTurns = (
+  content: string,
+  readLine: LineReader,
+  { minimumTurnShare = 0 }: { minimumTurnShare?: number } = {},
+): ParsedTranscript | undefined => {
+  const lines = content
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const segments: TranscriptSegment[] = [];
+  let preambleLines = 0;
+  let continuationLines = 0;
+  let markedTime: number | undefined;
+
+  for (let index = 0; index < lines.length;) {
+    const reading = readLine(lines, index);
+
+    if (reading?.kind === "time") {
+      markedTime = reading.startTimeSeconds;
+      index += 1;
+      continue;
+    }
+
+    if (reading) {
+      const startTimeSeconds = reading.startTimeSeconds ?? markedTime;
+      segments.push({
+        ...(startTimeSeconds !== undefined ? { startTimeSeconds } : {}),
+        speaker: reading.speaker,
+        text: reading.text?.trim() ?? "",
+      });
+      index += reading.consumed;
+      continue;
+    }
+
+    const current = segments[segments.length - 1];
+    if (current) {
+      current.text = current.text ? `${current.text} ${lines[index]}` : lines[index];
+      continuationLines += 1;
+    } else {
+      preambleLines += 1;
+    }
+    index += 1;
+  }
+
+  const spoken = segments.filter(({ text }) => text);
+  if (
+    spoken.length === 0 ||
+    preambleLines > MAX_PREAMBLE_LINES ||
+    segments.length < minimumTurnShare * (segments.length + continuationLines)
+  ) {
+    return undefined;
+  }
+
+  return buildTranscriptFromSegments(fillEndTimes(spoken));
+};
+
+/** Ends each turn where the next later-starting turn begins; the last turns keep no end. */
+const fillEndTimes = (segments: TranscriptSegment[]): TranscriptSegment[] => {
+  let laterStart: number | undefined;
+  let followingStart: number | undefined;
+
+  return segments
+    .slice()
+    .reverse()
+    .map((segment) => {
+      const { startTimeSeconds } = segment;
+      if (startTimeSeconds === undefined) {
+        return segment;
+      }
+
+      if (followingStart !== undefined && followingStart > startTimeSeconds) {
+        laterStart = followingStart;
+      }
+      followingStart = startTimeSeconds;
+
+      return laterStart !== undefined && laterStart > startTimeSeconds
+        ? { ...segment, endTimeSeconds: laterStart }
+        : segment;
+    })
+    .reverse();
+};
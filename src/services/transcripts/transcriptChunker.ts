@@ -0,0 +1,151 @@
+import type { TranscriptSegment } from "../../types/newsletter";
+import { buildTranscriptFromSegments } from "./transcriptSegments";
+
+/** Recap and transcript text small enough for one synthesis call. */
+export interface SynthesisTextChunk {
+  recapText: string;
+  transcriptText: string;
+  /** The transcript segments inside the chunk, when the transcript has them. */
+  transcriptSegments?: TranscriptSegment[];
+}
+
+export interface ChunkSynthesisTextParams extends SynthesisTextChunk {
+  /** Longest recap plus transcript text in one chunk, counting the blank line between them. */
+  maxLength: number;
+  /** Text from the end of one chunk repeated at the start of the next, so no passage is split. */
+  overlapLength: number;
+}
+
+/**
+ * Splits recap and transcript text into chunks of at most `maxLength` characters. Chunks break
+ * between speaker segments when the transcript has them, else after a sentence or line, and
+ * only cut inside a sentence that is longer than a whole chunk. The recap leads the first
+ * chunk and the transcript follows in order.
+ */
+export const chunkSynthesisText = ({
+  recapText,
+  transcriptText,
+  transcriptSegments,
+  maxLength,
+  overlapLength,
+}: ChunkSynthesisTextParams): SynthesisTextChunk[] => {
+  const budget = Math.max(1, maxLength - COMBINED_TEXT_SEPARATOR.length);
+  const units: ChunkUnit[] = [
+    ...splitPieces(recapText, budget).map((text) => ({ kind: "recap" as const, text })),
+    ...(transcriptSegments?.length
+      ? splitSegments(transcriptSegments, budget)
+      : splitPieces(transcriptText, budget).map((text) => ({ kind: "transcript" as const, text }))),
+  ];
+
+  return packUnits(units, budget, Math.min(overlapLength, Math.floor(budget / 2))).map(buildChunk);
+};
+
+/** Placed between the recap and transcript when they are combined into one text. */
+const COMBINED_TEXT_SEPARATOR = "\n\n";
+
+/** After sentence punctuation (and any closing quote or bracket) or a line break. */
+const PIECE_BOUNDARY_PATTERN = /(?<=[.!?]["'”’)\]]?\s+|\n)(?=\S)/;
+
+type ChunkUnit =
+  | { kind: "recap"; text: string }
+  | { kind: "transcript"; text: string; segment?: TranscriptSegment };
+
+const unitLength = (unit: ChunkUnit): number =>
+  "segment" in unit && unit.segment ? renderedSegmentLength(unit.segment) : unit.text.length;
+
+/** The segment's length as a "Speaker: text" transcript line. */
+const renderedSegmentLength = ({ speaker, text }: TranscriptSegment): number =>
+  (speaker ? speaker.length + 2 : 0) + text.length + 1;
+
+/** Sentences and lines of `text`, with their trailing whitespace so they rejoin exactly. */
+const splitPieces = (text: string, maxLength: number): string[] =>
+  text ? text.split(PIECE_BOUNDARY_PATTERN).flatMap((piece) => wrapPiece(piece, maxLength)) : [];
+
+const splitSegments = (segments: TranscriptSegment[], maxLength: number): ChunkUnit[] =>
+  segments.flatMap((segment) => {
+    const textLength = maxLength - (renderedSegmentLength(segment) - segment.text.length);
+    return (
+      renderedSegmentLength(segment) <= maxLength
+        ? [segment]
+        : splitPieces(segment.text, Math.max(1, textLength)).map((text) => ({
+            ...segment,
+            text: text.trim(),
+          }))
+    ).map((part) => ({ kind: "transcript" as const, text: part.text, segment: part }));
+  });
+
+/** Cuts a piece longer than `maxLength` at its last space that fits, or mid-word if none does. */
+const wrapPiece = (piece: string, maxLength: number): string[] => {
+  const parts: string[] = [];
+  let rest = piece;
+
+  while (rest.length > maxLength) {
+    const space = rest.lastIndexOf(" ", maxLength - 1);
+    const cut = space > 0 ? space + 1 : maxLength;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+
+  return rest ? [...parts, rest] : parts;
+};
+
+/**
+ * Fills chunks with whole units up to `maxLength`, starting each new chunk with the trailing
+ * units of the previous one that fit in `overlapLength`.
+ */
+const packUnits = (units: ChunkUnit[], maxLength: number, overlapLength: number): ChunkUnit[][] => {
+  const chunks: ChunkUnit[][] = [];
+  let current: ChunkUnit[] = [];
+  let currentLength = 0;
+
+  units.forEach((unit) => {
+    const length = unitLength(unit);
+    if (current.length > 0 && currentLength + length > maxLength) {
+      chunks.push(current);
+
+      let carried = current.length;
+      let carriedLength = 0;
+      while (carried > 1) {
+        const next = unitLength(current[carried - 1]);
+        if (carriedLength + next > overlapLength || carriedLength + next + length > maxLength) {
+          break;
+        }
+        carried -= 1;
+        carriedLength += next;
+      }
+
+      current = current.slice(carried);
+      currentLength = carriedLength;
+    }
+
+    current.push(unit);
+    currentLength += length;
+  });
+
+  return current.length > 0 ? [...chunks, current] : chunks;
+};
+
+const buildChunk = (units: ChunkUnit[]): SynthesisTextChunk => {
+  const recapText = units
+    .filter((unit) => unit.kind === "recap")
+    .map((unit) => unit.text)
+    .join("")
+    .trim();
+  const transcriptUnits = units.filter(
+    (unit): unit is Extract<ChunkUnit, { kind: "transcript" }> => unit.kind === "transcript",
+  );
+  const segments = transcriptUnits.flatMap(({ segment }) => (segment ? [segment] : []));
+
+  if (segments.length > 0) {
+    const { text } = buildTranscriptFromSegments(segments);
+    return { recapText, transcriptText: text, transcriptSegments: segments };
+  }
+
+  return {
+    recapText,
+    transcriptText: transcriptUnits
+      .map((unit) => unit.text)
+      .join("")
+      .trim(),
+  };
+};
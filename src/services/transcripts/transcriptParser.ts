@@ -0,0 +1,70 @@
+import type { TranscriptFormat } from "../../types/newsletter";
+import { parseSrt, parseWebVtt } from "./captionParser";
+import {
+  parseMeetTranscript,
+  parseTeamsTranscript,
+  parseZoomTranscript,
+} from "./meetingPlatformParsers";
+import type { ParsedTranscript } from "./transcriptSegments";
+
+export type { ParsedTranscript } from "./transcriptSegments";
+
+/** A transcript in the common model, with the format it was read as. */
+export interface NormalizedTranscript extends ParsedTranscript {
+  format: TranscriptFormat;
+}
+
+const TRANSCRIPT_PARSERS: Record<
+  TranscriptFormat,
+  (content: string) => ParsedTranscript | undefined
+> = {
+  plain: (content) => ({ text: content.trim() }),
+  webvtt: parseWebVtt,
+  srt: parseSrt,
+  zoom: parseZoomTranscript,
+  teams: parseTeamsTranscript,
+  meet: parseMeetTranscript,
+};
+
+/**
+ * Layouts tried when the format is not named, strictest first: caption files carry explicit
+ * cue timings, and a Meet transcript's "Name: text" lines are the easiest to find in prose.
+ */
+const DETECTION_ORDER: readonly TranscriptFormat[] = ["webvtt", "srt", "zoom", "teams", "meet"];
+
+/**
+ * Reads a transcript submitted in `format`. Plain text is kept as written; other formats
+ * resolve to undefined when the content does not follow that format's layout.
+ */
+export const parseTranscript = (
+  content: string,
+  format: TranscriptFormat,
+): ParsedTranscript | undefined => TRANSCRIPT_PARSERS[format](content);
+
+/**
+ * Normalizes a transcript into clean text and segments. With no `format`, the first layout in
+ * `DETECTION_ORDER` the content parses as is used, falling back to plain text. Resolves to
+ * undefined only when a named format does not match the content.
+ */
+export const normalizeTranscript = (
+  content: string,
+  format?: TranscriptFormat,
+): NormalizedTranscript | undefined => {
+  if (format) {
+    const parsed = parseTranscript(content, format);
+    return parsed && { ...parsed, format };
+  }
+
+  for (const candidate of DETECTION_ORDER) {
+    const parsed = parseTranscript(content, candidate);
+    if (parsed) {
+      return { ...parsed, format: candidate };
+    }
+  }
+
+  return { text: content.trim(), format: "plain" };
+};
+
+/** Names the layout `normalizeTranscript` would read the content as. */
+export const detectTranscriptFormat = (content: string): TranscriptFormat =>
+  (normalizeTranscript(content) as NormalizedTranscript).format;
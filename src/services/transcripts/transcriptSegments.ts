@@ -0,0 +1,57 @@
+import type { TranscriptSegment } from "../../types/newsletter";
+
+/** Clean transcript text, with the timed segments it was built from when the format has them. */
+export interface ParsedTranscript {
+  text: string;
+  segments?: TranscriptSegment[];
+}
+
+/** Up to four capitalized words followed by a colon, e.g. "Priya:" or "Alex Chen:". */
+const SPEAKER_PREFIX_PATTERN =
+  /^(\p{Lu}[\p{L}\p{M}'’.-]*(?:\s+\p{Lu}[\p{L}\p{M}'’.-]*){0,3}):\s+(\S.*)$/u;
+
+/** Splits a leading "Name:" speaker label from a line of spoken text. */
+export const splitSpeakerPrefix = (line: string): { speaker?: string; text: string } => {
+  const match = SPEAKER_PREFIX_PATTERN.exec(line.trim());
+  return match ? { speaker: match[1], text: match[2] } : { text: line.trim() };
+};
+
+/** Reads `h:mm:ss`, `mm:ss` or either with a `.`/`,` fraction, e.g. `00:01:02.500`, in seconds. */
+export const parseClockTime = (value: string): number => {
+  const [clock, fraction = "0"] = value.trim().split(/[.,]/);
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+/** Consecutive segments from one speaker, merged into a single turn. */
+export interface SpeakerTurn {
+  speaker?: string;
+  text: string;
+  /** Segments the turn was merged from. */
+  segments: TranscriptSegment[];
+}
+
+/** Merges consecutive segments from one speaker so a sentence split across cues reads as one. */
+export const groupSpeakerTurns = (segments: TranscriptSegment[]): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+
+  segments.forEach((segment) => {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`;
+      previous.segments.push(segment);
+    } else {
+      turns.push({ speaker: segment.speaker, text: segment.text, segments: [segment] });
+    }
+  });
+
+  return turns;
+};
+
+/** Joins segments into transcript text with one line per speaker turn. */
+export const buildTranscriptFromSegments = (segments: TranscriptSegment[]): ParsedTranscript => ({
+  text: groupSpeakerTurns(segments)
+    .map(({ speaker, text }) => (speaker ? `${speaker}: ${text}` : text))
+    .join("\n"),
+  segments,
+});
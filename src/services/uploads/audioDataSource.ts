@@ -0,0 +1,138 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+export const DEFAULT_UPLOAD_DIRECTORY = path.join(os.tmpdir(), "newsletter-uploads");
+
+/**
+ * Audio bytes received with a generation request. Adapters read them through `openStream`
+ * so that large uploads spooled to disk are never held in memory as a whole.
+ */
+export interface AudioDataSource {
+  sizeBytes: number;
+  /** Hex-encoded SHA-256 of the bytes, computed while they were received. */
+  sha256: string;
+  /** Temporary file holding the bytes, when they were spooled to disk. */
+  path?: string;
+  /** Opens a new stream that starts at the first byte, or at `start` when given. */
+  openStream: (options?: { start?: number }) => Readable;
+  /** Deletes the temporary file, if any. Safe to call more than once. */
+  dispose: () => Promise<void>;
+}
+
+export interface FileAudioDataSourceInput {
+  path: string;
+  sizeBytes: number;
+  sha256: string;
+}
+
+export const createFileAudioDataSource = ({
+  path,
+  sizeBytes,
+  sha256,
+}: FileAudioDataSourceInput): AudioDataSource => ({
+  path,
+  sizeBytes,
+  sha256,
+  openStream: ({ start } = {}) => createReadStream(path, { start }),
+  dispose: () => fs.rm(path, { force: true }),
+});
+
+export interface SpoolAudioStreamOptions {
+  /** Created on first use. Defaults to a `newsletter-uploads` folder in the OS temp directory. */
+  directory?: string;
+  /**
+   * Sees every chunk before it is written, with the running byte count. Throwing stops the
+   * write and rejects with the thrown error.
+   */
+  inspect?: (chunk: Buffer, receivedBytes: number) => void;
+}
+
+/**
+ * Writes a stream to a new temporary file, hashing it on the way. The file is removed again
+ * when the stream fails or `inspect` rejects a chunk.
+ */
+export const spoolAudioStream = async (
+  stream: Readable,
+  { directory = DEFAULT_UPLOAD_DIRECTORY, inspect }: SpoolAudioStreamOptions = {},
+): Promise<AudioDataSource> => {
+  const filePath = path.join(directory, `audio-${randomUUID()}`);
+  const hash = createHash("sha256");
+  let sizeBytes = 0;
+
+  const hashing = new Transform({
+    transform(chunk: Buffer, _encoding, next) {
+      sizeBytes += chunk.length;
+      try {
+        inspect?.(chunk, sizeBytes);
+      } catch (error) {
+        next(error as Error);
+        return;
+      }
+      hash.update(chunk);
+      next(null, chunk);
+    },
+  });
+
+  try {
+    await fs.mkdir(directory, { recursive: true });
+    await pipeline(stream, hashing, createWriteStream(filePath, { flags: "wx" }));
+  } catch (error) {
+    await fs.rm(filePath, { force: true });
+    throw error;
+  }
+
+  return createFileAudioDataSource({ path: filePath, sizeBytes, sha256: hash.digest("hex") });
+};
+
+/** Wraps bytes that arrived inline, such as base64 audio in a JSON request. */
+export const createBufferAudioDataSource = (bytes: Uint8Array): AudioDataSource => ({
+  sizeBytes: bytes.byteLength,
+  sha256: createHash("sha256").update(bytes).digest("hex"),
+  openStream: ({ start = 0 } = {}) => Readable.from([Buffer.from(bytes).subarray(start)]),
+  dispose: async () => undefined,
+});
+
+/** Collects the source into memory; for adapters whose client only accepts whole buffers. */
+export const readAudioData = async (source: AudioDataSource): Promise<Uint8Array> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of source.openStream()) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+/** Collects up to `length` bytes from the start of the source, then stops reading. */
+export const readAudioPrefix = (source: AudioDataSource, length: number): Promise<Buffer> =>
+  readAudioRange(source, 0, length);
+
+/** Collects up to `length` bytes starting at `start`, then stops reading. */
+export const readAudioRange = async (
+  source: AudioDataSource,
+  start: number,
+  length: number,
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let received = 0;
+  const stream = source.openStream({ start });
+
+  try {
+    for await (const chunk of stream) {
+      const bytes = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array);
+      chunks.push(bytes);
+      received += bytes.length;
+      if (received >= length) {
+        break;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return Buffer.concat(chunks).subarray(0, length);
+};
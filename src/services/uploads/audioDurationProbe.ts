@@ -0,0 +1,517 @@
+import type { AudioFormat } from "../../types/newsletter";
+import { readAudioPrefix, readAudioRange, type AudioDataSource } from "./audioDataSource";
+import { sniffAudioFormat } from "./audioFormatSniffer";
+
+/** Bytes read past any ID3v2 tag when looking for the format header. */
+const HEADER_WINDOW_BYTES = 64 * 1024;
+/** Files whose ID3v2 tag (usually cover art) runs past this are not probed. */
+const MAX_PROBE_BYTES = 4 * 1024 * 1024;
+
+/** What the start of an audio file says about its playback. */
+export interface AudioHeaderInfo {
+  format: AudioFormat;
+  /**
+   * Duration stated by the header itself: the WAV data chunk size, an MP3 Xing/VBRI frame count,
+   * the FLAC sample count or the WebM segment duration.
+   */
+  durationSeconds?: number;
+  /** Present when the audio plays at a fixed byte rate (WAV and constant-bitrate MP3). */
+  constantBitrate?: {
+    /** Offset of the first audio byte. */
+    dataOffset: number;
+    bytesPerSecond: number;
+  };
+}
+
+export interface AudioDurationProbe {
+  format: AudioFormat;
+  durationSeconds: number;
+}
+
+/**
+ * Parses the start of a WAV, MP3, FLAC or WebM file. Returns "incomplete" while more bytes are
+ * needed and undefined when the bytes are not one of those formats. Ogg and M4A keep their
+ * duration away from the start of the file, so only `probeAudioDuration` measures them.
+ */
+export const parseAudioHeader = (header: Buffer): AudioHeaderInfo | "incomplete" | undefined => {
+  if (header.length < 12) {
+    return "incomplete";
+  }
+
+  switch (sniffAudioFormat(header)) {
+    case "wav":
+      return parseWavHeader(header);
+    case "mp3":
+      return parseMp3Header(header);
+    case "flac":
+      return parseFlacHeader(header);
+    case "webm":
+      return parseWebmHeader(header);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Computes the playback duration of uploaded audio from its container metadata: the WAV data
+ * chunk, MP3 Xing/Info or VBRI frame counts (or size over bitrate for constant-bitrate MP3),
+ * FLAC STREAMINFO, the WebM segment duration, the last Ogg granule position and the M4A movie
+ * header. Returns undefined when the metadata is missing or cannot be made sense of.
+ */
+export const probeAudioDuration = async (
+  source: AudioDataSource,
+): Promise<AudioDurationProbe | undefined> => {
+  const prefix = await readAudioPrefix(source, HEADER_WINDOW_BYTES);
+  const format = sniffAudioFormat(prefix);
+
+  let durationSeconds: number | undefined;
+  if (format === "ogg") {
+    durationSeconds = await probeOggDuration(source, prefix);
+  } else if (format === "m4a") {
+    durationSeconds = await probeMp4Duration(source);
+  } else if (format) {
+    durationSeconds = await probeHeaderDuration(source, prefix);
+  }
+
+  return format &&
+    durationSeconds !== undefined &&
+    Number.isFinite(durationSeconds) &&
+    durationSeconds > 0
+    ? { format, durationSeconds }
+    : undefined;
+};
+
+const probeHeaderDuration = async (
+  source: AudioDataSource,
+  prefix: Buffer,
+): Promise<number | undefined> => {
+  const tagEnd = id3TagEnd(prefix);
+  if (tagEnd > MAX_PROBE_BYTES) {
+    return undefined;
+  }
+
+  const header = tagEnd > 0 ? await readAudioPrefix(source, tagEnd + HEADER_WINDOW_BYTES) : prefix;
+  const info = parseAudioHeader(header);
+  if (!info || info === "incomplete") {
+    return undefined;
+  }
+
+  const { constantBitrate } = info;
+  return (
+    info.durationSeconds ??
+    (constantBitrate
+      ? Math.max(0, source.sizeBytes - constantBitrate.dataOffset) / constantBitrate.bytesPerSecond
+      : undefined)
+  );
+};
+
+/** Offset just past a leading ID3v2 tag, or 0 when there is none. */
+const id3TagEnd = (header: Buffer): number => {
+  if (header.length < 10 || header.toString("latin1", 0, 3) !== "ID3") {
+    return 0;
+  }
+
+  const tagSize =
+    ((header[6] & 0x7f) << 21) |
+    ((header[7] & 0x7f) << 14) |
+    ((header[8] & 0x7f) << 7) |
+    (header[9] & 0x7f);
+  const hasFooter = (header[5] & 0x10) !== 0;
+  return 10 + tagSize + (hasFooter ? 10 : 0);
+};
+
+/** Streaming encoders write 0 or 0xFFFFFFFF when the data size is not known up front. */
+const isUnknownWavDataSize = (size: number): boolean => size === 0 || size === 0xffffffff;
+
+const parseWavHeader = (header: Buffer): AudioHeaderInfo | "incomplete" | undefined => {
+  let bytesPerSecond: number | undefined;
+
+  for (let offset = 12; offset + 8 <= header.length;) {
+    const chunkId = header.toString("latin1", offset, offset + 4);
+    const chunkSize = header.readUInt32LE(offset + 4);
+
+    if (chunkId === "fmt ") {
+      if (offset + 20 > header.length) {
+        return "incomplete";
+      }
+      bytesPerSecond = header.readUInt32LE(offset + 16);
+    } else if (chunkId === "data") {
+      if (!bytesPerSecond) {
+        return undefined;
+      }
+
+      return {
+        format: "wav",
+        constantBitrate: { dataOffset: offset + 8, bytesPerSecond },
+        ...(isUnknownWavDataSize(chunkSize) ? {} : { durationSeconds: chunkSize / bytesPerSecond }),
+      };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return "incomplete";
+};
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+/** Room for a frame header, the largest side info and a Xing or VBRI frame count. */
+const MP3_HEADER_BYTES = 4 + 32 + 18;
+
+/** Reads the first Layer III frame and any Xing/Info or VBRI tag it carries. */
+const parseMp3Header = (header: Buffer): AudioHeaderInfo | "incomplete" | undefined => {
+  const offset = id3TagEnd(header);
+
+  if (header.length < offset + MP3_HEADER_BYTES) {
+    return "incomplete";
+  }
+
+  if (header[offset] !== 0xff || (header[offset + 1] & 0xe0) !== 0xe0) {
+    return undefined;
+  }
+
+  // Version bits: 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5, 1 = reserved.
+  const version = (header[offset + 1] >> 3) & 0x03;
+  const layer = (header[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = header[offset + 2] >> 4;
+  const sampleRateIndex = (header[offset + 2] >> 2) & 0x03;
+  if (
+    layer !== 0x01 ||
+    version === 0x01 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 0x0f ||
+    sampleRateIndex === 0x03
+  ) {
+    return undefined;
+  }
+
+  const isMpeg1 = version === 0x03;
+  const sampleRate = MPEG1_SAMPLE_RATES[sampleRateIndex] / (isMpeg1 ? 1 : version === 0x02 ? 2 : 4);
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+  const isMono = header[offset + 3] >> 6 === 0x03;
+  const sideInfoBytes = isMpeg1 ? (isMono ? 17 : 32) : isMono ? 9 : 17;
+  const kbps = (isMpeg1 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[bitrateIndex];
+  const constantBitrate = { dataOffset: offset, bytesPerSecond: (kbps * 1000) / 8 };
+  const framesToSeconds = (frames: number) => (frames * samplesPerFrame) / sampleRate;
+
+  const xingOffset = offset + 4 + sideInfoBytes;
+  const xingId = header.toString("latin1", xingOffset, xingOffset + 4);
+  if (xingId === "Xing" || xingId === "Info") {
+    const hasFrameCount = (header.readUInt32BE(xingOffset + 4) & 0x01) !== 0;
+    return {
+      format: "mp3",
+      // LAME tags constant-bitrate files with "Info" and variable-bitrate ones with "Xing".
+      ...(xingId === "Info" ? { constantBitrate } : {}),
+      ...(hasFrameCount
+        ? { durationSeconds: framesToSeconds(header.readUInt32BE(xingOffset + 8)) }
+        : {}),
+    };
+  }
+
+  const vbriOffset = offset + 4 + 32;
+  if (header.toString("latin1", vbriOffset, vbriOffset + 4) === "VBRI") {
+    return {
+      format: "mp3",
+      durationSeconds: framesToSeconds(header.readUInt32BE(vbriOffset + 14)),
+    };
+  }
+
+  return { format: "mp3", constantBitrate };
+};
+
+/** "fLaC", a metadata block header and the 34-byte STREAMINFO block that must come first. */
+const FLAC_HEADER_BYTES = 4 + 4 + 34;
+
+const parseFlacHeader = (header: Buffer): AudioHeaderInfo | "incomplete" | undefined => {
+  if (header.length < FLAC_HEADER_BYTES) {
+    return "incomplete";
+  }
+
+  if ((header[4] & 0x7f) !== 0) {
+    return undefined;
+  }
+
+  // STREAMINFO packs a 20-bit sample rate and a 36-bit total sample count from its 11th byte.
+  const sampleRate = (header[18] << 12) | (header[19] << 4) | (header[20] >> 4);
+  const totalSamples = (header[21] & 0x0f) * 2 ** 32 + header.readUInt32BE(22);
+
+  return {
+    format: "flac",
+    ...(sampleRate > 0 && totalSamples > 0 ? { durationSeconds: totalSamples / sampleRate } : {}),
+  };
+};
+
+const EBML_SEGMENT_ID = 0x18538067;
+const EBML_INFO_ID = 0x1549a966;
+const EBML_CLUSTER_ID = 0x1f43b675;
+const EBML_TIMECODE_SCALE_ID = 0x2ad7b1;
+const EBML_DURATION_ID = 0x4489;
+const DEFAULT_TIMECODE_SCALE_NS = 1_000_000;
+
+/**
+ * Walks the EBML header and the start of the Segment to its Info element. Recorders that stream
+ * WebM (browser MediaRecorder, for one) never write a Duration, which leaves it unknown.
+ */
+const parseWebmHeader = (header: Buffer): AudioHeaderInfo | "incomplete" | undefined => {
+  const ebmlHeader = readEbmlElement(header, 0);
+  if (!ebmlHeader || ebmlHeader.size === undefined) {
+    return "incomplete";
+  }
+
+  const segment = readEbmlElement(header, ebmlHeader.dataStart + ebmlHeader.size);
+  if (!segment) {
+    return "incomplete";
+  }
+  if (segment.id !== EBML_SEGMENT_ID) {
+    return undefined;
+  }
+
+  for (let offset = segment.dataStart; offset < header.length;) {
+    const element = readEbmlElement(header, offset);
+    if (!element) {
+      return "incomplete";
+    }
+
+    if (element.id === EBML_INFO_ID) {
+      if (element.size === undefined) {
+        return { format: "webm" };
+      }
+      if (element.dataStart + element.size > header.length) {
+        return "incomplete";
+      }
+      return {
+        format: "webm",
+        ...readWebmDuration(header.subarray(element.dataStart, element.dataStart + element.size)),
+      };
+    }
+
+    // Info precedes the first Cluster, and an unsized element cannot be skipped.
+    if (element.id === EBML_CLUSTER_ID || element.size === undefined) {
+      return { format: "webm" };
+    }
+
+    offset = element.dataStart + element.size;
+  }
+
+  return "incomplete";
+};
+
+const readWebmDuration = (info: Buffer): Pick<AudioHeaderInfo, "durationSeconds"> => {
+  let timecodeScale = DEFAULT_TIMECODE_SCALE_NS;
+  let duration: number | undefined;
+
+  for (let offset = 0; offset < info.length;) {
+    const element = readEbmlElement(info, offset);
+    if (!element || element.size === undefined || element.dataStart + element.size > info.length) {
+      break;
+    }
+
+    const data = info.subarray(element.dataStart, element.dataStart + element.size);
+    if (element.id === EBML_TIMECODE_SCALE_ID && data.length > 0 && data.length <= 6) {
+      timecodeScale = data.readUIntBE(0, data.length);
+    } else if (element.id === EBML_DURATION_ID && (data.length === 4 || data.length === 8)) {
+      duration = data.length === 4 ? data.readFloatBE(0) : data.readDoubleBE(0);
+    }
+
+    offset = element.dataStart + element.size;
+  }
+
+  return duration !== undefined ? { durationSeconds: (duration * timecodeScale) / 1e9 } : {};
+};
+
+interface EbmlElement {
+  id: number;
+  dataStart: number;
+  /** Undefined for elements written with an unknown size. */
+  size?: number;
+}
+
+/** Reads an element ID and size, each a variable-length integer; undefined when cut off. */
+const readEbmlElement = (buffer: Buffer, offset: number): EbmlElement | undefined => {
+  const id = readEbmlVint(buffer, offset, 4);
+  if (!id) {
+    return undefined;
+  }
+
+  const size = readEbmlVint(buffer, offset + id.length, 8);
+  if (!size) {
+    return undefined;
+  }
+
+  const allOnes = 2 ** (7 * size.length) - 1;
+  return {
+    id: id.raw,
+    dataStart: offset + id.length + size.length,
+    ...(size.value === allOnes ? {} : { size: size.value }),
+  };
+};
+
+/** Returns the vint's length, its raw bytes as a number (IDs) and its value without the marker. */
+const readEbmlVint = (
+  buffer: Buffer,
+  offset: number,
+  maxLength: number,
+): { length: number; raw: number; value: number } | undefined => {
+  if (offset >= buffer.length || buffer[offset] === 0) {
+    return undefined;
+  }
+
+  const length = Math.clz32(buffer[offset]) - 23;
+  if (length > maxLength || offset + length > buffer.length) {
+    return undefined;
+  }
+
+  let raw = 0;
+  for (let index = 0; index < length; index += 1) {
+    raw = raw * 256 + buffer[offset + index];
+  }
+
+  return { length, raw, value: raw - 2 ** (7 * length) };
+};
+
+/** The largest Ogg page: a 27-byte header, 255 lacing values and 255 full segments. */
+const MAX_OGG_PAGE_BYTES = 27 + 255 + 255 * 255;
+const OPUS_GRANULE_RATE = 48_000;
+
+/**
+ * Ogg pages carry a granule position, the sample count at the end of the page, so the last
+ * page gives the duration once it is divided by the stream's rate from its first packet.
+ */
+const probeOggDuration = async (
+  source: AudioDataSource,
+  prefix: Buffer,
+): Promise<number | undefined> => {
+  const stream = readOggStreamRate(prefix);
+  if (!stream) {
+    return undefined;
+  }
+
+  const tailStart = Math.max(0, source.sizeBytes - MAX_OGG_PAGE_BYTES);
+  const tail = await readAudioRange(source, tailStart, source.sizeBytes - tailStart);
+
+  for (
+    let offset = tail.lastIndexOf("OggS");
+    offset >= 0;
+    offset = offset > 0 ? tail.lastIndexOf("OggS", offset - 1) : -1
+  ) {
+    if (offset + 14 > tail.length || tail[offset + 4] !== 0) {
+      continue;
+    }
+
+    const granule = tail.readBigInt64LE(offset + 6);
+    if (granule >= 0n) {
+      return (Number(granule) - stream.preSkip) / stream.rate;
+    }
+  }
+
+  return undefined;
+};
+
+/** Reads the sample rate from the Vorbis or Opus identification header in the first page. */
+const readOggStreamRate = (page: Buffer): { rate: number; preSkip: number } | undefined => {
+  if (page.length < 27) {
+    return undefined;
+  }
+
+  const packet = 27 + page[26];
+  if (page.toString("latin1", packet, packet + 8) === "OpusHead" && packet + 12 <= page.length) {
+    return { rate: OPUS_GRANULE_RATE, preSkip: page.readUInt16LE(packet + 10) };
+  }
+
+  if (page[packet] === 0x01 && page.toString("latin1", packet + 1, packet + 7) === "vorbis") {
+    const rate = packet + 16 <= page.length ? page.readUInt32LE(packet + 12) : 0;
+    return rate > 0 ? { rate, preSkip: 0 } : undefined;
+  }
+
+  return undefined;
+};
+
+/** Top-level boxes visited before giving up on finding `moov`. */
+const MAX_MP4_TOP_LEVEL_BOXES = 32;
+
+/**
+ * Finds the `moov` box among the top-level boxes, which may sit after the media data, and reads
+ * the timescale and duration from its movie header.
+ */
+const probeMp4Duration = async (source: AudioDataSource): Promise<number | undefined> => {
+  let offset = 0;
+
+  for (let visited = 0; visited < MAX_MP4_TOP_LEVEL_BOXES; visited += 1) {
+    if (offset + 8 > source.sizeBytes) {
+      return undefined;
+    }
+
+    const header = await readAudioRange(source, offset, 16);
+    const box = readMp4BoxHeader(header, source.sizeBytes - offset);
+    if (!box) {
+      return undefined;
+    }
+
+    if (box.type === "moov") {
+      const moov = await readAudioRange(
+        source,
+        offset + box.headerSize,
+        Math.min(box.size - box.headerSize, HEADER_WINDOW_BYTES),
+      );
+      return readMovieHeaderDuration(moov);
+    }
+
+    offset += box.size;
+  }
+
+  return undefined;
+};
+
+const readMovieHeaderDuration = (moov: Buffer): number | undefined => {
+  for (let offset = 0; offset + 8 <= moov.length;) {
+    const box = readMp4BoxHeader(moov.subarray(offset), moov.length - offset);
+    if (!box) {
+      return undefined;
+    }
+
+    if (box.type === "mvhd") {
+      // Version 1 widens the creation and modification times and the duration to 64 bits.
+      const body = offset + box.headerSize;
+      const version = moov[body];
+      const timescaleOffset = body + (version === 1 ? 20 : 12);
+      if (timescaleOffset + (version === 1 ? 12 : 8) > moov.length) {
+        return undefined;
+      }
+
+      const timescale = moov.readUInt32BE(timescaleOffset);
+      const duration =
+        version === 1
+          ? Number(moov.readBigUInt64BE(timescaleOffset + 4))
+          : moov.readUInt32BE(timescaleOffset + 4);
+      return timescale > 0 ? duration / timescale : undefined;
+    }
+
+    offset += box.size;
+  }
+
+  return undefined;
+};
+
+/** Reads a box's size and type; a size of 1 means a 64-bit size follows, 0 means "to the end". */
+const readMp4BoxHeader = (
+  bytes: Buffer,
+  remaining: number,
+): { type: string; size: number; headerSize: number } | undefined => {
+  if (bytes.length < 8) {
+    return undefined;
+  }
+
+  const type = bytes.toString("latin1", 4, 8);
+  const declaredSize = bytes.readUInt32BE(0);
+  if (declaredSize === 1) {
+    if (bytes.length < 16) {
+      return undefined;
+    }
+    const size = Number(bytes.readBigUInt64BE(8));
+    return size >= 16 ? { type, size, headerSize: 16 } : undefined;
+  }
+
+  const size = declaredSize === 0 ? remaining : declaredSize;
+  return size >= 8 ? { type, size, headerSize: 8 } : undefined;
+};
@@ -0,0 +1,261 @@
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+
+import { DEFAULT_NEWSLETTER_LIMITS } from "../../types/newsletter";
+import { spoolAudioStream, type AudioDataSource } from "./audioDataSource";
+import { parseAudioHeader, type AudioHeaderInfo } from "./audioDurationProbe";
+
+const DEFAULT_FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 3;
+/** Slack for header bytes and bitrate rounding when estimating duration mid-download. */
+const DURATION_TOLERANCE_SECONDS = 2;
+/** Bytes inspected for a format header before duration enforcement gives up. */
+const MAX_HEADER_SCAN_BYTES = 1024 * 1024;
+
+export enum AudioFetchErrorCode {
+  INVALID_URL = "INVALID_URL",
+  HOST_NOT_ALLOWED = "HOST_NOT_ALLOWED",
+  REQUEST_FAILED = "REQUEST_FAILED",
+  TIMEOUT = "TIMEOUT",
+  SIZE_LIMIT_EXCEEDED = "SIZE_LIMIT_EXCEEDED",
+  DURATION_LIMIT_EXCEEDED = "DURATION_LIMIT_EXCEEDED",
+}
+
+export class AudioFetchError extends Error {
+  public readonly code: AudioFetchErrorCode;
+  public readonly metadata?: Record<string, unknown>;
+
+  constructor(
+    code: AudioFetchErrorCode,
+    message: string,
+    metadata?: Record<string, unknown>,
+    cause?: unknown,
+  ) {
+    super(message);
+    this.name = "AudioFetchError";
+    this.code = code;
+    this.metadata = metadata;
+
+    if (cause !== undefined) {
+      (this as unknown as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+export interface FetchAudioParams {
+  url: string;
+}
+
+/**
+ * Downloads audio referenced by URL into an `AudioDataSource`. The caller owns the result and
+ * disposes of it once the bytes have been read.
+ */
+export interface FetchAudio {
+  (params: FetchAudioParams): Promise<AudioDataSource>;
+}
+
+export interface HttpAudioFetcherOptions {
+  /**
+   * Hostnames audio may be downloaded from; `*.example.com` also matches subdomains. Redirects
+   * are checked against the same list. Every URL is refused when the list is empty.
+   */
+  allowedHosts: string[];
+  maxSizeBytes?: number;
+  /**
+   * Enforced mid-download for WAV, MP3, FLAC and WebM whose headers state a duration or a
+   * constant byte rate; other audio is bounded by the size limit alone.
+   */
+  maxDurationSeconds?: number;
+  /** Budget for the whole download, including redirects. */
+  timeoutMs?: number;
+  /** Where downloads are spooled. Defaults to the upload temp directory. */
+  directory?: string;
+  fetch?: typeof fetch;
+}
+
+export const createHttpAudioFetcher = ({
+  allowedHosts,
+  maxSizeBytes = DEFAULT_NEWSLETTER_LIMITS.maxUploadSizeBytes,
+  maxDurationSeconds = DEFAULT_NEWSLETTER_LIMITS.maxAudioDurationSeconds,
+  timeoutMs = DEFAULT_FETCH_TIMEOUT_MS,
+  directory,
+  fetch: fetchImplementation,
+}: HttpAudioFetcherOptions): FetchAudio => {
+  const hostPatterns = allowedHosts
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host.length > 0);
+
+  const resolveAllowedUrl = (value: string, base?: URL): URL => {
+    let url: URL;
+    try {
+      url = new URL(value, base);
+    } catch (error) {
+      throw new AudioFetchError(
+        AudioFetchErrorCode.INVALID_URL,
+        "Audio URL is not valid.",
+        { url: describeUrl(value) },
+        error,
+      );
+    }
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new AudioFetchError(AudioFetchErrorCode.INVALID_URL, "Audio URL must use http(s).", {
+        url: describeUrl(url.toString()),
+      });
+    }
+
+    if (!hostPatterns.some((pattern) => matchesHost(url.hostname, pattern))) {
+      throw new AudioFetchError(
+        AudioFetchErrorCode.HOST_NOT_ALLOWED,
+        `Audio cannot be fetched from ${url.hostname}.`,
+        { host: url.hostname },
+      );
+    }
+
+    return url;
+  };
+
+  return async ({ url }) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const fetchFn = fetchImplementation ?? globalThis.fetch;
+
+    try {
+      let target = resolveAllowedUrl(url);
+      let response = await fetchFn(target, { redirect: "manual", signal: controller.signal });
+
+      for (let redirects = 0; isRedirect(response.status); redirects += 1) {
+        const location = response.headers.get("location");
+        if (!location || redirects >= MAX_REDIRECTS) {
+          throw new AudioFetchError(
+            AudioFetchErrorCode.REQUEST_FAILED,
+            "Audio URL redirected too many times.",
+            { url: describeUrl(target.toString()), status: response.status },
+          );
+        }
+
+        target = resolveAllowedUrl(location, target);
+        response = await fetchFn(target, { redirect: "manual", signal: controller.signal });
+      }
+
+      if (!response.ok || !response.body) {
+        throw new AudioFetchError(
+          AudioFetchErrorCode.REQUEST_FAILED,
+          `Audio download failed with status ${response.status}.`,
+          { url: describeUrl(target.toString()), status: response.status },
+        );
+      }
+
+      const declaredLength = Number(response.headers.get("content-length"));
+      if (Number.isFinite(declaredLength) && declaredLength > maxSizeBytes) {
+        controller.abort();
+        throw sizeLimitError(declaredLength, maxSizeBytes);
+      }
+
+      const durationGuard = createDurationGuard(maxDurationSeconds);
+      return await spoolAudioStream(
+        Readable.fromWeb(response.body as unknown as NodeReadableStream<Uint8Array>),
+        {
+          directory,
+          inspect: (chunk, receivedBytes) => {
+            if (receivedBytes > maxSizeBytes) {
+              throw sizeLimitError(receivedBytes, maxSizeBytes);
+            }
+            durationGuard(chunk, receivedBytes);
+          },
+        },
+      );
+    } catch (error) {
+      if (error instanceof AudioFetchError) {
+        throw error;
+      }
+
+      if (controller.signal.aborted) {
+        throw new AudioFetchError(
+          AudioFetchErrorCode.TIMEOUT,
+          `Audio download did not finish within ${timeoutMs}ms.`,
+          { url: describeUrl(url), timeoutMs },
+          error,
+        );
+      }
+
+      throw new AudioFetchError(
+        AudioFetchErrorCode.REQUEST_FAILED,
+        "Audio download failed.",
+        { url: describeUrl(url) },
+        error,
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+};
+
+/** Drops the query and fragment, which often carry signed-URL credentials, before logging. */
+const describeUrl = (value: string): string => {
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return "(invalid url)";
+  }
+};
+
+const matchesHost = (hostname: string, pattern: string): boolean =>
+  pattern.startsWith("*.")
+    ? hostname.endsWith(pattern.slice(1)) && hostname.length > pattern.length - 1
+    : hostname === pattern;
+
+const isRedirect = (status: number): boolean =>
+  status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+
+const sizeLimitError = (sizeBytes: number, maxSizeBytes: number): AudioFetchError =>
+  new AudioFetchError(
+    AudioFetchErrorCode.SIZE_LIMIT_EXCEEDED,
+    `Audio exceeds the ${maxSizeBytes} byte limit.`,
+    { sizeBytes, maxSizeBytes },
+  );
+
+/**
+ * Buffers the start of the download until its header can be parsed, then rejects chunks once
+ * the stated duration, or the bytes received at the header's byte rate, exceed the limit.
+ */
+const createDurationGuard = (maxDurationSeconds: number) => {
+  let header: Buffer | undefined = Buffer.alloc(0);
+  let headerInfo: AudioHeaderInfo | undefined;
+
+  const check = (durationSeconds: number): void => {
+    if (durationSeconds > maxDurationSeconds + DURATION_TOLERANCE_SECONDS) {
+      throw new AudioFetchError(
+        AudioFetchErrorCode.DURATION_LIMIT_EXCEEDED,
+        `Audio is longer than the ${maxDurationSeconds} second limit.`,
+        { durationSeconds: Math.round(durationSeconds), maxDurationSeconds },
+      );
+    }
+  };
+
+  return (chunk: Buffer, receivedBytes: number): void => {
+    if (header) {
+      header = Buffer.concat([header, chunk]);
+      const info = parseAudioHeader(header);
+
+      if (info === "incomplete" && header.length < MAX_HEADER_SCAN_BYTES) {
+        return;
+      }
+
+      headerInfo = info === "incomplete" ? undefined : info;
+      header = undefined;
+
+      if (headerInfo?.durationSeconds !== undefined) {
+        check(headerInfo.durationSeconds);
+      }
+    }
+
+    const constantBitrate = headerInfo?.constantBitrate;
+    if (constantBitrate) {
+      check(
+        Math.max(0, receivedBytes - constantBitrate.dataOffset) / constantBitrate.bytesPerSecond,
+      );
+    }
+  };
+};
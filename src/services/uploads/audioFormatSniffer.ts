@@ -0,0 +1,55 @@
+import type { AudioFormat } from "../../types/newsletter";
+import { readAudioPrefix, type AudioDataSource } from "./audioDataSource";
+
+/** Enough leading bytes to tell every recognized format apart. */
+const SNIFF_BYTES = 12;
+const EBML_MAGIC = [0x1a, 0x45, 0xdf, 0xa3];
+
+/**
+ * Recognizes audio from its leading bytes: RIFF/WAVE for WAV, an ID3v2 tag or MPEG audio frame
+ * sync for MP3, an ISO base media `ftyp` box for M4A, `OggS` for Ogg, the EBML header for WebM
+ * and `fLaC` for FLAC. Returns undefined for anything else.
+ */
+export const sniffAudioFormat = (header: Uint8Array): AudioFormat | undefined => {
+  const bytes = Buffer.from(header.buffer, header.byteOffset, header.byteLength);
+  const text = (start: number, end: number) => bytes.toString("latin1", start, end);
+
+  if (text(0, 4) === "RIFF" && text(8, 12) === "WAVE") {
+    return "wav";
+  }
+
+  if (text(4, 8) === "ftyp") {
+    return "m4a";
+  }
+
+  if (text(0, 4) === "OggS") {
+    return "ogg";
+  }
+
+  if (text(0, 4) === "fLaC") {
+    return "flac";
+  }
+
+  if (EBML_MAGIC.every((byte, index) => bytes[index] === byte)) {
+    return "webm";
+  }
+
+  if (text(0, 3) === "ID3" || isMpegFrameSync(bytes)) {
+    return "mp3";
+  }
+
+  return undefined;
+};
+
+/** Reads the start of the source and sniffs its format. */
+export const detectAudioFormat = async (
+  source: AudioDataSource,
+): Promise<AudioFormat | undefined> => sniffAudioFormat(await readAudioPrefix(source, SNIFF_BYTES));
+
+/** Eleven set sync bits followed by a defined MPEG version and layer. */
+const isMpegFrameSync = (bytes: Buffer): boolean =>
+  bytes.length >= 2 &&
+  bytes[0] === 0xff &&
+  (bytes[1] & 0xe0) === 0xe0 &&
+  ((bytes[1] >> 3) & 0x03) !== 0x01 &&
+  ((bytes[1] >> 1) & 0x03) !== 0x00;
@@ -0,0 +1,339 @@
+import {
+  AUDIO_FORMATS,
+  DEFAULT_NEWSLETTER_LIMITS,
+  NewsletterLimits,
+  RETRYABLE_ERROR_CODES,
+  SUPPORTED_AUDIO_MIME_TYPES,
+  TRANSCRIPT_FORMATS,
+  VALIDATION_ERROR_CODES,
+} from "../../types/newsletter";
+import {
+  NEWSLETTER_AUDIO_FILE_FIELD,
+  NEWSLETTER_JSON_REQUEST_FIELDS,
+  NEWSLETTER_UPLOAD_FIELDS,
+  type RequestFieldDefinition,
+  type RequestFieldDefinitions,
+  type RequestObjectDefinition,
+} from "./newsletterSchemas";
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+export const NEWSLETTER_OPENAPI_PATH = "/newsletters/openapi.json";
+
+const API_VERSION = "1.0.0";
+const ERROR_RESPONSE_STATUSES: Record<string, string> = {
+  "400": "The request could not be parsed or failed validation.",
+  "409": "The idempotency key was reused with a different request.",
+  "413": "The upload or request body exceeds the configured limits.",
+  "422": "The inputs were valid but did not contain enough to generate from.",
+  "500": "The newsletter could not be assembled.",
+  "502": "A model adapter failed; retrying may succeed.",
+};
+
+/**
+ * Describes `POST /newsletters` as OpenAPI 3.1. Request schemas come from the field definitions
+ * the parsers normalize against, and `limits` supplies the same bounds `validateNewsletterUpload`
+ * enforces, so the document follows the running configuration.
+ */
+export const buildNewsletterOpenApiDocument = (
+  limits: NewsletterLimits = DEFAULT_NEWSLETTER_LIMITS,
+): OpenApiDocument => {
+  const uploadSchema = buildObjectSchema(NEWSLETTER_UPLOAD_FIELDS, limits);
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Newsletter generator API",
+      version: API_VERSION,
+      description:
+        "Generates structured internal newsletters from a meeting recap, transcript and optional audio.",
+    },
+    paths: {
+      "/newsletters": {
+        post: {
+          operationId: "generateNewsletter",
+          summary: "Generate a newsletter draft",
+          parameters: [
+            {
+              name: "async",
+              in: "query",
+              description: "When `true`, queue the generation and answer 202 with a job to poll.",
+              schema: { type: "string", enum: ["true", "1"] },
+            },
+            {
+              name: "Idempotency-Key",
+              in: "header",
+              description: "Replays the original response when the same request is retried.",
+              schema: { type: "string" },
+            },
+            {
+              name: "X-Correlation-Id",
+              in: "header",
+              description:
+                "Echoed in the response and attached to every log entry for the request.",
+              schema: { type: "string", pattern: "^[A-Za-z0-9._-]{1,128}$" },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: { $ref: "#/components/schemas/NewsletterUploadRequest" },
+                encoding: {
+                  [NEWSLETTER_AUDIO_FILE_FIELD]: {
+                    contentType: SUPPORTED_AUDIO_MIME_TYPES.join(", "),
+                  },
+                },
+              },
+              "application/json": {
+                schema: { $ref: "#/components/schemas/NewsletterGenerationRequest" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "The generated newsletter.",
+              content: jsonContent("NewsletterUploadSuccessResponse"),
+            },
+            "202": {
+              description: "The generation was queued.",
+              content: jsonContent("NewsletterJobAcceptedResponse"),
+            },
+            ...Object.fromEntries(
+              Object.entries(ERROR_RESPONSE_STATUSES).map(([status, description]) => [
+                status,
+                { description, content: jsonContent("NewsletterUploadErrorResponse") },
+              ]),
+            ),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        NewsletterUploadRequest: {
+          ...uploadSchema,
+          properties: {
+            ...uploadSchema.properties,
+            [NEWSLETTER_AUDIO_FILE_FIELD]: {
+              type: "string",
+              contentMediaType: "application/octet-stream",
+              description: `Meeting audio (${SUPPORTED_AUDIO_MIME_TYPES.join(", ")}), at most ${limits.maxUploadSizeBytes} bytes.`,
+            },
+          },
+        },
+        NewsletterGenerationRequest: {
+          type: "object",
+          required: requiredKeys(NEWSLETTER_JSON_REQUEST_FIELDS),
+          properties: Object.fromEntries(
+            Object.entries(NEWSLETTER_JSON_REQUEST_FIELDS).map(([name, definition]) => [
+              name,
+              buildGroupSchema(definition, limits),
+            ]),
+          ),
+        },
+        ...RESPONSE_SCHEMAS,
+      },
+    },
+  };
+};
+
+const jsonContent = (schema: string) => ({
+  "application/json": { schema: { $ref: `#/components/schemas/${schema}` } },
+});
+
+const requiredKeys = (
+  definitions: Readonly<Record<string, RequestFieldDefinition | RequestObjectDefinition>>,
+): string[] =>
+  Object.entries(definitions)
+    .filter(([, definition]) => definition.required)
+    .map(([name]) => name);
+
+const buildObjectSchema = (
+  fields: RequestFieldDefinitions,
+  limits: NewsletterLimits,
+): JsonSchema & { properties: Record<string, JsonSchema> } => ({
+  type: "object",
+  required: requiredKeys(fields),
+  properties: Object.fromEntries(
+    Object.entries(fields).map(([name, definition]) => [
+      name,
+      buildFieldSchema(definition, limits),
+    ]),
+  ),
+});
+
+const buildGroupSchema = (
+  { description, exactlyOneOf, properties }: RequestObjectDefinition,
+  limits: NewsletterLimits,
+): JsonSchema => ({
+  description,
+  ...buildObjectSchema(properties, limits),
+  ...(exactlyOneOf ? { oneOf: exactlyOneOf.map((name) => ({ required: [name] })) } : {}),
+});
+
+const buildFieldSchema = (
+  definition: RequestFieldDefinition,
+  limits: NewsletterLimits,
+): JsonSchema => {
+  const schema: JsonSchema = { type: definition.type, description: definition.description };
+
+  if (definition.format) {
+    schema.format = definition.format;
+  }
+  if (definition.enum) {
+    schema.enum = [...definition.enum];
+  }
+  if (definition.limit) {
+    schema[definition.type === "number" ? "maximum" : "maxLength"] = limits[definition.limit];
+  }
+
+  return schema;
+};
+
+const ref = (schema: string): JsonSchema => ({ $ref: `#/components/schemas/${schema}` });
+
+const objectSchema = (
+  properties: Record<string, JsonSchema>,
+  required: string[] = [],
+): JsonSchema => ({ type: "object", required, properties });
+
+const STRING: JsonSchema = { type: "string" };
+const NUMBER: JsonSchema = { type: "number" };
+const BOOLEAN: JsonSchema = { type: "boolean" };
+const TIMESTAMP: JsonSchema = { type: "string", format: "date-time" };
+const CONTENT_SOURCE: JsonSchema = { type: "string", enum: ["recap", "transcript", "both"] };
+
+const RESPONSE_SCHEMAS: Record<string, JsonSchema> = {
+  MeetingAudioUpload: objectSchema(
+    {
+      filename: STRING,
+      mimeType: { type: "string", enum: [...SUPPORTED_AUDIO_MIME_TYPES] },
+      durationSeconds: NUMBER,
+      sizeBytes: NUMBER,
+      url: { type: "string", format: "uri" },
+      detectedFormat: { type: "string", enum: [...AUDIO_FORMATS] },
+    },
+    ["filename", "mimeType", "durationSeconds", "sizeBytes"],
+  ),
+  TranscriptSegment: objectSchema(
+    { startTimeSeconds: NUMBER, endTimeSeconds: NUMBER, speaker: STRING, text: STRING },
+    ["text"],
+  ),
+  NewsletterUploadPayload: objectSchema(
+    {
+      audio: ref("MeetingAudioUpload"),
+      meetingRecap: objectSchema({ text: STRING, author: STRING, submittedAt: TIMESTAMP }, [
+        "text",
+      ]),
+      transcript: objectSchema(
+        {
+          text: STRING,
+          source: STRING,
+          submittedAt: TIMESTAMP,
+          format: { type: "string", enum: [...TRANSCRIPT_FORMATS] },
+          segments: { type: "array", items: ref("TranscriptSegment") },
+        },
+        ["text"],
+      ),
+      freeformTopicPrompt: objectSchema({ topic: STRING, instructions: STRING }, ["topic"]),
+    },
+    ["meetingRecap", "transcript"],
+  ),
+  NewsletterSection: objectSchema(
+    { id: STRING, title: STRING, body: STRING, highlights: { type: "array", items: STRING } },
+    ["id", "title", "body"],
+  ),
+  ActionItem: objectSchema(
+    {
+      id: STRING,
+      summary: STRING,
+      owner: STRING,
+      dueDate: TIMESTAMP,
+      status: { type: "string", enum: ["pending", "in_progress", "completed"] },
+      source: CONTENT_SOURCE,
+    },
+    ["id", "summary"],
+  ),
+  ActionItemsSection: {
+    allOf: [
+      ref("NewsletterSection"),
+      objectSchema({ items: { type: "array", items: ref("ActionItem") } }, ["items"]),
+    ],
+  },
+  FreeformTopicSuggestion: objectSchema(
+    {
+      prompt: objectSchema({ topic: STRING, instructions: STRING }, ["topic"]),
+      title: STRING,
+      body: STRING,
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      toneGuidance: STRING,
+      isPromptAligned: BOOLEAN,
+    },
+    ["title", "body"],
+  ),
+  StructuredNewsletter: objectSchema(
+    {
+      introduction: ref("NewsletterSection"),
+      mainUpdates: { type: "array", items: ref("NewsletterSection") },
+      actionItems: ref("ActionItemsSection"),
+      closing: ref("NewsletterSection"),
+      freeformTopic: ref("FreeformTopicSuggestion"),
+    },
+    ["introduction", "mainUpdates", "actionItems", "closing", "freeformTopic"],
+  ),
+  NewsletterGenerationResponse: objectSchema(
+    {
+      sections: ref("StructuredNewsletter"),
+      metadata: objectSchema(
+        {
+          createdAt: TIMESTAMP,
+          processingTimeMs: NUMBER,
+          tokensConsumed: NUMBER,
+          audioSummaryIncluded: BOOLEAN,
+          correlationId: STRING,
+        },
+        ["createdAt", "audioSummaryIncluded"],
+      ),
+      warnings: { type: "array", items: STRING },
+    },
+    ["sections", "metadata"],
+  ),
+  NewsletterUploadSuccessResponse: objectSchema(
+    {
+      message: STRING,
+      payload: ref("NewsletterUploadPayload"),
+      newsletter: ref("NewsletterGenerationResponse"),
+      draftId: { type: "string", description: "Omitted when the draft could not be saved." },
+    },
+    ["message", "payload", "newsletter"],
+  ),
+  NewsletterJobAcceptedResponse: objectSchema(
+    { message: STRING, jobId: STRING, statusUrl: STRING },
+    ["message", "jobId", "statusUrl"],
+  ),
+  ValidationErrorCode: {
+    type: "string",
+    enum: [...VALIDATION_ERROR_CODES],
+    description: `Stable error code. Retrying may succeed for ${RETRYABLE_ERROR_CODES.join(", ")}.`,
+  },
+  ValidationErrorDetail: objectSchema(
+    {
+      field: { type: "string", description: "Request field the error refers to, or `form`." },
+      message: STRING,
+      code: ref("ValidationErrorCode"),
+    },
+    ["field", "message"],
+  ),
+  NewsletterUploadErrorResponse: objectSchema(
+    { errors: { type: "array", items: ref("ValidationErrorDetail") } },
+    ["errors"],
+  ),
+};
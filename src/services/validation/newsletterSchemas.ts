@@ -1,12 +1,30 @@
 import {
+  ActionItemsSection,
+  DEFAULT_NEWSLETTER_LIMITS,
+  FreeformTopicSuggestion,
+  NewsletterDraft,
+  NewsletterDraftRevision,
+  NewsletterDraftRevisionSummary,
+  NewsletterDraftSummary,
+  NewsletterGenerationJob,
+  NewsletterRevisionDiff,
+  NewsletterSection,
   NewsletterUploadPayload,
+  StructuredNewsletter,
   ValidationErrorDetail,
   NewsletterGenerationResponse,
+  NewsletterClientConfig,
+  NewsletterLimits,
+  SUPPORTED_AUDIO_FORMATS,
+  SUPPORTED_AUDIO_MIME_TYPES,
+  TRANSCRIPT_FORMATS,
 } from "../../types/newsletter";
 import {
   NewsletterUploadValidationContext,
+  ParsedUploadBody,
   UploadedFileDescriptor,
 } from "./newsletterUploadValidator";
+import { createBufferAudioDataSource } from "../uploads/audioDataSource";
 
 const buildError = (
   field: string,
@@ -18,8 +36,12 @@ const buildError = (
   code,
 });
 
+
 const isNil = (value: unknown): value is null | undefined => value === null || value === undefined;
 
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
 const normalizeString = (
   value: unknown,
   field: string,
@@ -94,12 +116,81 @@ export interface SchemaFailure {
 
 export type SchemaResult<T> = SchemaSuccess<T> | SchemaFailure;
 
+/**
+ * Shape of a single request field. The request parsers normalize fields from these definitions
+ * and `buildNewsletterOpenApiDocument` publishes them, so the two cannot disagree.
+ */
+export interface RequestFieldDefinition {
+  type: "string" | "number";
+  description: string;
+  /** OpenAPI string format, e.g. `date-time`. */
+  format?: string;
+  enum?: readonly string[];
+  /** Rejected when missing or blank. */
+  required?: boolean;
+  /** Maximum trimmed length for strings, or maximum value for numbers. */
+  limit?: keyof NewsletterLimits;
+}
+
+export type RequestFieldDefinitions = Readonly<Record<string, RequestFieldDefinition>>;
+
+export interface RequestObjectDefinition {
+  description: string;
+  required?: boolean;
+  /** Properties of which exactly one must be supplied. */
+  exactlyOneOf?: readonly string[];
+  properties: RequestFieldDefinitions;
+}
+
+type NormalizedFields<F extends RequestFieldDefinitions> = {
+  [K in keyof F]?: F[K]["type"] extends "number" ? number : string;
+};
+
+const TRANSCRIPT_FORMAT_DESCRIPTION =
+  "Format of the transcript text. Caption files and meeting platform exports are reduced to their spoken text and speaker segments. Detected from the text when omitted.";
+
+/** Name of the multipart file field carrying the meeting audio. */
+export const NEWSLETTER_AUDIO_FILE_FIELD = "audio";
+
+/** Text fields of a `multipart/form-data` generation request. */
+export const NEWSLETTER_UPLOAD_FIELDS = {
+  meetingRecapText: {
+    type: "string",
+    description: "Meeting recap notes.",
+    required: true,
+    limit: "maxRecapLength",
+  },
+  transcriptText: {
+    type: "string",
+    description: "Full meeting transcript.",
+    required: true,
+    limit: "maxTranscriptLength",
+  },
+  transcriptFormat: {
+    type: "string",
+    description: TRANSCRIPT_FORMAT_DESCRIPTION,
+    enum: TRANSCRIPT_FORMATS,
+  },
+  freeformTopic: {
+    type: "string",
+    description: "Title of the optional freeform section.",
+    limit: "maxFreeformTopicLength",
+  },
+  freeformInstructions: {
+    type: "string",
+    description: "Tone or content guidance for the freeform section.",
+    limit: "maxFreeformInstructionsLength",
+  },
+  audioDurationSeconds: {
+    type: "number",
+    description:
+      "Duration of the attached audio. Required when audio is attached, unless it can be read from the file.",
+    limit: "maxAudioDurationSeconds",
+  },
+} as const satisfies RequestFieldDefinitions;
+
 export type RawNewsletterUploadRequest = {
-  meetingRecapText?: unknown;
-  transcriptText?: unknown;
-  freeformTopic?: unknown;
-  freeformInstructions?: unknown;
-  audioDurationSeconds?: unknown;
+  [K in keyof typeof NEWSLETTER_UPLOAD_FIELDS]?: unknown;
 };
 
 export const parseNewsletterUploadRequest = (
@@ -109,24 +200,7 @@ export const parseNewsletterUploadRequest = (
   const errors: ValidationErrorDetail[] = [];
 
   const normalizedBody: RawNewsletterUploadRequest = body ?? {};
-
-  const meetingRecapText = normalizeString(
-    normalizedBody.meetingRecapText,
-    "meetingRecapText",
-    errors,
-  );
-  const transcriptText = normalizeString(normalizedBody.transcriptText, "transcriptText", errors);
-  const freeformTopic = normalizeString(normalizedBody.freeformTopic, "freeformTopic", errors);
-  const freeformInstructions = normalizeString(
-    normalizedBody.freeformInstructions,
-    "freeformInstructions",
-    errors,
-  );
-  const audioDurationSeconds = normalizeNumber(
-    normalizedBody.audioDurationSeconds,
-    "audioDurationSeconds",
-    errors,
-  );
+  const fields = normalizeFields(normalizedBody, NEWSLETTER_UPLOAD_FIELDS, errors);
 
   if (errors.length > 0) {
     return { success: false, errors };
@@ -136,34 +210,429 @@ export const parseNewsletterUploadRequest = (
     success: true,
     data: {
       audioFile: file,
-      body: {
-        meetingRecapText,
-        transcriptText,
-        freeformTopic,
-        freeformInstructions,
-        audioDurationSeconds,
+      body: fields,
+    },
+  };
+};
+
+/** Objects of an `application/json` generation request, shaped like `NewsletterGenerationRequest`. */
+export const NEWSLETTER_JSON_REQUEST_FIELDS = {
+  meetingRecap: {
+    description: "Meeting recap notes and their attribution.",
+    required: true,
+    properties: {
+      text: { type: "string", description: "Meeting recap notes.", required: true, limit: "maxRecapLength" },
+      author: { type: "string", description: "Who wrote the recap.", limit: "maxAttributionLength" },
+      submittedAt: { type: "string", format: "date-time", description: "When the recap was written." },
+    },
+  },
+  transcript: {
+    description: "Full meeting transcript and its origin.",
+    required: true,
+    properties: {
+      text: {
+        type: "string",
+        description: "Full meeting transcript.",
+        required: true,
+        limit: "maxTranscriptLength",
+      },
+      source: { type: "string", description: "Tool that produced the transcript.", limit: "maxAttributionLength" },
+      submittedAt: { type: "string", format: "date-time", description: "When the transcript was captured." },
+      format: { type: "string", description: TRANSCRIPT_FORMAT_DESCRIPTION, enum: TRANSCRIPT_FORMATS },
+    },
+  },
+  freeformTopicPrompt: {
+    description: "Optional freeform section prompt.",
+    properties: {
+      topic: { type: "string", description: "Title of the freeform section.", limit: "maxFreeformTopicLength" },
+      instructions: {
+        type: "string",
+        description: "Tone or content guidance for the freeform section.",
+        limit: "maxFreeformInstructionsLength",
       },
     },
+  },
+  audio: {
+    description: "Meeting audio, supplied either by url or inline as base64 data.",
+    exactlyOneOf: ["url", "data"],
+    properties: {
+      filename: {
+        type: "string",
+        description: `Original filename (${SUPPORTED_AUDIO_FORMATS.flatMap(({ extensions }) => extensions).join(", ")}).`,
+        required: true,
+      },
+      mimeType: {
+        type: "string",
+        description: "Audio MIME type.",
+        enum: SUPPORTED_AUDIO_MIME_TYPES,
+        required: true,
+      },
+      url: {
+        type: "string",
+        format: "uri",
+        description:
+          "Absolute http(s) URL of the audio on an allow-listed host; it is downloaded within the size and duration limits.",
+      },
+      data: {
+        type: "string",
+        format: "byte",
+        description: "Base64 audio, optionally as a data URL. Mutually exclusive with url.",
+      },
+      sizeBytes: { type: "number", description: "Size of the audio at url.", limit: "maxUploadSizeBytes" },
+      durationSeconds: {
+        type: "number",
+        description: "Duration of the audio. Inline data is measured from its own metadata instead.",
+        required: true,
+        limit: "maxAudioDurationSeconds",
+      },
+    },
+  },
+} as const satisfies Readonly<Record<string, RequestObjectDefinition>>;
+
+export type RawNewsletterJsonRequest = {
+  [K in keyof typeof NEWSLETTER_JSON_REQUEST_FIELDS]?: unknown;
+};
+
+/**
+ * Parses an `application/json` generation request shaped like `NewsletterGenerationRequest`.
+ * Audio is supplied either by reference (`audio.url`) or inline as base64 (`audio.data`);
+ * the result feeds the same `validateNewsletterUpload` rules as multipart uploads.
+ */
+export const parseNewsletterJsonRequest = (
+  body: unknown,
+): SchemaResult<NewsletterUploadValidationContext> => {
+  if (!isRecord(body)) {
+    return {
+      success: false,
+      errors: [buildError("body", "Expected a JSON object.", "INVALID_FORMAT")],
+    };
+  }
+
+  const errors: ValidationErrorDetail[] = [];
+  const request: RawNewsletterJsonRequest = body;
+
+  const meetingRecap = normalizeObject(request, "meetingRecap", errors);
+  const transcript = normalizeObject(request, "transcript", errors);
+  const prompt = normalizeObject(request, "freeformTopicPrompt", errors);
+  const audioErrorCount = errors.length;
+  const audio = normalizeObject(request, "audio", errors);
+
+  const parsedBody: ParsedUploadBody = {
+    meetingRecapText: meetingRecap?.text,
+    meetingRecapAuthor: meetingRecap?.author,
+    meetingRecapSubmittedAt: meetingRecap?.submittedAt,
+    transcriptText: transcript?.text,
+    transcriptSource: transcript?.source,
+    transcriptSubmittedAt: transcript?.submittedAt,
+    transcriptFormat: transcript?.format,
+    freeformTopic: prompt?.topic,
+    freeformInstructions: prompt?.instructions,
+    audioDurationSeconds: audio?.durationSeconds,
+  };
+  const audioFile = audio ? normalizeJsonAudio(audio, audioErrorCount, errors) : undefined;
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    data: {
+      audioFile,
+      body: parsedBody,
+    },
   };
 };
 
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const DATA_URL_PREFIX_PATTERN = /^data:[^,]*;base64,/i;
+
+const normalizeFields = <F extends RequestFieldDefinitions>(
+  values: Record<string, unknown>,
+  fields: F,
+  errors: ValidationErrorDetail[],
+  prefix = "",
+): NormalizedFields<F> => {
+  const normalized: Record<string, string | number | undefined> = {};
+
+  Object.entries(fields).forEach(([name, definition]) => {
+    const field = `${prefix}${name}`;
+    normalized[name] =
+      definition.type === "number"
+        ? normalizeNumber(values[name], field, errors)
+        : normalizeString(values[name], field, errors);
+  });
+
+  return normalized as NormalizedFields<F>;
+};
+
+const normalizeObject = <K extends keyof typeof NEWSLETTER_JSON_REQUEST_FIELDS>(
+  request: RawNewsletterJsonRequest,
+  name: K,
+  errors: ValidationErrorDetail[],
+): NormalizedFields<(typeof NEWSLETTER_JSON_REQUEST_FIELDS)[K]["properties"]> | undefined => {
+  const value = request[name];
+  if (isNil(value)) {
+    return undefined;
+  }
+
+  if (!isRecord(value)) {
+    errors.push(buildError(name, "Expected an object.", "INVALID_FORMAT"));
+    return undefined;
+  }
+
+  return normalizeFields(value, NEWSLETTER_JSON_REQUEST_FIELDS[name].properties, errors, `${name}.`);
+};
+
+const normalizeJsonAudio = (
+  audio: NormalizedFields<(typeof NEWSLETTER_JSON_REQUEST_FIELDS)["audio"]["properties"]>,
+  errorCount: number,
+  errors: ValidationErrorDetail[],
+): UploadedFileDescriptor | undefined => {
+  const filename = audio.filename?.trim();
+  const mimeType = audio.mimeType?.trim();
+  const url = audio.url?.trim();
+  const { data, sizeBytes } = audio;
+
+  if (!filename) {
+    errors.push(buildError("audio.filename", "Audio filename is required.", "REQUIRED"));
+  }
+
+  if (!mimeType) {
+    errors.push(buildError("audio.mimeType", "Audio MIME type is required.", "REQUIRED"));
+  }
+
+  if (url && data) {
+    errors.push(
+      buildError("audio", "Provide audio either by url or as base64 data, not both.", "INVALID_FORMAT"),
+    );
+  } else if (!url && !data) {
+    errors.push(buildError("audio", "Audio must include a url or base64 data.", "REQUIRED"));
+  }
+
+  const bytes = data ? decodeBase64(data) : undefined;
+  if (data && !bytes) {
+    errors.push(buildError("audio.data", "Audio data must be base64 encoded.", "INVALID_FORMAT"));
+  }
+
+  if (errors.length > errorCount || !filename || !mimeType) {
+    return undefined;
+  }
+
+  return {
+    mimetype: mimeType,
+    originalname: filename,
+    size: bytes?.length ?? sizeBytes ?? 0,
+    data: bytes ? createBufferAudioDataSource(bytes) : undefined,
+    url,
+  };
+};
+
+const decodeBase64 = (value: string): Uint8Array | undefined => {
+  const normalized = value.replace(DATA_URL_PREFIX_PATTERN, "").replace(/\s+/g, "");
+  if (!BASE64_PATTERN.test(normalized)) {
+    return undefined;
+  }
+
+  const decoded = Buffer.from(normalized, "base64");
+  return decoded.length > 0 ? new Uint8Array(decoded) : undefined;
+};
+
 export interface NewsletterUploadSuccessResponse {
   message: string;
   payload: NewsletterUploadPayload;
   newsletter: NewsletterGenerationResponse;
+  /** Id of the saved draft, omitted when the draft could not be persisted. */
+  draftId?: string;
 }
 
 export interface NewsletterUploadErrorResponse {
   errors: ValidationErrorDetail[];
 }
 
+export interface NewsletterJobAcceptedResponse {
+  message: string;
+  jobId: string;
+  statusUrl: string;
+}
+
+export interface NewsletterJobStatusResponse {
+  job: NewsletterGenerationJob;
+}
+
+export interface NewsletterDraftResponse {
+  draft: NewsletterDraft;
+}
+
+export interface NewsletterDraftListResponse {
+  drafts: NewsletterDraftSummary[];
+}
+
+export interface NewsletterDraftUpdateRequest {
+  sections: StructuredNewsletter;
+  author?: string;
+}
+
+export interface NewsletterDraftRevisionListResponse {
+  revisions: NewsletterDraftRevisionSummary[];
+}
+
+export interface NewsletterDraftRevisionResponse {
+  revision: NewsletterDraftRevision;
+}
+
+export interface NewsletterRevisionDiffResponse {
+  diff: NewsletterRevisionDiff;
+}
+
+export interface NewsletterRevisionRestoreRequest {
+  author?: string;
+}
+
+export interface NewsletterSectionRegenerateRequest {
+  instructions?: string;
+}
+
+export interface NewsletterSectionRegenerateResponse {
+  section: NewsletterSection | ActionItemsSection;
+  /** Full suggestion when the freeform topic was regenerated. */
+  freeformTopic?: FreeformTopicSuggestion;
+}
+
+export type NewsletterConfigResponse = NewsletterClientConfig;
+
+const isSection = (value: unknown): value is NewsletterSection =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.title === "string" &&
+  typeof value.body === "string" &&
+  (value.highlights === undefined ||
+    (Array.isArray(value.highlights) &&
+      value.highlights.every((highlight) => typeof highlight === "string")));
+
+export const parseNewsletterDraftUpdateRequest = (
+  body: unknown,
+): SchemaResult<NewsletterDraftUpdateRequest> => {
+  const errors: ValidationErrorDetail[] = [];
+  const sections = isRecord(body) ? body.sections : undefined;
+
+  if (!isRecord(sections)) {
+    return {
+      success: false,
+      errors: [buildError("sections", "Draft sections are required.", "REQUIRED")],
+    };
+  }
+
+  if (!isSection(sections.introduction)) {
+    errors.push(buildError("sections.introduction", "Expected a newsletter section.", "INVALID_FORMAT"));
+  }
+
+  if (!Array.isArray(sections.mainUpdates) || !sections.mainUpdates.every(isSection)) {
+    errors.push(
+      buildError("sections.mainUpdates", "Expected a list of newsletter sections.", "INVALID_FORMAT"),
+    );
+  }
+
+  const actionItems = sections.actionItems;
+  const actionItemEntries = isRecord(actionItems) ? actionItems.items : undefined;
+  if (
+    !isSection(actionItems) ||
+    !Array.isArray(actionItemEntries) ||
+    !actionItemEntries.every(
+      (item) => isRecord(item) && typeof item.id === "string" && typeof item.summary === "string",
+    )
+  ) {
+    errors.push(
+      buildError("sections.actionItems", "Expected an action items section.", "INVALID_FORMAT"),
+    );
+  }
+
+  if (!isSection(sections.closing)) {
+    errors.push(buildError("sections.closing", "Expected a newsletter section.", "INVALID_FORMAT"));
+  }
+
+  const { freeformTopic } = sections;
+  if (
+    !isRecord(freeformTopic) ||
+    typeof freeformTopic.title !== "string" ||
+    typeof freeformTopic.body !== "string"
+  ) {
+    errors.push(
+      buildError("sections.freeformTopic", "Expected a freeform topic suggestion.", "INVALID_FORMAT"),
+    );
+  }
+
+  const author = normalizeString(isRecord(body) ? body.author : undefined, "author", errors);
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    data: {
+      sections: sections as unknown as StructuredNewsletter,
+      ...(author?.trim() ? { author: author.trim() } : {}),
+    },
+  };
+};
+
+export const parseNewsletterRevisionRestoreRequest = (
+  body: unknown,
+): SchemaResult<NewsletterRevisionRestoreRequest> => {
+  const errors: ValidationErrorDetail[] = [];
+  const author = normalizeString(isRecord(body) ? body.author : undefined, "author", errors);
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    data: author?.trim() ? { author: author.trim() } : {},
+  };
+};
+
+export const parseNewsletterSectionRegenerateRequest = (
+  body: unknown,
+  maxInstructionsLength = DEFAULT_NEWSLETTER_LIMITS.maxRegenerationInstructionsLength,
+): SchemaResult<NewsletterSectionRegenerateRequest> => {
+  const errors: ValidationErrorDetail[] = [];
+  const instructions = normalizeString(
+    isRecord(body) ? body.instructions : undefined,
+    "instructions",
+    errors,
+  )?.trim();
+
+  if (instructions && instructions.length > maxInstructionsLength) {
+    errors.push(
+      buildError(
+        "instructions",
+        `Regeneration instructions must be under ${maxInstructionsLength} characters (received ${instructions.length}).`,
+        "INVALID_LENGTH",
+      ),
+    );
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    data: instructions ? { instructions } : {},
+  };
+};
+
 export const serializeNewsletterUploadSuccessResponse = (
   payload: NewsletterUploadPayload,
   newsletter: NewsletterGenerationResponse,
+  draftId?: string,
 ): NewsletterUploadSuccessResponse => ({
   message: "Newsletter assembled successfully.",
   payload,
   newsletter,
+  ...(draftId ? { draftId } : {}),
 });
 
 export const serializeNewsletterUploadErrorResponse = (
@@ -171,3 +640,72 @@ export const serializeNewsletterUploadErrorResponse = (
 ): NewsletterUploadErrorResponse => ({
   errors,
 });
+
+export const serializeNewsletterJobAcceptedResponse = (
+  job: NewsletterGenerationJob,
+): NewsletterJobAcceptedResponse => ({
+  message: "Newsletter generation queued.",
+  jobId: job.id,
+  statusUrl: `/newsletters/jobs/${encodeURIComponent(job.id)}`,
+});
+
+export const serializeNewsletterJobStatusResponse = (
+  job: NewsletterGenerationJob,
+): NewsletterJobStatusResponse => ({
+  job,
+});
+
+export const serializeNewsletterDraftResponse = (
+  draft: NewsletterDraft,
+): NewsletterDraftResponse => ({
+  draft,
+});
+
+export const serializeNewsletterDraftListResponse = (
+  drafts: NewsletterDraftSummary[],
+): NewsletterDraftListResponse => ({
+  drafts,
+});
+
+export const serializeNewsletterDraftRevisionListResponse = (
+  revisions: NewsletterDraftRevisionSummary[],
+): NewsletterDraftRevisionListResponse => ({
+  revisions,
+});
+
+export const serializeNewsletterDraftRevisionResponse = (
+  revision: NewsletterDraftRevision,
+): NewsletterDraftRevisionResponse => ({
+  revision,
+});
+
+export const serializeNewsletterRevisionDiffResponse = (
+  diff: NewsletterRevisionDiff,
+): NewsletterRevisionDiffResponse => ({
+  diff,
+});
+
+export const serializeNewsletterSectionRegenerateResponse = (
+  section: NewsletterSection | ActionItemsSection,
+  freeformTopic?: FreeformTopicSuggestion,
+): NewsletterSectionRegenerateResponse => ({
+  section,
+  ...(freeformTopic ? { freeformTopic } : {}),
+});
+
+/** Exposes only the limits the page needs; body size and synthesis limits stay server-side. */
+export const serializeNewsletterConfigResponse = (
+  limits: NewsletterLimits,
+): NewsletterConfigResponse => ({
+  limits: {
+    maxRecapLength: limits.maxRecapLength,
+    maxTranscriptLength: limits.maxTranscriptLength,
+    maxFreeformTopicLength: limits.maxFreeformTopicLength,
+    maxFreeformInstructionsLength: limits.maxFreeformInstructionsLength,
+    maxAttributionLength: limits.maxAttributionLength,
+    maxRegenerationInstructionsLength: limits.maxRegenerationInstructionsLength,
+    maxAudioDurationSeconds: limits.maxAudioDurationSeconds,
+    maxUploadSizeBytes: limits.maxUploadSizeBytes,
+  },
+  supportedAudioMimeTypes: [...SUPPORTED_AUDIO_MIME_TYPES],
+});
@@ -1,23 +1,38 @@
 import {
-  MAX_AUDIO_DURATION_SECONDS,
+  AudioFormat,
+  DEFAULT_NEWSLETTER_LIMITS,
+  findAudioFormat,
+  findAudioFormatByMimeType,
+  findTranscriptFormat,
   MeetingAudioUpload,
+  NewsletterLimits,
   NewsletterUploadPayload,
   NewsletterValidationResult,
-  SUPPORTED_AUDIO_MIME_TYPES,
+  SUPPORTED_AUDIO_FORMAT_LABELS,
+  SUPPORTED_AUDIO_FORMATS,
+  TRANSCRIPT_FORMATS,
   ValidationErrorDetail,
 } from "../../types/newsletter";
+import { normalizeTranscript } from "../transcripts/transcriptParser";
+import type { AudioDataSource } from "../uploads/audioDataSource";
+import { probeAudioDuration } from "../uploads/audioDurationProbe";
+import { detectAudioFormat } from "../uploads/audioFormatSniffer";
 
-const MAX_AUDIO_SIZE_BYTES = 200 * 1024 * 1024; // 200 MB safeguard
-const MAX_RECAP_LENGTH = 4000; // characters
-const MAX_TRANSCRIPT_LENGTH = 200_000; // characters
-const MAX_FREEFORM_TOPIC_LENGTH = 200; // characters
-const MAX_FREEFORM_INSTRUCTIONS_LENGTH = 500; // characters
-
-const AUDIO_FILE_NAME_PATTERN = /\.(mp3|wav)$/i;
+const AUDIO_FILE_EXTENSIONS: readonly string[] = SUPPORTED_AUDIO_FORMATS.flatMap(
+  ({ extensions }) => extensions,
+);
+/** Client durations within this many seconds of the probed one are treated as agreeing. */
+const DURATION_MISMATCH_TOLERANCE_SECONDS = 5;
 
 export interface ParsedUploadBody {
   meetingRecapText?: string;
+  meetingRecapAuthor?: string;
+  meetingRecapSubmittedAt?: string;
   transcriptText?: string;
+  transcriptSource?: string;
+  transcriptSubmittedAt?: string;
+  /** Format of `transcriptText`; caption files are parsed into clean text and segments. */
+  transcriptFormat?: string;
   freeformTopic?: string;
   freeformInstructions?: string;
   audioDurationSeconds?: number;
@@ -27,7 +42,9 @@ export interface UploadedFileDescriptor {
   mimetype: string;
   originalname: string;
   size: number;
-  buffer?: Uint8Array;
+  data?: AudioDataSource;
+  /** Remote location of the audio when it is supplied by reference instead of uploaded. */
+  url?: string;
 }
 
 export interface NewsletterUploadValidationContext {
@@ -45,83 +62,184 @@ const buildError = (
   code,
 });
 
-const normalizeMimeType = (mimeType: string): string => mimeType.toLowerCase();
-
-const isSupportedMimeType = (mimeType: string): mimeType is (typeof SUPPORTED_AUDIO_MIME_TYPES)[number] =>
-  SUPPORTED_AUDIO_MIME_TYPES.includes(mimeType as (typeof SUPPORTED_AUDIO_MIME_TYPES)[number]);
+const hasAudioFileExtension = (filename: string): boolean => {
+  const lowerCased = filename.toLowerCase();
+  return AUDIO_FILE_EXTENSIONS.some((extension) => lowerCased.endsWith(extension));
+};
 
 const coerceAudioUpload = (
   file: NewsletterUploadValidationContext["audioFile"],
   durationSeconds?: number,
+  detectedFormat?: AudioFormat,
 ): MeetingAudioUpload | undefined => {
   if (!file) {
     return undefined;
   }
 
-  const normalizedMime = normalizeMimeType(file.mimetype);
-  if (!isSupportedMimeType(normalizedMime)) {
+  const supportedFormat = findAudioFormatByMimeType(file.mimetype);
+  if (!supportedFormat) {
     return undefined;
   }
 
   return {
     filename: file.originalname,
-    mimeType: normalizedMime,
+    mimeType: supportedFormat.mimeType,
     durationSeconds: durationSeconds ?? 0,
     sizeBytes: file.size,
+    ...(file.url ? { url: file.url } : {}),
+    ...(detectedFormat ? { detectedFormat } : {}),
   };
 };
 
-export const validateNewsletterUpload = (
+export type NewsletterUploadLimits = Pick<
+  NewsletterLimits,
+  | "maxRecapLength"
+  | "maxTranscriptLength"
+  | "maxFreeformTopicLength"
+  | "maxFreeformInstructionsLength"
+  | "maxAttributionLength"
+  | "maxAudioDurationSeconds"
+  | "maxUploadSizeBytes"
+>;
+
+export interface NewsletterUploadValidationResult extends NewsletterValidationResult {
+  payload?: NewsletterUploadPayload;
+  /** Non-fatal issues with the inputs, such as a client duration that disagrees with the file. */
+  warnings: string[];
+}
+
+/**
+ * Validates an upload against the configured limits. Uploaded audio bytes are measured
+ * from their headers, and the measured duration replaces the client-supplied one. Caption files
+ * and meeting platform exports are parsed, named or detected, and the limits apply to the
+ * spoken text left after parsing.
+ */
+export const validateNewsletterUpload = async (
   context: NewsletterUploadValidationContext,
-): NewsletterValidationResult & { payload?: NewsletterUploadPayload } => {
+  limits: NewsletterUploadLimits = DEFAULT_NEWSLETTER_LIMITS,
+): Promise<NewsletterUploadValidationResult> => {
   const errors: ValidationErrorDetail[] = [];
+  const warnings: string[] = [];
   const { audioFile, body } = context;
+  const {
+    maxRecapLength,
+    maxTranscriptLength,
+    maxFreeformTopicLength,
+    maxFreeformInstructionsLength,
+    maxAttributionLength,
+    maxAudioDurationSeconds,
+    maxUploadSizeBytes,
+  } = limits;
 
   const recapText = body.meetingRecapText?.trim() ?? "";
-  const transcriptText = body.transcriptText?.trim() ?? "";
+  const rawTranscriptText = body.transcriptText?.trim() ?? "";
+  const requestedTranscriptFormat = body.transcriptFormat?.trim();
+  const transcriptFormat = requestedTranscriptFormat
+    ? findTranscriptFormat(requestedTranscriptFormat)
+    : undefined;
+  // Without a named format the layout is detected, so pasted platform exports are cleaned too.
+  const normalizedTranscript =
+    rawTranscriptText && (transcriptFormat || !requestedTranscriptFormat)
+      ? normalizeTranscript(rawTranscriptText, transcriptFormat?.format)
+      : undefined;
+  const transcriptText = normalizedTranscript?.text ?? rawTranscriptText;
   const freeformTopic = body.freeformTopic?.trim();
   const freeformInstructions = body.freeformInstructions?.trim();
-  const durationSeconds = body.audioDurationSeconds ?? 0;
+  const clientDurationSeconds = body.audioDurationSeconds;
+  const recapAuthor = body.meetingRecapAuthor?.trim();
+  const transcriptSource = body.transcriptSource?.trim();
+  const recapSubmittedAt = normalizeTimestamp(body.meetingRecapSubmittedAt);
+  const transcriptSubmittedAt = normalizeTimestamp(body.transcriptSubmittedAt);
 
   if (!recapText) {
     errors.push(buildError("meetingRecap", "Meeting recap text is required.", "REQUIRED"));
-  } else if (recapText.length > MAX_RECAP_LENGTH) {
+  } else if (recapText.length > maxRecapLength) {
     errors.push(
       buildError(
         "meetingRecap",
-        `Meeting recap must be under ${MAX_RECAP_LENGTH} characters (received ${recapText.length}).`,
+        `Meeting recap must be under ${maxRecapLength} characters (received ${recapText.length}).`,
         "LIMIT_EXCEEDED",
       ),
     );
   }
 
-  if (!transcriptText) {
+  if (requestedTranscriptFormat && !transcriptFormat) {
+    errors.push(
+      buildError(
+        "transcript.format",
+        `Unsupported transcript format: ${requestedTranscriptFormat}. Supported formats are ${TRANSCRIPT_FORMATS.join(", ")}.`,
+        "UNSUPPORTED_TYPE",
+      ),
+    );
+  }
+
+  if (!rawTranscriptText) {
     errors.push(buildError("transcript", "Meeting transcript text is required.", "REQUIRED"));
-  } else if (transcriptText.length > MAX_TRANSCRIPT_LENGTH) {
+  } else if (transcriptFormat && !normalizedTranscript) {
     errors.push(
       buildError(
         "transcript",
-        `Transcript must be under ${MAX_TRANSCRIPT_LENGTH} characters (received ${transcriptText.length}).`,
+        `Transcript could not be read as ${transcriptFormat.label}.`,
+        "INVALID_FORMAT",
+      ),
+    );
+  } else if (transcriptText.length > maxTranscriptLength) {
+    errors.push(
+      buildError(
+        "transcript",
+        `Transcript must be under ${maxTranscriptLength} characters (received ${transcriptText.length}).`,
         "LIMIT_EXCEEDED",
       ),
     );
   }
 
-  if (freeformTopic && freeformTopic.length > MAX_FREEFORM_TOPIC_LENGTH) {
+  if (recapAuthor && recapAuthor.length > maxAttributionLength) {
+    errors.push(
+      buildError(
+        "meetingRecap.author",
+        `Recap author must be under ${maxAttributionLength} characters (received ${recapAuthor.length}).`,
+        "LIMIT_EXCEEDED",
+      ),
+    );
+  }
+
+  if (transcriptSource && transcriptSource.length > maxAttributionLength) {
+    errors.push(
+      buildError(
+        "transcript.source",
+        `Transcript source must be under ${maxAttributionLength} characters (received ${transcriptSource.length}).`,
+        "LIMIT_EXCEEDED",
+      ),
+    );
+  }
+
+  if (recapSubmittedAt === null) {
+    errors.push(
+      buildError("meetingRecap.submittedAt", "Submitted at must be an ISO 8601 timestamp.", "INVALID_FORMAT"),
+    );
+  }
+
+  if (transcriptSubmittedAt === null) {
+    errors.push(
+      buildError("transcript.submittedAt", "Submitted at must be an ISO 8601 timestamp.", "INVALID_FORMAT"),
+    );
+  }
+
+  if (freeformTopic && freeformTopic.length > maxFreeformTopicLength) {
     errors.push(
       buildError(
         "freeformTopicPrompt.topic",
-        `Topic must be under ${MAX_FREEFORM_TOPIC_LENGTH} characters (received ${freeformTopic.length}).`,
+        `Topic must be under ${maxFreeformTopicLength} characters (received ${freeformTopic.length}).`,
         "LIMIT_EXCEEDED",
       ),
     );
   }
 
-  if (freeformInstructions && freeformInstructions.length > MAX_FREEFORM_INSTRUCTIONS_LENGTH) {
+  if (freeformInstructions && freeformInstructions.length > maxFreeformInstructionsLength) {
     errors.push(
       buildError(
         "freeformTopicPrompt.instructions",
-        `Additional instructions must be under ${MAX_FREEFORM_INSTRUCTIONS_LENGTH} characters (received ${freeformInstructions.length}).`,
+        `Additional instructions must be under ${maxFreeformInstructionsLength} characters (received ${freeformInstructions.length}).`,
         "LIMIT_EXCEEDED",
       ),
     );
@@ -130,56 +248,116 @@ export const validateNewsletterUpload = (
   let audio: MeetingAudioUpload | undefined;
 
   if (audioFile) {
-    const normalizedMime = normalizeMimeType(audioFile.mimetype);
-    if (!isSupportedMimeType(normalizedMime)) {
+    const supportedFormat = findAudioFormatByMimeType(audioFile.mimetype);
+    if (!supportedFormat) {
       errors.push(
         buildError(
           "audio",
-          `Unsupported audio format: ${audioFile.mimetype}. Supported formats are MP3 and WAV.`,
+          `Unsupported audio format: ${audioFile.mimetype}. Supported formats are ${SUPPORTED_AUDIO_FORMAT_LABELS}.`,
           "UNSUPPORTED_TYPE",
         ),
       );
     }
 
-    if (!AUDIO_FILE_NAME_PATTERN.test(audioFile.originalname)) {
-      errors.push(buildError("audio", "Audio filename must end with .mp3 or .wav.", "INVALID_FORMAT"));
+    if (!hasAudioFileExtension(audioFile.originalname)) {
+      errors.push(
+        buildError(
+          "audio",
+          `Audio filename must end with one of ${AUDIO_FILE_EXTENSIONS.join(", ")}.`,
+          "INVALID_FORMAT",
+        ),
+      );
+    }
+
+    if (audioFile.url && !isHttpUrl(audioFile.url)) {
+      errors.push(buildError("audio.url", "Audio URL must be an absolute http(s) URL.", "INVALID_FORMAT"));
     }
 
-    if (audioFile.size > MAX_AUDIO_SIZE_BYTES) {
+    if (audioFile.size > maxUploadSizeBytes) {
       errors.push(
         buildError(
           "audio",
-          `Audio file exceeds the ${round_megabytes(MAX_AUDIO_SIZE_BYTES)}MB size limit.`,
+          `Audio file exceeds the ${round_megabytes(maxUploadSizeBytes)}MB size limit.`,
           "LIMIT_EXCEEDED",
         ),
       );
     }
 
+    // Uploaded bytes must contain the format their MIME type names, so a renamed document is
+    // rejected here rather than failing inside the transcriber.
+    const detectedFormat = audioFile.data ? await detectAudioFormat(audioFile.data) : undefined;
+    const contentMatches =
+      !audioFile.data || !supportedFormat || detectedFormat === supportedFormat.format;
+
+    if (!contentMatches) {
+      errors.push(
+        buildError(
+          "audio",
+          detectedFormat
+            ? `Audio content is ${findAudioFormat(detectedFormat).label} but was uploaded as ${audioFile.mimetype}.`
+            : `Audio content is not ${supportedFormat?.label} audio.`,
+          "UNSUPPORTED_TYPE",
+        ),
+      );
+    }
+
+    const probe =
+      audioFile.data && contentMatches ? await probeAudioDuration(audioFile.data) : undefined;
+    const durationSeconds = probe ? Math.ceil(probe.durationSeconds) : (clientDurationSeconds ?? 0);
+
+    if (
+      probe &&
+      clientDurationSeconds !== undefined &&
+      Math.abs(probe.durationSeconds - clientDurationSeconds) > DURATION_MISMATCH_TOLERANCE_SECONDS
+    ) {
+      warnings.push(
+        `Audio duration of ${clientDurationSeconds}s does not match the ${durationSeconds}s read from the file; using ${durationSeconds}s.`,
+      );
+    }
+
     if (durationSeconds <= 0) {
       errors.push(buildError("audio.durationSeconds", "Audio duration metadata is required.", "REQUIRED"));
-    } else if (durationSeconds > MAX_AUDIO_DURATION_SECONDS) {
+    } else if (durationSeconds > maxAudioDurationSeconds) {
       errors.push(
-        buildError("audio.durationSeconds", "Audio duration must not exceed 60 minutes.", "LIMIT_EXCEEDED"),
+        buildError(
+          "audio.durationSeconds",
+          `Audio duration must not exceed ${Math.floor(maxAudioDurationSeconds / 60)} minutes.`,
+          "LIMIT_EXCEEDED",
+        ),
       );
     }
 
-    audio = coerceAudioUpload(audioFile, durationSeconds);
+    audio = coerceAudioUpload(audioFile, durationSeconds, detectedFormat);
   }
 
   if (errors.length > 0) {
     return {
       isValid: false,
       errors,
+      warnings,
     };
   }
 
   return {
     isValid: true,
     errors: [],
+    warnings,
     payload: {
       audio,
-      meetingRecap: { text: recapText },
-      transcript: { text: transcriptText },
+      meetingRecap: {
+        text: recapText,
+        ...(recapAuthor ? { author: recapAuthor } : {}),
+        ...(recapSubmittedAt ? { submittedAt: recapSubmittedAt } : {}),
+      },
+      transcript: {
+        text: transcriptText,
+        ...(transcriptSource ? { source: transcriptSource } : {}),
+        ...(transcriptSubmittedAt ? { submittedAt: transcriptSubmittedAt } : {}),
+        ...(transcriptFormat || normalizedTranscript?.format !== "plain"
+          ? { format: normalizedTranscript?.format }
+          : {}),
+        ...(normalizedTranscript?.segments ? { segments: normalizedTranscript.segments } : {}),
+      },
       freeformTopicPrompt: freeformTopic
         ? {
             topic: freeformTopic,
@@ -190,6 +368,26 @@ export const validateNewsletterUpload = (
   };
 };
 
+/** Returns the ISO form of a timestamp, undefined when absent and null when unparseable. */
+const normalizeTimestamp = (value: string | undefined): string | undefined | null => {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
 function round_megabytes(bytes: number): number {
   return Math.round(bytes / (1024 * 1024));
 }
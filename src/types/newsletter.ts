@@ -6,9 +6,197 @@
  */
 
 export const MAX_AUDIO_DURATION_SECONDS = 60 * 60; // 60 minutes
-export const SUPPORTED_AUDIO_MIME_TYPES = ["audio/mpeg", "audio/wav"] as const;
 
-export type AudioMimeType = (typeof SUPPORTED_AUDIO_MIME_TYPES)[number];
+/**
+ * The one definition of every accepted audio format. The MIME type union, the validator's
+ * filename and content checks and the UI's file picker are all derived from it. `aliases` are
+ * the other MIME types browsers and recorders report for the same files.
+ */
+export const SUPPORTED_AUDIO_FORMATS = [
+  {
+    format: "mp3",
+    label: "MP3",
+    mimeType: "audio/mpeg",
+    aliases: ["audio/mp3"],
+    extensions: [".mp3"],
+  },
+  {
+    format: "wav",
+    label: "WAV",
+    mimeType: "audio/wav",
+    aliases: ["audio/x-wav", "audio/wave", "audio/vnd.wave"],
+    extensions: [".wav"],
+  },
+  {
+    format: "m4a",
+    label: "M4A",
+    mimeType: "audio/mp4",
+    aliases: ["audio/x-m4a", "audio/m4a", "video/mp4"],
+    extensions: [".m4a", ".mp4"],
+  },
+  {
+    format: "ogg",
+    label: "OGG",
+    mimeType: "audio/ogg",
+    aliases: ["audio/opus"],
+    extensions: [".ogg", ".oga", ".opus"],
+  },
+  {
+    format: "webm",
+    label: "WebM",
+    mimeType: "audio/webm",
+    aliases: ["video/webm"],
+    extensions: [".webm"],
+  },
+  {
+    format: "flac",
+    label: "FLAC",
+    mimeType: "audio/flac",
+    aliases: ["audio/x-flac"],
+    extensions: [".flac"],
+  },
+] as const;
+
+export type SupportedAudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
+
+export type AudioFormat = SupportedAudioFormat["format"];
+
+export type AudioMimeType = SupportedAudioFormat["mimeType"];
+
+export const AUDIO_FORMATS: readonly AudioFormat[] = SUPPORTED_AUDIO_FORMATS.map(
+  ({ format }) => format,
+);
+
+export const SUPPORTED_AUDIO_MIME_TYPES: readonly AudioMimeType[] = SUPPORTED_AUDIO_FORMATS.map(
+  ({ mimeType }) => mimeType,
+);
+
+/** Value for a file input's `accept` attribute: every MIME type and extension above. */
+export const SUPPORTED_AUDIO_ACCEPT = SUPPORTED_AUDIO_FORMATS.flatMap(
+  ({ mimeType, extensions }) => [mimeType, ...extensions],
+).join(",");
+
+/** "MP3, WAV, M4A, OGG, WebM and FLAC", for messages that list the accepted formats. */
+export const SUPPORTED_AUDIO_FORMAT_LABELS = (() => {
+  const labels = SUPPORTED_AUDIO_FORMATS.map(({ label }) => label);
+  return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+})();
+
+/** Looks up a format by its canonical MIME type or an alias, ignoring case and parameters. */
+export const findAudioFormatByMimeType = (mimeType: string): SupportedAudioFormat | undefined => {
+  const normalized = mimeType.split(";")[0].trim().toLowerCase();
+  return SUPPORTED_AUDIO_FORMATS.find(
+    (entry) =>
+      entry.mimeType === normalized || (entry.aliases as readonly string[]).includes(normalized),
+  );
+};
+
+export const findAudioFormat = (format: AudioFormat): SupportedAudioFormat =>
+  SUPPORTED_AUDIO_FORMATS.find((entry) => entry.format === format) as SupportedAudioFormat;
+
+/**
+ * Transcript formats the server can read. Plain text is used as written; caption files and
+ * meeting platform exports are reduced to their spoken text, and their cues or speaker turns
+ * become transcript segments. Platform exports are plain text files, so only the caption
+ * formats can be recognized from a file extension.
+ */
+export const SUPPORTED_TRANSCRIPT_FORMATS = [
+  { format: "plain", label: "Plain text", mimeType: "text/plain", extensions: [".txt"] },
+  { format: "webvtt", label: "WebVTT", mimeType: "text/vtt", extensions: [".vtt"] },
+  { format: "srt", label: "SRT", mimeType: "application/x-subrip", extensions: [".srt"] },
+  { format: "zoom", label: "Zoom transcript", mimeType: "text/plain", extensions: [] },
+  { format: "teams", label: "Microsoft Teams transcript", mimeType: "text/plain", extensions: [] },
+  { format: "meet", label: "Google Meet transcript", mimeType: "text/plain", extensions: [] },
+] as const;
+
+export type SupportedTranscriptFormat = (typeof SUPPORTED_TRANSCRIPT_FORMATS)[number];
+
+export type TranscriptFormat = SupportedTranscriptFormat["format"];
+
+export const TRANSCRIPT_FORMATS: readonly TranscriptFormat[] = SUPPORTED_TRANSCRIPT_FORMATS.map(
+  ({ format }) => format,
+);
+
+/** Value for the transcript file input's `accept` attribute. */
+export const SUPPORTED_TRANSCRIPT_ACCEPT = [
+  ...new Set(
+    SUPPORTED_TRANSCRIPT_FORMATS.flatMap(({ mimeType, extensions }) => [mimeType, ...extensions]),
+  ),
+].join(",");
+
+export const findTranscriptFormat = (format: string): SupportedTranscriptFormat | undefined =>
+  SUPPORTED_TRANSCRIPT_FORMATS.find((entry) => entry.format === format.trim().toLowerCase());
+
+/** Looks up the format a transcript file is in from its extension. */
+export const findTranscriptFormatByFilename = (
+  filename: string,
+): SupportedTranscriptFormat | undefined => {
+  const lowerCased = filename.toLowerCase();
+  return SUPPORTED_TRANSCRIPT_FORMATS.find(({ extensions }) =>
+    (extensions as readonly string[]).some((extension) => lowerCased.endsWith(extension)),
+  );
+};
+
+/**
+ * Every size and length limit enforced by the generator. Character limits apply to trimmed
+ * text; byte limits apply to request bodies and uploaded audio.
+ */
+export interface NewsletterLimits {
+  maxRecapLength: number;
+  maxTranscriptLength: number;
+  /** Recap and transcript text synthesized in one call; longer input is split into chunks. */
+  maxCombinedTextLength: number;
+  maxFreeformTopicLength: number;
+  maxFreeformInstructionsLength: number;
+  /** Recap author and transcript source. */
+  maxAttributionLength: number;
+  maxRegenerationInstructionsLength: number;
+  /** Highlights requested from the audio summarizer when the caller does not ask for a count. */
+  defaultHighlightCount: number;
+  maxHighlightCount: number;
+  summaryMaxLength: number;
+  maxAudioDurationSeconds: number;
+  maxUploadSizeBytes: number;
+  /** JSON generation requests, which may carry base64 encoded audio. */
+  maxJsonBodyBytes: number;
+  /** Draft edits, revision restores and section regeneration requests. */
+  maxDraftBodyBytes: number;
+}
+
+export const DEFAULT_NEWSLETTER_LIMITS: Readonly<NewsletterLimits> = {
+  maxRecapLength: 4000,
+  maxTranscriptLength: 200_000,
+  maxCombinedTextLength: 20_000,
+  maxFreeformTopicLength: 200,
+  maxFreeformInstructionsLength: 500,
+  maxAttributionLength: 200,
+  maxRegenerationInstructionsLength: 500,
+  defaultHighlightCount: 5,
+  maxHighlightCount: 10,
+  summaryMaxLength: 1000,
+  maxAudioDurationSeconds: MAX_AUDIO_DURATION_SECONDS,
+  maxUploadSizeBytes: 200 * 1024 * 1024,
+  maxJsonBodyBytes: 50 * 1024 * 1024,
+  maxDraftBodyBytes: 1024 * 1024,
+};
+
+/** Limits the page needs to mirror server validation in its inputs and hints. */
+export type NewsletterClientLimits = Pick<
+  NewsletterLimits,
+  | "maxRecapLength"
+  | "maxTranscriptLength"
+  | "maxFreeformTopicLength"
+  | "maxFreeformInstructionsLength"
+  | "maxAttributionLength"
+  | "maxRegenerationInstructionsLength"
+  | "maxAudioDurationSeconds"
+  | "maxUploadSizeBytes"
+>;
+
+export interface NewsletterClientConfig {
+  limits: NewsletterClientLimits;
+  supportedAudioMimeTypes: AudioMimeType[];
+}
 
 export interface AudioHighlight {
   id: string;
@@ -31,17 +219,21 @@ export interface AudioHighlightsSummary {
   source: Pick<MeetingAudioUpload, "filename" | "mimeType" | "sizeBytes">;
   /** Any non-fatal issues encountered while summarizing. */
   warnings?: string[];
+  /** True when more highlights were returned than the configured maximum and some were dropped. */
+  truncatedHighlights?: boolean;
 }
 
 export interface MeetingAudioUpload {
   filename: string;
   mimeType: AudioMimeType;
-  /** Duration in seconds as provided by the client-side metadata. */
+  /** Duration in seconds, read from the file's own metadata when possible, else client-supplied. */
   durationSeconds: number;
   /** Raw byte size of the upload (used for guard rails and logging). */
   sizeBytes: number;
   /** Optional URL when the file is already persisted (e.g., cloud storage). */
   url?: string;
+  /** Format recognized from the uploaded bytes; absent for audio supplied by URL. */
+  detectedFormat?: AudioFormat;
 }
 
 export interface MeetingRecapInput {
@@ -50,10 +242,24 @@ export interface MeetingRecapInput {
   submittedAt?: string; // ISO string
 }
 
+/** One stretch of a transcript, such as a caption cue or a speaker's turn. */
+export interface TranscriptSegment {
+  /** Offset into the meeting, or the time of day for exports that print wall-clock times. */
+  startTimeSeconds?: number;
+  endTimeSeconds?: number;
+  speaker?: string;
+  text: string;
+}
+
 export interface MeetingTranscriptInput {
+  /** Spoken text only; cue numbers, timestamps and markup are removed from caption files. */
   text: string;
   source?: string;
   submittedAt?: string; // ISO string
+  /** Format the transcript was submitted in, as named by the client or detected from its layout. */
+  format?: TranscriptFormat;
+  /** Speaker-attributed segments, present for caption files and meeting platform exports. */
+  segments?: TranscriptSegment[];
 }
 
 export interface FreeformTopicPrompt {
@@ -89,6 +295,8 @@ export interface SynthesizedDecision {
   id: string;
   summary: string;
   source: SynthesizedContentSource;
+  /** Who stated the decision, when the transcript names its speakers. */
+  speaker?: string;
   rationale?: string;
   confidence?: number;
   supportingEvidence?: string;
@@ -99,14 +307,33 @@ export interface SynthesizedInsight {
   summary: string;
   source: SynthesizedContentSource;
   quote?: string;
+  /** Who said the insight or its quote, when the transcript names its speakers. */
+  speaker?: string;
   category?: string;
 }
 
+/** How much one speaker contributed to a transcript with speaker segments. */
+export interface SpeakerParticipation {
+  speaker: string;
+  /** Uninterrupted stretches of speech, counting consecutive segments as one turn. */
+  turnCount: number;
+  wordCount: number;
+  /** Share of all attributed words, between 0 and 1. */
+  shareOfWords: number;
+  /** Summed segment durations; absent when the transcript has no segment end times. */
+  speakingTimeSeconds?: number;
+}
+
 export interface TranscriptSynthesisMetadata {
   usedRecap: boolean;
   usedTranscript: boolean;
   combinedCharacterCount: number;
-  truncatedInput?: boolean;
+  /** Layout the transcript was read as, e.g. `zoom` when it was a Zoom export. */
+  transcriptFormat?: TranscriptFormat;
+  /** Participation per speaker, most words first; absent when no segment names a speaker. */
+  speakers?: SpeakerParticipation[];
+  /** Chunks the input was synthesized in when it was too long for one call. */
+  chunkCount?: number;
   warnings?: string[];
 }
 
@@ -139,6 +366,9 @@ export interface StructuredNewsletter {
   freeformTopic: FreeformTopicSuggestion;
 }
 
+/** Section id used when the freeform topic is addressed alongside the regular sections. */
+export const FREEFORM_TOPIC_SECTION_ID = "freeform-topic";
+
 export interface NewsletterGenerationRequest {
   audio?: MeetingAudioUpload;
   meetingRecap: MeetingRecapInput;
@@ -153,19 +383,63 @@ export interface NewsletterGenerationResponse {
     processingTimeMs?: number;
     tokensConsumed?: number;
     audioSummaryIncluded: boolean;
+    /** Id of the request that produced the newsletter, matching its log entries. */
+    correlationId?: string;
   };
   warnings?: string[];
 }
 
+/** Failure codes raised by the audio summarizer and transcript synthesizer services. */
+export const NEWSLETTER_SERVICE_ERROR_CODES = [
+  "NO_CONTENT_PROVIDED",
+  "SUMMARY_FAILED",
+  "DECISION_EXTRACTION_FAILED",
+  "ACTION_ITEM_EXTRACTION_FAILED",
+  "INSIGHT_EXTRACTION_FAILED",
+  "AUDIO_NOT_PROVIDED",
+  "AUDIO_LIMIT_EXCEEDED",
+  "INVALID_AUDIO_METADATA",
+  "AUDIO_SOURCE_NOT_ALLOWED",
+  "AUDIO_FETCH_FAILED",
+  "TRANSCRIPTION_FAILED",
+  "EMPTY_TRANSCRIPT",
+  "HIGHLIGHT_GENERATION_FAILED",
+] as const;
+
+export type NewsletterServiceErrorCode = (typeof NEWSLETTER_SERVICE_ERROR_CODES)[number];
+
+/** Every code an error response may carry; published in the OpenAPI document. */
+export const VALIDATION_ERROR_CODES = [
+  "REQUIRED",
+  "INVALID_FORMAT",
+  "UNSUPPORTED_TYPE",
+  "LIMIT_EXCEEDED",
+  "INVALID_LENGTH",
+  "IDEMPOTENCY_CONFLICT",
+  "NOT_FOUND",
+  "GENERATION_FAILED",
+  "INTERNAL_ERROR",
+  ...NEWSLETTER_SERVICE_ERROR_CODES,
+] as const;
+
+export type ValidationErrorCode = (typeof VALIDATION_ERROR_CODES)[number];
+
+/** Codes for transient failures where resubmitting the same request may succeed. */
+export const RETRYABLE_ERROR_CODES: readonly ValidationErrorCode[] = [
+  "GENERATION_FAILED",
+  "SUMMARY_FAILED",
+  "DECISION_EXTRACTION_FAILED",
+  "ACTION_ITEM_EXTRACTION_FAILED",
+  "INSIGHT_EXTRACTION_FAILED",
+  "AUDIO_FETCH_FAILED",
+  "TRANSCRIPTION_FAILED",
+  "HIGHLIGHT_GENERATION_FAILED",
+];
+
 export interface ValidationErrorDetail {
   field: string;
   message: string;
-  code?:
-    | "REQUIRED"
-    | "INVALID_FORMAT"
-    | "UNSUPPORTED_TYPE"
-    | "LIMIT_EXCEEDED"
-    | "INVALID_LENGTH";
+  code?: ValidationErrorCode;
 }
 
 export interface NewsletterValidationResult {
@@ -176,3 +450,122 @@ export interface NewsletterValidationResult {
 export interface NewsletterUploadPayload
   extends Pick<NewsletterGenerationRequest, "audio" | "meetingRecap" | "transcript" | "freeformTopicPrompt"> {}
 
+
+export const NEWSLETTER_PIPELINE_STAGES = [
+  "validation",
+  "audio_transcription",
+  "highlight_generation",
+  "summary",
+  "decisions",
+  "action_items",
+  "insights",
+  "freeform",
+  "assembly",
+] as const;
+
+export type NewsletterPipelineStage = (typeof NEWSLETTER_PIPELINE_STAGES)[number];
+
+export type NewsletterStageStatus = "started" | "completed" | "skipped" | "failed";
+
+/** Intermediate output a stage can share before the full newsletter is assembled. */
+export interface NewsletterStagePartialResult {
+  transcriptCharacterCount?: number;
+  highlights?: AudioHighlight[];
+  summary?: string;
+  decisions?: SynthesizedDecision[];
+  actionItems?: ActionItem[];
+  insights?: SynthesizedInsight[];
+  freeformTopic?: FreeformTopicSuggestion;
+}
+
+export interface NewsletterProgressEvent {
+  stage: NewsletterPipelineStage;
+  status: NewsletterStageStatus;
+  timestamp: string; // ISO string
+  /** Wall-clock duration of the stage, present on completed and failed events. */
+  durationMs?: number;
+  partialResult?: NewsletterStagePartialResult;
+  message?: string;
+  /** Machine-readable code of the error behind a failed stage, when it carries one. */
+  errorCode?: string;
+}
+
+export type NewsletterJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface NewsletterGenerationJob {
+  id: string;
+  status: NewsletterJobStatus;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+  /** Validated inputs the job was created from. */
+  payload: NewsletterUploadPayload;
+  /** Stage events recorded while the job runs, oldest first. */
+  progress: NewsletterProgressEvent[];
+  /** Present once the job has succeeded. */
+  result?: NewsletterGenerationResponse;
+  /** Id of the saved draft created from the result, when persistence succeeded. */
+  draftId?: string;
+  /** Present once the job has failed. */
+  errors?: ValidationErrorDetail[];
+}
+
+export interface NewsletterDraft {
+  id: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+  /** Validated inputs the draft was generated from. */
+  payload: NewsletterUploadPayload;
+  /** The assembled response exactly as generated. */
+  newsletter: NewsletterGenerationResponse;
+  /** Current sections, including any edits made after generation. */
+  sections: StructuredNewsletter;
+  /** Revision holding the current sections. */
+  currentRevisionId: string;
+}
+
+export type NewsletterDraftRevisionReason = "generated" | "edited" | "restored";
+
+export interface NewsletterDraftRevision {
+  id: string;
+  /** 1-based position in the draft's history. */
+  number: number;
+  createdAt: string; // ISO string
+  reason: NewsletterDraftRevisionReason;
+  author?: string;
+  /** Revision whose sections were copied when `reason` is "restored". */
+  restoredFromRevisionId?: string;
+  sections: StructuredNewsletter;
+}
+
+export type NewsletterDraftRevisionSummary = Omit<NewsletterDraftRevision, "sections">;
+
+export type NewsletterSectionChangeType = "added" | "removed" | "modified";
+
+export interface NewsletterFieldChange {
+  /** Field path within the section, e.g. "body" or "items.action-1.owner". */
+  field: string;
+  before?: string | string[];
+  after?: string | string[];
+}
+
+export interface NewsletterSectionDiff {
+  sectionId: string;
+  /** Section title in the newer revision, falling back to the older one. */
+  title: string;
+  change: NewsletterSectionChangeType;
+  fields: NewsletterFieldChange[];
+}
+
+export interface NewsletterRevisionDiff {
+  fromRevisionId: string;
+  toRevisionId: string;
+  /** Only sections that differ between the two revisions. */
+  sections: NewsletterSectionDiff[];
+}
+
+export interface NewsletterDraftSummary {
+  id: string;
+  title: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  NewsletterDraft,
+  NewsletterDraftRevisionReason,
+  NewsletterDraftRevisionSummary,
+  NewsletterFieldChange,
+  NewsletterRevisionDiff,
+} from "../../types/newsletter";
+import { createNewsletterClient } from "../../client/newsletterClient";
+
+interface DraftHistoryPanelProps {
+  draftId: string;
+  /** Revision currently shown in the editor; changes trigger a history refresh. */
+  currentRevisionId?: string | null;
+  /** Invoked with the updated draft after a revision has been restored. */
+  onRestored: (draft: NewsletterDraft) => void;
+}
+
+const newsletterClient = createNewsletterClient();
+
+const REASON_LABELS: Record<NewsletterDraftRevisionReason, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  restored: "Restored",
+};
+
+const formatFieldValue = (value: NewsletterFieldChange["before"]): string => {
+  if (value === undefined) {
+    return "—";
+  }
+
+  return Array.isArray(value) ? value.join("; ") : value;
+};
+
+const describeRevision = (revision: NewsletterDraftRevisionSummary): string => {
+  const segments = [`#${revision.number}`, REASON_LABELS[revision.reason]];
+
+  if (revision.author) {
+    segments.push(`by ${revision.author}`);
+  }
+
+  segments.push(new Date(revision.createdAt).toLocaleString());
+  return segments.join(" · ");
+};
+
+/**
+ * DraftHistoryPanel lists the saved revisions of a draft, compares any two of them
+ * section by section, and restores an earlier revision on request.
+ */
+export const DraftHistoryPanel: React.FC<DraftHistoryPanelProps> = ({
+  draftId,
+  currentRevisionId,
+  onRestored,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<NewsletterDraftRevisionSummary[]>([]);
+  const [fromRevisionId, setFromRevisionId] = useState("");
+  const [toRevisionId, setToRevisionId] = useState("");
+  const [diff, setDiff] = useState<NewsletterRevisionDiff | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setErrorMessage(null);
+
+    try {
+      const loaded = await newsletterClient.listRevisions(draftId);
+      setRevisions(loaded);
+      setToRevisionId(loaded[loaded.length - 1]?.id ?? "");
+      setFromRevisionId(loaded[loaded.length - 2]?.id ?? loaded[0]?.id ?? "");
+      setDiff(null);
+    } catch (error) {
+      console.error("Failed to load draft revisions", error);
+      setErrorMessage("We couldn’t load the revision history.");
+    }
+  }, [draftId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      void loadRevisions();
+    }
+  }, [isOpen, loadRevisions, currentRevisionId]);
+
+  const handleCompare = async () => {
+    if (!fromRevisionId || !toRevisionId) {
+      return;
+    }
+
+    setIsBusy(true);
+    setErrorMessage(null);
+
+    try {
+      setDiff(await newsletterClient.diffRevisions(draftId, fromRevisionId, toRevisionId));
+    } catch (error) {
+      console.error("Failed to compare draft revisions", error);
+      setErrorMessage("We couldn’t compare those revisions.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async (revisionId: string) => {
+    setIsBusy(true);
+    setErrorMessage(null);
+
+    try {
+      onRestored(await newsletterClient.restoreRevision(draftId, revisionId));
+    } catch (error) {
+      console.error("Failed to restore draft revision", error);
+      setErrorMessage("We couldn’t restore that revision.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <section className="draft-history-panel">
+      <header className="draft-history-panel__header">
+        <h3>Revision history</h3>
+        <button type="button" onClick={() => setIsOpen((previous) => !previous)}>
+          {isOpen ? "Hide history" : "Show history"}
+        </button>
+      </header>
+
+      {isOpen ? (
+        <>
+          {errorMessage ? (
+            <p className="form-error" role="alert">{errorMessage}</p>
+          ) : null}
+
+          <ol className="draft-history-panel__revisions">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <span>{describeRevision(revision)}</span>
+                {revision.id === currentRevisionId ? (
+                  <span className="form-hint"> (current)</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => void handleRestore(revision.id)}
+                    disabled={isBusy}
+                  >
+                    Restore #{revision.number}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {revisions.length > 1 ? (
+            <div className="draft-history-panel__compare">
+              <label htmlFor={`${draftId}-diff-from`}>Compare from</label>
+              <select
+                id={`${draftId}-diff-from`}
+                value={fromRevisionId}
+                onChange={(event) => setFromRevisionId(event.currentTarget.value)}
+              >
+                {revisions.map((revision) => (
+                  <option key={revision.id} value={revision.id}>
+                    #{revision.number}
+                  </option>
+                ))}
+              </select>
+              <label htmlFor={`${draftId}-diff-to`}>to</label>
+              <select
+                id={`${draftId}-diff-to`}
+                value={toRevisionId}
+                onChange={(event) => setToRevisionId(event.currentTarget.value)}
+              >
+                {revisions.map((revision) => (
+                  <option key={revision.id} value={revision.id}>
+                    #{revision.number}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={handleCompare} disabled={isBusy}>
+                Show changes
+              </button>
+            </div>
+          ) : null}
+
+          {diff ? (
+            diff.sections.length === 0 ? (
+              <p className="form-hint">No differences between these revisions.</p>
+            ) : (
+              <ul className="draft-history-panel__diff">
+                {diff.sections.map((section) => (
+                  <li key={section.sectionId}>
+                    <strong>{section.title}</strong> ({section.change})
+                    <ul>
+                      {section.fields.map((field) => (
+                        <li key={field.field}>
+                          <code>{field.field}</code>: {formatFieldValue(field.before)} →{" "}
+                          {formatFieldValue(field.after)}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : null}
+        </>
+      ) : null}
+    </section>
+  );
+};
+
+export default DraftHistoryPanel;
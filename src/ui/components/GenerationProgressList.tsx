@@ -0,0 +1,80 @@
+import React, { useMemo } from "react";
+import {
+  NEWSLETTER_PIPELINE_STAGES,
+  NewsletterPipelineStage,
+  NewsletterProgressEvent,
+  NewsletterStageStatus,
+} from "../../types/newsletter";
+
+const STAGE_LABELS: Record<NewsletterPipelineStage, string> = {
+  validation: "Validating inputs",
+  audio_transcription: "Transcribing audio",
+  highlight_generation: "Generating audio highlights",
+  summary: "Summarizing recap and transcript",
+  decisions: "Extracting key decisions",
+  action_items: "Extracting action items",
+  insights: "Extracting insights",
+  freeform: "Drafting freeform topic",
+  assembly: "Assembling newsletter",
+};
+
+const STATUS_LABELS: Record<NewsletterStageStatus | "pending", string> = {
+  pending: "Pending",
+  started: "In progress",
+  completed: "Done",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+interface GenerationProgressListProps {
+  events: NewsletterProgressEvent[];
+}
+
+const formatDuration = (durationMs: number): string =>
+  durationMs < 1000 ? `${Math.round(durationMs)} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+
+/**
+ * GenerationProgressList renders one row per pipeline stage, reflecting the latest
+ * server-sent progress event for each stage along with its timing.
+ */
+export const GenerationProgressList: React.FC<GenerationProgressListProps> = ({ events }) => {
+  const latestByStage = useMemo(
+    () =>
+      events.reduce<Partial<Record<NewsletterPipelineStage, NewsletterProgressEvent>>>(
+        (accumulator, event) => {
+          accumulator[event.stage] = event;
+          return accumulator;
+        },
+        {}
+      ),
+    [events]
+  );
+
+  return (
+    <ol className="generation-progress" aria-label="Generation progress">
+      {NEWSLETTER_PIPELINE_STAGES.map((stage) => {
+        const event = latestByStage[stage];
+        const status = event?.status ?? "pending";
+
+        return (
+          <li
+            key={stage}
+            className={`generation-progress__stage generation-progress__stage--${status}`}
+          >
+            <span className="generation-progress__label">{STAGE_LABELS[stage]}</span>
+            {" — "}
+            <span className="generation-progress__status">{STATUS_LABELS[status]}</span>
+            {typeof event?.durationMs === "number" ? (
+              <span className="generation-progress__timing"> ({formatDuration(event.durationMs)})</span>
+            ) : null}
+            {event?.message && status !== "completed" ? (
+              <p className="form-hint">{event.message}</p>
+            ) : null}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default GenerationProgressList;
@@ -24,6 +24,13 @@ interface NewsletterSectionEditorProps {
    * newsletter state.
    */
   onChange?: (updated: EditableSection) => void;
+  /**
+   * Asks the server to rerun the stage behind this section. Rejects when the
+   * regeneration fails; the replacement arrives through the `section` prop.
+   */
+  onRegenerate?: (section: EditableSection, instructions?: string) => Promise<void>;
+  /** Caps the regeneration instructions input; mirrors the server's configured limit. */
+  maxInstructionsLength?: number;
 }
 
 interface CopyFeedback {
@@ -50,6 +57,8 @@ export const NewsletterSectionEditor: React.FC<NewsletterSectionEditorProps> = (
   section,
   supportingText,
   onChange,
+  onRegenerate,
+  maxInstructionsLength,
 }) => {
   const [draftTitle, setDraftTitle] = useState(section.title);
   const [draftBody, setDraftBody] = useState(section.body);
@@ -59,6 +68,9 @@ export const NewsletterSectionEditor: React.FC<NewsletterSectionEditorProps> = (
       : []
   );
   const [copyFeedback, setCopyFeedback] = useState<CopyFeedback>({ status: "idle" });
+  const [regenerationInstructions, setRegenerationInstructions] = useState("");
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [regenerationError, setRegenerationError] = useState<string | null>(null);
 
   useEffect(() => {
     setDraftTitle(section.title);
@@ -149,6 +161,25 @@ export const NewsletterSectionEditor: React.FC<NewsletterSectionEditorProps> = (
     }
   };
 
+  const handleRegenerate = async () => {
+    if (!onRegenerate) {
+      return;
+    }
+
+    setIsRegenerating(true);
+    setRegenerationError(null);
+
+    try {
+      await onRegenerate(section, regenerationInstructions.trim() || undefined);
+      setRegenerationInstructions("");
+    } catch (error) {
+      console.error("Failed to regenerate newsletter section", error);
+      setRegenerationError("We couldn’t regenerate this section. Please try again.");
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
   const handleCopy = async () => {
     const payload = buildCopyPayload(section, draftTitle, draftBody, draftItems);
 
@@ -237,6 +268,28 @@ export const NewsletterSectionEditor: React.FC<NewsletterSectionEditorProps> = (
         </div>
       ) : null}
 
+      {onRegenerate ? (
+        <div className="newsletter-section-editor__regenerate">
+          <label htmlFor={`${section.id}-regenerate-instructions`}>Regeneration instructions</label>
+          <input
+            id={`${section.id}-regenerate-instructions`}
+            type="text"
+            maxLength={maxInstructionsLength}
+            value={regenerationInstructions}
+            placeholder="Optional, e.g. focus on customer impact"
+            onChange={(event) => setRegenerationInstructions(event.currentTarget.value)}
+          />
+          <button type="button" onClick={handleRegenerate} disabled={isRegenerating}>
+            {isRegenerating ? "Regenerating…" : "Regenerate"}
+          </button>
+          {regenerationError ? (
+            <p className="form-error" role="alert">
+              {regenerationError}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
       <footer className="newsletter-section-editor__footer">
         <button type="button" onClick={handleSave} disabled={!hasUnsavedChanges}>
           Save edits
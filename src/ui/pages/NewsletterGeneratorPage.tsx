@@ -1,15 +1,37 @@
 import React, { ChangeEvent, FormEvent, useEffect, useMemo, useState } from "react";
+import { flushSync } from "react-dom";
 import {
   ActionItem,
   ActionItemsSection,
-  MAX_AUDIO_DURATION_SECONDS,
+  DEFAULT_NEWSLETTER_LIMITS,
+  findTranscriptFormat,
+  findTranscriptFormatByFilename,
+  FREEFORM_TOPIC_SECTION_ID,
+  NewsletterClientConfig,
+  NewsletterClientLimits,
+  NewsletterDraft,
+  NewsletterDraftSummary,
   NewsletterGenerationResponse,
+  NewsletterProgressEvent,
   NewsletterSection,
   StructuredNewsletter,
-  SUPPORTED_AUDIO_MIME_TYPES,
+  SUPPORTED_AUDIO_ACCEPT,
+  SUPPORTED_AUDIO_FORMAT_LABELS,
+  SUPPORTED_AUDIO_FORMATS,
+  SUPPORTED_TRANSCRIPT_ACCEPT,
+  TranscriptFormat,
   NewsletterUploadPayload,
+  RETRYABLE_ERROR_CODES,
   ValidationErrorDetail,
 } from "../../types/newsletter";
+import {
+  createNewsletterClient,
+  NewsletterClientError,
+  NewsletterClientErrorCode,
+  type NewsletterGenerationInput,
+} from "../../client/newsletterClient";
+import { DraftHistoryPanel } from "../components/DraftHistoryPanel";
+import { GenerationProgressList } from "../components/GenerationProgressList";
 import { NewsletterSectionEditor } from "../components/NewsletterSectionEditor";
 
 type MinutesInput = string;
@@ -21,6 +43,9 @@ interface FormState {
   recapAuthor: string;
   transcript: string;
   transcriptSource: string;
+  /** Format of `transcript`, taken from the extension of an imported transcript file. */
+  transcriptFormat: TranscriptFormat;
+  transcriptFileName: string;
   freeformTopic: string;
   freeformInstructions: string;
 }
@@ -30,13 +55,12 @@ interface DraftSummary {
   transcriptLength: number;
 }
 
-const MAX_FREEFORM_TOPIC_LENGTH = 80;
-const MAX_FREEFORM_INSTRUCTIONS_LENGTH = 500;
 const FREEFORM_SECTION_ID = "freeform-topic-preview";
 
 const KNOWN_ERROR_FIELDS = new Set([
   "meetingRecap",
   "transcript",
+  "transcript.format",
   "freeformTopicPrompt.topic",
   "freeformTopic",
   "freeformTopicPrompt.instructions",
@@ -47,15 +71,68 @@ const KNOWN_ERROR_FIELDS = new Set([
 
 type SubmissionState = "idle" | "submitting" | "succeeded" | "failed";
 
-interface UploadSuccessResponse {
+interface DraftSaveFeedback {
+  status: "idle" | "saving" | "saved" | "error";
   message?: string;
-  payload: NewsletterUploadPayload;
-  newsletter: NewsletterGenerationResponse;
 }
 
-interface UploadErrorResponse {
-  errors?: ValidationErrorDetail[];
-}
+const DRAFT_QUERY_PARAM = "draft";
+
+const readDraftIdFromLocation = (): string | null => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  return new URLSearchParams(window.location.search).get(DRAFT_QUERY_PARAM);
+};
+
+/** Mirrors the active draft id into the address bar so a refresh reloads the same draft. */
+const writeDraftIdToLocation = (draftId: string | null) => {
+  if (typeof window === "undefined" || !window.history?.replaceState) {
+    return;
+  }
+
+  const url = new URL(window.location.href);
+  if (draftId) {
+    url.searchParams.set(DRAFT_QUERY_PARAM, draftId);
+  } else {
+    url.searchParams.delete(DRAFT_QUERY_PARAM);
+  }
+  window.history.replaceState(window.history.state, "", url.toString());
+};
+
+const newsletterClient = createNewsletterClient();
+
+const CLIENT_LIMIT_KEYS: (keyof NewsletterClientLimits)[] = [
+  "maxRecapLength",
+  "maxTranscriptLength",
+  "maxFreeformTopicLength",
+  "maxFreeformInstructionsLength",
+  "maxAttributionLength",
+  "maxRegenerationInstructionsLength",
+  "maxAudioDurationSeconds",
+  "maxUploadSizeBytes",
+];
+
+/**
+ * Reads the server's limits, keeping the defaults for any value that is missing or malformed
+ * so that the form stays usable when the config endpoint is unavailable.
+ */
+const readClientLimits = (config: Partial<NewsletterClientConfig> | null): NewsletterClientLimits => {
+  const limits = { ...DEFAULT_NEWSLETTER_LIMITS } as NewsletterClientLimits;
+  const received = (config?.limits ?? {}) as Partial<Record<keyof NewsletterClientLimits, unknown>>;
+
+  CLIENT_LIMIT_KEYS.forEach((key) => {
+    const value = received[key];
+    if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+      limits[key] = value;
+    }
+  });
+
+  return limits;
+};
+
+const supportsServerSentEvents = () => typeof window !== "undefined" && "EventSource" in window;
 
 interface NewsletterCopyFeedback {
   status: "idle" | "success" | "error";
@@ -69,6 +146,8 @@ const initialState: FormState = {
   recapAuthor: "",
   transcript: "",
   transcriptSource: "",
+  transcriptFormat: "plain",
+  transcriptFileName: "",
   freeformTopic: "",
   freeformInstructions: "",
 };
@@ -91,9 +170,16 @@ export const NewsletterGeneratorPage: React.FC = () => {
   const [newsletterWarnings, setNewsletterWarnings] = useState<string[]>([]);
   const [newsletterMetadata, setNewsletterMetadata] =
     useState<NewsletterGenerationResponse["metadata"] | null>(null);
+  const [progressEvents, setProgressEvents] = useState<NewsletterProgressEvent[] | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [currentRevisionId, setCurrentRevisionId] = useState<string | null>(null);
+  const [draftSaveFeedback, setDraftSaveFeedback] = useState<DraftSaveFeedback>({ status: "idle" });
+  const [savedDrafts, setSavedDrafts] = useState<NewsletterDraftSummary[] | null>(null);
+  const [savedDraftsError, setSavedDraftsError] = useState<string | null>(null);
+  const [limits, setLimits] = useState<NewsletterClientLimits>(() => readClientLimits(null));
 
   const allowedAudioTypesLabel = useMemo(
-    () => SUPPORTED_AUDIO_MIME_TYPES.map((type) => type.replace("audio/", "")).join(", "),
+    () => SUPPORTED_AUDIO_FORMATS.map(({ format }) => format).join(", "),
     []
   );
 
@@ -144,8 +230,85 @@ export const NewsletterGeneratorPage: React.FC = () => {
     setNewsletterCopyFeedback({ status: "idle" });
     setNewsletterWarnings([]);
     setNewsletterMetadata(null);
+    setProgressEvents(null);
+    setDraftId(null);
+    setCurrentRevisionId(null);
+    setDraftSaveFeedback({ status: "idle" });
+    writeDraftIdToLocation(null);
   };
 
+  const loadDraft = async (id: string) => {
+    try {
+      const draft = await newsletterClient.getDraft(id);
+      setFormState(buildSanitizedFormState(initialState, draft.payload));
+      setDraftSections(draft.sections);
+      setNewsletterWarnings(draft.newsletter.warnings ?? []);
+      setNewsletterMetadata(draft.newsletter.metadata);
+      setServerErrors([]);
+      setSubmissionState("succeeded");
+      setStatusMessage("Saved draft loaded. Edits are saved automatically.");
+      setDraftId(draft.id);
+      setCurrentRevisionId(draft.currentRevisionId ?? null);
+      setDraftSaveFeedback({ status: "idle" });
+      writeDraftIdToLocation(draft.id);
+    } catch (error) {
+      console.error("Failed to load newsletter draft", error);
+      setStatusMessage("We couldn’t load that saved draft.");
+      setSubmissionState("failed");
+    }
+  };
+
+  const handleShowSavedDrafts = async () => {
+    setSavedDraftsError(null);
+
+    try {
+      setSavedDrafts(await newsletterClient.listDrafts());
+    } catch (error) {
+      console.error("Failed to list newsletter drafts", error);
+      setSavedDraftsError("We couldn’t load saved drafts. Please try again.");
+    }
+  };
+
+  const handleDeleteDraft = async (id: string) => {
+    try {
+      // A draft that is already gone is treated as deleted.
+      await newsletterClient.deleteDraft(id);
+      setSavedDrafts((previous) => previous?.filter((draft) => draft.id !== id) ?? previous);
+      if (id === draftId) {
+        setDraftId(null);
+        writeDraftIdToLocation(null);
+      }
+    } catch (error) {
+      console.error("Failed to delete newsletter draft", error);
+      setSavedDraftsError("We couldn’t delete that draft. Please try again.");
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadConfig = async () => {
+      try {
+        setLimits(readClientLimits(await newsletterClient.getConfig({ signal: controller.signal })));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn("Falling back to default newsletter limits", error);
+        }
+      }
+    };
+
+    void loadConfig();
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const initialDraftId = readDraftIdFromLocation();
+    if (initialDraftId) {
+      void loadDraft(initialDraftId);
+    }
+    // Only restore from the address bar on first render.
+  }, []);
+
   const handleAudioChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.currentTarget.files?.[0] ?? null;
     setFormState((previous) => ({
@@ -154,6 +317,31 @@ export const NewsletterGeneratorPage: React.FC = () => {
     }));
   };
 
+  const handleTranscriptFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.currentTarget.files?.[0];
+    if (!file) {
+      setFormState((previous) => ({
+        ...previous,
+        transcriptFormat: "plain",
+        transcriptFileName: "",
+      }));
+      return;
+    }
+
+    try {
+      const text = await readFileText(file);
+      setFormState((previous) => ({
+        ...previous,
+        transcript: text,
+        transcriptFormat: findTranscriptFormatByFilename(file.name)?.format ?? "plain",
+        transcriptFileName: file.name,
+      }));
+    } catch (error) {
+      console.error("Failed to read transcript file", error);
+      setStatusMessage("We couldn’t read that transcript file.");
+    }
+  };
+
   const handleDurationChange = (event: ChangeEvent<HTMLInputElement>) => {
     const { value } = event.currentTarget;
     if (/^\d*(\.\d*)?$/.test(value) || value === "") {
@@ -183,74 +371,120 @@ export const NewsletterGeneratorPage: React.FC = () => {
     setStatusMessage(null);
     setServerErrors([]);
     setNewsletterCopyFeedback({ status: "idle" });
-
-    const formData = new FormData();
-    formData.append("meetingRecapText", formState.meetingRecap);
-    formData.append("transcriptText", formState.transcript);
-
-    const trimmedTopic = formState.freeformTopic.trim();
-    if (trimmedTopic) {
-      formData.append("freeformTopic", trimmedTopic);
-    }
-
-    const trimmedInstructions = formState.freeformInstructions.trim();
-    if (trimmedInstructions) {
-      formData.append("freeformInstructions", trimmedInstructions);
+    setProgressEvents(null);
+
+    const input: NewsletterGenerationInput = {
+      meetingRecapText: formState.meetingRecap,
+      transcriptText: formState.transcript,
+      transcriptFormat:
+        formState.transcriptFormat === "plain" ? undefined : formState.transcriptFormat,
+      freeformTopic: formState.freeformTopic.trim() || undefined,
+      freeformInstructions: formState.freeformInstructions.trim() || undefined,
+      audioDurationSeconds,
+      audio: formState.audioFile ?? undefined,
+    };
+
+    if (supportsServerSentEvents()) {
+      await submitWithProgress(input);
+      return;
     }
 
-    if (audioDurationSeconds !== undefined) {
-      formData.append("audioDurationSeconds", String(audioDurationSeconds));
+    try {
+      const { payload, newsletter, message, draftId: savedDraftId } =
+        await newsletterClient.generateNewsletter(input);
+      applyGeneratedDraft(payload, newsletter, message, savedDraftId);
+    } catch (error) {
+      handleSubmissionError(error);
     }
+  };
 
-    if (formState.audioFile) {
-      formData.append("audio", formState.audioFile);
-    }
+  const submitWithProgress = async (input: NewsletterGenerationInput) => {
+    setProgressEvents([]);
 
     try {
-      const response = await fetch("/newsletters", {
-        method: "POST",
-        body: formData,
+      const { jobId } = await newsletterClient.startGenerationJob(input);
+      const job = await newsletterClient.waitForJob(jobId, {
+        onProgress: (event) => setProgressEvents((previous) => [...(previous ?? []), event]),
       });
 
-      const data = await response.json().catch(() => null);
-
-      if (!response.ok || !data || typeof data !== "object") {
-        const errorData = (data as UploadErrorResponse | null) ?? undefined;
-        const errors = errorData?.errors?.length ? errorData.errors : undefined;
-        setServerErrors(
-          errors ?? [{ field: "form", message: "Unexpected error while processing the upload." }],
-        );
-        setStatusMessage("We couldn’t process the upload. Please review the highlighted fields.");
-        setSubmissionState("failed");
-        setNewsletterWarnings([]);
-        setNewsletterMetadata(null);
+      if (job.status !== "succeeded" || !job.result) {
+        handleRejectedUpload(job.errors);
         return;
       }
 
-      const successData = data as UploadSuccessResponse;
-      if (!successData.payload || !successData.newsletter) {
-        setStatusMessage("Received an unexpected response from the server. Please try again.");
-        setSubmissionState("failed");
-        setNewsletterWarnings([]);
-        setNewsletterMetadata(null);
-        return;
-      }
-      const sanitizedState = buildSanitizedFormState(formState, successData.payload);
-      setFormState(sanitizedState);
-      setDraftSections(successData.newsletter.sections);
-      setNewsletterWarnings(successData.newsletter.warnings ?? []);
-      setNewsletterMetadata(successData.newsletter.metadata);
-      setServerErrors([]);
-      setSubmissionState("succeeded");
-      setStatusMessage(successData.message ?? "Draft prepared. Review the generated sections below.");
+      applyGeneratedDraft(job.payload, job.result, undefined, job.draftId);
     } catch (error) {
-      console.error("Failed to submit newsletter upload", error);
-      setServerErrors([{ field: "form", message: "Network error while submitting. Please try again." }]);
-      setStatusMessage("Network error while submitting. Please try again.");
-      setSubmissionState("failed");
-      setNewsletterWarnings([]);
-      setNewsletterMetadata(null);
+      handleSubmissionError(error);
+    }
+  };
+
+  const applyGeneratedDraft = (
+    payload: NewsletterUploadPayload,
+    newsletter: NewsletterGenerationResponse,
+    message?: string,
+    savedDraftId?: string,
+  ) => {
+    const sanitizedState = buildSanitizedFormState(formState, payload);
+    setDraftId(savedDraftId ?? null);
+    setCurrentRevisionId(null);
+    setDraftSaveFeedback({ status: "idle" });
+    writeDraftIdToLocation(savedDraftId ?? null);
+    setFormState(sanitizedState);
+    setDraftSections(newsletter.sections);
+    setNewsletterWarnings(newsletter.warnings ?? []);
+    setNewsletterMetadata(newsletter.metadata);
+    setServerErrors([]);
+    setSubmissionState("succeeded");
+    setStatusMessage(message ?? "Draft prepared. Review the generated sections below.");
+  };
+
+  const handleSubmissionError = (error: unknown) => {
+    if (!(error instanceof NewsletterClientError)) {
+      handleNetworkError(error);
+      return;
     }
+
+    switch (error.code) {
+      case NewsletterClientErrorCode.REQUEST_FAILED:
+        handleRejectedUpload(error.errors);
+        return;
+      case NewsletterClientErrorCode.UNEXPECTED_RESPONSE:
+        handleUnexpectedResponse();
+        return;
+      default:
+        handleNetworkError(error);
+    }
+  };
+
+  const handleRejectedUpload = (rejectedErrors?: ValidationErrorDetail[]) => {
+    const errors = rejectedErrors?.length ? rejectedErrors : undefined;
+    setServerErrors(
+      errors ?? [{ field: "form", message: "Unexpected error while processing the upload." }],
+    );
+    setStatusMessage(
+      errors?.every((error) => error.code && RETRYABLE_ERROR_CODES.includes(error.code))
+        ? "Generation hit a temporary problem. Your inputs are kept, so please try again."
+        : "We couldn’t process the upload. Please review the highlighted fields.",
+    );
+    setSubmissionState("failed");
+    setNewsletterWarnings([]);
+    setNewsletterMetadata(null);
+  };
+
+  const handleUnexpectedResponse = () => {
+    setStatusMessage("Received an unexpected response from the server. Please try again.");
+    setSubmissionState("failed");
+    setNewsletterWarnings([]);
+    setNewsletterMetadata(null);
+  };
+
+  const handleNetworkError = (error: unknown) => {
+    console.error("Failed to submit newsletter upload", error);
+    setServerErrors([{ field: "form", message: "Network error while submitting. Please try again." }]);
+    setStatusMessage("Network error while submitting. Please try again.");
+    setSubmissionState("failed");
+    setNewsletterWarnings([]);
+    setNewsletterMetadata(null);
   };
 
   const audioDurationSeconds = useMemo(() => {
@@ -268,12 +502,12 @@ export const NewsletterGeneratorPage: React.FC = () => {
     if (audioDurationSeconds === undefined) {
       return undefined;
     }
-    if (audioDurationSeconds > MAX_AUDIO_DURATION_SECONDS) {
-      const maxMinutes = Math.floor(MAX_AUDIO_DURATION_SECONDS / 60);
+    if (audioDurationSeconds > limits.maxAudioDurationSeconds) {
+      const maxMinutes = Math.floor(limits.maxAudioDurationSeconds / 60);
       return `Audio duration exceeds ${maxMinutes} minutes. Please upload a shorter clip.`;
     }
     return undefined;
-  }, [audioDurationSeconds]);
+  }, [audioDurationSeconds, limits.maxAudioDurationSeconds]);
 
   const freeformSection = useMemo(() => {
     if (!draftSections) {
@@ -305,58 +539,75 @@ export const NewsletterGeneratorPage: React.FC = () => {
     return () => window.clearTimeout(timeout);
   }, [newsletterCopyFeedback.status]);
 
-  const handleSectionUpdate = (updatedSection: NewsletterSection | ActionItemsSection) => {
-    setDraftSections((previous) => {
-      if (!previous) {
-        return previous;
-      }
+  const persistDraftSections = async (id: string, sections: StructuredNewsletter) => {
+    setDraftSaveFeedback({ status: "saving", message: "Saving draft…" });
 
-      if ("items" in updatedSection && updatedSection.id === previous.actionItems.id) {
-        return {
-          ...previous,
-          actionItems: updatedSection,
-        };
+    try {
+      const draft = await newsletterClient.updateDraft(id, sections);
+      if (draft.currentRevisionId) {
+        setCurrentRevisionId(draft.currentRevisionId);
       }
+      setDraftSaveFeedback({ status: "saved", message: "Draft saved." });
+    } catch (error) {
+      console.error("Failed to save newsletter draft", error);
+      setDraftSaveFeedback({
+        status: "error",
+        message: "Couldn’t save the draft. Your edits are kept in this tab only.",
+      });
+    }
+  };
 
-      if (updatedSection.id === previous.introduction.id) {
-        return {
-          ...previous,
-          introduction: updatedSection,
-        };
-      }
+  const handleRevisionRestored = (draft: NewsletterDraft) => {
+    setDraftSections(draft.sections);
+    setCurrentRevisionId(draft.currentRevisionId);
+    setDraftSaveFeedback({ status: "saved", message: "Earlier revision restored." });
+  };
 
-      const mainUpdateIndex = previous.mainUpdates.findIndex((section) => section.id === updatedSection.id);
-      if (mainUpdateIndex !== -1) {
-        const nextMainUpdates = [...previous.mainUpdates];
-        nextMainUpdates[mainUpdateIndex] = updatedSection;
-        return {
-          ...previous,
-          mainUpdates: nextMainUpdates,
-        };
-      }
+  const handleSectionUpdate = (updatedSection: NewsletterSection | ActionItemsSection) => {
+    if (!draftSections) {
+      return;
+    }
 
-      if (updatedSection.id === previous.closing.id) {
-        return {
-          ...previous,
-          closing: updatedSection,
-        };
-      }
+    const nextSections = applySectionUpdate(draftSections, updatedSection);
+    setDraftSections(nextSections);
 
-      if (updatedSection.id === FREEFORM_SECTION_ID) {
-        return {
-          ...previous,
-          freeformTopic: {
-            ...previous.freeformTopic,
-            title: updatedSection.title,
-            body: updatedSection.body,
-          },
-        };
-      }
+    if (draftId) {
+      void persistDraftSections(draftId, nextSections);
+    }
+  };
+
+  const handleSectionRegenerate = async (
+    section: NewsletterSection | ActionItemsSection,
+    instructions?: string,
+  ) => {
+    if (!draftId || !draftSections) {
+      return;
+    }
 
-      return previous;
+    const sectionId = section.id === FREEFORM_SECTION_ID ? FREEFORM_TOPIC_SECTION_ID : section.id;
+    const data = await newsletterClient.regenerateSection(draftId, sectionId, instructions);
+
+    // Apply the result to the sections as they are now, so edits made while it ran are kept.
+    let nextSections: StructuredNewsletter | null = null;
+    flushSync(() => {
+      setDraftSections((current) => {
+        nextSections =
+          current &&
+          (data.freeformTopic
+            ? { ...current, freeformTopic: data.freeformTopic }
+            : applySectionUpdate(current, data.section));
+        return nextSections;
+      });
     });
+
+    if (nextSections) {
+      void persistDraftSections(draftId, nextSections);
+    }
   };
 
+  // Regeneration works against the stored draft inputs, so it needs a saved draft.
+  const regenerateSection = draftId ? handleSectionRegenerate : undefined;
+
   const handleCopyNewsletter = async () => {
     if (!draftSections) {
       setNewsletterCopyFeedback({
@@ -413,7 +664,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
             <input
               id="audio-upload"
               type="file"
-              accept={SUPPORTED_AUDIO_MIME_TYPES.join(",")}
+              accept={SUPPORTED_AUDIO_ACCEPT}
               onChange={handleAudioChange}
             />
             {formState.audioFile ? (
@@ -421,7 +672,10 @@ export const NewsletterGeneratorPage: React.FC = () => {
                 Selected file: <strong>{formState.audioFile.name}</strong> ({Math.round(formState.audioFile.size / 1024)} KB)
               </div>
             ) : (
-              <p className="form-hint">Optional. MP3 or WAV up to one hour.</p>
+              <p className="form-hint">
+                Optional. {SUPPORTED_AUDIO_FORMAT_LABELS} up to {formatDurationMinutes(limits.maxAudioDurationSeconds)} minutes and{" "}
+                {formatMegabytes(limits.maxUploadSizeBytes)}.
+              </p>
             )}
             {renderFieldErrors("audio")}
           </div>
@@ -436,7 +690,9 @@ export const NewsletterGeneratorPage: React.FC = () => {
               value={formState.audioDurationMinutes}
               onChange={handleDurationChange}
             />
-            <p className="form-hint">Used to ensure uploads stay within the 60 minute limit.</p>
+            <p className="form-hint">
+              Used to ensure uploads stay within the {Math.floor(limits.maxAudioDurationSeconds / 60)} minute limit.
+            </p>
             {audioDurationWarning ? <p className="form-error">{audioDurationWarning}</p> : null}
             {renderFieldErrors("audio.durationSeconds")}
           </div>
@@ -451,6 +707,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
               required
               minLength={20}
               rows={8}
+              maxLength={limits.maxRecapLength}
               placeholder="Key points from the meeting recap..."
               value={formState.meetingRecap}
               onChange={handleTextChange("meetingRecap")}
@@ -463,6 +720,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
             <input
               id="recap-author"
               type="text"
+              maxLength={limits.maxAttributionLength}
               value={formState.recapAuthor}
               onChange={handleTextChange("recapAuthor")}
               placeholder="Name or team"
@@ -472,6 +730,30 @@ export const NewsletterGeneratorPage: React.FC = () => {
 
         <fieldset disabled={submissionState === "submitting"}>
           <legend>Full transcript</legend>
+          <div className="form-control">
+            <label htmlFor="transcript-file">Transcript file (optional)</label>
+            <input
+              id="transcript-file"
+              type="file"
+              accept={SUPPORTED_TRANSCRIPT_ACCEPT}
+              onChange={handleTranscriptFileChange}
+            />
+            {formState.transcriptFileName ? (
+              <p className="form-hint" role="status">
+                Imported <strong>{formState.transcriptFileName}</strong> as{" "}
+                {findTranscriptFormat(formState.transcriptFormat)?.label}.
+                {formState.transcriptFormat !== "plain"
+                  ? " Cue numbers and timestamps are removed before generation."
+                  : " Zoom, Teams and Google Meet exports are recognized when it is generated."}
+              </p>
+            ) : (
+              <p className="form-hint">
+                Load a WebVTT (.vtt) or SRT (.srt) caption file, or a text export from Zoom, Teams
+                or Google Meet.
+              </p>
+            )}
+            {renderFieldErrors("transcript.format")}
+          </div>
           <div className="form-control">
             <label htmlFor="transcript-text">Transcript text</label>
             <textarea
@@ -479,6 +761,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
               required
               minLength={50}
               rows={10}
+              maxLength={limits.maxTranscriptLength}
               placeholder="Paste the full meeting transcript here..."
               value={formState.transcript}
               onChange={handleTextChange("transcript")}
@@ -491,6 +774,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
             <input
               id="transcript-source"
               type="text"
+              maxLength={limits.maxAttributionLength}
               value={formState.transcriptSource}
               onChange={handleTextChange("transcriptSource")}
               placeholder="e.g. Otter.ai, Zoom"
@@ -505,7 +789,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
             <input
               id="freeform-topic"
               type="text"
-              maxLength={MAX_FREEFORM_TOPIC_LENGTH}
+              maxLength={limits.maxFreeformTopicLength}
               value={formState.freeformTopic}
               onChange={handleTextChange("freeformTopic")}
               placeholder="e.g. Team shout-outs"
@@ -517,7 +801,7 @@ export const NewsletterGeneratorPage: React.FC = () => {
             <label htmlFor="freeform-instructions">Tone &amp; guidance (optional)</label>
             <textarea
               id="freeform-instructions"
-              maxLength={MAX_FREEFORM_INSTRUCTIONS_LENGTH}
+              maxLength={limits.maxFreeformInstructionsLength}
               rows={4}
               value={formState.freeformInstructions}
               onChange={handleTextChange("freeformInstructions")}
@@ -551,7 +835,9 @@ export const NewsletterGeneratorPage: React.FC = () => {
             Freeform topic: {formState.freeformTopic ? formState.freeformTopic : "None yet"}
           </li>
         </ul>
-        {submissionState === "submitting" ? (
+        {progressEvents ? (
+          <GenerationProgressList events={progressEvents} />
+        ) : submissionState === "submitting" ? (
           <p className="form-hint" role="status">
             Processing newsletter draft…
           </p>
@@ -586,6 +872,37 @@ export const NewsletterGeneratorPage: React.FC = () => {
         ) : null}
       </aside>
 
+      <section className="newsletter-generator__saved-drafts">
+        <h2>Saved drafts</h2>
+        <button type="button" onClick={handleShowSavedDrafts} disabled={submissionState === "submitting"}>
+          {savedDrafts ? "Refresh saved drafts" : "Show saved drafts"}
+        </button>
+        {savedDraftsError ? (
+          <p className="form-error" role="alert">{savedDraftsError}</p>
+        ) : null}
+        {savedDrafts && savedDrafts.length === 0 ? (
+          <p className="form-hint">No saved drafts yet.</p>
+        ) : null}
+        {savedDrafts && savedDrafts.length > 0 ? (
+          <ul>
+            {savedDrafts.map((draft) => (
+              <li key={draft.id}>
+                <strong>{draft.title}</strong>{" "}
+                <span className="form-hint">
+                  Updated {new Date(draft.updatedAt).toLocaleString()}
+                </span>{" "}
+                <button type="button" onClick={() => void loadDraft(draft.id)}>
+                  Open
+                </button>{" "}
+                <button type="button" onClick={() => void handleDeleteDraft(draft.id)}>
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </section>
+
       <section className="newsletter-generator__preview">
         <h2>Draft newsletter preview</h2>
         {draftSections ? (
@@ -604,16 +921,40 @@ export const NewsletterGeneratorPage: React.FC = () => {
               {newsletterCopyFeedback.status === "error" ? (
                 <p className="form-error" role="alert">{newsletterCopyFeedback.message}</p>
               ) : null}
+              {draftSaveFeedback.status === "saving" || draftSaveFeedback.status === "saved" ? (
+                <p className="form-hint" role="status">{draftSaveFeedback.message}</p>
+              ) : null}
+              {draftSaveFeedback.status === "error" ? (
+                <p className="form-error" role="alert">{draftSaveFeedback.message}</p>
+              ) : null}
             </div>
             <div className="newsletter-generator__preview-sections">
-              <NewsletterSectionEditor section={draftSections.introduction} onChange={handleSectionUpdate} />
+              <NewsletterSectionEditor
+                section={draftSections.introduction}
+                onChange={handleSectionUpdate}
+                onRegenerate={regenerateSection}
+                maxInstructionsLength={limits.maxRegenerationInstructionsLength}
+              />
               {draftSections.mainUpdates.map((section) => (
-                <NewsletterSectionEditor key={section.id} section={section} onChange={handleSectionUpdate} />
+                <NewsletterSectionEditor
+                  key={section.id}
+                  section={section}
+                  onChange={handleSectionUpdate}
+                  onRegenerate={regenerateSection}
+                  maxInstructionsLength={limits.maxRegenerationInstructionsLength}
+                />
               ))}
-              <NewsletterSectionEditor section={draftSections.actionItems} onChange={handleSectionUpdate} />
+              <NewsletterSectionEditor
+                section={draftSections.actionItems}
+                onChange={handleSectionUpdate}
+                onRegenerate={regenerateSection}
+                maxInstructionsLength={limits.maxRegenerationInstructionsLength}
+              />
               <NewsletterSectionEditor
                 section={draftSections.closing}
                 onChange={handleSectionUpdate}
+                onRegenerate={regenerateSection}
+                maxInstructionsLength={limits.maxRegenerationInstructionsLength}
               />
               {freeformSection ? (
                 <NewsletterSectionEditor
@@ -624,9 +965,18 @@ export const NewsletterGeneratorPage: React.FC = () => {
                       : undefined
                   }
                   onChange={handleSectionUpdate}
+                  onRegenerate={regenerateSection}
+                  maxInstructionsLength={limits.maxRegenerationInstructionsLength}
                 />
               ) : null}
             </div>
+            {draftId ? (
+              <DraftHistoryPanel
+                draftId={draftId}
+                currentRevisionId={currentRevisionId}
+                onRestored={handleRevisionRestored}
+              />
+            ) : null}
           </>
         ) : (
           <p className="form-hint">Prepare a draft to review and edit generated newsletter sections.</p>
@@ -647,6 +997,9 @@ const buildSanitizedFormState = (
     ...state,
     meetingRecap: payload.meetingRecap?.text ?? state.meetingRecap,
     transcript: payload.transcript?.text ?? state.transcript,
+    // The payload carries the parsed text, so a resubmission sends it as plain text.
+    transcriptFormat: payload.transcript ? "plain" : state.transcriptFormat,
+    transcriptFileName: payload.transcript ? "" : state.transcriptFileName,
     freeformTopic: payload.freeformTopicPrompt?.topic ?? "",
     freeformInstructions: payload.freeformTopicPrompt?.instructions ?? "",
   };
@@ -658,6 +1011,55 @@ const buildSanitizedFormState = (
   return sanitized;
 };
 
+const applySectionUpdate = (
+  previous: StructuredNewsletter,
+  updatedSection: NewsletterSection | ActionItemsSection,
+): StructuredNewsletter => {
+  if ("items" in updatedSection && updatedSection.id === previous.actionItems.id) {
+    return {
+      ...previous,
+      actionItems: updatedSection,
+    };
+  }
+
+  if (updatedSection.id === previous.introduction.id) {
+    return {
+      ...previous,
+      introduction: updatedSection,
+    };
+  }
+
+  const mainUpdateIndex = previous.mainUpdates.findIndex((section) => section.id === updatedSection.id);
+  if (mainUpdateIndex !== -1) {
+    const nextMainUpdates = [...previous.mainUpdates];
+    nextMainUpdates[mainUpdateIndex] = updatedSection;
+    return {
+      ...previous,
+      mainUpdates: nextMainUpdates,
+    };
+  }
+
+  if (updatedSection.id === previous.closing.id) {
+    return {
+      ...previous,
+      closing: updatedSection,
+    };
+  }
+
+  if (updatedSection.id === FREEFORM_SECTION_ID) {
+    return {
+      ...previous,
+      freeformTopic: {
+        ...previous.freeformTopic,
+        title: updatedSection.title,
+        body: updatedSection.body,
+      },
+    };
+  }
+
+  return previous;
+};
+
 const formatDurationMinutes = (seconds: number): string => {
   if (!Number.isFinite(seconds) || seconds <= 0) {
     return "";
@@ -668,6 +1070,11 @@ const formatDurationMinutes = (seconds: number): string => {
   return Number.isInteger(rounded) ? String(Math.trunc(rounded)) : rounded.toString();
 };
 
+const formatMegabytes = (bytes: number): string => {
+  const megabytes = Math.round((bytes / (1024 * 1024)) * 10) / 10;
+  return `${megabytes}MB`;
+};
+
 const formatActionItemForCopy = (item: ActionItem) => {
   const ownerLabel = item.owner ? ` — Owner: ${item.owner}` : "";
   const dueDateLabel = item.dueDate ? ` (Due: ${new Date(item.dueDate).toLocaleDateString()})` : "";
@@ -751,3 +1158,12 @@ const buildNewsletterCopy = (
 
   return serializedSections.join("\n\n").trim();
 };
+
+/** Reads a file as text with FileReader, which is available wherever file inputs are. */
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
@@ -0,0 +1,290 @@
+import {
+  createNewsletterClient,
+  NewsletterClientError,
+  NewsletterClientErrorCode,
+} from "../../src/client/newsletterClient";
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+const sections = {
+  introduction: { id: "introduction", title: "Introduction", body: "Intro" },
+  mainUpdates: [],
+  actionItems: { id: "action-items", title: "Action Items", body: "", items: [] },
+  closing: { id: "closing", title: "Closing", body: "Thanks!" },
+  freeformTopic: { title: "Topic", body: "Body" },
+};
+
+describe("createNewsletterClient", () => {
+  it("sends generation inputs as multipart fields and returns the typed response", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(
+      jsonResponse(200, {
+        message: "Newsletter assembled successfully.",
+        payload: { meetingRecap: { text: "Recap" }, transcript: { text: "Transcript" } },
+        newsletter: { sections, metadata: { createdAt: "2024-05-01T12:00:00.000Z" } },
+        draftId: "draft-1",
+      }),
+    );
+    const client = createNewsletterClient({ baseUrl: "https://api.example.com", fetch: fetchMock });
+
+    const result = await client.generateNewsletter(
+      {
+        meetingRecapText: "Recap",
+        transcriptText: "Transcript",
+        audioDurationSeconds: 120,
+        audio: new Blob(["audio"], { type: "audio/mpeg" }),
+      },
+      { idempotencyKey: "key-1" },
+    );
+
+    expect(result.draftId).toBe("draft-1");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.example.com/newsletters");
+    expect(init).toMatchObject({ method: "POST", headers: { "Idempotency-Key": "key-1" } });
+
+    const form = init.body as FormData;
+    expect(form.get("meetingRecapText")).toBe("Recap");
+    expect(form.get("audioDurationSeconds")).toBe("120");
+    expect(form.has("freeformTopic")).toBe(false);
+    expect(form.get("audio")).toBeInstanceOf(Blob);
+  });
+
+  it("raises the server's validation details without retrying unkeyed generations", async () => {
+    const errors = [
+      { field: "meetingRecap", message: "Meeting recap is required.", code: "REQUIRED" },
+    ];
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(400, { errors }));
+    const client = createNewsletterClient({ fetch: fetchMock, retry: { delayMs: 0 } });
+
+    const failure = await client
+      .generateNewsletter({ meetingRecapText: "", transcriptText: "" })
+      .catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(NewsletterClientError);
+    expect(failure).toMatchObject({
+      code: NewsletterClientErrorCode.REQUEST_FAILED,
+      status: 400,
+      errors,
+      retryable: false,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries reads on retryable failures", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(jsonResponse(503, { errors: [] }))
+      .mockResolvedValueOnce(jsonResponse(200, { drafts: [] }));
+    const client = createNewsletterClient({ fetch: fetchMock, retry: { delayMs: 0 } });
+
+    await expect(client.listDrafts()).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries keyed generations that failed with a retryable error code", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse(502, {
+          errors: [{ field: "form", message: "Summary failed.", code: "SUMMARY_FAILED" }],
+        }),
+      )
+      .mockResolvedValueOnce(jsonResponse(202, { jobId: "job-1", statusUrl: "/jobs/job-1" }));
+    const client = createNewsletterClient({ fetch: fetchMock, retry: { delayMs: 0 } });
+
+    const accepted = await client.startGenerationJob(
+      { meetingRecapText: "Recap", transcriptText: "Transcript" },
+      { idempotencyKey: "key-2" },
+    );
+
+    expect(accepted.jobId).toBe("job-1");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe("/newsletters?async=true");
+  });
+
+  it("gives up after the configured attempts", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(504, null));
+    const client = createNewsletterClient({
+      fetch: fetchMock,
+      retry: { attempts: 1, delayMs: 0 },
+    });
+
+    await expect(client.getConfig()).rejects.toMatchObject({
+      code: NewsletterClientErrorCode.REQUEST_FAILED,
+      status: 504,
+      errors: [],
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports malformed success bodies as unexpected responses", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(200, { unexpected: true }));
+    const client = createNewsletterClient({ fetch: fetchMock });
+
+    await expect(client.getDraft("draft-1")).rejects.toMatchObject({
+      code: NewsletterClientErrorCode.UNEXPECTED_RESPONSE,
+    });
+  });
+
+  it("treats deleting a missing draft as already deleted", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(404, { errors: [] }));
+    const client = createNewsletterClient({ fetch: fetchMock });
+
+    await expect(client.deleteDraft("draft/1")).resolves.toBe(false);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/newsletters/draft%2F1",
+      expect.objectContaining({ method: "DELETE" }),
+    );
+  });
+
+  it("treats a missing draft on a retried delete as deleted", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(jsonResponse(404, { errors: [] }));
+    const client = createNewsletterClient({ fetch: fetchMock, retry: { delayMs: 0 } });
+
+    await expect(client.deleteDraft("draft-1")).resolves.toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends draft updates and revision requests as JSON", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValue(jsonResponse(200, { draft: { id: "draft-1" }, diff: { changes: [] } }));
+    const client = createNewsletterClient({ fetch: fetchMock });
+
+    await client.updateDraft("draft-1", sections, { author: "Jordan" });
+    await client.diffRevisions("draft-1", "rev-1", "rev-2");
+
+    const [, updateInit] = fetchMock.mock.calls[0];
+    expect(updateInit.headers).toEqual({ "Content-Type": "application/json" });
+    expect(JSON.parse(updateInit.body)).toEqual({ sections, author: "Jordan" });
+    expect(fetchMock.mock.calls[1][0]).toBe("/newsletters/draft-1/diff?from=rev-1&to=rev-2");
+  });
+
+  it("stops retrying when the request is aborted", async () => {
+    const controller = new AbortController();
+    const fetchMock = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      return jsonResponse(503, null);
+    });
+    const client = createNewsletterClient({ fetch: fetchMock, retry: { delayMs: 10_000 } });
+
+    await expect(client.listDrafts({ signal: controller.signal })).rejects.toMatchObject({
+      code: NewsletterClientErrorCode.ABORTED,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  it("polls job status when server-sent events are unavailable", async () => {
+    const job = (status: string, stages: string[]) => ({
+      job: {
+        id: "job-1",
+        status,
+        progress: stages.map((stage) => ({ stage, status: "completed" })),
+      },
+    });
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, job("running", ["summary"])))
+      .mockResolvedValueOnce(jsonResponse(200, job("succeeded", ["summary", "assembly"])));
+    const onProgress = jest.fn();
+    const client = createNewsletterClient({ fetch: fetchMock });
+    const originalEventSource = (globalThis as Record<string, unknown>).EventSource;
+    delete (globalThis as Record<string, unknown>).EventSource;
+
+    try {
+      const finished = await client.waitForJob("job-1", { onProgress, pollIntervalMs: 0 });
+
+      expect(finished.status).toBe("succeeded");
+      expect(onProgress.mock.calls.map(([event]) => event.stage)).toEqual(["summary", "assembly"]);
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/newsletters/jobs/job-1",
+        expect.objectContaining({ method: "GET" }),
+      );
+    } finally {
+      if (originalEventSource) {
+        (globalThis as Record<string, unknown>).EventSource = originalEventSource;
+      }
+    }
+  });
+
+  /** Stands in for `EventSource`, letting a test deliver events and connection errors. */
+  class FakeEventSource {
+    static latest: FakeEventSource | undefined;
+    onerror: (() => void) | null = null;
+    closed = false;
+    private readonly listeners = new Map<string, (message: { data: string }) => void>();
+
+    constructor(readonly url: string) {
+      FakeEventSource.latest = this;
+    }
+
+    addEventListener(type: string, listener: (message: { data: string }) => void) {
+      this.listeners.set(type, listener);
+    }
+
+    close() {
+      this.closed = true;
+    }
+
+    emit(type: string, data: string) {
+      this.listeners.get(type)?.({ data });
+    }
+  }
+
+  it("falls back to polling when the progress stream drops", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(
+      jsonResponse(200, {
+        job: {
+          id: "job-1",
+          status: "succeeded",
+          progress: [
+            { stage: "summary", status: "completed" },
+            { stage: "assembly", status: "completed" },
+          ],
+        },
+      }),
+    );
+    const onProgress = jest.fn();
+    const client = createNewsletterClient({
+      fetch: fetchMock,
+      EventSource: FakeEventSource as unknown as typeof EventSource,
+    });
+
+    const waiting = client.waitForJob("job-1", { onProgress, pollIntervalMs: 0 });
+    const source = FakeEventSource.latest as FakeEventSource;
+    source.emit("stage", JSON.stringify({ stage: "summary", status: "completed" }));
+    source.onerror?.();
+
+    expect((await waiting).status).toBe("succeeded");
+    expect(source.closed).toBe(true);
+    expect(onProgress.mock.calls.map(([event]) => event.stage)).toEqual(["summary", "assembly"]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/newsletters/jobs/job-1",
+      expect.objectContaining({ method: "GET" }),
+    );
+  });
+
+  it.each(["stage", "done"])("rejects a malformed %s event with a typed error", async (type) => {
+    const client = createNewsletterClient({
+      fetch: jest.fn(),
+      EventSource: FakeEventSource as unknown as typeof EventSource,
+    });
+
+    const waiting = client.waitForJob("job-1").catch((error: unknown) => error);
+    const source = FakeEventSource.latest as FakeEventSource;
+    source.emit(type, "{not json");
+
+    const failure = await waiting;
+    expect(failure).toBeInstanceOf(NewsletterClientError);
+    expect(failure).toMatchObject({ code: NewsletterClientErrorCode.UNEXPECTED_RESPONSE });
+    expect(source.closed).toBe(true);
+  });
+});
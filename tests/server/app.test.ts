@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+
+import { createApp, type NewsletterApp } from "../../src/server/app";
+import { createInMemoryNewsletterDraftStorage } from "../../src/services/drafts/newsletterDraftRepository";
+import { createNoopLogger } from "../../src/services/logging/logger";
+
+describe("createApp", () => {
+  let running: NewsletterApp | undefined;
+  let staticDirectory: string;
+
+  beforeEach(() => {
+    staticDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "newsletter-app-"));
+    fs.writeFileSync(path.join(staticDirectory, "index.html"), "<div id=\"root\"></div>");
+  });
+
+  afterEach(async () => {
+    await running?.close();
+    running = undefined;
+    fs.rmSync(staticDirectory, { recursive: true, force: true });
+  });
+
+  const start = async (config: Parameters<typeof createApp>[0] = {}): Promise<string> => {
+    running = createApp({ logger: createNoopLogger(), staticDirectory, ...config });
+    const server = await running.listen(0, "127.0.0.1");
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  it("mounts the newsletter API and serves the page bundle for other routes", async () => {
+    const baseUrl = await start();
+
+    const drafts = await fetch(`${baseUrl}/newsletters`);
+    expect(drafts.status).toBe(200);
+    expect(await drafts.json()).toEqual({ drafts: [] });
+
+    const page = await fetch(`${baseUrl}/drafts/123`, { headers: { Accept: "text/html" } });
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain('id="root"');
+  });
+
+  it("answers unknown API routes and unexpected failures with the JSON error envelope", async () => {
+    const storage = createInMemoryNewsletterDraftStorage();
+    const baseUrl = await start({
+      newsletters: {
+        storage: { ...storage, list: () => Promise.reject(new Error("disk unavailable")) },
+      },
+    });
+
+    const missing = await fetch(`${baseUrl}/newsletters/jobs/abc/unknown`);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      errors: [expect.objectContaining({ field: "path", code: "NOT_FOUND" })],
+    });
+
+    const failed = await fetch(`${baseUrl}/newsletters`);
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({
+      errors: [expect.objectContaining({ code: "INTERNAL_ERROR" })],
+    });
+  });
+
+  it("stops accepting connections on close", async () => {
+    const baseUrl = await start();
+
+    await running?.close();
+
+    await expect(fetch(`${baseUrl}/newsletters`)).rejects.toThrow();
+  });
+});
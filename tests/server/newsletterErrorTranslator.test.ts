@@ -0,0 +1,78 @@
+import { translateNewsletterError } from "../../src/server/errors/newsletterErrorTranslator";
+import { AudioSummarizerError, AudioSummarizerErrorCode } from "../../src/services/audioSummarizer";
+import {
+  TranscriptSynthesizerError,
+  TranscriptSynthesizerErrorCode,
+} from "../../src/services/transcriptSynthesizer";
+import { type ValidationErrorDetail } from "../../src/types/newsletter";
+
+describe("translateNewsletterError", () => {
+  const fallback: ValidationErrorDetail = {
+    field: "form",
+    message: "Unable to assemble newsletter content. Please try again.",
+    code: "GENERATION_FAILED",
+  };
+
+  it("maps client-side synthesis failures to 422 with a stable code", () => {
+    const error = new TranscriptSynthesizerError(
+      TranscriptSynthesizerErrorCode.NO_CONTENT_PROVIDED,
+      "Either a meeting recap or transcript is required to synthesize content.",
+    );
+
+    expect(translateNewsletterError(error, fallback)).toEqual({
+      status: 422,
+      error: {
+        field: "meetingRecap",
+        message: "Add a meeting recap or transcript so there is something to summarize.",
+        code: "NO_CONTENT_PROVIDED",
+      },
+    });
+  });
+
+  it("maps upstream model failures to 502", () => {
+    const summaryFailure = new TranscriptSynthesizerError(
+      TranscriptSynthesizerErrorCode.SUMMARY_FAILED,
+      "Failed to generate combined summary from recap and transcript.",
+    );
+    const transcriptionFailure = new AudioSummarizerError(
+      AudioSummarizerErrorCode.TRANSCRIPTION_FAILED,
+      "Failed to transcribe meeting audio.",
+    );
+
+    expect(translateNewsletterError(summaryFailure, fallback)).toMatchObject({
+      status: 502,
+      error: { code: "SUMMARY_FAILED", field: "form" },
+    });
+    expect(translateNewsletterError(transcriptionFailure, fallback)).toMatchObject({
+      status: 502,
+      error: { code: "TRANSCRIPTION_FAILED", field: "audio" },
+    });
+  });
+
+  it("maps audio problems the user can fix to client errors", () => {
+    const emptyTranscript = new AudioSummarizerError(
+      AudioSummarizerErrorCode.EMPTY_TRANSCRIPT,
+      "Transcription result was empty.",
+    );
+    const tooLong = new AudioSummarizerError(
+      AudioSummarizerErrorCode.AUDIO_LIMIT_EXCEEDED,
+      "Audio duration exceeds the supported 60 minute limit.",
+    );
+
+    expect(translateNewsletterError(emptyTranscript, fallback)).toMatchObject({
+      status: 422,
+      error: { code: "EMPTY_TRANSCRIPT" },
+    });
+    expect(translateNewsletterError(tooLong, fallback)).toMatchObject({
+      status: 413,
+      error: { code: "AUDIO_LIMIT_EXCEEDED" },
+    });
+  });
+
+  it("falls back to the generic detail for unknown errors", () => {
+    expect(translateNewsletterError(new Error("boom"), fallback)).toEqual({
+      status: 500,
+      error: fallback,
+    });
+  });
+});
@@ -0,0 +1,913 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from "fs";
+import type { AddressInfo } from "net";
+import { createServer, type Server } from "http";
+import os from "os";
+import path from "path";
+
+import express from "express";
+
+import { createNewslettersRouter } from "../../src/server/routes/newsletters";
+import { NewsletterConfigError } from "../../src/services/config/newsletterConfig";
+import {
+  createInMemoryNewsletterJobStore,
+  type NewsletterJobStore,
+} from "../../src/services/jobs/newsletterJobStore";
+import { createJsonLogger, createNoopLogger } from "../../src/services/logging/logger";
+import {
+  TranscriptSynthesizerErrorCode,
+  type TranscriptSynthesizerDependencies,
+} from "../../src/services/transcriptSynthesizer";
+import { readAudioData } from "../../src/services/uploads/audioDataSource";
+import {
+  type NewsletterDraftListResponse,
+  type NewsletterDraftResponse,
+  type NewsletterDraftRevisionListResponse,
+  type NewsletterDraftRevisionResponse,
+  type NewsletterRevisionDiffResponse,
+  type NewsletterSectionRegenerateResponse,
+} from "../../src/services/validation/newsletterSchemas";
+import * as uploadValidator from "../../src/services/validation/newsletterUploadValidator";
+
+describe("createNewslettersRouter", () => {
+  let server: Server | undefined;
+
+  const uploadDirectories: string[] = [];
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+    await Promise.all(
+      uploadDirectories.splice(0).map((directory) => fs.rm(directory, { recursive: true, force: true })),
+    );
+  });
+
+  const start = async (router: express.Router): Promise<string> => {
+    const app = express();
+    app.use(router);
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const createTranscriptSynthesizer = (
+    overrides: Partial<TranscriptSynthesizerDependencies> = {},
+  ): TranscriptSynthesizerDependencies => ({
+    summarize: jest.fn().mockResolvedValue("Injected summary."),
+    extractDecisions: jest.fn().mockResolvedValue([]),
+    extractActionItems: jest.fn().mockResolvedValue([]),
+    extractInsights: jest.fn().mockResolvedValue([]),
+    ...overrides,
+  });
+
+  const postNewsletter = (baseUrl: string) =>
+    fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Correlation-Id": "test-request-1" },
+      body: JSON.stringify({
+        meetingRecap: { text: "We shipped the beta." },
+        transcript: { text: "Jordan: The beta is live." },
+      }),
+    });
+
+  it("generates newsletters with the injected adapters and draft storage", async () => {
+    const transcriptSynthesizer = createTranscriptSynthesizer();
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer,
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const response = await postNewsletter(baseUrl);
+    const body = (await response.json()) as {
+      draftId: string;
+      newsletter: { sections: { introduction: { body: string } }; metadata: { correlationId?: string } };
+    };
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-correlation-id")).toBe("test-request-1");
+    expect(transcriptSynthesizer.summarize).toHaveBeenCalled();
+    expect(body.newsletter.sections.introduction.body).toContain("Injected summary.");
+    expect(body.newsletter.metadata.correlationId).toBe("test-request-1");
+
+    const draftResponse = await fetch(`${baseUrl}/newsletters/${body.draftId}`);
+    expect(draftResponse.status).toBe(200);
+  });
+
+  it("translates adapter failures and counts them in the metrics registry", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer({
+          summarize: jest.fn().mockRejectedValue(new Error("model unavailable")),
+        }),
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const response = await postNewsletter(baseUrl);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      errors: [expect.objectContaining({ code: TranscriptSynthesizerErrorCode.SUMMARY_FAILED })],
+    });
+
+    const metrics = await (await fetch(`${baseUrl}/metrics`)).text();
+    expect(metrics).toContain(
+      'newsletter_service_errors_total{code="SUMMARY_FAILED",source="transcript"} 1',
+    );
+    expect(metrics).toContain(
+      'newsletter_http_requests_total{method="POST",route="/newsletters",status="502"} 1',
+    );
+  });
+
+  it("answers with a generation error when request validation throws", async () => {
+    const lines: string[] = [];
+    const validate = jest
+      .spyOn(uploadValidator, "validateNewsletterUpload")
+      .mockRejectedValue(new RangeError("offset out of range"));
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        logger: createJsonLogger({ write: (line) => lines.push(line) }),
+      }),
+    );
+
+    try {
+      const response = await postNewsletter(baseUrl);
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        errors: [expect.objectContaining({ code: "GENERATION_FAILED" })],
+      });
+      expect(lines.map((line) => JSON.parse(line))).toContainEqual(
+        expect.objectContaining({
+          level: "error",
+          message: "Failed to process newsletter request",
+          correlationId: "test-request-1",
+        }),
+      );
+    } finally {
+      validate.mockRestore();
+    }
+  });
+
+  it("checks the idempotency key before validating the upload", async () => {
+    const validate = jest.spyOn(uploadValidator, "validateNewsletterUpload");
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const post = (key: string) =>
+      fetch(`${baseUrl}/newsletters`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify({
+          meetingRecap: { text: "We shipped the beta." },
+          transcript: { text: "Jordan: The beta is live." },
+        }),
+      });
+
+    try {
+      const malformed = await post("not a key");
+      expect(malformed.status).toBe(400);
+      expect(await malformed.json()).toEqual({
+        errors: [expect.objectContaining({ field: "Idempotency-Key", code: "INVALID_FORMAT" })],
+      });
+      expect(validate).not.toHaveBeenCalled();
+
+      const first = await post("key-1");
+      const replayed = await post("key-1");
+
+      expect(replayed.status).toBe(first.status);
+      expect(replayed.headers.get("idempotent-replayed")).toBe("true");
+      expect(await replayed.json()).toEqual(await first.json());
+      expect(validate).toHaveBeenCalledTimes(1);
+    } finally {
+      validate.mockRestore();
+    }
+  });
+
+  it("queues async generations and reports the job once it finishes", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const response = await fetch(`${baseUrl}/newsletters?async=true`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        meetingRecap: { text: "We shipped the beta." },
+        transcript: { text: "Jordan: The beta is live." },
+      }),
+    });
+    const accepted = (await response.json()) as { jobId: string; statusUrl: string };
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get("location")).toBe(accepted.statusUrl);
+
+    let job: { status: string; result?: unknown; draftId?: string } | undefined;
+    for (let attempt = 0; attempt < 50 && job?.status !== "succeeded"; attempt += 1) {
+      const statusResponse = await fetch(`${baseUrl}${accepted.statusUrl}`);
+      expect(statusResponse.status).toBe(200);
+      ({ job } = await statusResponse.json());
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(job).toMatchObject({
+      status: "succeeded",
+      draftId: expect.any(String),
+      result: { sections: { introduction: { body: expect.stringContaining("Injected summary.") } } },
+    });
+
+    const missing = await fetch(`${baseUrl}/newsletters/jobs/missing`);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      errors: [expect.objectContaining({ field: "jobId", code: "NOT_FOUND" })],
+    });
+  });
+
+  it("streams job progress that lands while the job is being looked up", async () => {
+    const store = createInMemoryNewsletterJobStore();
+    const { id } = await store.create({
+      meetingRecap: { text: "Recap" },
+      transcript: { text: "Transcript" },
+    });
+    let lookups = 0;
+    const jobStore: NewsletterJobStore = {
+      ...store,
+      get: async (jobId) => {
+        const snapshot = structuredClone(await store.get(jobId));
+        lookups += 1;
+        if (lookups === 1) {
+          await store.appendProgress(jobId, {
+            stage: "summary",
+            status: "completed",
+            timestamp: "2024-05-01T12:00:00.000Z",
+          });
+          await store.update(jobId, { status: "succeeded" });
+        }
+        return snapshot;
+      },
+    };
+    const baseUrl = await start(createNewslettersRouter({ jobStore, logger: createNoopLogger() }));
+
+    const response = await fetch(`${baseUrl}/newsletters/jobs/${id}/events`);
+    const stream = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    expect(stream).toContain("event: stage");
+    expect(stream).toContain('"stage":"summary"');
+    expect(stream).toContain("event: done");
+  });
+
+  it("resumes the progress stream after the last event id and rejects unknown jobs", async () => {
+    const jobStore = createInMemoryNewsletterJobStore();
+    const { id } = await jobStore.create({
+      meetingRecap: { text: "Recap" },
+      transcript: { text: "Transcript" },
+    });
+    await jobStore.appendProgress(id, {
+      stage: "summary",
+      status: "completed",
+      timestamp: "2024-05-01T12:00:00.000Z",
+    });
+    await jobStore.appendProgress(id, {
+      stage: "assembly",
+      status: "completed",
+      timestamp: "2024-05-01T12:00:01.000Z",
+    });
+    await jobStore.update(id, { status: "succeeded" });
+    const baseUrl = await start(createNewslettersRouter({ jobStore, logger: createNoopLogger() }));
+
+    const resumed = await fetch(`${baseUrl}/newsletters/jobs/${id}/events`, {
+      headers: { "Last-Event-ID": "0" },
+    });
+    const stream = await resumed.text();
+
+    expect(resumed.status).toBe(200);
+    expect(stream).not.toContain("id: 0\n");
+    expect(stream).not.toContain('event: stage\ndata: {"stage":"summary"');
+    expect(stream).toContain('id: 1\nevent: stage\ndata: {"stage":"assembly"');
+    expect(stream).toContain('event: done\ndata: {"job":{');
+
+    const missing = await fetch(`${baseUrl}/newsletters/jobs/missing/events`);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      errors: [expect.objectContaining({ field: "jobId", code: "NOT_FOUND" })],
+    });
+  });
+
+  it("lists, reads, updates and deletes generated drafts", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const { draftId } = (await (await postNewsletter(baseUrl)).json()) as { draftId: string };
+
+    const listResponse = await fetch(`${baseUrl}/newsletters`);
+    const { drafts } = (await listResponse.json()) as NewsletterDraftListResponse;
+    expect(listResponse.status).toBe(200);
+    expect(drafts).toEqual([expect.objectContaining({ id: draftId, title: "We shipped the beta." })]);
+
+    const draftResponse = await fetch(`${baseUrl}/newsletters/${draftId}`);
+    const { draft } = (await draftResponse.json()) as NewsletterDraftResponse;
+    expect(draftResponse.status).toBe(200);
+    const sections = { ...draft.sections, closing: { ...draft.sections.closing, body: "Thanks, team!" } };
+
+    const updateResponse = await fetch(`${baseUrl}/newsletters/${draftId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sections, author: "Riley" }),
+    });
+    expect(updateResponse.status).toBe(200);
+    expect(((await updateResponse.json()) as NewsletterDraftResponse).draft.sections).toEqual(sections);
+
+    const invalidUpdate = await fetch(`${baseUrl}/newsletters/${draftId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sections: "none" }),
+    });
+    expect(invalidUpdate.status).toBe(400);
+    expect(await invalidUpdate.json()).toEqual({
+      errors: [expect.objectContaining({ field: "sections", code: "REQUIRED" })],
+    });
+
+    expect((await fetch(`${baseUrl}/newsletters/${draftId}`, { method: "DELETE" })).status).toBe(204);
+    const missing = await fetch(`${baseUrl}/newsletters/${draftId}`, { method: "DELETE" });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      errors: [expect.objectContaining({ field: "id", code: "NOT_FOUND" })],
+    });
+    expect((await fetch(`${baseUrl}/newsletters/${draftId}`)).status).toBe(404);
+  });
+
+  it("lists, diffs and restores draft revisions", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const { draftId, newsletter } = (await (await postNewsletter(baseUrl)).json()) as {
+      draftId: string;
+      newsletter: { sections: NewsletterDraftResponse["draft"]["sections"] };
+    };
+    const sections = {
+      ...newsletter.sections,
+      closing: { ...newsletter.sections.closing, body: "Thanks, team!" },
+    };
+    await fetch(`${baseUrl}/newsletters/${draftId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sections, author: "Riley" }),
+    });
+
+    const listResponse = await fetch(`${baseUrl}/newsletters/${draftId}/revisions`);
+    const { revisions } = (await listResponse.json()) as NewsletterDraftRevisionListResponse;
+    expect(listResponse.status).toBe(200);
+    expect(revisions).toEqual([
+      expect.objectContaining({ number: 1, reason: "generated" }),
+      expect.objectContaining({ number: 2, reason: "edited", author: "Riley" }),
+    ]);
+
+    const revisionResponse = await fetch(`${baseUrl}/newsletters/${draftId}/revisions/${revisions[1].id}`);
+    expect(revisionResponse.status).toBe(200);
+    expect(((await revisionResponse.json()) as NewsletterDraftRevisionResponse).revision.sections).toEqual(
+      sections,
+    );
+
+    const diffResponse = await fetch(
+      `${baseUrl}/newsletters/${draftId}/diff?from=${revisions[0].id}&to=${revisions[1].id}`,
+    );
+    expect(diffResponse.status).toBe(200);
+    expect(((await diffResponse.json()) as NewsletterRevisionDiffResponse).diff.sections).toEqual([
+      expect.objectContaining({ sectionId: "closing", change: "modified" }),
+    ]);
+
+    const incompleteDiff = await fetch(`${baseUrl}/newsletters/${draftId}/diff?from=${revisions[0].id}`);
+    expect(incompleteDiff.status).toBe(400);
+    expect(await incompleteDiff.json()).toEqual({
+      errors: [expect.objectContaining({ field: "to", code: "REQUIRED" })],
+    });
+
+    const restoreResponse = await fetch(
+      `${baseUrl}/newsletters/${draftId}/revisions/${revisions[0].id}/restore`,
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" },
+    );
+    expect(restoreResponse.status).toBe(200);
+    expect(((await restoreResponse.json()) as NewsletterDraftResponse).draft.sections).toEqual(
+      newsletter.sections,
+    );
+
+    const missing = await fetch(`${baseUrl}/newsletters/${draftId}/revisions/missing`);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      errors: [expect.objectContaining({ field: "revisionId", code: "NOT_FOUND" })],
+    });
+  });
+
+  it("regenerates a single draft section on request", async () => {
+    const summarize = jest
+      .fn()
+      .mockResolvedValueOnce("Injected summary.")
+      .mockResolvedValueOnce("Regenerated summary.");
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer({ summarize }),
+        generateFreeformTopic: jest.fn(),
+        limits: { maxRegenerationInstructionsLength: 40 },
+        logger: createNoopLogger(),
+      }),
+    );
+    const { draftId } = (await (await postNewsletter(baseUrl)).json()) as { draftId: string };
+    const regenerate = (id: string, sectionId: string, instructions: string) =>
+      fetch(`${baseUrl}/newsletters/${id}/sections/${sectionId}/regenerate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ instructions }),
+      });
+
+    const response = await regenerate(draftId, "introduction", "Keep it short.");
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as NewsletterSectionRegenerateResponse).section).toMatchObject({
+      id: "introduction",
+      body: expect.stringContaining("Regenerated summary."),
+    });
+    expect(summarize).toHaveBeenCalledTimes(2);
+
+    const tooLong = await regenerate(draftId, "introduction", "x".repeat(41));
+    expect(tooLong.status).toBe(400);
+    expect(await tooLong.json()).toEqual({
+      errors: [expect.objectContaining({ field: "instructions", code: "INVALID_LENGTH" })],
+    });
+
+    const unknownSection = await regenerate(draftId, "missing", "Keep it short.");
+    expect(unknownSection.status).toBe(404);
+    expect(await unknownSection.json()).toEqual({
+      errors: [expect.objectContaining({ field: "sectionId", code: "NOT_FOUND" })],
+    });
+
+    const unknownDraft = await regenerate("missing", "introduction", "Keep it short.");
+    expect(unknownDraft.status).toBe(404);
+    expect(await unknownDraft.json()).toEqual({
+      errors: [expect.objectContaining({ field: "id", code: "NOT_FOUND" })],
+    });
+  });
+
+  const createUploadDirectory = async (): Promise<string> => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "newsletter-router-test-"));
+    uploadDirectories.push(directory);
+    return directory;
+  };
+
+  /** Uploads are deleted right after the response is written, so allow the cleanup to land. */
+  const listUploadsAfterCleanup = async (directory: string): Promise<string[]> => {
+    for (let attempt = 0; attempt < 20; attempt += 1) {
+      const entries = await fs.readdir(directory);
+      if (entries.length === 0) {
+        return entries;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return fs.readdir(directory);
+  };
+
+  const buildAudioForm = (bytes: Uint8Array<ArrayBuffer>) => {
+    const form = new FormData();
+    form.append("meetingRecapText", "We shipped the beta.");
+    form.append("transcriptText", "Jordan: The beta is live.");
+    form.append("audioDurationSeconds", "120");
+    form.append("audio", new Blob([bytes], { type: "audio/mpeg" }), "standup.mp3");
+    return form;
+  };
+
+  it("streams uploaded audio through a temporary file that is removed afterwards", async () => {
+    const uploadDirectory = await createUploadDirectory();
+    const received: { bytes?: Uint8Array; path?: string } = {};
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory,
+        audioSummarizer: {
+          transcribeAudio: jest.fn(async ({ audioData }) => {
+            received.path = audioData?.path;
+            received.bytes = audioData && (await readAudioData(audioData));
+            return "The beta is live.";
+          }),
+          generateHighlights: jest.fn().mockResolvedValue([]),
+        },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const bytes = new Uint8Array([73, 68, 51, 4, 0, 0, 1, 2, 3]);
+
+    const response = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(bytes),
+    });
+
+    expect(response.status).toBe(200);
+    expect(received.bytes).toEqual(bytes);
+    expect(path.dirname(received.path ?? "")).toBe(uploadDirectory);
+    expect(await listUploadsAfterCleanup(uploadDirectory)).toEqual([]);
+  });
+
+  it("accepts JSON generation requests with inline base64 audio", async () => {
+    const received: { bytes?: Uint8Array } = {};
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory: await createUploadDirectory(),
+        audioSummarizer: {
+          transcribeAudio: jest.fn(async ({ audioData }) => {
+            received.bytes = audioData && (await readAudioData(audioData));
+            return "The beta is live.";
+          }),
+          generateHighlights: jest.fn().mockResolvedValue([]),
+        },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const bytes = new Uint8Array([73, 68, 51, 4, 0, 0, 1, 2, 3]);
+    const postJson = (body: string) =>
+      fetch(`${baseUrl}/newsletters`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+
+    const response = await postJson(
+      JSON.stringify({
+        meetingRecap: { text: "We shipped the beta.", author: "Jordan" },
+        transcript: { text: "Jordan: The beta is live.", source: "manual" },
+        audio: {
+          filename: "standup.mp3",
+          mimeType: "audio/mpeg",
+          durationSeconds: 120,
+          data: Buffer.from(bytes).toString("base64"),
+        },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(received.bytes).toEqual(bytes);
+
+    const invalidAudio = await postJson(
+      JSON.stringify({
+        meetingRecap: { text: "We shipped the beta." },
+        transcript: { text: "Jordan: The beta is live." },
+        audio: { filename: "standup.mp3", mimeType: "audio/mpeg", data: "***" },
+      }),
+    );
+    expect(invalidAudio.status).toBe(400);
+    expect(await invalidAudio.json()).toEqual({
+      errors: [expect.objectContaining({ field: "audio.data", code: "INVALID_FORMAT" })],
+    });
+
+    const malformed = await postJson('{"meetingRecap":');
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toEqual({
+      errors: [expect.objectContaining({ field: "body", code: "INVALID_FORMAT" })],
+    });
+  });
+
+  it("uses the duration read from the uploaded audio and reports a mismatch", async () => {
+    const generateHighlights = jest.fn().mockResolvedValue([]);
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory: await createUploadDirectory(),
+        audioSummarizer: {
+          transcribeAudio: jest.fn().mockResolvedValue("The beta is live."),
+          generateHighlights,
+        },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    // 30 seconds of constant-bitrate MP3 (MPEG-1 Layer III, 128kbps) against a claimed 120.
+    const bytes = new Uint8Array(16000 * 30);
+    bytes.set([0xff, 0xfb, 0x90, 0x00]);
+
+    const response = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(bytes),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.payload.audio.durationSeconds).toBe(30);
+    expect(generateHighlights).toHaveBeenCalledWith(
+      expect.objectContaining({ durationSeconds: 30 }),
+    );
+    expect(body.newsletter.warnings).toContain(
+      "Audio duration of 120s does not match the 30s read from the file; using 30s.",
+    );
+  });
+
+  it("translates audio summarizer failures instead of dropping the audio summary", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory: await createUploadDirectory(),
+        audioSummarizer: {
+          transcribeAudio: jest.fn().mockResolvedValue("   "),
+          generateHighlights: jest.fn(),
+        },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const bytes = new Uint8Array(16000 * 30);
+    bytes.set([0xff, 0xfb, 0x90, 0x00]);
+
+    const response = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(bytes),
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      errors: [expect.objectContaining({ code: "EMPTY_TRANSCRIPT", field: "audio" })],
+    });
+  });
+
+  const postAudioUrl = (baseUrl: string, url: string) =>
+    fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        meetingRecap: { text: "We shipped the beta." },
+        transcript: { text: "Jordan: The beta is live." },
+        audio: {
+          filename: "standup.mp3",
+          mimeType: "audio/mpeg",
+          durationSeconds: 120,
+          sizeBytes: 2048,
+          url,
+        },
+      }),
+    });
+
+  it("rejects audio URLs on hosts outside the allow-list", async () => {
+    const transcribeAudio = jest.fn();
+    const baseUrl = await start(
+      createNewslettersRouter({
+        audioSummarizer: { transcribeAudio, generateHighlights: jest.fn() },
+        audioSources: { allowedHosts: ["media.example.com"] },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const response = await postAudioUrl(baseUrl, "https://evil.example.net/standup.mp3");
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      errors: [expect.objectContaining({ code: "AUDIO_SOURCE_NOT_ALLOWED", field: "audio.url" })],
+    });
+    expect(transcribeAudio).not.toHaveBeenCalled();
+  });
+
+  it("reports an audio download that times out", async () => {
+    // Accepts the request but never answers it.
+    const audioHost = createServer(() => undefined);
+    await new Promise<void>((resolve) => audioHost.listen(0, "127.0.0.1", resolve));
+    const { port } = audioHost.address() as AddressInfo;
+
+    try {
+      const baseUrl = await start(
+        createNewslettersRouter({
+          audioSummarizer: { transcribeAudio: jest.fn(), generateHighlights: jest.fn() },
+          audioSources: { allowedHosts: ["127.0.0.1"], timeoutMs: 50 },
+          uploadDirectory: await createUploadDirectory(),
+          transcriptSynthesizer: createTranscriptSynthesizer(),
+          generateFreeformTopic: jest.fn(),
+          logger: createNoopLogger(),
+        }),
+      );
+
+      const response = await postAudioUrl(baseUrl, `http://127.0.0.1:${port}/standup.mp3`);
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toEqual({
+        errors: [expect.objectContaining({ code: "AUDIO_FETCH_FAILED", field: "audio.url" })],
+      });
+    } finally {
+      audioHost.closeAllConnections();
+      await new Promise((resolve) => audioHost.close(resolve));
+    }
+  });
+
+  it("counts audio truncations only when highlights are dropped", async () => {
+    const generateHighlights = jest
+      .fn()
+      .mockResolvedValueOnce([{ id: "h1", summary: "Beta launched." }])
+      .mockResolvedValueOnce([
+        { id: "h1", summary: "Beta launched." },
+        { id: "h2", summary: "Pricing agreed." },
+      ]);
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory: await createUploadDirectory(),
+        audioSummarizer: {
+          transcribeAudio: jest.fn().mockResolvedValue("The beta is live."),
+          generateHighlights,
+        },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        generateFreeformTopic: jest.fn(),
+        logger: createNoopLogger(),
+        limits: { defaultHighlightCount: 1 },
+      }),
+    );
+    // 30 seconds of MP3 against a claimed 120, so the first newsletter carries a warning.
+    const bytes = new Uint8Array(16000 * 30);
+    bytes.set([0xff, 0xfb, 0x90, 0x00]);
+
+    const warned = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(bytes),
+    });
+    expect((await warned.json()).newsletter.warnings).toContain(
+      "Audio duration of 120s does not match the 30s read from the file; using 30s.",
+    );
+    expect(await (await fetch(`${baseUrl}/metrics`)).text()).not.toContain(
+      'newsletter_truncation_events_total{source="audio"}',
+    );
+
+    const truncated = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(bytes),
+    });
+    expect(truncated.status).toBe(200);
+    expect(await (await fetch(`${baseUrl}/metrics`)).text()).toContain(
+      'newsletter_truncation_events_total{source="audio"} 1',
+    );
+  });
+
+  it("rejects uploads whose content is not the audio they claim to be", async () => {
+    const uploadDirectory = await createUploadDirectory();
+    const transcribeAudio = jest.fn();
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory,
+        audioSummarizer: { transcribeAudio, generateHighlights: jest.fn() },
+        transcriptSynthesizer: createTranscriptSynthesizer(),
+        logger: createNoopLogger(),
+      }),
+    );
+    const renamedPdf = new TextEncoder().encode("%PDF-1.7\n%\u00e2\u00e3\u00cf\u00d3\n");
+
+    const response = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(renamedPdf as Uint8Array<ArrayBuffer>),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      errors: [
+        { field: "audio", message: "Audio content is not MP3 audio.", code: "UNSUPPORTED_TYPE" },
+      ],
+    });
+    expect(transcribeAudio).not.toHaveBeenCalled();
+    expect(await listUploadsAfterCleanup(uploadDirectory)).toEqual([]);
+  });
+
+  it("removes uploaded audio when generation fails", async () => {
+    const uploadDirectory = await createUploadDirectory();
+    const baseUrl = await start(
+      createNewslettersRouter({
+        uploadDirectory,
+        audioSummarizer: {
+          transcribeAudio: jest.fn().mockRejectedValue(new Error("transcriber offline")),
+          generateHighlights: jest.fn(),
+        },
+        transcriptSynthesizer: createTranscriptSynthesizer({
+          summarize: jest.fn().mockRejectedValue(new Error("model unavailable")),
+        }),
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const bytes = new Uint8Array(2048);
+    bytes.set([0xff, 0xfb, 0x90, 0x00]);
+
+    const response = await fetch(`${baseUrl}/newsletters`, {
+      method: "POST",
+      body: buildAudioForm(bytes),
+    });
+
+    expect(response.status).toBe(502);
+    expect(await listUploadsAfterCleanup(uploadDirectory)).toEqual([]);
+  });
+
+  it("applies the configured upload limit", async () => {
+    const uploadDirectory = await createUploadDirectory();
+    const baseUrl = await start(
+      createNewslettersRouter({
+        limits: { maxUploadSizeBytes: 1024 * 1024 },
+        uploadDirectory,
+        logger: createNoopLogger(),
+      }),
+    );
+    const form = new FormData();
+    form.append("meetingRecap", "We shipped the beta.");
+    form.append("audio", new Blob([new Uint8Array(1024 * 1024 + 1)], { type: "audio/mpeg" }), "a.mp3");
+
+    const response = await fetch(`${baseUrl}/newsletters`, { method: "POST", body: form });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      errors: [
+        { field: "audio", message: "Audio file exceeds the 1MB size limit.", code: "LIMIT_EXCEEDED" },
+      ],
+    });
+    expect(await listUploadsAfterCleanup(uploadDirectory)).toEqual([]);
+  });
+
+  it("reports liveness and per-adapter readiness", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        transcriptSynthesizer: createTranscriptSynthesizer({
+          summarize: jest.fn().mockRejectedValue(new Error("model unavailable")),
+        }),
+        generateFreeformTopic: jest.fn(),
+        readiness: { probes: { summarize: { version: "summary-model-2" } } },
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const liveness = await fetch(`${baseUrl}/healthz`);
+    expect(liveness.status).toBe(200);
+    expect(await liveness.json()).toMatchObject({ status: "ok" });
+
+    const readiness = await fetch(`${baseUrl}/readyz`);
+    const report = (await readiness.json()) as { status: string; checks: unknown[] };
+
+    expect(readiness.status).toBe(503);
+    expect(report.status).toBe("not_ready");
+    expect(report.checks).toEqual([
+      expect.objectContaining({ name: "transcribeAudio", status: "ok", version: "builtin" }),
+      expect.objectContaining({
+        name: "summarize",
+        status: "failed",
+        version: "summary-model-2",
+        error: "model unavailable",
+      }),
+      { name: "draftCopy", status: "skipped" },
+      expect.objectContaining({ name: "storage", status: "ok", version: "builtin" }),
+    ]);
+
+    const metrics = await (await fetch(`${baseUrl}/metrics`)).text();
+    expect(metrics).not.toContain("/readyz");
+  });
+
+  it("publishes the client-facing limits and rejects invalid overrides", async () => {
+    const baseUrl = await start(
+      createNewslettersRouter({
+        limits: { maxRecapLength: 1500, maxFreeformTopicLength: 120 },
+        logger: createNoopLogger(),
+      }),
+    );
+
+    const response = await fetch(`${baseUrl}/newsletters/config`);
+    const body = (await response.json()) as { limits: Record<string, number> };
+
+    expect(response.status).toBe(200);
+    expect(body.limits).toMatchObject({ maxRecapLength: 1500, maxFreeformTopicLength: 120 });
+    expect(body.limits).not.toHaveProperty("maxCombinedTextLength");
+
+    const openApi = (await (await fetch(`${baseUrl}/newsletters/openapi.json`)).json()) as {
+      openapi: string;
+      components: { schemas: Record<string, { properties?: Record<string, { maxLength?: number }> }> };
+    };
+    expect(openApi.openapi).toBe("3.1.0");
+    expect(openApi.components.schemas.NewsletterUploadRequest.properties?.meetingRecapText.maxLength).toBe(
+      1500,
+    );
+
+    expect(() => createNewslettersRouter({ limits: { maxRecapLength: 0 } })).toThrow(
+      NewsletterConfigError,
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import { createBufferAudioDataSource } from "../../src/services/uploads/audioDataSource";
+import {
+  parseAudioHeader,
+  probeAudioDuration,
+} from "../../src/services/uploads/audioDurationProbe";
+
+/** PCM WAV at 8kHz mono 8-bit (8000 bytes per second) with a LIST chunk before the data. */
+const buildWav = (dataLength: number, declaredDataLength = dataLength): Buffer => {
+  const list = Buffer.concat([Buffer.from("LIST", "latin1"), Buffer.alloc(4)]);
+  const header = Buffer.alloc(36);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(header.length + list.length + dataLength, 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(8000, 24);
+  header.writeUInt32LE(8000, 28);
+  header.writeUInt16LE(1, 32);
+  header.writeUInt16LE(8, 34);
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write("data", 0, "latin1");
+  dataHeader.writeUInt32LE(declaredDataLength, 4);
+  return Buffer.concat([header, list, dataHeader, Buffer.alloc(dataLength, 0x80)]);
+};
+
+/** MPEG-1 Layer III, 128kbps, 44.1kHz stereo: 16000 bytes per second at a constant bitrate. */
+const MP3_FRAME_HEADER = [0xff, 0xfb, 0x90, 0x00];
+const SAMPLES_PER_SECOND = 44100 / 1152;
+
+const buildMp3 = (totalLength: number, tag?: { id: string; frames: number }): Buffer => {
+  const bytes = Buffer.alloc(totalLength);
+  Buffer.from(MP3_FRAME_HEADER).copy(bytes, 0);
+  if (tag?.id === "VBRI") {
+    bytes.write("VBRI", 36, "latin1");
+    bytes.writeUInt32BE(tag.frames, 50);
+  } else if (tag) {
+    bytes.write(tag.id, 36, "latin1");
+    bytes.writeUInt32BE(0x01, 40);
+    bytes.writeUInt32BE(tag.frames, 44);
+  }
+  return bytes;
+};
+
+/** ID3v2.4 tag with a 2048-byte body (syncsafe size 0x00 0x00 0x10 0x00). */
+const withId3Tag = (audio: Buffer): Buffer =>
+  Buffer.concat([
+    Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0x10, 0x00]),
+    Buffer.alloc(2048),
+    audio,
+  ]);
+
+/** FLAC with a STREAMINFO block for 44.1kHz stereo 16-bit audio. */
+const buildFlac = (totalSamples: number): Buffer => {
+  const header = Buffer.alloc(8 + 34 + 256);
+  header.write("fLaC", 0, "latin1");
+  header.set([0x80, 0x00, 0x00, 34], 4);
+  const sampleRate = 44100;
+  header[18] = sampleRate >> 12;
+  header[19] = (sampleRate >> 4) & 0xff;
+  header[20] = ((sampleRate & 0x0f) << 4) | (1 << 1);
+  header[21] = (15 << 4) | Math.floor(totalSamples / 2 ** 32);
+  header.writeUInt32BE(totalSamples % 2 ** 32, 22);
+  return header;
+};
+
+const oggPage = (granule: bigint, packet: Buffer): Buffer => {
+  const page = Buffer.alloc(28);
+  page.write("OggS", 0, "latin1");
+  page.writeBigInt64LE(granule, 6);
+  page[26] = 1;
+  page[27] = packet.length;
+  return Buffer.concat([page, packet]);
+};
+
+/** An Opus or Vorbis stream whose last page ends at `granule`, with audio pages in between. */
+const buildOgg = (codec: "opus" | "vorbis", granule: number): Buffer => {
+  const identification = Buffer.alloc(19);
+  if (codec === "opus") {
+    identification.write("OpusHead", 0, "latin1");
+    identification[8] = 1;
+    identification.writeUInt16LE(312, 10);
+    identification.writeUInt32LE(48_000, 12);
+  } else {
+    identification[0] = 0x01;
+    identification.write("vorbis", 1, "latin1");
+    identification.writeUInt32LE(44_100, 12);
+  }
+
+  return Buffer.concat([
+    oggPage(0n, identification),
+    Buffer.alloc(100_000, 0x55),
+    oggPage(BigInt(granule), Buffer.alloc(200)),
+    // A page where no packet ends carries a granule position of -1.
+    oggPage(-1n, Buffer.alloc(10)),
+  ]);
+};
+
+const mp4Box = (type: string, ...children: Buffer[]): Buffer => {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+};
+
+/** M4A with the movie header after the media data, as recorders write it without faststart. */
+const buildM4a = (timescale: number, duration: number): Buffer => {
+  const mvhd = Buffer.alloc(100);
+  mvhd.writeUInt32BE(timescale, 12);
+  mvhd.writeUInt32BE(duration, 16);
+  return Buffer.concat([
+    mp4Box("ftyp", Buffer.from("M4A \u0000\u0000\u0000\u0000isom", "latin1")),
+    mp4Box("mdat", Buffer.alloc(4096)),
+    mp4Box("moov", mp4Box("mvhd", mvhd), mp4Box("trak", Buffer.alloc(64))),
+  ]);
+};
+
+const ebml = (id: number[], data: Buffer, unknownSize = false): Buffer =>
+  Buffer.concat([
+    Buffer.from(id),
+    unknownSize
+      ? Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])
+      : Buffer.from([0x80 | data.length]),
+    data,
+  ]);
+
+/** WebM whose Info element states a duration in milliseconds, unless it is omitted. */
+const buildWebm = (durationMs?: number): Buffer => {
+  const duration = Buffer.alloc(8);
+  if (durationMs !== undefined) {
+    duration.writeDoubleBE(durationMs);
+  }
+  const info = ebml(
+    [0x15, 0x49, 0xa9, 0x66],
+    Buffer.concat([
+      ebml([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40])),
+      ...(durationMs !== undefined ? [ebml([0x44, 0x89], duration)] : []),
+    ]),
+  );
+  const cluster = ebml([0x1f, 0x43, 0xb6, 0x75], Buffer.alloc(64));
+  return Buffer.concat([
+    ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], Buffer.from("webm", "latin1"))),
+    ebml([0x18, 0x53, 0x80, 0x67], Buffer.concat([info, cluster]), true),
+  ]);
+};
+
+const probe = (bytes: Buffer) => probeAudioDuration(createBufferAudioDataSource(bytes));
+
+describe("probeAudioDuration", () => {
+  it("reads WAV duration from the data chunk size", async () => {
+    await expect(probe(buildWav(8000 * 3))).resolves.toEqual({ format: "wav", durationSeconds: 3 });
+  });
+
+  it("falls back to the file size when a streamed WAV leaves the data size unset", async () => {
+    const wav = buildWav(8000 * 2, 0xffffffff);
+
+    await expect(probe(wav)).resolves.toEqual({ format: "wav", durationSeconds: 2 });
+  });
+
+  it("divides constant-bitrate MP3 size by its bitrate", async () => {
+    await expect(probe(buildMp3(16000 * 4))).resolves.toEqual({
+      format: "mp3",
+      durationSeconds: 4,
+    });
+  });
+
+  it.each(["Xing", "Info", "VBRI"])("uses the frame count in a %s tag", async (id) => {
+    const result = await probe(buildMp3(4096, { id, frames: 1000 }));
+
+    expect(result?.format).toBe("mp3");
+    expect(result?.durationSeconds).toBeCloseTo(1000 / SAMPLES_PER_SECOND, 3);
+  });
+
+  it("skips a leading ID3v2 tag", async () => {
+    const mp3 = withId3Tag(buildMp3(16000 * 2));
+
+    await expect(probe(mp3)).resolves.toEqual({ format: "mp3", durationSeconds: 2 });
+  });
+
+  it("reads FLAC duration from STREAMINFO", async () => {
+    await expect(probe(buildFlac(44100 * 5))).resolves.toEqual({
+      format: "flac",
+      durationSeconds: 5,
+    });
+  });
+
+  it.each([
+    ["Opus", buildOgg("opus", 48_000 * 7 + 312), 7],
+    ["Vorbis", buildOgg("vorbis", 44_100 * 3), 3],
+  ])("reads Ogg %s duration from the last granule position", async (_codec, ogg, seconds) => {
+    await expect(probe(ogg)).resolves.toEqual({ format: "ogg", durationSeconds: seconds });
+  });
+
+  it("finds the M4A movie header after the media data", async () => {
+    await expect(probe(buildM4a(1000, 12_500))).resolves.toEqual({
+      format: "m4a",
+      durationSeconds: 12.5,
+    });
+  });
+
+  it("reads the WebM segment duration and tolerates recordings without one", async () => {
+    await expect(probe(buildWebm(9500))).resolves.toEqual({ format: "webm", durationSeconds: 9.5 });
+    await expect(probe(buildWebm())).resolves.toBeUndefined();
+  });
+
+  it("returns undefined for a WAV that ends inside its fmt chunk", async () => {
+    await expect(probe(buildWav(8000).subarray(0, 30))).resolves.toBeUndefined();
+  });
+
+  it("returns undefined for audio it cannot parse", async () => {
+    await expect(
+      probe(Buffer.from("definitely not audio, just some text")),
+    ).resolves.toBeUndefined();
+    await expect(probe(Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 1, 2, 3]))).resolves.toBeUndefined();
+  });
+});
+
+describe("parseAudioHeader", () => {
+  it("asks for more bytes until the header is complete", () => {
+    const wav = buildWav(8000);
+
+    expect(parseAudioHeader(wav.subarray(0, 20))).toBe("incomplete");
+    expect(parseAudioHeader(wav.subarray(0, 64))).toEqual({
+      format: "wav",
+      durationSeconds: 1,
+      constantBitrate: { dataOffset: 52, bytesPerSecond: 8000 },
+    });
+  });
+
+  it("treats a fmt chunk cut short as incomplete", () => {
+    const wav = buildWav(8000).subarray(0, 30);
+
+    expect(parseAudioHeader(wav)).toBe("incomplete");
+  });
+
+  it("reports no byte rate for variable-bitrate MP3", () => {
+    const header = parseAudioHeader(buildMp3(4096, { id: "Xing", frames: 10 }));
+
+    expect(header).toMatchObject({ format: "mp3" });
+    expect(header).not.toHaveProperty("constantBitrate");
+  });
+
+  it("leaves containers without a header duration to the full probe", () => {
+    expect(parseAudioHeader(buildOgg("opus", 48_000))).toBeUndefined();
+    expect(parseAudioHeader(buildM4a(1000, 1000))).toBeUndefined();
+  });
+});
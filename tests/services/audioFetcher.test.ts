@@ -0,0 +1,208 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from "fs";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+import {
+  AudioSummarizerError,
+  AudioSummarizerErrorCode,
+  summarizeMeetingAudio,
+} from "../../src/services/audioSummarizer";
+import { readAudioData } from "../../src/services/uploads/audioDataSource";
+import {
+  AudioFetchErrorCode,
+  createHttpAudioFetcher,
+  type HttpAudioFetcherOptions,
+} from "../../src/services/uploads/audioFetcher";
+
+/** Minimal PCM WAV: 8kHz mono 8-bit, so one second is 8000 bytes. */
+const buildWav = (seconds: number): Buffer => {
+  const dataLength = 8000 * seconds;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(8000, 24);
+  header.writeUInt32LE(8000, 28);
+  header.writeUInt16LE(1, 32);
+  header.writeUInt16LE(8, 34);
+  header.write("data", 36, "latin1");
+  header.writeUInt32LE(dataLength, 40);
+  return Buffer.concat([header, Buffer.alloc(dataLength, 0x80)]);
+};
+
+describe("createHttpAudioFetcher", () => {
+  let server: Server;
+  let baseUrl: string;
+  let directory: string;
+  const shortWav = buildWav(2);
+
+  const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+    "/short.wav": (_req, res) => {
+      res.writeHead(200, { "Content-Type": "audio/wav" });
+      res.end(shortWav);
+    },
+    "/long.wav": (_req, res) => {
+      // Chunked, so only the header reveals the duration.
+      const wav = buildWav(20);
+      res.writeHead(200, { "Content-Type": "audio/wav" });
+      res.write(wav.subarray(0, 44));
+      res.end(wav.subarray(44));
+    },
+    "/large.mp3": (_req, res) => {
+      res.writeHead(200, { "Content-Type": "audio/mpeg", "Content-Length": String(512 * 1024) });
+      res.end(Buffer.alloc(512 * 1024));
+    },
+    "/stalled.wav": (_req, res) => {
+      res.writeHead(200, { "Content-Type": "audio/wav" });
+      res.write(shortWav.subarray(0, 100));
+    },
+    "/redirect-local": (_req, res) => {
+      res.writeHead(302, { Location: "/short.wav" });
+      res.end();
+    },
+    "/redirect-away": (_req, res) => {
+      res.writeHead(302, { Location: baseUrl.replace("127.0.0.1", "localhost") + "/short.wav" });
+      res.end();
+    },
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const route = routes[new URL(req.url ?? "/", baseUrl).pathname];
+      if (route) {
+        route(req, res);
+        return;
+      }
+      res.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "audio-fetcher-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const createFetcher = (options: Partial<HttpAudioFetcherOptions> = {}) =>
+    createHttpAudioFetcher({
+      allowedHosts: ["127.0.0.1"],
+      maxSizeBytes: 256 * 1024,
+      maxDurationSeconds: 5,
+      timeoutMs: 1_000,
+      directory,
+      ...options,
+    });
+
+  it("downloads allow-listed audio into a temporary file", async () => {
+    const audio = await createFetcher()({ url: `${baseUrl}/short.wav?signature=secret` });
+
+    expect(audio.sizeBytes).toBe(shortWav.length);
+    expect(path.dirname(audio.path ?? "")).toBe(directory);
+    expect(Buffer.from(await readAudioData(audio))).toEqual(shortWav);
+
+    await audio.dispose();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it("follows redirects that stay on allow-listed hosts", async () => {
+    const audio = await createFetcher()({ url: `${baseUrl}/redirect-local` });
+
+    expect(audio.sizeBytes).toBe(shortWav.length);
+    await audio.dispose();
+  });
+
+  it.each([
+    [
+      "a host outside the allow-list",
+      "http://localhost:1/short.wav",
+      AudioFetchErrorCode.HOST_NOT_ALLOWED,
+    ],
+    ["a redirect outside the allow-list", "/redirect-away", AudioFetchErrorCode.HOST_NOT_ALLOWED],
+    ["a non-http scheme", "file:///etc/passwd", AudioFetchErrorCode.INVALID_URL],
+    ["a missing file", "/missing.wav", AudioFetchErrorCode.REQUEST_FAILED],
+    ["a declared size over the limit", "/large.mp3", AudioFetchErrorCode.SIZE_LIMIT_EXCEEDED],
+    [
+      "a recording over the duration limit",
+      "/long.wav",
+      AudioFetchErrorCode.DURATION_LIMIT_EXCEEDED,
+    ],
+    ["a stalled download", "/stalled.wav", AudioFetchErrorCode.TIMEOUT],
+  ])("rejects %s", async (_case, target, code) => {
+    const url = target.startsWith("/") ? `${baseUrl}${target}` : target;
+
+    await expect(createFetcher({ timeoutMs: 200 })({ url })).rejects.toMatchObject({ code });
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it("stops reading once the received bytes pass the size limit", async () => {
+    await expect(
+      createFetcher({ maxSizeBytes: 10_000, maxDurationSeconds: 60 })({
+        url: `${baseUrl}/long.wav`,
+      }),
+    ).rejects.toMatchObject({ code: AudioFetchErrorCode.SIZE_LIMIT_EXCEEDED });
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it("feeds downloaded audio to transcription and removes it afterwards", async () => {
+    let transcribed: Buffer | undefined;
+    const summary = await summarizeMeetingAudio({
+      audio: {
+        filename: "short.wav",
+        mimeType: "audio/wav",
+        durationSeconds: 2,
+        sizeBytes: 0,
+        url: `${baseUrl}/short.wav`,
+      },
+      dependencies: {
+        fetchAudio: createFetcher(),
+        transcribeAudio: async ({ audioData }) => {
+          transcribed = audioData && Buffer.from(await readAudioData(audioData));
+          return "We shipped the beta.";
+        },
+        generateHighlights: async () => [],
+      },
+    });
+
+    expect(summary.transcript).toBe("We shipped the beta.");
+    expect(transcribed).toEqual(shortWav);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it("reports disallowed audio URLs with a stable summarizer code", async () => {
+    const failure = await summarizeMeetingAudio({
+      audio: {
+        filename: "short.wav",
+        mimeType: "audio/wav",
+        durationSeconds: 2,
+        sizeBytes: 0,
+        url: "https://recordings.example.com/short.wav",
+      },
+      dependencies: {
+        fetchAudio: createFetcher(),
+        transcribeAudio: jest.fn(),
+        generateHighlights: jest.fn(),
+      },
+    }).catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(AudioSummarizerError);
+    expect(failure).toMatchObject({ code: AudioSummarizerErrorCode.AUDIO_SOURCE_NOT_ALLOWED });
+  });
+});
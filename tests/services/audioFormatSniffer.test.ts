@@ -0,0 +1,41 @@
+import { createBufferAudioDataSource } from "../../src/services/uploads/audioDataSource";
+import { detectAudioFormat, sniffAudioFormat } from "../../src/services/uploads/audioFormatSniffer";
+
+describe("sniffAudioFormat", () => {
+  it.each([
+    ["a RIFF/WAVE header", Buffer.from("RIFF$\u0000\u0000\u0000WAVEfmt ", "latin1"), "wav"],
+    ["an ID3v2 tag", Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 0]), "mp3"],
+    ["an MPEG-1 Layer III frame", Buffer.from([0xff, 0xfb, 0x90, 0x00]), "mp3"],
+    ["an MPEG-2 Layer III frame", Buffer.from([0xff, 0xf3, 0x50, 0xc4]), "mp3"],
+    [
+      "an ISO base media ftyp box",
+      Buffer.from("\u0000\u0000\u0000\u0018ftypM4A ", "latin1"),
+      "m4a",
+    ],
+    ["an Ogg page", Buffer.from("OggS\u0000\u0002", "latin1"), "ogg"],
+    ["an EBML header", Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f]), "webm"],
+    ["a FLAC stream marker", Buffer.from("fLaC\u0000\u0000\u0000\u0022", "latin1"), "flac"],
+  ])("recognizes %s", (_case, header, format) => {
+    expect(sniffAudioFormat(header)).toBe(format);
+  });
+
+  it.each([
+    ["a PDF", Buffer.from("%PDF-1.7\n", "latin1")],
+    ["a RIFF container that is not WAVE", Buffer.from("RIFF$\u0000\u0000\u0000AVI LIST", "latin1")],
+    ["a frame sync with a reserved MPEG version", Buffer.from([0xff, 0xeb, 0x90, 0x00])],
+    ["empty content", Buffer.alloc(0)],
+  ])("rejects %s", (_case, header) => {
+    expect(sniffAudioFormat(header)).toBeUndefined();
+  });
+});
+
+describe("detectAudioFormat", () => {
+  it("sniffs the start of an audio data source", async () => {
+    const wav = Buffer.concat([
+      Buffer.from("RIFF$\u0000\u0000\u0000WAVE", "latin1"),
+      Buffer.alloc(64),
+    ]);
+
+    await expect(detectAudioFormat(createBufferAudioDataSource(wav))).resolves.toBe("wav");
+  });
+});
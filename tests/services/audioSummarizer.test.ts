@@ -4,6 +4,7 @@ import {
   type AudioSummarizerDependencies,
 } from "../../src/services/audioSummarizer";
 import { type MeetingAudioUpload } from "../../src/types/newsletter";
+import { createBufferAudioDataSource } from "../../src/services/uploads/audioDataSource";
 
 const createAudio = (overrides: Partial<MeetingAudioUpload> = {}): MeetingAudioUpload => ({
   filename: "recap.mp3",
@@ -38,7 +39,7 @@ describe("summarizeMeetingAudio", () => {
   it("returns highlights and transcript metadata when dependencies succeed", async () => {
     const audio = createAudio();
     const dependencies = createDependencies();
-    const audioData = new Uint8Array([1, 2, 3]);
+    const audioData = createBufferAudioDataSource(new Uint8Array([1, 2, 3]));
 
     const result = await summarizeMeetingAudio({
       audio,
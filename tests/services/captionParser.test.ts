@@ -0,0 +1,110 @@
+import { parseSrt, parseWebVtt } from "../../src/services/transcripts/captionParser";
+import { parseTranscript } from "../../src/services/transcripts/transcriptParser";
+
+const WEBVTT = `\uFEFFWEBVTT - standup recording
+Kind: captions
+
+NOTE Exported from the meeting tool
+
+STYLE
+::cue { color: white; }
+
+intro
+00:00:01.000 --> 00:00:04.500 align:start position:10%
+<v Priya Shah>We decided to ship the beta
+<v Priya Shah>on Friday.</v>
+
+00:00:04.500 --> 00:00:07.250
+Sam: I&apos;ll handle the <b>release notes</b> &amp; changelog.
+
+01:00:07.250 --> 01:00:09.000
+Sam: Next steps: ping design.
+Priya Shah: Thanks, everyone.
+`;
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,000
+<i>Alex:</i> Kickoff for the Q3 plan.
+
+2
+00:00:03,000 --> 00:00:05,500
+We agreed to freeze scope
+on Monday.
+
+3
+00:00:05,500 --> 00:00:06,000
+
+`;
+
+describe("parseWebVtt", () => {
+  it("reduces cues to speaker turns and keeps their timing", () => {
+    const parsed = parseWebVtt(WEBVTT);
+
+    expect(parsed?.text).toBe(
+      [
+        "Priya Shah: We decided to ship the beta on Friday.",
+        "Sam: I'll handle the release notes & changelog. Next steps: ping design.",
+        "Priya Shah: Thanks, everyone.",
+      ].join("\n"),
+    );
+    expect(parsed?.segments).toEqual([
+      {
+        startTimeSeconds: 1,
+        endTimeSeconds: 4.5,
+        speaker: "Priya Shah",
+        text: "We decided to ship the beta on Friday.",
+      },
+      {
+        startTimeSeconds: 4.5,
+        endTimeSeconds: 7.25,
+        speaker: "Sam",
+        text: "I'll handle the release notes & changelog.",
+      },
+      {
+        startTimeSeconds: 3607.25,
+        endTimeSeconds: 3609,
+        speaker: "Sam",
+        text: "Next steps: ping design.",
+      },
+      {
+        startTimeSeconds: 3607.25,
+        endTimeSeconds: 3609,
+        speaker: "Priya Shah",
+        text: "Thanks, everyone.",
+      },
+    ]);
+  });
+
+  it("rejects content without the WEBVTT signature or any cues", () => {
+    expect(parseWebVtt(SRT)).toBeUndefined();
+    expect(parseWebVtt("WEBVTT\n\nNOTE nothing was said\n")).toBeUndefined();
+  });
+});
+
+describe("parseSrt", () => {
+  it("drops cue numbers, timestamps, markup and empty cues", () => {
+    const parsed = parseSrt(SRT);
+
+    expect(parsed?.text).toBe(
+      "Alex: Kickoff for the Q3 plan.\nWe agreed to freeze scope on Monday.",
+    );
+    expect(parsed?.segments).toEqual([
+      { startTimeSeconds: 1, endTimeSeconds: 3, speaker: "Alex", text: "Kickoff for the Q3 plan." },
+      { startTimeSeconds: 3, endTimeSeconds: 5.5, text: "We agreed to freeze scope on Monday." },
+    ]);
+  });
+
+  it("returns undefined when no cues are found", () => {
+    expect(parseSrt("Just some pasted notes.\nNo timings here.")).toBeUndefined();
+  });
+});
+
+describe("parseTranscript", () => {
+  it("keeps plain text as written and dispatches caption formats", () => {
+    expect(parseTranscript("  Alex: hello there.  ", "plain")).toEqual({
+      text: "Alex: hello there.",
+    });
+    expect(parseTranscript(SRT, "srt")?.segments).toHaveLength(2);
+    expect(parseTranscript(SRT, "webvtt")).toBeUndefined();
+  });
+});
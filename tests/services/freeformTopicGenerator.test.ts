@@ -45,7 +45,7 @@ describe("freeformTopicGenerator", () => {
         summary: " We shipped the new feature. ",
         decisions: [
           { id: "d1", summary: " Launch the beta ", source: "both" },
-          { id: "d2", summary: "  " },
+          { id: "d2", summary: "  ", source: "both" },
         ],
         insights: [
           { id: "i1", summary: " Customers love the speed ", source: "recap" },
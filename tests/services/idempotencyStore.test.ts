@@ -0,0 +1,91 @@
+import {
+  createInMemoryIdempotencyStore,
+  createRequestFingerprint,
+} from "../../src/services/idempotency/idempotencyStore";
+import { type ParsedUploadBody } from "../../src/services/validation/newsletterUploadValidator";
+
+describe("createInMemoryIdempotencyStore", () => {
+  const createClock = (start = Date.parse("2024-04-01T10:00:00.000Z")) => {
+    let current = start;
+    return {
+      now: () => new Date(current),
+      advance: (ms: number) => {
+        current += ms;
+      },
+    };
+  };
+
+  it("replays the stored response for repeats with the same fingerprint", async () => {
+    const store = createInMemoryIdempotencyStore();
+
+    await expect(store.reserve("key-1", "fingerprint-a")).resolves.toEqual({ status: "reserved" });
+    await expect(store.reserve("key-1", "fingerprint-a")).resolves.toEqual({ status: "in_progress" });
+
+    await store.complete("key-1", { statusCode: 200, body: { message: "done" } });
+
+    await expect(store.reserve("key-1", "fingerprint-a")).resolves.toEqual({
+      status: "replay",
+      response: { statusCode: 200, body: { message: "done" } },
+    });
+  });
+
+  it("rejects a reused key with a different fingerprint", async () => {
+    const store = createInMemoryIdempotencyStore();
+
+    await store.reserve("key-1", "fingerprint-a");
+    await store.complete("key-1", { statusCode: 200, body: {} });
+
+    await expect(store.reserve("key-1", "fingerprint-b")).resolves.toEqual({ status: "conflict" });
+  });
+
+  it("frees released and expired keys", async () => {
+    const clock = createClock();
+    const store = createInMemoryIdempotencyStore({ ttlMs: 60_000, now: clock.now });
+
+    await store.reserve("failed", "fingerprint-a");
+    await store.release("failed");
+    await expect(store.reserve("failed", "fingerprint-b")).resolves.toEqual({ status: "reserved" });
+
+    await store.reserve("expiring", "fingerprint-a");
+    await store.complete("expiring", { statusCode: 202, body: {}, location: "/newsletters/jobs/1" });
+    clock.advance(60_000);
+
+    await expect(store.reserve("expiring", "fingerprint-b")).resolves.toEqual({ status: "reserved" });
+  });
+
+  it("evicts the oldest completed keys when full but keeps pending reservations", async () => {
+    const store = createInMemoryIdempotencyStore({ maxEntries: 2 });
+
+    await store.reserve("running", "fingerprint-a");
+    await store.reserve("done", "fingerprint-a");
+    await store.complete("done", { statusCode: 200, body: {} });
+    await store.reserve("newer", "fingerprint-a");
+    await store.reserve("newest", "fingerprint-a");
+
+    await expect(store.reserve("running", "fingerprint-a")).resolves.toEqual({
+      status: "in_progress",
+    });
+    await expect(store.reserve("done", "fingerprint-b")).resolves.toEqual({ status: "reserved" });
+  });
+});
+
+describe("createRequestFingerprint", () => {
+  const payload: ParsedUploadBody = {
+    meetingRecapText: "Recap",
+    meetingRecapAuthor: "Jordan",
+    transcriptText: "Transcript",
+  };
+
+  it("ignores key order but reflects audio bytes and the async flag", () => {
+    const reordered: ParsedUploadBody = {
+      transcriptText: "Transcript",
+      meetingRecapAuthor: "Jordan",
+      meetingRecapText: "Recap",
+    };
+    const base = createRequestFingerprint({ payload });
+
+    expect(createRequestFingerprint({ payload: reordered })).toBe(base);
+    expect(createRequestFingerprint({ payload, async: true })).not.toBe(base);
+    expect(createRequestFingerprint({ payload, audioSha256: "a".repeat(64) })).not.toBe(base);
+  });
+});
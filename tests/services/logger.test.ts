@@ -0,0 +1,77 @@
+import { combineProgressReporters } from "../../src/services/pipelineProgress";
+import { createJsonLogger, createStageLogReporter } from "../../src/services/logging/logger";
+import { TranscriptSynthesizerError, TranscriptSynthesizerErrorCode } from "../../src/services/transcriptSynthesizer";
+
+describe("createJsonLogger", () => {
+  const createCapture = () => {
+    const lines: string[] = [];
+    return {
+      write: (line: string) => lines.push(line),
+      entries: () => lines.map((line) => JSON.parse(line) as Record<string, unknown>),
+    };
+  };
+  const now = () => new Date("2024-04-01T10:00:00.000Z");
+
+  it("writes one JSON line per entry, dropping levels below the threshold", () => {
+    const capture = createCapture();
+    const logger = createJsonLogger({ level: "info", write: capture.write, now });
+
+    logger.debug("Skipped");
+    logger.child({ correlationId: "req-1" }).info("Newsletter assembled", { durationMs: 42 });
+
+    expect(capture.entries()).toEqual([
+      {
+        timestamp: "2024-04-01T10:00:00.000Z",
+        level: "info",
+        message: "Newsletter assembled",
+        correlationId: "req-1",
+        durationMs: 42,
+      },
+    ]);
+  });
+
+  it("serializes errors with their domain code", () => {
+    const capture = createCapture();
+    const logger = createJsonLogger({ write: capture.write, now });
+
+    logger.error("Synthesis failed", {
+      error: new TranscriptSynthesizerError(
+        TranscriptSynthesizerErrorCode.SUMMARY_FAILED,
+        "Summary failed",
+      ),
+    });
+
+    expect(capture.entries()[0].error).toMatchObject({
+      message: "Summary failed",
+      code: TranscriptSynthesizerErrorCode.SUMMARY_FAILED,
+    });
+  });
+});
+
+describe("createStageLogReporter", () => {
+  it("logs stage timings and failure codes alongside other reporters", () => {
+    const lines: string[] = [];
+    const received: string[] = [];
+    const reporter = combineProgressReporters(
+      (event) => received.push(`${event.stage}:${event.status}`),
+      createStageLogReporter(createJsonLogger({ write: (line) => lines.push(line) })),
+    );
+
+    reporter?.({
+      stage: "summary",
+      status: "failed",
+      timestamp: "2024-04-01T10:00:00.000Z",
+      durationMs: 12,
+      errorCode: "SUMMARY_FAILED",
+    });
+
+    expect(received).toEqual(["summary:failed"]);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: "warn",
+      stage: "summary",
+      status: "failed",
+      durationMs: 12,
+      errorCode: "SUMMARY_FAILED",
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { createMetricsRegistry } from "../../src/services/metrics/metricsRegistry";
+import { createNewsletterMetrics } from "../../src/services/metrics/newsletterMetrics";
+import {
+  TranscriptSynthesizerError,
+  TranscriptSynthesizerErrorCode,
+} from "../../src/services/transcriptSynthesizer";
+
+describe("createMetricsRegistry", () => {
+  it("renders counters and cumulative histograms in Prometheus text format", () => {
+    const registry = createMetricsRegistry();
+    const requests = registry.counter({ name: "requests_total", help: "Requests." });
+    const latency = registry.histogram({ name: "latency_seconds", help: "Latency.", buckets: [1, 0.5] });
+
+    requests.inc({ route: "/newsletters", method: "POST" });
+    requests.inc({ method: "POST", route: "/newsletters" }, 2);
+    latency.observe(0.25);
+    latency.observe(0.75);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests.",
+        "# TYPE requests_total counter",
+        'requests_total{method="POST",route="/newsletters"} 3',
+        "# HELP latency_seconds Latency.",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{le="0.5"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 2',
+        "latency_seconds_sum 1",
+        "latency_seconds_count 2",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("returns the existing metric for a repeated name and rejects type clashes", () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter({ name: "events_total", help: "Events." });
+
+    expect(registry.counter({ name: "events_total", help: "Events." })).toBe(counter);
+    expect(() => registry.histogram({ name: "events_total", help: "Events.", buckets: [1] })).toThrow();
+  });
+});
+
+describe("createNewsletterMetrics", () => {
+  it("counts service errors by code and flagged truncations", async () => {
+    const registry = createMetricsRegistry();
+    const metrics = createNewsletterMetrics(registry);
+
+    await metrics.track("transcript", async () => ({ truncated: true }), (result) => result.truncated);
+    await expect(
+      metrics.track("transcript", async () => {
+        throw new TranscriptSynthesizerError(TranscriptSynthesizerErrorCode.SUMMARY_FAILED, "Failed");
+      }),
+    ).rejects.toBeInstanceOf(TranscriptSynthesizerError);
+    metrics.reportProgress({
+      stage: "summary",
+      status: "completed",
+      timestamp: "2024-04-01T10:00:00.000Z",
+      durationMs: 1500,
+    });
+
+    const output = registry.render();
+
+    expect(output).toContain(
+      'newsletter_service_errors_total{code="SUMMARY_FAILED",source="transcript"} 1',
+    );
+    expect(output).toContain('newsletter_truncation_events_total{source="transcript"} 1');
+    expect(output).toContain(
+      'newsletter_stage_duration_seconds_count{stage="summary",status="completed"} 1',
+    );
+    expect(output).toContain(
+      'newsletter_stage_duration_seconds_sum{stage="summary",status="completed"} 1.5',
+    );
+  });
+});
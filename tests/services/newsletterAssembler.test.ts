@@ -1,10 +1,14 @@
-import { assembleNewsletter } from "../../src/services/newsletterAssembler";
+import {
+  assembleNewsletter,
+  regenerateNewsletterSection,
+} from "../../src/services/newsletterAssembler";
 import {
   type ActionItem,
   type AudioHighlightsSummary,
   type NewsletterGenerationRequest,
   type TranscriptSynthesisResult,
 } from "../../src/types/newsletter";
+import { createBufferAudioDataSource } from "../../src/services/uploads/audioDataSource";
 
 describe("assembleNewsletter", () => {
   const createRequest = (
@@ -89,7 +93,9 @@ describe("assembleNewsletter", () => {
     const request = createRequest();
     const audioSummary = createAudioSummary();
     const transcriptResult = createTranscriptSynthesis();
-    const generateId = jest.fn(() => `sec-${generateId.mock.calls.length + 1}`);
+    const generateId: jest.Mock<string, []> = jest.fn(
+      () => `sec-${generateId.mock.calls.length + 1}`,
+    );
     const now = jest.fn(() => new Date("2024-03-01T12:00:00.000Z"));
     const generateFreeformTopic = jest.fn(async () => ({
       prompt: request.freeformTopicPrompt,
@@ -107,7 +113,7 @@ describe("assembleNewsletter", () => {
 
     const response = await assembleNewsletter({
       request,
-      audioData: new Uint8Array([1, 2, 3]),
+      audioData: createBufferAudioDataSource(new Uint8Array([1, 2, 3])),
       dependencies: {
         summarizeAudio: jest.fn(async () => audioSummary),
         synthesizeContent: jest.fn(async () => transcriptResult),
@@ -215,4 +221,129 @@ describe("assembleNewsletter", () => {
     expect(response.sections.closing.body).toContain("Note: Audio truncated");
     expect(response.warnings).toEqual(["Audio truncated"]);
   });
+  it("credits speakers of decisions and insights", async () => {
+    const transcriptResult = createTranscriptSynthesis({
+      decisions: [{ id: "d1", summary: "Ship Friday", source: "transcript", speaker: "Priya" }],
+      insights: [
+        {
+          id: "i1",
+          summary: "Speed matters",
+          quote: "Fast wins",
+          source: "transcript",
+          speaker: "Sam",
+        },
+        { id: "i2", summary: "Docs lag behind", source: "transcript", speaker: "Alex" },
+      ],
+    });
+
+    const response = await assembleNewsletter({
+      request: createRequest(),
+      dependencies: {
+        synthesizeContent: jest.fn(async () => transcriptResult),
+        summarizeAudio: jest.fn(async () => createAudioSummary()),
+      },
+    });
+
+    const [decisions, insights] = response.sections.mainUpdates;
+    expect(decisions.body).toBe("• Ship Friday \u2014 Decided by Priya");
+    expect(insights.body).toContain('• Speed matters \u2014 Quote: "Fast wins" (Sam)');
+    expect(insights.body).toContain("• Docs lag behind \u2014 Shared by Alex");
+  });
+});
+
+describe("regenerateNewsletterSection", () => {
+  const request: NewsletterGenerationRequest = {
+    meetingRecap: { text: "We decided to ship the beta." },
+    transcript: { text: "Alex will draft the release notes." },
+    freeformTopicPrompt: { topic: "Team Wins", instructions: "Keep it short." },
+  };
+
+  const createNewsletter = async () =>
+    (
+      await assembleNewsletter({
+        request,
+        dependencies: {
+          synthesizeContent: jest.fn(async () => ({
+            summary: "Beta ships next week.",
+            decisions: [{ id: "d1", summary: "Ship the beta", source: "recap" as const }],
+            insights: [{ id: "i1", summary: "Feedback is positive", source: "both" as const }],
+            actionItems: [{ id: "a1", summary: "Draft release notes" }],
+            metadata: { usedRecap: true, usedTranscript: true, combinedCharacterCount: 60 },
+          })),
+        },
+      })
+    ).sections;
+
+  it("reruns only the stage behind the requested section", async () => {
+    const newsletter = await createNewsletter();
+    const synthesizeStage = jest.fn(async () => ({
+      decisions: [{ id: "d2", summary: "Delay the launch by a week", source: "transcript" as const }],
+    }));
+
+    const result = await regenerateNewsletterSection({
+      request,
+      newsletter,
+      sectionId: "main-updates-decisions",
+      instructions: "  Mention the launch date.  ",
+      dependencies: { synthesizeStage },
+    });
+
+    expect(synthesizeStage).toHaveBeenCalledTimes(1);
+    expect(synthesizeStage).toHaveBeenCalledWith({
+      stage: "decisions",
+      meetingRecap: request.meetingRecap,
+      transcript: request.transcript,
+      instructions: "Mention the launch date.",
+    });
+    expect(result).toEqual({
+      kind: "decisions",
+      section: {
+        id: "main-updates-decisions",
+        title: "Key Decisions",
+        body: "• Delay the launch by a week",
+      },
+    });
+  });
+
+  it("regenerates the freeform topic with the extra instructions appended to the prompt", async () => {
+    const newsletter = await createNewsletter();
+    const synthesizeStage = jest.fn();
+    const generateFreeformTopic = jest.fn(async () => ({
+      title: "Team Wins Revisited",
+      body: "Fresh copy.",
+    }));
+
+    const result = await regenerateNewsletterSection({
+      request,
+      newsletter,
+      sectionId: "freeform-topic",
+      instructions: "Thank the QA team.",
+      dependencies: { synthesizeStage, generateFreeformTopic },
+    });
+
+    expect(synthesizeStage).not.toHaveBeenCalled();
+    expect(generateFreeformTopic).toHaveBeenCalledWith({
+      prompt: { topic: "Team Wins", instructions: "Keep it short.\n\nThank the QA team." },
+      context: expect.objectContaining({ actionItems: newsletter.actionItems.items }),
+    });
+    expect(result?.section).toEqual({
+      id: "freeform-topic",
+      title: "Team Wins Revisited",
+      body: "Fresh copy.",
+    });
+    expect(result?.freeformTopic?.toneGuidance).toContain("Friendly internal tone");
+  });
+
+  it("returns undefined for sections that no stage owns", async () => {
+    const newsletter = await createNewsletter();
+
+    await expect(
+      regenerateNewsletterSection({
+        request,
+        newsletter,
+        sectionId: "unknown-section",
+        dependencies: { synthesizeStage: jest.fn() },
+      }),
+    ).resolves.toBeUndefined();
+  });
 });
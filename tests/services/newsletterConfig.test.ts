@@ -0,0 +1,98 @@
+import {
+  DEFAULT_NEWSLETTER_CONFIG,
+  loadNewsletterConfig,
+  NewsletterConfigError,
+  parseNewsletterConfig,
+} from "../../src/services/config/newsletterConfig";
+import { DEFAULT_NEWSLETTER_LIMITS } from "../../src/types/newsletter";
+
+describe("parseNewsletterConfig", () => {
+  it("fills unspecified limits from the base configuration", () => {
+    const result = parseNewsletterConfig({ limits: { maxRecapLength: 2500 } });
+
+    expect(result).toEqual({
+      success: true,
+      data: { limits: { ...DEFAULT_NEWSLETTER_LIMITS, maxRecapLength: 2500 } },
+    });
+  });
+
+  it("rejects unknown keys, non-integer limits and inconsistent highlight counts", () => {
+    const result = parseNewsletterConfig({
+      extra: true,
+      limits: { maxRecapLenght: 10, maxTranscriptLength: -5, defaultHighlightCount: 12 },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        { field: "extra", message: "Unknown configuration key.", code: "INVALID_FORMAT" },
+        { field: "limits.maxRecapLenght", message: "Unknown limit.", code: "INVALID_FORMAT" },
+        {
+          field: "limits.maxTranscriptLength",
+          message: "Limits must be positive integers.",
+          code: "INVALID_FORMAT",
+        },
+        {
+          field: "limits.defaultHighlightCount",
+          message: "Default highlight count must not exceed the maximum (10).",
+          code: "LIMIT_EXCEEDED",
+        },
+      ]);
+    }
+  });
+});
+
+describe("loadNewsletterConfig", () => {
+  it("returns the defaults when nothing is configured", () => {
+    expect(loadNewsletterConfig({ env: {} })).toEqual(DEFAULT_NEWSLETTER_CONFIG);
+  });
+
+  it("layers environment overrides on top of the config file", () => {
+    const readFile = jest.fn().mockReturnValue(
+      JSON.stringify({ limits: { maxRecapLength: 3000, maxFreeformTopicLength: 80 } }),
+    );
+
+    const config = loadNewsletterConfig({
+      env: {
+        NEWSLETTER_CONFIG_FILE: "/etc/newsletter.json",
+        NEWSLETTER_MAX_RECAP_LENGTH: " 6000 ",
+        NEWSLETTER_MAX_UPLOAD_BYTES: "1048576",
+      },
+      readFile,
+    });
+
+    expect(readFile).toHaveBeenCalledWith("/etc/newsletter.json");
+    expect(config.limits).toEqual({
+      ...DEFAULT_NEWSLETTER_LIMITS,
+      maxRecapLength: 6000,
+      maxFreeformTopicLength: 80,
+      maxUploadSizeBytes: 1048576,
+    });
+  });
+
+  it("reports every invalid environment value", () => {
+    const load = () =>
+      loadNewsletterConfig({
+        env: { NEWSLETTER_MAX_RECAP_LENGTH: "lots", NEWSLETTER_SUMMARY_MAX_LENGTH: "0" },
+      });
+
+    expect(load).toThrow(NewsletterConfigError);
+    try {
+      load();
+    } catch (error) {
+      expect((error as NewsletterConfigError).errors.map((detail) => detail.field)).toEqual([
+        "NEWSLETTER_MAX_RECAP_LENGTH",
+        "NEWSLETTER_SUMMARY_MAX_LENGTH",
+      ]);
+    }
+  });
+
+  it("rejects config files that are not valid JSON", () => {
+    expect(() =>
+      loadNewsletterConfig({
+        env: { NEWSLETTER_CONFIG_FILE: "limits.json" },
+        readFile: () => "{ limits:",
+      }),
+    ).toThrow(/Config file is not valid JSON/);
+  });
+});
@@ -0,0 +1,93 @@
+import { diffNewsletterRevisions } from "../../src/services/drafts/newsletterDraftDiff";
+import { type StructuredNewsletter } from "../../src/types/newsletter";
+
+describe("diffNewsletterRevisions", () => {
+  const base: StructuredNewsletter = {
+    introduction: { id: "introduction", title: "Introduction", body: "Intro" },
+    mainUpdates: [
+      { id: "main-updates-decisions", title: "Key Decisions", body: "• Ship it" },
+      {
+        id: "main-updates-highlights",
+        title: "Highlights & Insights",
+        body: "• Great quarter",
+        highlights: ["Revenue up"],
+      },
+    ],
+    actionItems: {
+      id: "action-items",
+      title: "Action Items",
+      body: "• Write notes",
+      items: [
+        { id: "a1", summary: "Write notes", owner: "Jamie" },
+        { id: "a2", summary: "Book room" },
+      ],
+    },
+    closing: { id: "closing", title: "Closing", body: "Thanks" },
+    freeformTopic: { title: "Team Wins", body: "Shout-outs" },
+  };
+
+  it("returns no sections when revisions are identical", () => {
+    expect(
+      diffNewsletterRevisions({ fromRevisionId: "r1", toRevisionId: "r2", from: base, to: base }).sections,
+    ).toEqual([]);
+  });
+
+  it("reports modified, added and removed sections with field-level changes", () => {
+    const next: StructuredNewsletter = {
+      ...base,
+      introduction: { ...base.introduction, title: "Welcome" },
+      mainUpdates: [
+        { ...base.mainUpdates[1], highlights: ["Revenue up", "Churn down"] },
+        { id: "main-updates-overview", title: "Main Updates", body: "Quiet week" },
+      ],
+      actionItems: {
+        ...base.actionItems,
+        items: [
+          { id: "a1", summary: "Write notes", owner: "Casey", dueDate: "2024-06-01" },
+          { id: "a3", summary: "Send survey" },
+        ],
+      },
+      freeformTopic: { ...base.freeformTopic, body: "More shout-outs" },
+    };
+
+    const diff = diffNewsletterRevisions({ fromRevisionId: "r1", toRevisionId: "r2", from: base, to: next });
+
+    expect(diff.fromRevisionId).toBe("r1");
+    expect(diff.toRevisionId).toBe("r2");
+    expect(diff.sections).toEqual([
+      {
+        sectionId: "introduction",
+        title: "Welcome",
+        change: "modified",
+        fields: [{ field: "title", before: "Introduction", after: "Welcome" }],
+      },
+      {
+        sectionId: "main-updates-highlights",
+        title: "Highlights & Insights",
+        change: "modified",
+        fields: [
+          { field: "highlights", before: ["Revenue up"], after: ["Revenue up", "Churn down"] },
+        ],
+      },
+      expect.objectContaining({ sectionId: "main-updates-overview", change: "added" }),
+      {
+        sectionId: "action-items",
+        title: "Action Items",
+        change: "modified",
+        fields: [
+          { field: "items.a1.owner", before: "Jamie", after: "Casey" },
+          { field: "items.a1.dueDate", after: "2024-06-01" },
+          { field: "items.a3", after: "Send survey" },
+          { field: "items.a2", before: "Book room" },
+        ],
+      },
+      {
+        sectionId: "freeform-topic",
+        title: "Team Wins",
+        change: "modified",
+        fields: [{ field: "body", before: "Shout-outs", after: "More shout-outs" }],
+      },
+      expect.objectContaining({ sectionId: "main-updates-decisions", change: "removed" }),
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+
+import {
+  createFileNewsletterDraftStorage,
+  createNewsletterDraftRepository,
+} from "../../src/services/drafts/newsletterDraftRepository";
+import {
+  type NewsletterGenerationResponse,
+  type NewsletterUploadPayload,
+} from "../../src/types/newsletter";
+
+describe("newsletter draft repository", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "newsletter-drafts-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const payload: NewsletterUploadPayload = {
+    meetingRecap: { text: "Sprint review recap" },
+    transcript: { text: "Sprint review transcript" },
+  };
+
+  const newsletter: NewsletterGenerationResponse = {
+    sections: {
+      introduction: { id: "introduction", title: "Introduction", body: "Intro" },
+      mainUpdates: [{ id: "main-updates-overview", title: "Main Updates", body: "Updates" }],
+      actionItems: { id: "action-items", title: "Action Items", body: "", items: [] },
+      closing: { id: "closing", title: "Closing", body: "Thanks" },
+      freeformTopic: { title: "Additional Topic", body: "Freeform" },
+    },
+    metadata: { createdAt: "2024-05-01T12:00:00.000Z", audioSummaryIncluded: false },
+  };
+
+  const createRepository = () => {
+    let current = new Date("2024-05-01T12:00:00.000Z").getTime();
+    return createNewsletterDraftRepository({
+      storage: createFileNewsletterDraftStorage({ directory }),
+      generateId: () => `draft-${current}`,
+      now: () => new Date((current += 1_000)),
+    });
+  };
+
+  it("persists drafts to disk and reloads them with edits", async () => {
+    const repository = createRepository();
+
+    const created = await repository.create({ payload, newsletter });
+    expect((await readdir(directory)).sort()).toEqual([
+      `${created.id}.json`,
+      `${created.id}.revisions.json`,
+    ]);
+
+    const editedSections = {
+      ...newsletter.sections,
+      closing: { ...newsletter.sections.closing, body: "Thanks, team!" },
+    };
+    await repository.updateSections(created.id, editedSections);
+
+    const reloaded = await createRepository().get(created.id);
+    expect(reloaded).toMatchObject({
+      id: created.id,
+      payload,
+      newsletter,
+      sections: editedSections,
+    });
+    expect(reloaded?.updatedAt).not.toBe(created.updatedAt);
+  });
+
+  it("lists summaries and deletes drafts", async () => {
+    const repository = createRepository();
+    const first = await repository.create({ payload, newsletter });
+    const second = await repository.create({
+      payload: { ...payload, meetingRecap: { text: "Planning recap" } },
+      newsletter,
+    });
+
+    const summaries = await repository.list();
+    expect(summaries.map((summary) => summary.id)).toEqual([second.id, first.id]);
+    expect(summaries[0].title).toBe("Planning recap");
+
+    expect(await repository.delete(first.id)).toBe(true);
+    expect(await repository.delete(first.id)).toBe(false);
+    expect(await repository.get(first.id)).toBeUndefined();
+  });
+
+  it("records revisions for every save and restores earlier ones", async () => {
+    const repository = createRepository();
+    const created = await repository.create({ payload, newsletter });
+
+    const edited = await repository.updateSections(
+      created.id,
+      {
+        ...newsletter.sections,
+        introduction: { ...newsletter.sections.introduction, body: "Edited intro" },
+      },
+      { author: "Riley" },
+    );
+
+    const revisions = await repository.listRevisions(created.id);
+    expect(revisions).toEqual([
+      expect.objectContaining({ number: 1, reason: "generated", id: created.currentRevisionId }),
+      expect.objectContaining({ number: 2, reason: "edited", author: "Riley", id: edited?.currentRevisionId }),
+    ]);
+    expect(revisions?.[0]).not.toHaveProperty("sections");
+
+    const diff = await repository.diffRevisions(created.id, revisions![0].id, revisions![1].id);
+    expect(diff?.sections).toEqual([
+      {
+        sectionId: "introduction",
+        title: "Introduction",
+        change: "modified",
+        fields: [{ field: "body", before: "Intro", after: "Edited intro" }],
+      },
+    ]);
+
+    const restored = await repository.restoreRevision(created.id, revisions![0].id);
+    expect(restored?.sections.introduction.body).toBe("Intro");
+    expect(await repository.listRevisions(created.id)).toHaveLength(3);
+    expect((await repository.getRevision(created.id, restored!.currentRevisionId))).toMatchObject({
+      reason: "restored",
+      restoredFromRevisionId: revisions![0].id,
+    });
+
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it("numbers revisions from concurrent saves of one draft without losing any", async () => {
+    let counter = 0;
+    const repository = createNewsletterDraftRepository({
+      storage: createFileNewsletterDraftStorage({ directory }),
+      generateId: () => `id-${++counter}`,
+    });
+    const created = await repository.create({ payload, newsletter });
+    const withIntro = (body: string) => ({
+      ...newsletter.sections,
+      introduction: { ...newsletter.sections.introduction, body },
+    });
+
+    const saved = await Promise.all([
+      repository.updateSections(created.id, withIntro("First edit")),
+      repository.updateSections(created.id, withIntro("Second edit")),
+      repository.updateSections(created.id, withIntro("Third edit")),
+    ]);
+
+    const revisions = await repository.listRevisions(created.id);
+    expect(revisions?.map((revision) => revision.number)).toEqual([1, 2, 3, 4]);
+    expect(revisions?.map((revision) => revision.id)).toEqual([
+      created.currentRevisionId,
+      ...saved.map((draft) => draft?.currentRevisionId),
+    ]);
+    expect(await repository.get(created.id)).toMatchObject({
+      currentRevisionId: saved[2]?.currentRevisionId,
+      sections: withIntro("Third edit"),
+    });
+  });
+
+  it("ignores ids that could escape the storage directory", async () => {
+    const repository = createRepository();
+
+    expect(await repository.get("../secrets")).toBeUndefined();
+    expect(await repository.updateSections("../secrets", newsletter.sections)).toBeUndefined();
+    expect(await repository.delete("../secrets")).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { createInMemoryNewsletterJobStore } from "../../src/services/jobs/newsletterJobStore";
+import { createJsonLogger } from "../../src/services/logging/logger";
+import { type NewsletterUploadPayload } from "../../src/types/newsletter";
+
+describe("createInMemoryNewsletterJobStore", () => {
+  const payload: NewsletterUploadPayload = {
+    meetingRecap: { text: "Recap" },
+    transcript: { text: "Transcript" },
+  };
+
+  const createClock = (start: string) => {
+    let current = new Date(start).getTime();
+    return {
+      now: () => new Date(current),
+      advance: (ms: number) => {
+        current += ms;
+      },
+    };
+  };
+
+  it("creates queued jobs and records status transitions", async () => {
+    const clock = createClock("2024-05-01T12:00:00.000Z");
+    const store = createInMemoryNewsletterJobStore({
+      generateId: () => "job-1",
+      now: clock.now,
+    });
+
+    const created = await store.create(payload);
+    expect(created).toEqual({
+      id: "job-1",
+      status: "queued",
+      createdAt: "2024-05-01T12:00:00.000Z",
+      updatedAt: "2024-05-01T12:00:00.000Z",
+      payload,
+      progress: [],
+    });
+
+    clock.advance(1_000);
+    await store.update("job-1", { status: "running" });
+    clock.advance(1_000);
+    const failed = await store.update("job-1", {
+      status: "failed",
+      errors: [{ field: "form", message: "Boom" }],
+    });
+
+    expect(failed).toMatchObject({
+      status: "failed",
+      updatedAt: "2024-05-01T12:00:02.000Z",
+      errors: [{ field: "form", message: "Boom" }],
+    });
+    expect(await store.get("job-1")).toEqual(failed);
+  });
+
+  it("appends progress events and notifies subscribers", async () => {
+    const store = createInMemoryNewsletterJobStore({ generateId: () => "job-1" });
+    const listener = jest.fn();
+
+    await store.create(payload);
+    const unsubscribe = store.subscribe("job-1", listener);
+
+    await store.appendProgress("job-1", {
+      stage: "summary",
+      status: "completed",
+      timestamp: "2024-05-01T12:00:01.000Z",
+      durationMs: 12,
+    });
+    unsubscribe();
+    await store.update("job-1", { status: "running" });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].progress).toEqual([
+      expect.objectContaining({ stage: "summary", status: "completed", durationMs: 12 }),
+    ]);
+  });
+
+  it("logs listener failures without interrupting the update", async () => {
+    const lines: string[] = [];
+    const store = createInMemoryNewsletterJobStore({
+      generateId: () => "job-1",
+      logger: createJsonLogger({ write: (line) => lines.push(line) }),
+    });
+    const job = await store.create(payload);
+    store.subscribe(job.id, () => {
+      throw new Error("listener broke");
+    });
+
+    expect(await store.update(job.id, { status: "running" })).toMatchObject({ status: "running" });
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        message: "Newsletter job listener failed",
+        jobId: "job-1",
+      }),
+    ]);
+  });
+
+  it("returns undefined for unknown jobs", async () => {
+    const store = createInMemoryNewsletterJobStore();
+
+    expect(await store.get("missing")).toBeUndefined();
+    expect(await store.update("missing", { status: "running" })).toBeUndefined();
+  });
+
+  it("prunes finished jobs after the retention window", async () => {
+    const clock = createClock("2024-05-01T12:00:00.000Z");
+    let counter = 0;
+    const store = createInMemoryNewsletterJobStore({
+      retentionMs: 5_000,
+      generateId: () => `job-${++counter}`,
+      now: clock.now,
+    });
+
+    const finished = await store.create(payload);
+    const pending = await store.create(payload);
+    await store.update(finished.id, { status: "succeeded" });
+
+    clock.advance(10_000);
+    await store.create(payload);
+
+    expect(await store.get(finished.id)).toBeUndefined();
+    expect(await store.get(pending.id)).toMatchObject({ status: "queued" });
+  });
+});
@@ -0,0 +1,210 @@
+import { buildNewsletterOpenApiDocument } from "../../src/services/validation/newsletterOpenApi";
+import {
+  parseNewsletterJsonRequest,
+  parseNewsletterUploadRequest,
+} from "../../src/services/validation/newsletterSchemas";
+import { validateNewsletterUpload } from "../../src/services/validation/newsletterUploadValidator";
+import {
+  DEFAULT_NEWSLETTER_LIMITS,
+  VALIDATION_ERROR_CODES,
+  type ValidationErrorDetail,
+} from "../../src/types/newsletter";
+
+interface PropertySchema {
+  type: "string" | "number" | "object";
+  required?: string[];
+  oneOf?: { required: string[] }[];
+  properties?: Record<string, PropertySchema>;
+  maxLength?: number;
+  maximum?: number;
+  enum?: string[];
+}
+
+const document = buildNewsletterOpenApiDocument();
+const schemas = document.components.schemas as unknown as Record<string, PropertySchema>;
+const jsonRequest = schemas.NewsletterGenerationRequest;
+const uploadRequest = schemas.NewsletterUploadRequest;
+
+const validJsonRequest = (): Record<string, Record<string, unknown>> => ({
+  meetingRecap: {
+    text: "We shipped the beta.",
+    author: "Jordan",
+    submittedAt: "2024-05-01T10:00:00Z",
+  },
+  transcript: { text: "Jordan: The beta is live.", source: "Zoom" },
+  freeformTopicPrompt: { topic: "Team wins", instructions: "Keep it upbeat." },
+  audio: {
+    filename: "standup.mp3",
+    mimeType: "audio/mpeg",
+    url: "https://media.example.com/standup.mp3",
+    sizeBytes: 2048,
+    durationSeconds: 120,
+  },
+});
+
+const parseAndValidate = async (body: unknown): Promise<ValidationErrorDetail[]> => {
+  const parsed = parseNewsletterJsonRequest(body);
+  return parsed.success ? (await validateNewsletterUpload(parsed.data)).errors : parsed.errors;
+};
+
+/** Validation errors name either the property itself or the object that owns it. */
+const reportsProperty = (errors: ValidationErrorDetail[], path: string, code: string) =>
+  errors.some(
+    (error) => error.code === code && (path === error.field || path.startsWith(`${error.field}.`)),
+  );
+
+const jsonProperties = Object.entries(jsonRequest.properties ?? {}).flatMap(([group, schema]) =>
+  Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    group,
+    name,
+    path: `${group}.${name}`,
+    property,
+    required: schema.required?.includes(name) ?? false,
+    alternative: schema.oneOf?.some((option) => option.required.includes(name)) ?? false,
+  })),
+);
+
+describe("buildNewsletterOpenApiDocument", () => {
+  it("publishes every error code the API can return", () => {
+    expect(schemas.ValidationErrorCode.enum).toEqual([...VALIDATION_ERROR_CODES]);
+    expect(document.paths["/newsletters"].post).toMatchObject({
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewsletterUploadSuccessResponse" },
+            },
+          },
+        },
+        "400": {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewsletterUploadErrorResponse" },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("accepts the documented JSON request", async () => {
+    expect(await parseAndValidate(validJsonRequest())).toEqual([]);
+  });
+
+  it.each(jsonProperties.map((entry) => [entry.path, entry]))(
+    "rejects a mistyped %s the way the schema describes",
+    (_path, { group, name, path, property }) => {
+      const request = validJsonRequest();
+      request[group][name] = property.type === "number" ? "not a number" : { nested: true };
+
+      const parsed = parseNewsletterJsonRequest(request);
+
+      expect(parsed.success).toBe(false);
+      if (!parsed.success) {
+        expect(parsed.errors).toContainEqual(
+          expect.objectContaining({ field: path, code: "INVALID_FORMAT" }),
+        );
+      }
+    },
+  );
+
+  it("marks exactly the properties the parser and validator require", async () => {
+    for (const { group, name, path, required } of jsonProperties.filter(
+      ({ alternative }) => !alternative,
+    )) {
+      const request = validJsonRequest();
+      delete request[group][name];
+
+      expect([path, reportsProperty(await parseAndValidate(request), path, "REQUIRED")]).toEqual([
+        path,
+        required,
+      ]);
+    }
+
+    for (const group of jsonRequest.required ?? []) {
+      const request = validJsonRequest();
+      delete request[group];
+
+      expect(reportsProperty(await parseAndValidate(request), group, "REQUIRED")).toBe(true);
+    }
+  });
+
+  it("requires exactly one of the documented audio sources", async () => {
+    const alternatives = jsonRequest.properties?.audio.oneOf?.map((option) => option.required[0]);
+    expect(alternatives).toEqual(["url", "data"]);
+
+    const neither = validJsonRequest();
+    delete neither.audio.url;
+    expect(reportsProperty(await parseAndValidate(neither), "audio.url", "REQUIRED")).toBe(true);
+
+    const both = validJsonRequest();
+    both.audio.data = Buffer.from("audio").toString("base64");
+    expect(reportsProperty(await parseAndValidate(both), "audio.data", "INVALID_FORMAT")).toBe(
+      true,
+    );
+  });
+
+  it("documents the limits the validator enforces", async () => {
+    for (const { group, name, path, property } of jsonProperties.filter(
+      ({ property }) => property.maxLength !== undefined || property.maximum !== undefined,
+    )) {
+      const atLimit = validJsonRequest();
+      const overLimit = validJsonRequest();
+      if (property.type === "number") {
+        atLimit[group][name] = property.maximum;
+        overLimit[group][name] = (property.maximum as number) + 1;
+      } else {
+        atLimit[group][name] = "a".repeat(property.maxLength as number);
+        overLimit[group][name] = "a".repeat((property.maxLength as number) + 1);
+      }
+
+      expect([path, await parseAndValidate(atLimit)]).toEqual([path, []]);
+      expect([
+        path,
+        reportsProperty(await parseAndValidate(overLimit), path, "LIMIT_EXCEEDED"),
+      ]).toEqual([path, true]);
+    }
+  });
+
+  it("lists the supported audio types and follows configured limits", async () => {
+    const request = validJsonRequest();
+    request.audio.mimeType = "audio/aac";
+    expect(jsonRequest.properties?.audio.properties?.mimeType.enum).not.toContain("audio/aac");
+    expect(
+      reportsProperty(await parseAndValidate(request), "audio.mimeType", "UNSUPPORTED_TYPE"),
+    ).toBe(true);
+
+    const configured = buildNewsletterOpenApiDocument({
+      ...DEFAULT_NEWSLETTER_LIMITS,
+      maxRecapLength: 42,
+    });
+    const recap = (
+      configured.components.schemas.NewsletterGenerationRequest as unknown as PropertySchema
+    ).properties?.meetingRecap.properties?.text;
+    expect(recap?.maxLength).toBe(42);
+  });
+
+  it("describes the multipart fields the upload parser reads", () => {
+    const fields = Object.entries(uploadRequest.properties ?? {}).filter(
+      ([name]) => name !== "audio",
+    );
+    const body = Object.fromEntries(
+      fields.map(([name, property]) => [
+        name,
+        property.type === "number" ? "soon" : { nested: true },
+      ]),
+    );
+
+    const parsed = parseNewsletterUploadRequest({
+      ...body,
+      meetingRecap: { ignored: true },
+    } as never);
+
+    expect(parsed.success).toBe(false);
+    if (!parsed.success) {
+      expect(parsed.errors.map((error) => error.field).sort()).toEqual(
+        fields.map(([name]) => name).sort(),
+      );
+    }
+  });
+});
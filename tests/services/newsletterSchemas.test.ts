@@ -0,0 +1,302 @@
+import { parseNewsletterJsonRequest } from "../../src/services/validation/newsletterSchemas";
+import { validateNewsletterUpload } from "../../src/services/validation/newsletterUploadValidator";
+import { readAudioData } from "../../src/services/uploads/audioDataSource";
+
+describe("parseNewsletterJsonRequest", () => {
+  const baseRequest = {
+    meetingRecap: {
+      text: "Sprint recap",
+      author: "  Jordan  ",
+      submittedAt: "2024-05-01T09:30:00Z",
+    },
+    transcript: {
+      text: "Transcript text",
+      source: "Zoom",
+    },
+    freeformTopicPrompt: {
+      topic: "Team Wins",
+      instructions: "Keep it upbeat.",
+    },
+  };
+
+  it("maps the generation request shape onto the shared validation rules", async () => {
+    const audioBytes = Buffer.from("ID3 fake audio");
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      audio: {
+        filename: "standup.mp3",
+        mimeType: "audio/mpeg",
+        durationSeconds: 600,
+        data: `data:audio/mpeg;base64,${audioBytes.toString("base64")}`,
+      },
+    });
+
+    expect(parseResult.success).toBe(true);
+    if (!parseResult.success) {
+      return;
+    }
+
+    const audioData = parseResult.data.audioFile?.data;
+    expect(audioData?.sizeBytes).toBe(audioBytes.length);
+    expect(audioData && (await readAudioData(audioData))).toEqual(new Uint8Array(audioBytes));
+
+    const validation = await validateNewsletterUpload(parseResult.data);
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.payload).toEqual({
+      audio: {
+        filename: "standup.mp3",
+        mimeType: "audio/mpeg",
+        durationSeconds: 600,
+        sizeBytes: audioBytes.length,
+        detectedFormat: "mp3",
+      },
+      meetingRecap: {
+        text: "Sprint recap",
+        author: "Jordan",
+        submittedAt: "2024-05-01T09:30:00.000Z",
+      },
+      transcript: {
+        text: "Transcript text",
+        source: "Zoom",
+      },
+      freeformTopicPrompt: {
+        topic: "Team Wins",
+        instructions: "Keep it upbeat.",
+      },
+    });
+  });
+
+  it("replaces the client duration with the one read from the audio header", async () => {
+    const wav = Buffer.alloc(44 + 8000 * 90, 0x80);
+    wav.write("RIFF", 0, "latin1");
+    wav.writeUInt32LE(wav.length - 8, 4);
+    wav.write("WAVEfmt ", 8, "latin1");
+    wav.writeUInt32LE(16, 16);
+    wav.writeUInt16LE(1, 20);
+    wav.writeUInt16LE(1, 22);
+    wav.writeUInt32LE(8000, 24);
+    wav.writeUInt32LE(8000, 28);
+    wav.writeUInt16LE(1, 32);
+    wav.writeUInt16LE(8, 34);
+    wav.write("data", 36, "latin1");
+    wav.writeUInt32LE(8000 * 90, 40);
+    const request = (durationSeconds?: number) => ({
+      ...baseRequest,
+      audio: {
+        filename: "standup.wav",
+        mimeType: "audio/wav",
+        durationSeconds,
+        data: wav.toString("base64"),
+      },
+    });
+
+    const parsed = parseNewsletterJsonRequest(request(600));
+    const omitted = parseNewsletterJsonRequest(request(undefined));
+    if (!parsed.success || !omitted.success) {
+      throw new Error("Expected the requests to parse");
+    }
+
+    const validation = await validateNewsletterUpload(parsed.data);
+    expect(validation.payload?.audio?.durationSeconds).toBe(90);
+    expect(validation.warnings).toEqual([
+      "Audio duration of 600s does not match the 90s read from the file; using 90s.",
+    ]);
+
+    const withoutClientDuration = await validateNewsletterUpload(omitted.data);
+    expect(withoutClientDuration.errors).toEqual([]);
+    expect(withoutClientDuration.warnings).toEqual([]);
+    expect(withoutClientDuration.payload?.audio?.durationSeconds).toBe(90);
+  });
+
+  it("rejects audio whose content does not match its MIME type", async () => {
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      audio: {
+        filename: "standup.mp3",
+        mimeType: "audio/mpeg",
+        durationSeconds: 60,
+        data: Buffer.from("RIFF\u0000\u0000\u0000\u0000WAVEfmt ", "latin1").toString("base64"),
+      },
+    });
+    if (!parseResult.success) {
+      throw new Error("Expected the request to parse");
+    }
+
+    expect((await validateNewsletterUpload(parseResult.data)).errors).toEqual([
+      {
+        field: "audio",
+        message: "Audio content is WAV but was uploaded as audio/mpeg.",
+        code: "UNSUPPORTED_TYPE",
+      },
+    ]);
+  });
+
+  it("normalizes browser MIME aliases for the newer recording formats", async () => {
+    const webm = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x80]);
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      audio: {
+        filename: "standup.webm",
+        mimeType: "audio/webm;codecs=opus",
+        durationSeconds: 60,
+        data: webm.toString("base64"),
+      },
+    });
+    if (!parseResult.success) {
+      throw new Error("Expected the request to parse");
+    }
+
+    const validation = await validateNewsletterUpload(parseResult.data);
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.payload?.audio).toMatchObject({
+      filename: "standup.webm",
+      mimeType: "audio/webm",
+      durationSeconds: 60,
+      detectedFormat: "webm",
+    });
+  });
+
+  it("parses caption transcripts into spoken text and timed segments", async () => {
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      transcript: {
+        text: "1\n00:00:01,000 --> 00:00:03,500\nJordan: We agreed to ship the beta.\n",
+        format: "srt",
+      },
+    });
+    if (!parseResult.success) {
+      throw new Error("Expected the request to parse");
+    }
+
+    expect((await validateNewsletterUpload(parseResult.data)).payload?.transcript).toEqual({
+      text: "Jordan: We agreed to ship the beta.",
+      format: "srt",
+      segments: [
+        {
+          startTimeSeconds: 1,
+          endTimeSeconds: 3.5,
+          speaker: "Jordan",
+          text: "We agreed to ship the beta.",
+        },
+      ],
+    });
+  });
+
+  it("detects meeting platform exports pasted without a format", async () => {
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      transcript: {
+        text: "00:00:00\nJordan: We agreed to ship the beta.\nSam: I'll draft the notes.",
+      },
+    });
+    if (!parseResult.success) {
+      throw new Error("Expected the request to parse");
+    }
+
+    expect((await validateNewsletterUpload(parseResult.data)).payload?.transcript).toMatchObject({
+      text: "Jordan: We agreed to ship the beta.\nSam: I'll draft the notes.",
+      format: "meet",
+      segments: [
+        { startTimeSeconds: 0, speaker: "Jordan" },
+        { startTimeSeconds: 0, speaker: "Sam" },
+      ],
+    });
+  });
+
+  it("rejects transcripts that are not in the format they claim", async () => {
+    const validate = async (format: string) => {
+      const parseResult = parseNewsletterJsonRequest({
+        ...baseRequest,
+        transcript: { text: "Transcript text", format },
+      });
+      if (!parseResult.success) {
+        throw new Error("Expected the request to parse");
+      }
+      return (await validateNewsletterUpload(parseResult.data)).errors;
+    };
+
+    expect(await validate("webvtt")).toEqual([
+      {
+        field: "transcript",
+        message: "Transcript could not be read as WebVTT.",
+        code: "INVALID_FORMAT",
+      },
+    ]);
+    expect(await validate("docx")).toEqual([
+      {
+        field: "transcript.format",
+        message:
+          "Unsupported transcript format: docx. Supported formats are plain, webvtt, srt, zoom, teams, meet.",
+        code: "UNSUPPORTED_TYPE",
+      },
+    ]);
+  });
+
+  it("keeps audio supplied by reference", async () => {
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      audio: {
+        filename: "standup.wav",
+        mimeType: "audio/wav",
+        durationSeconds: 120,
+        sizeBytes: 2048,
+        url: "https://media.example.com/standup.wav",
+      },
+    });
+
+    if (!parseResult.success) {
+      throw new Error("Expected the request to parse");
+    }
+
+    expect((await validateNewsletterUpload(parseResult.data)).payload?.audio).toEqual({
+      filename: "standup.wav",
+      mimeType: "audio/wav",
+      durationSeconds: 120,
+      sizeBytes: 2048,
+      url: "https://media.example.com/standup.wav",
+    });
+  });
+
+  it("reports malformed fields using the upload error envelope", () => {
+    const parseResult = parseNewsletterJsonRequest({
+      meetingRecap: "not an object",
+      transcript: { text: "Transcript text" },
+      audio: { filename: "standup.mp3", mimeType: "audio/mpeg", data: "***" },
+    });
+
+    expect(parseResult).toEqual({
+      success: false,
+      errors: [
+        { field: "meetingRecap", message: "Expected an object.", code: "INVALID_FORMAT" },
+        {
+          field: "audio.data",
+          message: "Audio data must be base64 encoded.",
+          code: "INVALID_FORMAT",
+        },
+      ],
+    });
+  });
+
+  it("rejects invalid timestamps and non-http audio urls during validation", async () => {
+    const parseResult = parseNewsletterJsonRequest({
+      ...baseRequest,
+      transcript: { text: "Transcript text", submittedAt: "yesterday-ish" },
+      audio: {
+        filename: "standup.mp3",
+        mimeType: "audio/mpeg",
+        durationSeconds: 60,
+        url: "ftp://media.example.com/standup.mp3",
+      },
+    });
+
+    if (!parseResult.success) {
+      throw new Error("Expected the request to parse");
+    }
+
+    expect(
+      (await validateNewsletterUpload(parseResult.data)).errors.map((error) => error.field),
+    ).toEqual(["transcript.submittedAt", "audio.url"]);
+  });
+});
@@ -0,0 +1,84 @@
+import { createJsonLogger } from "../../src/services/logging/logger";
+import {
+  logProgressReporterFailures,
+  reportSkippedStage,
+  trackPipelineStage,
+} from "../../src/services/pipelineProgress";
+
+describe("trackPipelineStage", () => {
+  it("reports started and completed events with partial results", async () => {
+    const reportProgress = jest.fn();
+
+    const result = await trackPipelineStage(
+      reportProgress,
+      "summary",
+      async () => "Weekly summary",
+      (summary) => ({ summary }),
+    );
+
+    expect(result).toBe("Weekly summary");
+    expect(reportProgress).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ stage: "summary", status: "started" }),
+    );
+    expect(reportProgress).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        stage: "summary",
+        status: "completed",
+        durationMs: expect.any(Number),
+        partialResult: { summary: "Weekly summary" },
+      }),
+    );
+  });
+
+  it("reports failures and rethrows the original error", async () => {
+    const reportProgress = jest.fn();
+    const failure = new Error("model offline");
+
+    await expect(
+      trackPipelineStage(reportProgress, "decisions", async () => {
+        throw failure;
+      }),
+    ).rejects.toBe(failure);
+
+    expect(reportProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ stage: "decisions", status: "failed", message: "model offline" }),
+    );
+  });
+
+  it("runs the task untouched when no reporter is provided", async () => {
+    const dateNowSpy = jest.spyOn(Date, "now");
+
+    await expect(trackPipelineStage(undefined, "assembly", async () => 42)).resolves.toBe(42);
+    reportSkippedStage(undefined, "freeform");
+
+    expect(dateNowSpy).not.toHaveBeenCalled();
+    dateNowSpy.mockRestore();
+  });
+
+  it("logs reporter failures through the supplied logger and keeps running the stage", async () => {
+    const lines: string[] = [];
+    const reportProgress = logProgressReporterFailures(
+      () => {
+        throw new Error("job store unavailable");
+      },
+      createJsonLogger({ write: (line) => lines.push(line) }).child({ correlationId: "req-1" }),
+    );
+
+    await expect(trackPipelineStage(reportProgress, "summary", async () => "done")).resolves.toBe(
+      "done",
+    );
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        message: "Failed to report pipeline progress",
+        correlationId: "req-1",
+        stage: "summary",
+        status: "started",
+      }),
+      expect.objectContaining({ stage: "summary", status: "completed" }),
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { runReadinessProbes } from "../../src/services/health/readinessProbes";
+
+describe("runReadinessProbes", () => {
+  it("reports ready when every probe passes or is skipped", async () => {
+    const report = await runReadinessProbes([
+      { name: "summarize", version: "model-a", check: jest.fn().mockResolvedValue(undefined) },
+      { name: "draftCopy" },
+    ]);
+
+    expect(report.status).toBe("ready");
+    expect(report.checks).toEqual([
+      { name: "summarize", status: "ok", version: "model-a", durationMs: expect.any(Number) },
+      { name: "draftCopy", status: "skipped", version: undefined },
+    ]);
+  });
+
+  it("captures failures and timeouts without throwing", async () => {
+    const failure = Object.assign(new Error("disk unavailable"), { code: "EACCES" });
+
+    const report = await runReadinessProbes(
+      [
+        { name: "storage", check: jest.fn().mockRejectedValue(failure) },
+        { name: "transcribeAudio", check: () => new Promise<void>(() => undefined) },
+      ],
+      { timeoutMs: 20 },
+    );
+
+    expect(report.status).toBe("not_ready");
+    expect(report.checks).toEqual([
+      expect.objectContaining({ name: "storage", status: "failed", error: "disk unavailable", code: "EACCES" }),
+      expect.objectContaining({
+        name: "transcribeAudio",
+        status: "timeout",
+        error: "Readiness probe for transcribeAudio did not finish within 20ms.",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { chunkSynthesisText } from "../../src/services/transcripts/transcriptChunker";
+
+describe("chunkSynthesisText", () => {
+  it("breaks after sentences, overlaps chunks and leads with the recap", () => {
+    const chunks = chunkSynthesisText({
+      recapText: "Recap of the sprint.",
+      transcriptText: "First point here. Second point here.\nThird point here! Fourth point here?",
+      maxLength: 45,
+      overlapLength: 20,
+    });
+
+    expect(chunks).toEqual([
+      { recapText: "Recap of the sprint.", transcriptText: "First point here." },
+      { recapText: "", transcriptText: "First point here. Second point here." },
+      { recapText: "", transcriptText: "Second point here.\nThird point here!" },
+      { recapText: "", transcriptText: "Third point here! Fourth point here?" },
+    ]);
+  });
+
+  it("breaks between speaker segments and keeps each chunk's segments", () => {
+    const segments = [
+      { startTimeSeconds: 0, speaker: "Priya", text: "We decided to ship on Friday." },
+      { startTimeSeconds: 5, speaker: "Priya", text: "Docs are next." },
+      { startTimeSeconds: 9, speaker: "Sam", text: "I'll update the release notes." },
+    ];
+
+    const chunks = chunkSynthesisText({
+      recapText: "",
+      transcriptText: "unused when segments are present",
+      transcriptSegments: segments,
+      maxLength: 70,
+      overlapLength: 0,
+    });
+
+    expect(chunks).toEqual([
+      {
+        recapText: "",
+        transcriptText: "Priya: We decided to ship on Friday. Docs are next.",
+        transcriptSegments: segments.slice(0, 2),
+      },
+      {
+        recapText: "",
+        transcriptText: "Sam: I'll update the release notes.",
+        transcriptSegments: segments.slice(2),
+      },
+    ]);
+  });
+
+  it("cuts a sentence longer than a chunk at its spaces", () => {
+    const chunks = chunkSynthesisText({
+      recapText: "",
+      transcriptText: "one two three four five six seven eight nine ten",
+      maxLength: 22,
+      overlapLength: 0,
+    });
+
+    expect(chunks.map(({ transcriptText }) => transcriptText)).toEqual([
+      "one two three four",
+      "five six seven",
+      "eight nine ten",
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  parseMeetTranscript,
+  parseTeamsTranscript,
+  parseZoomTranscript,
+} from "../../src/services/transcripts/meetingPlatformParsers";
+import {
+  detectTranscriptFormat,
+  normalizeTranscript,
+} from "../../src/services/transcripts/transcriptParser";
+
+const ZOOM = `Weekly sync
+Priya Shah  00:00:05
+We decided to ship the beta
+on Friday.
+
+Sam Lee  00:00:21
+I'll update the release notes.
+
+Priya Shah  00:01:02
+Thanks, everyone.
+`;
+
+const ZOOM_BRACKETED = `[Priya Shah] 09:15:32 We decided to ship the beta.
+[Sam Lee] 09:15:40 I'll update the release notes.
+`;
+
+const TEAMS = `Weekly sync-20240501_090000-Meeting Recording
+May 1, 2024, 9:00AM
+42m 10s
+
+Priya Shah
+0:05
+We decided to ship the beta on Friday.
+
+Sam Lee (Guest)
+0:21
+I'll update the release notes.
+Can you review them, Priya?
+`;
+
+const TEAMS_DOCX = `Priya Shah   0:05
+We decided to ship the beta on Friday.
+Sam Lee   1:02:03
+I'll update the release notes.
+`;
+
+const MEET = `Weekly sync - Transcript
+Attendees
+Priya Shah, Sam Lee
+Transcript
+00:00:00
+
+Priya Shah: We decided to ship the beta on Friday.
+Sam Lee: I'll update the release notes.
+00:05:00
+
+Priya Shah: Thanks, everyone.
+`;
+
+describe("parseZoomTranscript", () => {
+  it("reads speaker and time headers with the text below them", () => {
+    const parsed = parseZoomTranscript(ZOOM);
+
+    expect(parsed?.text).toBe(
+      [
+        "Priya Shah: We decided to ship the beta on Friday.",
+        "Sam Lee: I'll update the release notes.",
+        "Priya Shah: Thanks, everyone.",
+      ].join("\n"),
+    );
+    expect(parsed?.segments).toEqual([
+      {
+        startTimeSeconds: 5,
+        endTimeSeconds: 21,
+        speaker: "Priya Shah",
+        text: "We decided to ship the beta on Friday.",
+      },
+      {
+        startTimeSeconds: 21,
+        endTimeSeconds: 62,
+        speaker: "Sam Lee",
+        text: "I'll update the release notes.",
+      },
+      { startTimeSeconds: 62, speaker: "Priya Shah", text: "Thanks, everyone." },
+    ]);
+  });
+
+  it("reads bracketed headers with the text on the same line", () => {
+    expect(parseZoomTranscript(ZOOM_BRACKETED)?.segments).toEqual([
+      {
+        startTimeSeconds: 33332,
+        endTimeSeconds: 33340,
+        speaker: "Priya Shah",
+        text: "We decided to ship the beta.",
+      },
+      { startTimeSeconds: 33340, speaker: "Sam Lee", text: "I'll update the release notes." },
+    ]);
+  });
+});
+
+describe("parseTeamsTranscript", () => {
+  it("reads names with the offset on the following line, skipping the export header", () => {
+    expect(parseTeamsTranscript(TEAMS)?.segments).toEqual([
+      {
+        startTimeSeconds: 5,
+        endTimeSeconds: 21,
+        speaker: "Priya Shah",
+        text: "We decided to ship the beta on Friday.",
+      },
+      {
+        startTimeSeconds: 21,
+        speaker: "Sam Lee (Guest)",
+        text: "I'll update the release notes. Can you review them, Priya?",
+      },
+    ]);
+  });
+
+  it("reads docx exports with the offset beside the name", () => {
+    expect(
+      parseTeamsTranscript(TEAMS_DOCX)?.segments?.map((segment) => segment.startTimeSeconds),
+    ).toEqual([5, 3723]);
+  });
+});
+
+describe("parseMeetTranscript", () => {
+  it("times each turn by the latest timestamp line", () => {
+    expect(parseMeetTranscript(MEET)?.segments).toEqual([
+      {
+        startTimeSeconds: 0,
+        endTimeSeconds: 300,
+        speaker: "Priya Shah",
+        text: "We decided to ship the beta on Friday.",
+      },
+      {
+        startTimeSeconds: 0,
+        endTimeSeconds: 300,
+        speaker: "Sam Lee",
+        text: "I'll update the release notes.",
+      },
+      { startTimeSeconds: 300, speaker: "Priya Shah", text: "Thanks, everyone." },
+    ]);
+  });
+
+  it("does not mistake prose with a labelled line for a transcript", () => {
+    const notes = [
+      "Summary: the beta ships Friday.",
+      "The team walked through the launch checklist in detail.",
+      "Support asked for an extra week of training material.",
+    ].join("\n");
+
+    expect(parseMeetTranscript(notes)).toBeUndefined();
+  });
+});
+
+describe("normalizeTranscript", () => {
+  it.each([
+    ["webvtt", "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello.\n"],
+    ["srt", "1\n00:00:01,000 --> 00:00:02,000\nHello.\n"],
+    ["zoom", ZOOM],
+    ["teams", TEAMS],
+    ["meet", MEET],
+    ["plain", "We decided to ship the beta on Friday. Sam will update the release notes."],
+  ])("detects %s transcripts", (format, content) => {
+    expect(detectTranscriptFormat(content)).toBe(format);
+    expect(normalizeTranscript(content)?.format).toBe(format);
+  });
+
+  it("uses a named format without detecting and reports when it does not match", () => {
+    expect(normalizeTranscript(ZOOM, "plain")).toEqual({ text: ZOOM.trim(), format: "plain" });
+    expect(normalizeTranscript(ZOOM, "meet")).toBeUndefined();
+  });
+});
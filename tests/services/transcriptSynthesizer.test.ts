@@ -1,9 +1,12 @@
 import {
+  createDefaultTranscriptSynthesizerDependencies,
+  runSynthesisStage,
   synthesizeMeetingContent,
   TranscriptSynthesizerErrorCode,
   type TranscriptSynthesizerDependencies,
 } from "../../src/services/transcriptSynthesizer";
 import {
+  type ActionItem,
   type MeetingRecapInput,
   type MeetingTranscriptInput,
   type SynthesizedDecision,
@@ -31,7 +34,7 @@ describe("synthesizeMeetingContent", () => {
         source: "recap",
       } as SynthesizedDecision,
     ]),
-    extractActionItems: jest.fn(async () => [
+    extractActionItems: jest.fn(async (): Promise<ActionItem[]> => [
       {
         id: "",
         summary: "  Prepare beta release checklist.  ",
@@ -44,7 +47,7 @@ describe("synthesizeMeetingContent", () => {
         summary: "   ",
       },
     ]),
-    extractInsights: jest.fn(async () => [
+    extractInsights: jest.fn(async (): Promise<SynthesizedInsight[]> => [
       {
         id: "",
         summary: "  Customers expect faster onboarding.  ",
@@ -53,6 +56,7 @@ describe("synthesizeMeetingContent", () => {
       {
         id: "skip",
         summary: "",
+        source: "transcript",
       },
     ]),
     ...overrides,
@@ -103,32 +107,195 @@ describe("synthesizeMeetingContent", () => {
     expect(result.metadata).toMatchObject({
       usedRecap: true,
       usedTranscript: true,
-      truncatedInput: undefined,
+      chunkCount: undefined,
+    });
+  });
+
+  it("synthesizes long input in overlapping chunks and merges their results", async () => {
+    const sentences = Array.from({ length: 40 }, (_, index) => `Update ${index + 1} is ready.`);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const dependencies = createDependencies({
+      summarize: jest.fn(
+        async ({ combinedText }) => `Summary of ${combinedText.length} characters.`,
+      ),
+      extractDecisions: jest.fn(async ({ transcriptText }): Promise<SynthesizedDecision[]> => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+        return [
+          { id: "d1", summary: "Ship the beta.", source: "transcript" },
+          { id: "d2", summary: transcriptText.split(/(?<=\.) /)[0], source: "transcript" },
+        ];
+      }),
+      extractActionItems: jest
+        .fn()
+        .mockResolvedValueOnce([{ id: "a1", summary: "Send the notes.", source: "recap" }])
+        .mockResolvedValueOnce([
+          { id: "a1", summary: "send the notes", owner: "Casey", source: "transcript" },
+        ])
+        .mockResolvedValue([]),
     });
+
+    const result = await synthesizeMeetingContent({
+      transcript: { text: sentences.join(" ") },
+      dependencies,
+      options: { maxCombinedTextLength: 200, chunkOverlapLength: 40, maxConcurrentChunks: 2 },
+    });
+
+    const chunkTexts = (dependencies.extractDecisions as jest.Mock).mock.calls.map(
+      ([input]) => input.combinedText as string,
+    );
+    expect(result.metadata.chunkCount).toBe(chunkTexts.length);
+    expect(chunkTexts.length).toBeGreaterThan(3);
+    expect(chunkTexts.every((text) => text.length <= 200)).toBe(true);
+    expect(sentences.every((sentence) => chunkTexts.some((text) => text.includes(sentence)))).toBe(
+      true,
+    );
+    chunkTexts.slice(1).forEach((text, index) => {
+      expect(chunkTexts[index]).toContain(text.split(/(?<=\.) /)[0]);
+    });
+    expect(maxInFlight).toBe(2);
+
+    expect(dependencies.summarize).toHaveBeenCalledTimes(chunkTexts.length + 1);
+    expect(dependencies.summarize).toHaveBeenLastCalledWith(
+      expect.objectContaining({ combinedText: expect.stringContaining("Summary of") }),
+    );
+    expect(result.decisions.filter(({ summary }) => summary === "Ship the beta.")).toHaveLength(1);
+    expect(result.decisions.map(({ id }) => id)).toEqual(
+      result.decisions.map((_decision, index) => `decision-${index + 1}`),
+    );
+    expect(result.actionItems).toEqual([
+      expect.objectContaining({ summary: "Send the notes.", owner: "Casey", source: "both" }),
+    ]);
+    expect(result.metadata.warnings).toBeUndefined();
   });
 
-  it("adds a truncation warning when combined text exceeds the limit", async () => {
-    const longRecap: MeetingRecapInput = {
-      text: "recap".repeat(6000),
-    };
+  it("reads platform transcript exports and reports the detected format", async () => {
     const dependencies = createDependencies();
 
     const result = await synthesizeMeetingContent({
-      meetingRecap: longRecap,
-      transcript,
+      meetingRecap: recap,
+      transcript: {
+        text: "Priya Shah  00:00:05\nWe agreed to ship.\n\nSam Lee  00:00:21\nI'll write the notes.",
+      },
       dependencies,
     });
 
-    expect(result.metadata.warnings?.[0]).toContain("was truncated");
-    expect(result.metadata.truncatedInput).toBe(true);
-    expect(dependencies.summarize).toHaveBeenCalledWith(
+    expect(result.metadata.transcriptFormat).toBe("zoom");
+    expect(dependencies.extractDecisions).toHaveBeenCalledWith(
       expect.objectContaining({
-        combinedText: expect.any(String),
-        maxLength: expect.any(Number),
+        transcriptText: "Priya Shah: We agreed to ship.\nSam Lee: I'll write the notes.",
       }),
     );
   });
 
+  it("attributes default extractions to speakers and infers action item owners", async () => {
+    const result = await synthesizeMeetingContent({
+      transcript: {
+        text: [
+          "WEBVTT",
+          "00:00:00.000 --> 00:00:10.000\n<v Priya Shah>We agreed to ship.",
+          "00:00:10.000 --> 00:00:14.000\n<v Sam Lee>I'll draft the notes.",
+          "00:00:14.000 --> 00:00:20.000\n<v Priya Shah>Can you book the room?",
+          "00:00:20.000 --> 00:00:22.000\n<v Alex Kim>Sure thing.",
+          "00:00:22.000 --> 00:00:26.000\n<v Sam Lee>Could you review it, Priya?",
+        ].join("\n\n"),
+      },
+      dependencies: createDefaultTranscriptSynthesizerDependencies(),
+    });
+
+    expect(result.decisions).toEqual([
+      expect.objectContaining({ summary: "We agreed to ship.", speaker: "Priya Shah" }),
+    ]);
+    expect(result.actionItems.map(({ summary, owner }) => ({ summary, owner }))).toEqual([
+      { summary: "I'll draft the notes.", owner: "Sam Lee" },
+      { summary: "Can you book the room?", owner: "Alex Kim" },
+      { summary: "Could you review it, Priya?", owner: "Priya Shah" },
+    ]);
+    expect(result.metadata.speakers).toEqual([
+      {
+        speaker: "Priya Shah",
+        turnCount: 2,
+        wordCount: 9,
+        shareOfWords: 0.45,
+        speakingTimeSeconds: 16,
+      },
+      {
+        speaker: "Sam Lee",
+        turnCount: 2,
+        wordCount: 9,
+        shareOfWords: 0.45,
+        speakingTimeSeconds: 8,
+      },
+      {
+        speaker: "Alex Kim",
+        turnCount: 1,
+        wordCount: 2,
+        shareOfWords: 0.1,
+        speakingTimeSeconds: 2,
+      },
+    ]);
+  });
+
+  it("attributes extractor output by matching it to a single speaker's turn", async () => {
+    const dependencies = createDependencies({
+      extractDecisions: jest.fn(async (): Promise<SynthesizedDecision[]> => [
+        {
+          id: "d1",
+          summary: "Ship Friday",
+          source: "transcript",
+          supportingEvidence: "we ship on Friday",
+        },
+      ]),
+      extractActionItems: jest.fn(async () => [
+        { id: "a1", summary: "I'll send the invite" },
+        { id: "a2", summary: "Update the roadmap", owner: "Jordan" },
+      ]),
+      extractInsights: jest.fn(async (): Promise<SynthesizedInsight[]> => [
+        {
+          id: "i1",
+          summary: "Customers like speed",
+          source: "transcript",
+          quote: "ship on Friday",
+        },
+      ]),
+    });
+
+    const result = await synthesizeMeetingContent({
+      transcript: {
+        text: [
+          "Priya Shah  00:00:05",
+          "OK, we ship on Friday.",
+          "",
+          "Sam Lee  00:00:21",
+          "I'll send the invite.",
+        ].join("\n"),
+      },
+      dependencies,
+    });
+
+    expect(result.decisions[0].speaker).toBe("Priya Shah");
+    expect(result.insights[0].speaker).toBe("Priya Shah");
+    expect(result.actionItems.map(({ owner }) => owner)).toEqual(["Sam Lee", "Jordan"]);
+    expect(result.metadata.speakers?.map(({ speaker }) => speaker)).toEqual([
+      "Priya Shah",
+      "Sam Lee",
+    ]);
+  });
+
+  it("leaves speakers unset for transcripts without them", async () => {
+    const result = await synthesizeMeetingContent({
+      meetingRecap: recap,
+      transcript,
+      dependencies: createDependencies(),
+    });
+
+    expect(result.metadata.speakers).toBeUndefined();
+    expect(result.decisions.every(({ speaker }) => speaker === undefined)).toBe(true);
+  });
+
   it("throws when neither recap nor transcript are provided", async () => {
     const dependencies = createDependencies();
 
@@ -156,3 +323,45 @@ describe("synthesizeMeetingContent", () => {
     });
   });
 });
+
+describe("runSynthesisStage", () => {
+  const createDependencies = (): TranscriptSynthesizerDependencies => ({
+    summarize: jest.fn(async () => "Summary"),
+    extractDecisions: jest.fn(async () => []),
+    extractActionItems: jest.fn(async () => [
+      { id: "a1", summary: "  Send the recap.  ", owner: "  Sam  " },
+    ]),
+  });
+
+  it("runs a single stage and forwards the extra instructions", async () => {
+    const dependencies = createDependencies();
+
+    const result = await runSynthesisStage({
+      stage: "action_items",
+      meetingRecap: { text: "Recap" },
+      dependencies,
+      instructions: "  Only include owned items.  ",
+    });
+
+    expect(result).toEqual({
+      actionItems: [
+        expect.objectContaining({ id: "a1", summary: "Send the recap.", owner: "Sam" }),
+      ],
+    });
+    expect(dependencies.extractActionItems).toHaveBeenCalledWith(
+      expect.objectContaining({ recapText: "Recap", instructions: "Only include owned items." }),
+    );
+    expect(dependencies.summarize).not.toHaveBeenCalled();
+    expect(dependencies.extractDecisions).not.toHaveBeenCalled();
+  });
+
+  it("fails with the stage error code when no insight extractor is configured", async () => {
+    await expect(
+      runSynthesisStage({
+        stage: "insights",
+        transcript: { text: "Transcript" },
+        dependencies: createDependencies(),
+      }),
+    ).rejects.toMatchObject({ code: TranscriptSynthesizerErrorCode.INSIGHT_EXTRACTION_FAILED });
+  });
+});
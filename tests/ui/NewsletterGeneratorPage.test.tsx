@@ -1,5 +1,5 @@
 import React from "react";
-import { render, screen, waitFor, within } from "@testing-library/react";
+import { act, render, screen, waitFor, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 
 import { NewsletterGeneratorPage } from "../../src/ui/pages/NewsletterGeneratorPage";
@@ -44,6 +44,51 @@ describe("NewsletterGeneratorPage", () => {
     return { user };
   };
 
+  const requestsExcludingConfig = (fetchMock: jest.Mock) =>
+    fetchMock.mock.calls.filter(([url]) => url !== "/newsletters/config");
+
+  it("applies limits loaded from the server configuration endpoint", async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        limits: {
+          maxRecapLength: 1500,
+          maxTranscriptLength: 9000,
+          maxFreeformTopicLength: 120,
+          maxFreeformInstructionsLength: "lots",
+          maxAttributionLength: 80,
+          maxRegenerationInstructionsLength: 300,
+          maxAudioDurationSeconds: 1800,
+          maxUploadSizeBytes: 10 * 1024 * 1024,
+        },
+        supportedAudioMimeTypes: ["audio/mpeg", "audio/wav"],
+      }),
+    });
+    (globalThis as any).fetch = fetchMock;
+
+    render(<NewsletterGeneratorPage />);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/newsletters/config",
+      expect.objectContaining({ method: "GET" }),
+    );
+    await waitFor(() =>
+      expect(screen.getByLabelText(/topic title/i)).toHaveAttribute("maxLength", "120"),
+    );
+    expect(screen.getByLabelText(/summary notes/i)).toHaveAttribute("maxLength", "1500");
+    expect(screen.getByLabelText(/transcript text/i)).toHaveAttribute("maxLength", "9000");
+    expect(screen.getByLabelText(/tone & guidance/i)).toHaveAttribute("maxLength", "500");
+    expect(screen.getByText(/MP3, WAV, M4A, OGG, WebM and FLAC up to 30 minutes and 10MB/)).toBeInTheDocument();
+    expect(screen.getByText(/within the 30 minute limit/)).toBeInTheDocument();
+
+    const user = userEvent.setup();
+    await user.type(screen.getByLabelText(/audio duration/i), "45");
+    expect(
+      screen.getByText("Audio duration exceeds 30 minutes. Please upload a shorter clip."),
+    ).toBeInTheDocument();
+  });
+
   it("submits newsletter inputs and renders preview sections on success", async () => {
     const fetchMock = jest.fn();
     (globalThis as any).fetch = fetchMock;
@@ -131,7 +176,7 @@ describe("NewsletterGeneratorPage", () => {
 
     await waitFor(() => expect(submitButton).toHaveTextContent("Preparing…"));
 
-    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(requestsExcludingConfig(fetchMock)).toHaveLength(1);
     expect(fetchMock).toHaveBeenCalledWith(
       "/newsletters",
       expect.objectContaining({
@@ -192,7 +237,7 @@ describe("NewsletterGeneratorPage", () => {
     const submitButton = screen.getByRole("button", { name: /generate newsletter/i });
     await user.click(submitButton);
 
-    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(requestsExcludingConfig(fetchMock)).toHaveLength(1);
 
     expect(
       await screen.findByText("We couldn’t process the upload. Please review the highlighted fields.")
@@ -212,4 +257,278 @@ describe("NewsletterGeneratorPage", () => {
 
     expect(submitButton).not.toBeDisabled();
   });
+
+  it("imports a caption file as the transcript and submits its format", async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: false,
+      json: jest.fn().mockResolvedValue({ errors: [] }),
+    });
+    (globalThis as any).fetch = fetchMock;
+    const user = userEvent.setup();
+    const captions = "WEBVTT\n\n00:00:01.000 --> 00:00:04.000\n<v Priya>We agreed to ship on Friday.\n";
+
+    render(<NewsletterGeneratorPage />);
+
+    await user.upload(
+      screen.getByLabelText(/transcript file/i),
+      new File([captions], "standup.vtt", { type: "text/vtt" })
+    );
+
+    await waitFor(() => expect(screen.getByLabelText(/transcript text/i)).toHaveValue(captions));
+    expect(screen.getByText(/as WebVTT\. Cue numbers and timestamps are removed/)).toBeInTheDocument();
+
+    await user.type(
+      screen.getByLabelText(/summary notes/i),
+      "Discussed roadmap updates and captured three action items."
+    );
+    await user.click(screen.getByRole("button", { name: /generate newsletter/i }));
+
+    await waitFor(() => expect(requestsExcludingConfig(fetchMock)).toHaveLength(1));
+    const [, init] = requestsExcludingConfig(fetchMock)[0];
+    expect((init.body as FormData).get("transcriptFormat")).toBe("webvtt");
+    expect((init.body as FormData).get("transcriptText")).toBe(captions);
+  });
+
+  it("streams stage progress for queued jobs when server-sent events are available", async () => {
+    const fetchMock = jest.fn();
+    (globalThis as any).fetch = fetchMock;
+
+    class FakeEventSource {
+      static instances: FakeEventSource[] = [];
+      listeners: Record<string, (message: { data: string }) => void> = {};
+      onerror: (() => void) | null = null;
+      close = jest.fn();
+
+      constructor(public url: string) {
+        FakeEventSource.instances.push(this);
+      }
+
+      addEventListener(type: string, listener: (message: { data: string }) => void) {
+        this.listeners[type] = listener;
+      }
+
+      emit(type: string, data: unknown) {
+        this.listeners[type]?.({ data: JSON.stringify(data) });
+      }
+    }
+
+    (window as any).EventSource = FakeEventSource;
+
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: jest.fn().mockResolvedValue({ jobId: "job-42" }),
+    });
+
+    try {
+      render(<NewsletterGeneratorPage />);
+
+      const { user } = await fillRequiredFields();
+      await user.click(screen.getByRole("button", { name: /generate newsletter/i }));
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/newsletters?async=true",
+        expect.objectContaining({ method: "POST" }),
+      );
+
+      await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+      const source = FakeEventSource.instances[0];
+      expect(source.url).toBe("/newsletters/jobs/job-42/events");
+
+      act(() => {
+        source.emit("stage", {
+          stage: "summary",
+          status: "completed",
+          timestamp: "2024-05-01T12:00:01.000Z",
+          durationMs: 1500,
+        });
+      });
+
+      const progressList = await screen.findByRole("list", { name: /generation progress/i });
+      expect(within(progressList).getByText("Summarizing recap and transcript")).toBeInTheDocument();
+      expect(within(progressList).getByText("(1.5 s)", { exact: false })).toBeInTheDocument();
+
+      act(() => {
+        source.emit("done", {
+          job: {
+            id: "job-42",
+            status: "failed",
+            createdAt: "2024-05-01T12:00:00.000Z",
+            updatedAt: "2024-05-01T12:00:02.000Z",
+            payload: {
+              meetingRecap: { text: "Recap" },
+              transcript: { text: "Transcript" },
+            },
+            progress: [],
+            errors: [{ field: "form", message: "Unable to assemble newsletter content." }],
+          },
+        });
+      });
+
+      expect(await screen.findByText("Unable to assemble newsletter content.")).toBeInTheDocument();
+      expect(source.close).toHaveBeenCalled();
+    } finally {
+      delete (window as any).EventSource;
+    }
+  });
+  it("reloads a saved draft from the address bar and saves section edits", async () => {
+    const fetchMock = jest.fn();
+    (globalThis as any).fetch = fetchMock;
+
+    const sections = {
+      introduction: { id: "introduction", title: "Introduction", body: "Saved intro copy." },
+      mainUpdates: [],
+      actionItems: { id: "action-items", title: "Action Items", body: "", items: [] },
+      closing: { id: "closing", title: "Closing", body: "Thanks!" },
+      freeformTopic: { title: "Additional Topic", body: "Freeform copy." },
+    };
+
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) => ({
+      ok: true,
+      status: 200,
+      json: async () =>
+        init?.method === "PUT"
+          ? { draft: {} }
+          : {
+              draft: {
+                id: "draft-7",
+                createdAt: "2024-05-01T12:00:00.000Z",
+                updatedAt: "2024-05-01T12:00:00.000Z",
+                payload: {
+                  meetingRecap: { text: "Saved recap text." },
+                  transcript: { text: "Saved transcript text." },
+                },
+                newsletter: {
+                  sections,
+                  metadata: { createdAt: "2024-05-01T12:00:00.000Z", audioSummaryIncluded: false },
+                },
+                sections,
+              },
+            },
+    }));
+
+    window.history.replaceState(null, "", "/?draft=draft-7");
+
+    try {
+      render(<NewsletterGeneratorPage />);
+
+      expect(await screen.findByDisplayValue("Saved intro copy.")).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/newsletters/draft-7",
+        expect.objectContaining({ method: "GET" }),
+      );
+      expect(screen.getByLabelText(/summary notes/i)).toHaveValue("Saved recap text.");
+
+      const user = userEvent.setup();
+      const introEditor = screen.getByDisplayValue("Saved intro copy.").closest("section");
+      expect(introEditor).not.toBeNull();
+
+      const introScope = within(introEditor as HTMLElement);
+      await user.type(introScope.getByLabelText(/section body/i), " Updated.");
+      await user.click(introScope.getByRole("button", { name: /save edits/i }));
+
+      await waitFor(() =>
+        expect(fetchMock).toHaveBeenCalledWith(
+          "/newsletters/draft-7",
+          expect.objectContaining({ method: "PUT" }),
+        ),
+      );
+
+      const putCall = fetchMock.mock.calls.find(([, init]) => init?.method === "PUT");
+      expect(JSON.parse(putCall?.[1].body).sections.introduction.body).toBe(
+        "Saved intro copy. Updated.",
+      );
+      expect(await screen.findByText("Draft saved.")).toBeInTheDocument();
+    } finally {
+      window.history.replaceState(null, "", "/");
+    }
+  });
+
+  it("keeps edits made to other sections while one is regenerating", async () => {
+    const fetchMock = jest.fn();
+    (globalThis as any).fetch = fetchMock;
+
+    const sections = {
+      introduction: { id: "introduction", title: "Introduction", body: "Saved intro copy." },
+      mainUpdates: [],
+      actionItems: { id: "action-items", title: "Action Items", body: "", items: [] },
+      closing: { id: "closing", title: "Closing", body: "Thanks!" },
+      freeformTopic: { title: "Additional Topic", body: "Freeform copy." },
+    };
+    let finishRegeneration: (body: unknown) => void = () => undefined;
+
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url.endsWith("/regenerate")) {
+        const body = await new Promise((resolve) => {
+          finishRegeneration = resolve;
+        });
+        return { ok: true, status: 200, json: async () => body };
+      }
+
+      return {
+        ok: true,
+        status: 200,
+        json: async () =>
+          init?.method === "PUT"
+            ? { draft: {} }
+            : {
+                draft: {
+                  id: "draft-7",
+                  createdAt: "2024-05-01T12:00:00.000Z",
+                  updatedAt: "2024-05-01T12:00:00.000Z",
+                  payload: {
+                    meetingRecap: { text: "Saved recap text." },
+                    transcript: { text: "Saved transcript text." },
+                  },
+                  newsletter: {
+                    sections,
+                    metadata: {
+                      createdAt: "2024-05-01T12:00:00.000Z",
+                      audioSummaryIncluded: false,
+                    },
+                  },
+                  sections,
+                },
+              },
+      };
+    });
+
+    window.history.replaceState(null, "", "/?draft=draft-7");
+
+    try {
+      render(<NewsletterGeneratorPage />);
+
+      const user = userEvent.setup();
+      const introEditor = (await screen.findByDisplayValue("Saved intro copy.")).closest(
+        "section",
+      ) as HTMLElement;
+      const closingEditor = screen.getByDisplayValue("Thanks!").closest("section") as HTMLElement;
+
+      await user.click(within(introEditor).getByRole("button", { name: /^regenerate$/i }));
+      await waitFor(() =>
+        expect(fetchMock).toHaveBeenCalledWith(
+          "/newsletters/draft-7/sections/introduction/regenerate",
+          expect.objectContaining({ method: "POST" }),
+        ),
+      );
+
+      await user.type(within(closingEditor).getByLabelText(/section body/i), " See you soon.");
+      await user.click(within(closingEditor).getByRole("button", { name: /save edits/i }));
+
+      await act(async () => {
+        finishRegeneration({
+          section: { id: "introduction", title: "Introduction", body: "Regenerated intro." },
+        });
+      });
+
+      await waitFor(() =>
+        expect(fetchMock.mock.calls.filter(([, init]) => init?.method === "PUT")).toHaveLength(2),
+      );
+      const lastPut = fetchMock.mock.calls.filter(([, init]) => init?.method === "PUT").pop();
+      const saved = JSON.parse(lastPut?.[1].body).sections;
+      expect(saved.introduction.body).toBe("Regenerated intro.");
+      expect(saved.closing.body).toBe("Thanks! See you soon.");
+    } finally {
+      window.history.replaceState(null, "", "/");
+    }
+  });
 });